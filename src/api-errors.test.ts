@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { ApiError, decodeRevert, toApiError } from "./api-errors";
+
+const coder   = ethers.AbiCoder.defaultAbiCoder();
+const SPENDER = "0x" + "cd".repeat(20);
+
+const errorString = (reason: string) => ethers.id("Error(string)").slice(0, 10) + coder.encode(["string"], [reason]).slice(2);
+const panic       = (code: number)   => ethers.id("Panic(uint256)").slice(0, 10) + coder.encode(["uint256"], [code]).slice(2);
+const allowance   = new ethers.Interface(["error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)"])
+  .encodeErrorResult("ERC20InsufficientAllowance", [SPENDER, 5, 10]);
+
+/** An ethers CALL_EXCEPTION with the revert data where the node nests it */
+const reverted = (data: string | null, reason: string | null = null) =>
+  ({ code: "CALL_EXCEPTION", reason, info: { error: { data } }, transaction: { hash: "0xfeed" } });
+
+test("decodeRevert reads Error(string), Panic and custom errors", () => {
+  assert.deepEqual(decodeRevert(reverted(errorString("not KYB"))), {
+    name: "Error", reason: "not KYB", args: { "0": "not KYB" }, data: errorString("not KYB"),
+  });
+  assert.equal(decodeRevert({ data: panic(0x11) })!.reason, "arithmetic overflow");
+  assert.equal(decodeRevert({ data: panic(0x99) })!.reason, "panic 0x99");
+
+  const custom = decodeRevert({ error: { data: { data: allowance } } })!;
+  assert.equal(custom.name, "ERC20InsufficientAllowance");
+  assert.equal(custom.reason, "ERC20InsufficientAllowance(address,uint256,uint256)");
+  assert.deepEqual(custom.args, { spender: ethers.getAddress(SPENDER), allowance: "5", needed: "10" });
+});
+
+test("decodeRevert keeps a bare revert and ignores other errors", () => {
+  assert.deepEqual(decodeRevert(reverted(null, "wrong status")), { name: null, reason: "wrong status", args: {}, data: null });
+  assert.equal(decodeRevert(new Error("boom")), null);
+  assert.equal(decodeRevert({ code: "NETWORK_ERROR", data: "0x" }), null);
+});
+
+test("revert reasons map to their codes", () => {
+  const cases: [unknown, string][] = [
+    [reverted(errorString("not KYB")),          "NOT_KYB"],
+    [reverted(errorString("Quote Expired")),    "QUOTE_EXPIRED"],
+    [reverted(errorString("zero amount")),      "INVALID_PARAMS"],
+    [reverted(errorString("not USYC deal")),    "WRONG_COLLATERAL_TYPE"],
+    [reverted(errorString("rate lock expired")), "RATE_LOCK_EXPIRED"],
+    [reverted(errorString("bad nonce")),        "BAD_ORACLE_NONCE"],
+    [reverted(null, "not open"),                "RFQ_NOT_OPEN"],
+    [reverted(allowance),                       "INSUFFICIENT_ALLOWANCE"],
+    [reverted(panic(0x12)),                     "CONTRACT_PANIC"],
+    [reverted(errorString("something new")),    "CONTRACT_REVERTED"],
+  ];
+  for (const [err, code] of cases) assert.equal(toApiError(err).code, code, JSON.stringify(err));
+
+  const e = toApiError(reverted(errorString("not KYB")));
+  assert.equal(e.status, 403);
+  assert.equal(e.message, "not KYB");
+  assert.equal(e.txHash, "0xfeed");
+  assert.equal((e.data as any).revert.reason, "not KYB");
+});
+
+test("errors that are not reverts keep their status or get a transport code", () => {
+  const existing = new ApiError("NOT_FOUND", "no such deal");
+  assert.equal(toApiError(existing), existing);
+  assert.equal(toApiError(Object.assign(new Error("signer not found"), { status: 404 })).code, "NOT_FOUND");
+  assert.equal(toApiError({ code: "INSUFFICIENT_FUNDS", shortMessage: "insufficient funds" }).code, "INSUFFICIENT_GAS_FUNDS");
+  assert.equal(toApiError({ code: "REPLACEMENT_UNDERPRICED" }).code, "NONCE_CONFLICT");
+  assert.equal(toApiError({ code: "TIMEOUT" }).code, "RPC_ERROR");
+  const internal = toApiError(new Error("boom"));
+  assert.equal(internal.code, "INTERNAL_ERROR");
+  assert.equal(internal.status, 500);
+  assert.equal(internal.message, "boom");
+});
@@ -0,0 +1,258 @@
+/**
+ * API errors and response envelope
+ * Every route answers { success, code, message, data, txHash }. `code` is
+ * stable — integrators branch on it; `message` is for people and may change.
+ *
+ * Contract writes are preflighted with an eth_call (preflight()) so a revert
+ * comes back before gas estimation or a nonce is spent. Revert data is decoded
+ * — Error(string), Panic(uint256) and custom errors — and the reason mapped to
+ * a code below; unmapped reverts are CONTRACT_REVERTED with the raw reason.
+ */
+
+import { ethers, Interface, ErrorDescription } from "ethers";
+import type { Response } from "express";
+import { ABI } from "./bindings";
+import { MoneyError } from "./money";
+import { RateError } from "./fx-rates";
+import { StatementParseError } from "./statement-parsers";
+
+// ─── Codes ────────────────────────────────────────────────────────────────────
+export const ERROR_CODES = {
+  // Request
+  VALIDATION_ERROR:        { status: 400, message: "request is invalid" },
+  UNAUTHENTICATED:         { status: 401, message: "authentication required" },
+  FORBIDDEN:               { status: 403, message: "client is not allowed to perform this action" },
+  NOT_FOUND:               { status: 404, message: "not found" },
+  CONFLICT:                { status: 409, message: "conflicts with the current state" },
+  IDEMPOTENCY_KEY_REUSED:  { status: 422, message: "Idempotency-Key was already used for a different request" },
+  REQUEST_IN_PROGRESS:     { status: 409, message: "a request with this Idempotency-Key is still in progress" },
+  UNPROCESSABLE:           { status: 422, message: "request cannot be processed" },
+
+  // Contract (require strings in BFPay.sol, ERC-20 errors)
+  NOT_KYB:                 { status: 403, message: "address is not KYB approved" },
+  NOT_OWNER:               { status: 403, message: "only the contract owner may do this" },
+  NOT_ORACLE:              { status: 403, message: "signer is not a registered oracle" },
+  NOT_BORROWER:            { status: 403, message: "only the deal's borrower may do this" },
+  INVALID_PARAMS:          { status: 400, message: "contract rejected the parameters" },
+  FEE_TOO_HIGH:            { status: 400, message: "fee is above the contract maximum" },
+  INVALID_QUOTE:           { status: 422, message: "quote is above the RFQ's max fee or the RFQ is closed" },
+  QUOTE_EXPIRED:           { status: 409, message: "quote has expired" },
+  RFQ_NOT_OPEN:            { status: 409, message: "RFQ is closed or the quote was already accepted" },
+  DEAL_NOT_ACTIVE:         { status: 409, message: "deal is not ACTIVE" },
+  DEAL_WRONG_STATUS:       { status: 409, message: "deal is not in the status this action needs" },
+  DEAL_NOT_REPAID:         { status: 409, message: "deal is not REPAID" },
+  WRONG_COLLATERAL_TYPE:   { status: 409, message: "deal uses a different collateral type" },
+  ALREADY_REDEEMED:        { status: 409, message: "collateral was already redeemed" },
+  RATE_ALREADY_LOCKED:     { status: 409, message: "an FX rate is already locked for this deal" },
+  RATE_NOT_LOCKED:         { status: 409, message: "no FX rate is locked for this deal" },
+  RATE_LOCK_EXPIRED:       { status: 409, message: "the locked FX rate has expired" },
+  RATE_STALE:              { status: 503, message: "the on-chain FX feed is stale" },
+  INSUFFICIENT_ALLOWANCE:  { status: 422, message: "token allowance does not cover the amount" },
+  INSUFFICIENT_BALANCE:    { status: 422, message: "token balance does not cover the amount" },
+  BAD_ORACLE_NONCE:        { status: 409, message: "oracle nonce is out of date" },
+  BAD_SIGNATURE:           { status: 422, message: "attestation signature does not match the oracle" },
+  CONTRACT_PANIC:          { status: 500, message: "contract panicked" },
+  CONTRACT_REVERTED:       { status: 422, message: "contract call reverted" },
+
+  // Chain / dependencies
+  INSUFFICIENT_GAS_FUNDS:  { status: 503, message: "signer cannot pay for gas" },
+  NONCE_CONFLICT:          { status: 409, message: "transaction nonce was already used or underpriced" },
+  RPC_ERROR:               { status: 502, message: "blockchain node unavailable" },
+  RATE_UNAVAILABLE:        { status: 503, message: "no FX rate available" },
+  UPSTREAM_ERROR:          { status: 502, message: "upstream provider failed" },
+  SERVICE_DISABLED:        { status: 503, message: "feature is disabled" },
+  INTERNAL_ERROR:          { status: 500, message: "internal error" },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/** Success codes: 200 OK, 201 CREATED, 202 SUBMITTED (tx broadcast, poll /api/tx/:id) */
+export type SuccessCode = "OK" | "CREATED" | "SUBMITTED";
+
+export type Envelope<T = unknown> = {
+  success: boolean;
+  code:    ErrorCode | SuccessCode;
+  message: string;
+  data:    T | null;
+  txHash:  string | null;
+};
+
+export class ApiError extends Error {
+  readonly code:   ErrorCode;
+  readonly status: number;
+  readonly data:   unknown;
+  readonly txHash: string | null;
+
+  constructor(code: ErrorCode, message?: string, opts: { data?: unknown; txHash?: string | null } = {}) {
+    super(message ?? ERROR_CODES[code].message);
+    this.code   = code;
+    this.status = ERROR_CODES[code].status;
+    this.data   = opts.data ?? null;
+    this.txHash = opts.txHash ?? null;
+  }
+}
+
+// ─── Revert decoding ──────────────────────────────────────────────────────────
+
+/** Custom errors from the tokens we touch; BFPay's own come from the bindings ABI */
+const TOKEN_ERRORS = [
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error OwnableUnauthorizedAccount(address account)",
+];
+const errorIface = new Interface([...ABI.filter(f => f.startsWith("error ")), ...TOKEN_ERRORS]);
+
+const CUSTOM_ERROR_CODES: Record<string, ErrorCode> = {
+  ERC20InsufficientAllowance: "INSUFFICIENT_ALLOWANCE",
+  ERC20InsufficientBalance:   "INSUFFICIENT_BALANCE",
+  OwnableUnauthorizedAccount: "NOT_OWNER",
+};
+
+/** require() reason → code, first match wins */
+const REASON_CODES: [RegExp, ErrorCode][] = [
+  [/^not KYB$/i,                                      "NOT_KYB"],
+  [/^not owner$/i,                                    "NOT_OWNER"],
+  [/^not oracle$/i,                                   "NOT_ORACLE"],
+  [/^not borrower$/i,                                 "NOT_BORROWER"],
+  [/^(invalid params|zero amount)$/i,                 "INVALID_PARAMS"],
+  [/^fee too high$/i,                                 "FEE_TOO_HIGH"],
+  [/^invalid quote$/i,                                "INVALID_QUOTE"],
+  [/^quote expired$/i,                                "QUOTE_EXPIRED"],
+  [/^not open$/i,                                     "RFQ_NOT_OPEN"],
+  [/^not active$/i,                                   "DEAL_NOT_ACTIVE"],
+  [/^wrong status$/i,                                 "DEAL_WRONG_STATUS"],
+  [/^not repaid$/i,                                   "DEAL_NOT_REPAID"],
+  [/^not (USYC|USDC) (deal|position)$/i,              "WRONG_COLLATERAL_TYPE"],
+  [/^already redeemed$/i,                             "ALREADY_REDEEMED"],
+  [/^already locked$/i,                               "RATE_ALREADY_LOCKED"],
+  [/^no rate locked$/i,                               "RATE_NOT_LOCKED"],
+  [/rate (lock )?expired|lock expired/i,              "RATE_LOCK_EXPIRED"],
+  [/^(stale|zero) rate$/i,                            "RATE_STALE"],
+  [/insufficient allowance|exceeds allowance|usdc pull failed/i, "INSUFFICIENT_ALLOWANCE"],
+  [/insufficient balance|exceeds balance/i,           "INSUFFICIENT_BALANCE"],
+  [/^bad nonce$/i,                                    "BAD_ORACLE_NONCE"],
+  [/^bad sig$/i,                                      "BAD_SIGNATURE"],
+];
+
+export type DecodedRevert = {
+  name:   string | null;             // "Error", "Panic" or the custom error name
+  reason: string | null;             // require string, panic description or custom error signature
+  args:   Record<string, string>;
+  data:   string | null;             // raw revert data
+};
+
+/** Revert data from an ethers error — top level or nested in the node's JSON-RPC error */
+function revertData(err: any): string | null {
+  for (const d of [err?.data, err?.info?.error?.data, err?.error?.data, err?.info?.error?.data?.data, err?.error?.data?.data]) {
+    if (typeof d === "string" && ethers.isHexString(d) && d.length >= 10) return d;
+  }
+  return null;
+}
+
+const PANICS: Record<number, string> = {
+  0x01: "assertion failed", 0x11: "arithmetic overflow", 0x12: "division by zero",
+  0x21: "invalid enum value", 0x32: "array index out of bounds",
+};
+
+/** null when `err` is not a contract revert */
+export function decodeRevert(err: any): DecodedRevert | null {
+  const data = revertData(err);
+  let parsed: ErrorDescription | null = null;
+  if (data) {
+    try { parsed = errorIface.parseError(data); } catch { parsed = null; }
+  }
+  if (parsed) {
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => { args[input.name || String(i)] = String(parsed!.args[i]); });
+    const reason = parsed.name === "Error"  ? String(parsed.args[0])
+                 : parsed.name === "Panic"  ? PANICS[Number(parsed.args[0])] ?? `panic 0x${Number(parsed.args[0]).toString(16)}`
+                 : parsed.signature;
+    return { name: parsed.name, reason, args, data };
+  }
+  if (err?.code === "CALL_EXCEPTION" || data) {
+    // A bare require() reverts with no data; ethers may still have a reason from the node
+    return { name: null, reason: err?.reason ?? null, args: {}, data };
+  }
+  return null;
+}
+
+function revertCode(revert: DecodedRevert): ErrorCode {
+  if (revert.name === "Panic") return "CONTRACT_PANIC";
+  if (revert.name && CUSTOM_ERROR_CODES[revert.name]) return CUSTOM_ERROR_CODES[revert.name];
+  const hit = revert.reason ? REASON_CODES.find(([re]) => re.test(revert.reason!)) : undefined;
+  return hit ? hit[1] : "CONTRACT_REVERTED";
+}
+
+// ─── Mapping ──────────────────────────────────────────────────────────────────
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: "VALIDATION_ERROR", 401: "UNAUTHENTICATED", 403: "FORBIDDEN", 404: "NOT_FOUND",
+  409: "CONFLICT", 422: "UNPROCESSABLE", 502: "UPSTREAM_ERROR", 503: "SERVICE_DISABLED",
+};
+
+/**
+ * Any thrown value → ApiError. Contract reverts are decoded; the module
+ * errors that carry an HTTP `status` (SignerError, RepaymentError, …) keep
+ * it; ethers transport errors get their own codes; the rest is INTERNAL_ERROR.
+ */
+export function toApiError(err: any): ApiError {
+  if (err instanceof ApiError) return err;
+
+  const revert = decodeRevert(err);
+  if (revert) {
+    const code = revertCode(revert);
+    return new ApiError(code, revert.reason ?? ERROR_CODES[code].message, {
+      data: { revert }, txHash: err?.receipt?.hash ?? err?.transaction?.hash ?? null,
+    });
+  }
+
+  if (err instanceof MoneyError || err instanceof StatementParseError) return new ApiError("VALIDATION_ERROR", err.message);
+  if (err instanceof RateError) return new ApiError("RATE_UNAVAILABLE", err.message, { data: { reason: err.code } });
+  if (typeof err?.status === "number") return new ApiError(STATUS_CODES[err.status] ?? "INTERNAL_ERROR", err.message);
+
+  switch (err?.code) {
+    case "INSUFFICIENT_FUNDS":      return new ApiError("INSUFFICIENT_GAS_FUNDS", err.shortMessage);
+    case "NONCE_EXPIRED":
+    case "REPLACEMENT_UNDERPRICED": return new ApiError("NONCE_CONFLICT", err.shortMessage);
+    case "NETWORK_ERROR":
+    case "SERVER_ERROR":
+    case "TIMEOUT":                 return new ApiError("RPC_ERROR", err.shortMessage);
+  }
+  return new ApiError("INTERNAL_ERROR", err?.shortMessage ?? err?.message ?? String(err));
+}
+
+// ─── Preflight ────────────────────────────────────────────────────────────────
+
+/**
+ * eth_call the write as `from` and throw the decoded ApiError if it would
+ * revert. Transport failures are left to the real submission.
+ */
+export async function preflight(runner: ethers.Signer, tx: { from: string; to: string; data: string; value?: bigint }): Promise<void> {
+  const provider = runner.provider;
+  if (!provider) return;
+  try {
+    await provider.call({ from: tx.from, to: tx.to, data: tx.data, value: tx.value });
+  } catch (err: any) {
+    if (decodeRevert(err)) throw toApiError(err);
+    throw err;
+  }
+}
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+export const SUCCESS_CODES: Record<number, SuccessCode> = { 200: "OK", 201: "CREATED", 202: "SUBMITTED" };
+
+export function sendOk<T>(res: Response, data: T | null = null, opts: { status?: number; message?: string; txHash?: string | null } = {}) {
+  const status = opts.status ?? 200;
+  const body: Envelope<T> = {
+    success: true, code: SUCCESS_CODES[status] ?? "OK", message: opts.message ?? "",
+    data, txHash: opts.txHash ?? null,
+  };
+  res.status(status).json(body);
+}
+
+export function sendError(res: Response, err: unknown) {
+  const e = toApiError(err);
+  const body: Envelope = { success: false, code: e.code, message: e.message, data: e.data ?? null, txHash: e.txHash };
+  res.status(e.status).json(body);
+}
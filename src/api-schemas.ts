@@ -0,0 +1,311 @@
+/**
+ * Shared request fields and response models for the REST API
+ *
+ * Route-specific shapes live next to their routes in app.ts; anything used by
+ * more than one route, and every response model, is here so the OpenAPI
+ * document (schema.ts) names it once under components.schemas.
+ *
+ * Response amounts follow the payloads: base-unit integer strings (NGN whole
+ * naira, USD / USDC × 1e6, USYC × 1e18), rates NGN per USDC × 1e6.
+ */
+
+import { s, Schema } from './schema';
+import { WEBHOOK_EVENT_TYPES } from './webhooks';
+import { ROLES } from './auth';
+
+// ─── Request fields ───────────────────────────────────────────────────────────
+export const signerId = s.string({ min: 1, max: 64, description: 'Signer to write as — one of GET /api/signers' });
+
+/** Per-day fee; the contract caps it at MAX_FEE_BPS (0.30%/day) */
+export const feeBPS = s.int({ min: 0, max: 30, description: 'Fee in basis points per day (max 30)' });
+
+export const dealIdParam = { id: s.bytes32({ description: 'Deal id' }) };
+export const rfqIdParam  = { id: s.bytes32({ description: 'RFQ id' }) };
+
+export const paging = {
+  page:     s.optional(s.int({ min: 1 })),
+  pageSize: s.optional(s.int({ min: 1, max: 100 })),
+};
+
+/** Bounded `limit` query param */
+export const limit = (max = 500) => s.optional(s.int({ min: 1, max }));
+
+export const nuban = s.string({ pattern: /^\d{10}$/, hint: 'a 10-digit NUBAN' });
+
+/** Former per-request token / teller overrides; the addresses now come only from env */
+export const usycAddresses = {
+  tokenAddress:        s.forbidden('the USDC token is USDC_ADDRESS'),
+  usycContractAddress: s.forbidden('the USYC token is USYC_ADDRESS'),
+  contractAddress:     s.forbidden('the USYC teller is USYC_TELLER_ADDRESS'),
+};
+
+export const webhookEventType = s.oneOf([...WEBHOOK_EVENT_TYPES, '*']);
+export const role = s.oneOf(ROLES);
+
+// ─── Response building blocks ─────────────────────────────────────────────────
+const str    = s.string();
+const int    = s.int();
+const flag   = s.bool();
+const when   = s.date();
+const addr   = s.string({ description: 'Address' });
+const hash   = s.string({ description: '0x-hex' });
+const units  = (description: string) => s.string({ pattern: /^-?\d+$/, description });
+const opt    = <T>(schema: Schema<T>) => s.nullable(schema);
+
+// ─── Contract views ───────────────────────────────────────────────────────────
+const DEAL_FIELDS = {
+  id: hash, rfqId: hash, borrower: addr, lender: addr,
+  amountNGN: units('NGN'), collateralUSD: units('USD × 1e6'), feeBPS: int, openedAt: when, tenorDays: int,
+  healthFactor: s.string({ description: 'Health factor to 4 dp, e.g. "1.6200"' }),
+  healthState: str, collType: str, status: str, fiatPayoutRef: str, fiatRepayRef: str,
+};
+
+const RFQ_FIELDS = {
+  id: hash, borrower: addr, amountNGN: units('NGN'), tenorDays: int, maxFeeBPS: int, collType: str,
+  collateralUSD: units('USD × 1e6'), createdAt: when, open: flag,
+};
+
+export const Deal  = s.ref('Deal', s.object(DEAL_FIELDS));
+export const Quote = s.ref('Quote', s.object({
+  index: int, rfqId: hash, lender: addr, feeBPS: int, validUntil: when, accepted: flag, expired: flag,
+}));
+export const RFQ = s.ref('RFQ', s.object(RFQ_FIELDS));
+
+export const Position = s.ref('Position', s.object({
+  collType: str, usycTokens: units('USYC × 1e18'), usdcDeposited: units('USDC × 1e6'),
+  usdcValueAtLock: units('USDC × 1e6'), depositedAt: opt(when),
+}));
+
+export const LockedRate = s.ref('LockedRate', s.object({
+  ngnPerUsdc: units('NGN per USDC × 1e6'), lockedAt: opt(when), expiresAt: opt(when), active: flag,
+}));
+
+export const Attestation = s.ref('Attestation', s.object({
+  collateralUSD: units('USD × 1e6'), drawnNGN: units('NGN'), yieldAccruedUSDC: units('USDC × 1e6'),
+  netFeeNGN: units('NGN'), healthFactor: str, healthState: str, timestamp: when, oracle: addr,
+}));
+
+export const DealDocument = s.ref('DealDocument', s.object({
+  ...DEAL_FIELDS,
+  position: Position,
+  rate:     LockedRate,
+  fee:      s.object({ grossFeeNGN: units('NGN'), yieldOffsetNGN: units('NGN'), netFeeNGN: units('NGN'), daysElapsed: int }),
+  yield:    s.object({
+    usycTokens: units('USYC × 1e18'), originalUSDC: units('USDC × 1e6'), currentUSDC: units('USDC × 1e6'),
+    yieldUSDC: units('USDC × 1e6'), aprBPS: int,
+  }),
+  creditLineNGN: opt(units('NGN; null until a rate is locked')),
+  history:       s.array(Attestation),
+  display:       s.record(str, { description: 'Formatted copies of the amounts' }),
+}));
+
+export const RFQDocument = s.ref('RFQDocument', s.object({ ...RFQ_FIELDS, quotes: s.array(Quote) }));
+
+const page = <T>(item: Schema<T>) => s.object({ items: s.array(item), total: int, page: int, pageSize: int });
+export const DealPage = s.ref('DealPage', page(DealDocument));
+export const RFQPage  = s.ref('RFQPage', page(RFQDocument));
+
+// ─── Writes ───────────────────────────────────────────────────────────────────
+/** 202 body for contract writes; poll GET /api/tx/{txId} for the outcome */
+export const Submitted = s.ref('Submitted', s.object({
+  txId:   opt(s.string({ description: 'tx_journal id' })),
+  status: s.oneOf(['SUBMITTED']),
+  approvalTxId: opt(s.string({ description: 'Collateral deposits: the USDC approval sent ahead, when one was needed' })),
+}));
+
+export const TxRecord = s.ref('TxRecord', s.object({
+  txId: str, signerId: str, from: addr, nonce: opt(int), purpose: str, refId: opt(hash), to: addr,
+  status: s.oneOf(['SUBMITTED', 'CONFIRMED', 'REVERTED', 'CANCELLED', 'FAILED']),
+  txHash: opt(hash),
+  broadcasts: s.array(s.object({ hash, kind: s.oneOf(['original', 'speed-up', 'cancel']), at: when })),
+  gasLimit: opt(str), receipt: s.any(), result: s.any({ description: 'Decoded events once mined' }),
+  error: opt(str), createdAt: when, confirmedAt: opt(when),
+}));
+
+export const IndexedEvent = s.ref('IndexedEvent', s.object({
+  id: int, eventName: str, refId: hash, blockNumber: int, blockHash: hash, txHash: hash, logIndex: int,
+  args: s.record(str), confirmed: flag,
+}));
+
+export const FxRate = s.ref('FxRate', s.object({
+  pair: str, rate: units('Quote per base × 1e6'), display: str, sources: s.array(str),
+  outcomes: s.array(s.object({
+    source: str, rate: opt(str), observedAt: opt(when), status: s.oneOf(['used', 'stale', 'outlier', 'error']),
+    error: s.optional(str),
+  })),
+  at: when,
+}));
+
+export const Signer = s.ref('Signer', s.object({
+  id: str, type: s.oneOf(['keystore', 'circle', 'local-kms']), address: addr,
+}));
+
+// ─── Off-chain records ────────────────────────────────────────────────────────
+export const AcceptPolicy = s.ref('AcceptPolicy', s.object({
+  rfqId: hash, signerId: str, clientId: str, maxFeeBPS: int, allowedLenders: opt(s.array(addr)),
+  minWindowSecs: int, acceptEarly: flag, expiresAt: opt(when),
+  status: s.oneOf(['ACTIVE', 'ACCEPTING', 'ACCEPTED', 'EXPIRED', 'CLOSED', 'CANCELLED', 'FAILED']),
+  quoteIndex: opt(int), feeBPS: opt(int), lender: opt(addr), txId: opt(str), dealId: opt(hash),
+  rateLocked: opt(flag), reason: opt(str), createdAt: when, updatedAt: when,
+}));
+
+export const QuoteDecision = s.ref('QuoteDecision', s.object({
+  id: int, rfqId: hash, signerId: str, lender: addr, borrower: addr, amountNGN: units('NGN'), tenorDays: int,
+  collType: str, maxFeeBPS: int, feeBPS: opt(int), decision: s.oneOf(['QUOTING', 'QUOTED', 'DRY_RUN', 'SKIPPED', 'FAILED']),
+  reason: opt(str), breakdown: opt(s.record(s.any(), { description: 'Pricing inputs' })), txId: opt(str), validUntil: opt(when), createdAt: when,
+}));
+
+export const Pricing = s.ref('Pricing', s.object({
+  feeBPS: opt(int), skip: opt(s.string({ description: 'Why no quote would be sent' })),
+  breakdown: s.record(s.any(), { description: 'Pricing inputs' }),
+}));
+
+export const MarginCase = s.ref('MarginCase', s.object({
+  id: int, dealId: hash, status: s.oneOf(['OPEN', 'CURED', 'LIQUIDATED']), openedAt: when, endsAt: when,
+  openedTx: hash, reminderLevel: int, closedAt: opt(when), closedTx: opt(hash),
+}));
+
+export const Payout = s.ref('Payout', s.object({
+  id: str, dealId: hash, borrower: addr, adapter: str, amountNGN: units('NGN'), providerRef: opt(str),
+  fiatRef: opt(str), status: s.oneOf(['HELD', 'PENDING', 'SETTLED', 'CONFIRMED', 'FAILED', 'REVERSED']),
+  flagged: flag, reason: opt(str), confirmTxId: opt(str), attempts: int, createdAt: when, updatedAt: when,
+}));
+
+export const BankTransfer = s.ref('BankTransfer', s.object({
+  providerRef: str, status: s.oneOf(['PENDING', 'SETTLED', 'FAILED', 'REVERSED']),
+  fiatRef: s.optional(str), reason: s.optional(str),
+}));
+
+export const Statement = s.ref('Statement', s.object({
+  id: str, format: s.oneOf(['csv', 'mt940', 'camt053']), accountId: opt(str), statementRef: opt(str),
+  entries: int, credits: int, importedBy: opt(str), importedAt: when,
+}));
+
+export const Credit = s.ref('Credit', s.object({
+  id: str, statementId: str, accountId: opt(str), bookingDate: str, amountKobo: units('NGN × 100'),
+  currency: str, reference: opt(str), narration: str, virtualAccount: opt(str), bankRef: opt(str),
+  status: s.oneOf(['UNMATCHED', 'PARTIAL', 'OVERPAID', 'MATCHED', 'CONFIRMING', 'CONFIRMED', 'FAILED', 'IGNORED']),
+  dealId: opt(hash), matchMethod: opt(s.oneOf(['VIRTUAL_ACCOUNT', 'REFERENCE', 'AMOUNT', 'MANUAL'])),
+  expectedKobo: opt(units('NGN × 100')), reason: opt(str), confirmTxId: opt(str), reviewedBy: opt(str),
+  createdAt: when, updatedAt: when,
+}));
+
+export const ImportSummary = s.ref('ImportSummary', s.object({
+  statement: Statement,
+  duplicate: s.bool({ description: 'Same file imported before' }),
+  skipped:   s.int({ description: 'Entries already seen' }),
+  credits:   s.record(int, { description: 'New credits by status' }),
+}));
+
+const ledgerKind = s.oneOf(['DEAL_OPENED', 'PAYOUT', 'COLLATERAL_IN', 'ACCRUAL', 'REPAYMENT', 'COLLATERAL_OUT', 'LIQUIDATION']);
+const accountType = s.oneOf(['ASSET', 'LIABILITY', 'INCOME', 'EXPENSE']);
+const ledgerCcy = s.oneOf(['NGN', 'USDC']);
+
+export const LedgerEntry = s.ref('LedgerEntry', s.object({
+  id: str, sourceKey: str, kind: ledgerKind, dealId: opt(hash), txHash: opt(hash), fiatRef: opt(str),
+  memo: str, postedAt: when,
+  lines: s.array(s.object({ account: str, currency: ledgerCcy, debit: units('Base units'), credit: units('Base units') })),
+}));
+
+export const TrialBalance = s.ref('TrialBalance', s.object({
+  asOf: when,
+  rows: s.array(s.object({
+    account: str, type: accountType, currency: ledgerCcy, debits: units('Base units'), credits: units('Base units'),
+    balance: units("On the account's normal side"),
+  })),
+  totals: s.record(s.object({ debits: units('Base units'), credits: units('Base units'), balanced: flag }), {
+    description: 'Per currency',
+  }),
+}));
+
+export const LedgerAccount = s.ref('LedgerAccount', s.object({
+  code: str, ownerType: str, owner: str, kind: str, type: accountType, currency: ledgerCcy,
+}));
+
+export const AccountStatement = s.ref('AccountStatement', s.object({
+  account: s.object({ code: str, type: accountType, currency: ledgerCcy }),
+  openingBalance: units('Base units'), closingBalance: units('Base units'),
+  lines: s.array(s.object({
+    entryId: str, kind: ledgerKind, dealId: opt(hash), txHash: opt(hash), fiatRef: opt(str), memo: str,
+    postedAt: when, debit: units('Base units'), credit: units('Base units'), balance: units('Running balance'),
+  })),
+}));
+
+const checkLine = s.object({ field: str, simulated: units('Base units'), onchain: units('Base units'), diff: units('Base units'), match: flag });
+
+export const CollateralCheck = s.ref('CollateralCheck', s.object({
+  checkedAt: when, toleranceBPS: int, consistent: flag,
+  lines: s.array(s.object({
+    dealId: hash, collType: str, ledgerUSDC: units('USDC × 1e6'), onchainUSDC: units('USDC × 1e6'),
+    diff: units('USDC × 1e6'), match: flag,
+  })),
+}));
+
+export const Simulation = s.ref('Simulation', s.object({
+  input:            s.record(s.any()),
+  creditLineNGN:    units('NGN'),
+  withinCreditLine: flag,
+  yieldSummary:     s.object({ originalUSDC: units('USDC × 1e6'), currentUSDC: units('USDC × 1e6'), yieldUSDC: units('USDC × 1e6'), aprBPS: int }),
+  atMaturity:       s.object({
+    days: int, grossFeeNGN: units('NGN'), yieldUSDC: units('USDC × 1e6'), yieldOffsetNGN: units('NGN'), netFeeNGN: units('NGN'),
+  }),
+  schedule: s.array(s.object({
+    day: int, collateralValueUSD: units('USD × 1e6'), grossFeeNGN: units('NGN'), yieldUSDC: units('USDC × 1e6'),
+    yieldOffsetNGN: units('NGN'), netFeeNGN: units('NGN'),
+  })),
+}));
+
+export const SimulationCheck = s.ref('SimulationCheck', s.object({
+  dealId: hash, collType: str, status: str, checkedAt: when, toleranceBPS: int, consistent: flag,
+  lines: s.array(checkLine),
+}));
+
+export const WebhookSubscription = s.ref('WebhookSubscription', s.object({
+  id: int, clientId: str, sourceCode: str, url: str, eventTypes: s.array(str), active: flag,
+}));
+
+export const WalletRecord = s.ref('WalletRecord', s.object({
+  walletId: str, address: addr, blockchain: str, walletSetId: str, customerRef: str, accountType: str,
+  state: str, createdAt: when,
+}));
+
+export const TokenBalance = s.ref('TokenBalance', s.object({
+  tokenId: str, symbol: str, name: opt(str), amount: s.string({ description: 'Decimal string from Circle' }),
+  decimals: opt(int), tokenAddress: opt(addr), blockchain: str, isNative: flag,
+}));
+
+export const Transfer = s.ref('Transfer', s.object({
+  circleTxId: str, externalRef: opt(str), direction: s.oneOf(['OUTBOUND', 'INBOUND']), walletId: opt(str),
+  tokenId: opt(str), sourceAddress: opt(addr), destinationAddress: opt(addr), amount: opt(str),
+  blockchain: opt(str), state: str, txHash: opt(hash), networkFee: opt(str), errorReason: opt(str),
+  final: flag, createdAt: when, updatedAt: when,
+}));
+
+export const SmartWallet = s.ref('SmartWallet', s.object({
+  customerId: str, predictedAddress: addr, walletAddress: opt(addr), owner: addr,
+  dailyLimit: units('Base units'), maxTxAmount: units('Base units'), guardian: addr, signerId: str,
+  txId: opt(str), txHash: opt(hash), status: s.oneOf(['PENDING', 'DEPLOYED', 'FAILED']), error: opt(str),
+  createdAt: when, updatedAt: when,
+}));
+
+const usycBalance = s.object({ balance: units('Base units'), display: str, decimals: int });
+
+export const UsycPosition = s.ref('UsycPosition', s.object({
+  address: addr, usdc: usycBalance, usyc: usycBalance,
+  usycValueUSDC: s.object({ amount: units('USDC × 1e6'), display: str }),
+  preview: s.optional(s.object({
+    side: s.oneOf(['deposit', 'redeem']), amountIn: units('Base units'), amountOut: units('Base units'), display: str,
+  })),
+}));
+
+export const UsycSubmitted = s.ref('UsycSubmitted', s.object({
+  txHash: hash, trackingId: s.string({ description: 'tx_journal id — poll /api/tx/{id}' }),
+  approvalTxId: opt(s.string({ description: 'null when the existing allowance covered the amount' })),
+  amount: units('Base units'),
+  expectedShares: s.optional(units('USYC × 1e18 (deposit)')),
+  expectedAssets: s.optional(units('USDC × 1e6 (redeem)')),
+  full:           s.optional(s.bool({ description: 'Whole balance redeemed' })),
+}));
+
+/** Snake-case database rows returned as stored */
+export const dbRow = (table: string) => s.record(s.any(), { description: table });
@@ -1,10 +1,43 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
 import cors from 'cors'
 import dotenv from 'dotenv';
 import path from 'path';
-import {usycDeposit} from './usyc-mgr'
-import { BFPayClient } from './bfpay';
+import { usycDeposit, usycRedeem, usycPosition, usycPreview } from './usyc-mgr'
+import { BFPayClient, PendingTx, CollType, DealStatus, HealthState, CollTypeName, HealthName, StatusName } from './bfpay';
+import { bindingsScript } from './bindings';
+import { ApiError, ErrorCode, sendOk, sendError } from './api-errors';
 import { ethers } from 'ethers';
+import { BFPayIndexer, getIndexedEvents } from './indexer';
+import { getDealDocument, getRFQDocument, listDeals, listRFQs } from './deal-query';
+import { AttestationDaemon, getAttestationRecords } from './attestor';
+import { MarginCallEngine, listCases, getDealCases } from './margin-calls';
+import {
+  WebhookDispatcher, createSubscription, listSubscriptions, deactivateSubscription,
+  registerParty, listDeliveries, listDeadLetters, replayDelivery,
+} from './webhooks';
+import { createRateAggregatorFromEnv, createRateAuditTable, estimateCreditLineNGN, formatRate } from './fx-rates';
+import { requireRole, captureRawBody, createAuthTables, createApiClient, setClientActive, sourceCodesOf } from './auth';
+import { SignerRegistry, SignerError } from './signers';
+import { TxManager } from './tx-manager';
+import { idempotent, createIdempotencyTable } from './idempotency';
+import {
+  createWalletTables, createCustomerWallet, listCustomerWallets, getWalletRecord, fetchBalances,
+  createTransferTables, getTransferByRef,
+} from './circle-wallet';
+import { WalletFactoryService, WalletFactoryError } from './wallet-factory';
+import { simulateDeal, checkDeal } from './simulator';
+import { QuotingBot, listQuoteDecisions } from './quoting-bot';
+import { AutoAcceptService, AcceptPolicyError, getAcceptPolicy } from './auto-accept';
+import {
+  PayoutService, MockBankAdapter, createPayoutAdapterFromEnv, setBeneficiary, getDealPayout, listPayouts,
+} from './payouts';
+import { RepaymentMatcher, RepaymentError, REVIEW_STATUSES, setDealVirtualAccount, listCredits, listStatements, getCredit } from './repayments';
+import { StatementParseError } from './statement-parsers';
+import { Money, Rate } from './money';
+import { LedgerPoster, getTrialBalance, listAccounts, getAccountStatement, getDealEntries, checkCollateral } from './ledger';
+import { CircleTransferReconciler, CircleNotificationError, verifyCircleNotification, handleCircleNotification } from './circle-transfers';
+import { s, validate, openApiDocument } from './schema';
+import * as api from './api-schemas';
 
 
 
@@ -16,127 +49,1586 @@ const PORT = process.env.PORT;
 const origins = process.env.CORS_ORIGIN
 
 const app = express();
-app.use(express.json())
+// Statements arrive as JSON-wrapped files, well past the default 100kb
+app.use('/api/statements', express.json({ verify: captureRawBody, limit: process.env.STATEMENT_MAX_SIZE ?? '5mb' }))
+app.use(express.json({ verify: captureRawBody }))
 app.use(cors());
 app.use(express.static(path.join(__dirname, '..', 'public')));
 
 const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
-const wallet   = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
-const client   = new BFPayClient(process.env.CONTRACT!, process.env.PRIVATE_KEY!, process.env.RPC_URL!);
+const signers  = new SignerRegistry(provider);
+const txm      = new TxManager(signers);
+// Before the services below, which bind their signers through boundClient
+const signerClients = new Map<string, BFPayClient>();
+// Read-only — every write goes through the signer named in the request (signerClient)
+const client   = new BFPayClient(process.env.CONTRACT!, new ethers.VoidSigner(ethers.ZeroAddress, provider));
+const indexer  = new BFPayIndexer(process.env.CONTRACT!, provider);
+const margin   = new MarginCallEngine(client);
+const webhooks = new WebhookDispatcher(client, {
+  // The RFQ's borrower is the client whose signer sent the createRFQ tx
+  submitterParties: async (txHash, from) => {
+    const tx = await txm.findByHash(txHash);
+    if (!tx || tx.from.toLowerCase() !== from.toLowerCase()) return [];
+    return signerParties(tx.signerId);
+  },
+});
+margin.addNotifier(async (c, level, message) => {
+  const rfqId = await webhooks.rfqIdForDeal(c.dealId);
+  if (rfqId) await webhooks.publish(rfqId, 'deal.margin_call_reminder', `margin:${c.id}:${level}:${c.status}`, {
+    dealId: c.dealId, caseId: c.id, status: c.status, level, message, endsAt: c.endsAt.toISOString(),
+  });
+});
+const rates    = createRateAggregatorFromEnv();
+const oracleId = process.env.ORACLE_SIGNER_ID ?? 'oracle';
+const attestor = process.env.ATTESTOR_ENABLED === 'true'
+  ? new AttestationDaemon(new BFPayClient(process.env.CONTRACT!, signers.get(oracleId), undefined, { manager: txm, signerId: oracleId }), {
+      // NGN per USD × 1e6, e.g. 1580000000 for ₦1,580
+      getRate: async () => (await rates.getRate('USDC', 'NGN')).rate,
+    })
+  : null;
+
+const quotingBot = process.env.QUOTING_BOT_ENABLED === 'true'
+  ? new QuotingBot(client, id => boundClient(id), signerParties)
+  : null;
+
+const autoAccept = new AutoAcceptService(client, id => boundClient(id));
+
+const payoutAdapter = createPayoutAdapterFromEnv();
+const payouts = payoutAdapter && process.env.PAYOUTS_ENABLED === 'true'
+  ? new PayoutService(client, boundClient(process.env.PAYOUT_SIGNER_ID ?? oracleId), payoutAdapter)
+  : null;
+payouts?.addNotifier(async (p, message) => {
+  const rfqId = await webhooks.rfqIdForDeal(p.dealId);
+  if (rfqId) await webhooks.publish(rfqId, 'deal.payout_failed', `payout:${p.id}:${p.status}:${p.attempts}`, {
+    dealId: p.dealId, status: p.status, amountNGN: p.amountNGN, providerRef: p.providerRef, message,
+  });
+});
+
+const repayments = new RepaymentMatcher(client, () => boundClient(process.env.REPAYMENT_SIGNER_ID ?? oracleId));
+
+const ledger = new LedgerPoster(client);
+
+const circleReconciler = new CircleTransferReconciler();
+const walletFactory    = new WalletFactoryService(txm, provider);
+
+/**
+ * The signer named by `signerId`, if the caller may use it.
+ * Responds with 400/403/404 and returns null otherwise.
+ */
+function usableSigner(req: Request<any>, res: Response, signerId: string | undefined): ethers.Signer | null {
+  try {
+    return signers.authorize(signerId, req.apiClient!);
+  } catch (err: any) {
+    if (!(err instanceof SignerError)) throw err;
+    sendError(res, err);
+    return null;
+  }
+}
+
+/** Client that writes as `signerId` through the TxManager — no access check */
+function boundClient(signerId: string): BFPayClient {
+  let bf = signerClients.get(signerId);
+  if (!bf) {
+    bf = new BFPayClient(process.env.CONTRACT!, signers.get(signerId), undefined, { manager: txm, signerId });
+    signerClients.set(signerId, bf);
+  }
+  return bf;
+}
+
+/** Webhook source codes of the clients listed on a signer */
+function signerParties(signerId: string): Promise<string[]> {
+  return sourceCodesOf(signers.clientsOf(signerId));
+}
+
+/** Client bound to the signer named in body.signerId — see usableSigner */
+function signerClient(req: Request<any>, res: Response): BFPayClient | null {
+  if (!usableSigner(req, res, req.body?.signerId)) return null;
+  return boundClient(req.body.signerId);
+}
+
+/**
+ * Writes answer once broadcast; clients poll /api/tx/:txId for the outcome.
+ * The wait runs on in the background so the method's own result (dealId,
+ * usycMinted, …) is saved next to the receipt.
+ */
+function accepted(res: Response, tx: PendingTx<unknown> & { approvalTxId?: string | null }) {
+  tx.wait().catch(err => console.error(`[Tx] ${tx.txId ?? tx.txHash} not confirmed:`, err.message));
+  const approval = tx.approvalTxId ? { approvalTxId: tx.approvalTxId } : {};
+  sendOk(res, { txId: tx.txId, status: 'SUBMITTED', ...approval }, { status: 202, txHash: tx.txHash });
+}
+
+/** Error response with a taxonomy code (api-errors.ts); message defaults to the code's */
+function fail(res: Response, code: ErrorCode, message?: string) {
+  sendError(res, new ApiError(code, message));
+}
 
 app.get('/', (req, res) => {
   res.send('Hello World!');
 });
 
+// Contract ABI, enums and decoders for the dashboard — the same bindings the server uses
+const BINDINGS_JS = bindingsScript();
+app.get('/bfpay-bindings.js', (req, res) => {
+  res.type('application/javascript').send(BINDINGS_JS);
+});
+
+// Built on first request, once every route below is mounted
+let OPENAPI: object | null = null;
+app.get('/openapi.json', (req, res) => {
+  OPENAPI ??= openApiDocument(app, {
+    title: 'BFPay FX API', version: process.env.npm_package_version ?? '1.0.0',
+    description: 'NGN credit against USDC / USYC collateral. Every response uses the envelope ' +
+      '{ success, code, message, data, txHash }; error codes are listed under components.responses.Error.',
+  });
+  res.json(OPENAPI);
+});
+
 app.listen(PORT, () => {
-  //listenDeposited().catch(console.error);
+  createAuthTables().catch(console.error);
+  createIdempotencyTable().catch(console.error);
+  createWalletTables().catch(console.error);
+  createTransferTables()
+    .then(() => { if (process.env.CIRCLE_RECONCILE_ENABLED !== 'false') circleReconciler.start(); })
+    .catch(console.error);
+  txm.start().catch(console.error);
+  walletFactory.start().catch(console.error);
+  createRateAuditTable().catch(console.error);
+  if (process.env.INDEXER_ENABLED !== 'false') {
+    indexer.start().catch(console.error);
+    margin.start(indexer).catch(console.error);
+    webhooks.start(indexer).catch(console.error);
+    quotingBot?.start(indexer).catch(console.error);
+    autoAccept.start(indexer).catch(console.error);
+    payouts?.start(indexer).catch(console.error);
+    repayments.start(indexer).catch(console.error);
+    ledger.start(indexer).catch(console.error);
+  }
+  if (attestor)
+    attestor.start().catch(console.error);
   return console.log(`Express is listening at http://localhost:${PORT}`);
 });
 
-app.post('/create-wallet', async (req, res) => {
+app.post('/create-wallet', requireRole('admin', 'treasury'), idempotent(), validate({
+  tag: 'Wallets', summary: 'Create a Circle wallet for a customer', status: 201,
+  query: { chain: s.optional(s.string({ min: 1, max: 32 })) },
+  body: {
+    customerRef: s.string({ min: 1, max: 128 }),
+    chain:       s.optional(s.string({ min: 1, max: 32, description: 'e.g. ARC-TESTNET; also accepted as ?chain=' })),
+    name:        s.optional(s.string({ max: 128 })),
+  },
+  response: s.object({ wallet: api.WalletRecord }),
+}), async (req, res) => {
     try {
-  
-      const authHeader = req.headers['authorization']; // lowercase key
-      const sourceCode = req.headers['x-source-code'];
-      const clientId = req.headers['x-client-id'];
-      const clientSecret = req.headers['x-client-secret'];
-  
-      console.log('header ' + sourceCode + ' ' + clientId)
-      const xClientId = process.env.X_CLIENT_ID
-      const xClientSecret = process.env.X_CLIENT_SECRET;
-      const xSourceCode = process.env.X_SOURCE_CODE;
-  
-      console.log('source code ' + xSourceCode + ' ' + xClientId)
-      const chain = req.query.chain
-      const symbol = req.query.symbol
-      var response : any;
-     
-    
-      //res.json(successResponse(response))
-    } catch (error) {
+      const { customerRef, name } = req.body;
+      const chain: string | undefined = req.body.chain ?? req.query.chain;
+      if (!chain) {
+        fail(res, 'VALIDATION_ERROR', 'chain required, e.g. ARC-TESTNET');
+        return;
+      }
+
+      const wallet = await createCustomerWallet(customerRef, chain.toUpperCase(), name);
+      sendOk(res, { wallet }, { status: 201 });
+    } catch (error: any) {
       console.log(`Error creating wallet `)
       console.log(error)
-      res.status(500).json({success:false,error:'error creating wallet ' + error})
+      sendError(res, error.response ? new ApiError('UPSTREAM_ERROR', 'error creating wallet ' + (error.response.data?.message ?? error.message)) : error)
     }
   })
 
-  app.post('/api/rfq/create', async (req, res) => {
+// ─── Quoting bot ──────────────────────────────────────────────────────────────
+// Decisions for the lender signers the caller may use
+app.get('/api/quoting-bot/decisions', requireRole('lender', 'admin'), validate({
+  tag: 'Quoting bot', summary: 'Quote decisions for the lender signers the caller may use',
+  query: { rfqId: s.optional(s.bytes32()), signerId: s.optional(api.signerId), limit: api.limit() },
+  response: s.object({ decisions: s.array(api.QuoteDecision) }),
+}), async (req, res) => {
+  try {
+    const { rfqId, signerId, limit } = req.query as { rfqId?: string; signerId?: string; limit?: number };
+    const usable = signers.usableBy(req.apiClient!);
+    const decisions = await listQuoteDecisions({
+      rfqId, signerIds: signerId ? usable.filter(id => id === signerId) : usable, limit,
+    });
+    sendOk(res, { decisions });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// What each strategy would quote for an RFQ right now; never submits
+app.get('/api/quoting-bot/preview/:rfqId', requireRole('lender', 'admin'), validate({
+  tag: 'Quoting bot', summary: 'What each strategy would quote for an RFQ right now; never submits',
+  params: { rfqId: s.bytes32() },
+  response: s.object({ rfq: api.RFQ, pricing: s.record(api.Pricing, { description: 'By signer id' }) }),
+}), async (req, res) => {
   try {
-    const { amountNGN, tenorDays, maxFeeBPS, collType, collateralUSD } = req.body;
+    if (!quotingBot) { fail(res, 'SERVICE_DISABLED', 'quoting bot disabled (QUOTING_BOT_ENABLED)'); return; }
+    const preview = await quotingBot.preview(req.params.rfqId, signers.usableBy(req.apiClient!));
+    if (!preview) { fail(res, 'NOT_FOUND', 'RFQ not found'); return; }
+    sendOk(res, preview);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
 
-    const rfqId = await client.createRFQ(
-      BigInt(amountNGN),
-      Number(tenorDays),
-      Number(maxFeeBPS),
-      collType,
-      BigInt(collateralUSD)
+// ─── Simulator ────────────────────────────────────────────────────────────────
+app.post('/api/simulate/deal', requireRole(), validate({
+  tag: 'Simulator', summary: 'Fee, yield and credit-line projection for a hypothetical deal',
+  description: 'ltvBPS defaults to the contract\'s, ngnPerUsdc to the live rate.',
+  body: {
+    amountNGN:     s.amount('NGN', { positive: true }),
+    tenorDays:     s.int({ min: 1, max: 3650 }),
+    feeBPS:        api.feeBPS,
+    collType:      s.optional(s.enumName(CollTypeName, { description: 'Default USYC' })),
+    collateralUSD: s.amount('USD', { positive: true }),
+    ltvBPS:        s.optional(s.int({ min: 0, max: 9500 })),
+    usycAprBPS:    s.optional(s.int({ min: 0, max: 10_000 }), Number(process.env.SIM_USYC_APR_BPS ?? 450)),
+    ngnPerUsdc:    s.optional(s.rate()),
+  },
+  response: s.object({ simulation: api.Simulation }),
+}), async (req, res) => {
+  try {
+    const { amountNGN, tenorDays, feeBPS, collType, collateralUSD, ltvBPS, usycAprBPS, ngnPerUsdc } = req.body as {
+      amountNGN: Money; tenorDays: number; feeBPS: number; collType?: CollType; collateralUSD: Money;
+      ltvBPS?: number; usycAprBPS: number; ngnPerUsdc?: Rate;
+    };
+    const simulation = simulateDeal({
+      amountNGN:     amountNGN.units,
+      tenorDays,
+      feeBPS,
+      collType:      CollTypeName[collType ?? CollType.USYC],
+      collateralUSD: collateralUSD.units,
+      ltvBPS:        BigInt(ltvBPS ?? await client.contract.ltvBPS()),
+      usycAprBPS,
+      ngnPerUsdc:    ngnPerUsdc?.value ?? (await rates.getRate('USDC', 'NGN')).rate,
+    });
+    sendOk(res, { simulation });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// Checker mode — simulator figures vs the contract's views for a live deal
+app.get('/api/simulate/deal/:dealId/check', requireRole(), validate({
+  tag: 'Simulator', summary: 'Simulator figures against the contract views for a live deal',
+  params: { dealId: s.bytes32() },
+  query:  { toleranceBPS: s.optional(s.int({ min: 0, max: 10_000 })) },
+  response: api.SimulationCheck,
+}), async (req, res) => {
+  try {
+    const report = await checkDeal(client, req.params.dealId, (req.query as { toleranceBPS?: number }).toleranceBPS);
+    if (!report) { fail(res, 'NOT_FOUND', 'deal not found'); return; }
+    sendOk(res, report);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Customer smart wallets ───────────────────────────────────────────────────
+function factoryError(res: Response, err: any) {
+  if (!(err instanceof WalletFactoryError)) console.error(err);
+  sendError(res, err);
+}
+
+app.get('/api/smart-wallets/:customerId', requireRole('admin', 'treasury'), validate({
+  tag: 'Smart wallets', summary: 'Predicted address, deployed address (if any) and the stored deployment record',
+  params: { customerId: s.string({ min: 1, max: 128 }) },
+  response: s.object({
+    customerId: s.string(), predictedAddress: s.string(), walletAddress: s.nullable(s.string()),
+    deployed: s.bool(), record: s.nullable(api.SmartWallet),
+  }),
+}), async (req, res) => {
+  try {
+    sendOk(res, await walletFactory.lookup(req.params.customerId));
+  } catch (err: any) {
+    factoryError(res, err);
+  }
+})
+
+const usdcLimit = (env: string) => s.optional(s.string({
+  pattern: /^\d+(\.\d+)?$/, hint: 'a decimal USDC amount', description: `USDC, e.g. "10000" (default ${env})`,
+}));
+
+app.post('/api/smart-wallets', requireRole('admin', 'treasury'), idempotent(), validate({
+  tag: 'Smart wallets', summary: 'Deploy a customer smart wallet', status: 202,
+  body: {
+    customerId:  s.string({ min: 1, max: 128 }),
+    owner:       s.address(),
+    dailyLimit:  usdcLimit('SMART_WALLET_DAILY_LIMIT'),
+    maxTxAmount: usdcLimit('SMART_WALLET_MAX_TX'),
+    guardian:    s.optional(s.address({ description: 'Default SMART_WALLET_GUARDIAN' })),
+    signerId:    api.signerId,
+  },
+  response: s.object({
+    status: s.oneOf(['SUBMITTED']), txId: s.string(), txHash: s.string(), gasLimit: s.string(),
+    customerId: s.string(), predictedAddress: s.string(),
+  }),
+}), async (req, res) => {
+  try {
+    const { customerId, owner, dailyLimit, maxTxAmount, guardian, signerId } = req.body;
+    if (!usableSigner(req, res, signerId)) return;
+    const tx = await walletFactory.deploy(signerId, customerId, { owner, dailyLimit, maxTxAmount, guardian });
+    sendOk(res, { status: 'SUBMITTED', ...tx }, { status: 202, txHash: tx.txHash });
+  } catch (err: any) {
+    factoryError(res, err);
+  }
+})
+
+// ─── Circle transfers ─────────────────────────────────────────────────────────
+// Circle checks the endpoint with HEAD when the subscription is created
+app.head('/webhooks/circle', (req, res) => {
+  res.status(200).end();
+})
+
+// Called by Circle, not by API clients — authenticated by Circle's signature
+app.post('/webhooks/circle', validate({
+  tag: 'Circle', summary: 'Circle transaction notifications',
+  description: 'Called by Circle and verified against x-circle-signature / x-circle-key-id; the body is Circle\'s notification as sent.',
+  response: s.object({ handled: s.bool(), type: s.string() }),
+}), async (req, res) => {
+  try {
+    await verifyCircleNotification(
+      req.rawBody,
+      req.headers['x-circle-signature'] as string | undefined,
+      req.headers['x-circle-key-id'] as string | undefined,
     );
+    const result = await handleCircleNotification(req.body);
+    sendOk(res, result);
+  } catch (err: any) {
+    if (err instanceof CircleNotificationError) console.log(`[Circle] rejected notification: ${err.message}`);
+    else console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/transfers/:externalRef', requireRole('admin', 'treasury'), validate({
+  tag: 'Wallets', summary: 'Circle transfer by our external reference',
+  params: { externalRef: s.string({ min: 1, max: 128 }) },
+  response: s.object({ transfer: api.Transfer }),
+}), async (req, res) => {
+  try {
+    const transfer = await getTransferByRef(req.params.externalRef);
+    if (!transfer) { fail(res, 'NOT_FOUND', 'transfer not found'); return; }
+    sendOk(res, { transfer });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
 
-    res.json({ success: true, rfqId });
+app.get('/api/customers/:ref/wallets', requireRole('admin', 'treasury'), validate({
+  tag: 'Wallets', summary: 'Circle wallets held for a customer',
+  params: { ref: s.string({ min: 1, max: 128 }) },
+  query:  { chain: s.optional(s.string({ min: 1, max: 32 })) },
+  response: s.object({ wallets: s.array(api.WalletRecord) }),
+}), async (req, res) => {
+  try {
+    const chain = (req.query.chain as string | undefined)?.toUpperCase();
+    sendOk(res, { wallets: await listCustomerWallets(req.params.ref, chain) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/customers/:ref/balances', requireRole('admin', 'treasury'), validate({
+  tag: 'Wallets', summary: 'Live balances from Circle, one entry per wallet with every token it holds',
+  params: { ref: s.string({ min: 1, max: 128 }) },
+  response: s.object({
+    customerRef: s.string(),
+    wallets: s.array(s.object({
+      walletId: s.string(), address: s.string(), blockchain: s.string(),
+      success: s.bool({ description: 'false when the Circle lookup failed' }), balances: s.array(api.TokenBalance),
+    })),
+  }),
+}), async (req, res) => {
+  try {
+    const wallets = await listCustomerWallets(req.params.ref);
+    const balances = await Promise.all(wallets.map(async w => {
+      const result = await fetchBalances(w.walletId).catch(err => {
+        console.error(`[Wallets] balance lookup failed for ${w.walletId}:`, err.message);
+        return { success: false, balances: [] };
+      });
+      return { walletId: w.walletId, address: w.address, blockchain: w.blockchain, ...result };
+    }));
+    sendOk(res, { customerRef: req.params.ref, wallets: balances });
   } catch (err: any) {
     console.error(err);
-    res.status(500).json({ success: false, error: err.reason ?? err.shortMessage ?? err.message });
+    sendError(res, err);
   }
 })
 
-app.post('/api/rfq/whitelist', async (req, res) => {
+app.get('/api/wallets/:id/balances', requireRole('admin', 'treasury'), validate({
+  tag: 'Wallets', summary: 'Live balances of one Circle wallet',
+  params: { id: s.string({ min: 1, max: 64, description: 'Circle wallet id' }) },
+  response: s.object({ balances: s.array(api.TokenBalance), wallet: api.WalletRecord }),
+}), async (req, res) => {
+  try {
+    const wallet = await getWalletRecord(req.params.id);
+    if (!wallet) { fail(res, 'NOT_FOUND', 'wallet not found'); return; }
+    const result = await fetchBalances(wallet.walletId);
+    if (!result.success) { fail(res, 'UPSTREAM_ERROR', 'Circle balance lookup failed'); return; }
+    sendOk(res, { balances: result.balances, wallet });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/rfq/create', requireRole('borrower'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Create an RFQ for NGN credit', status: 202,
+  description: 'amountNGN is checked against the credit line at the live rate; the rfq id is in the tx result once mined.',
+  body: {
+    amountNGN:     s.amount('NGN', { positive: true }),
+    tenorDays:     s.int({ min: 1, max: 3650 }),
+    maxFeeBPS:     api.feeBPS,
+    collType:      s.enumName(CollTypeName),
+    collateralUSD: s.amount('USD', { positive: true }),
+    signerId:      api.signerId,
+  },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const { amountNGN, collateralUSD, tenorDays, maxFeeBPS, collType } = req.body as {
+      amountNGN: Money; collateralUSD: Money; tenorDays: number; maxFeeBPS: number; collType: CollType;
+    };
+
+    // Credit line check against the live rate — the contract only enforces it once a rate is locked
+    const live   = await rates.getRate('USDC', 'NGN');
+    const ltvBPS = await client.contract.ltvBPS() as bigint;
+    const limit  = Money.of('NGN', estimateCreditLineNGN(collateralUSD.units, live.rate, ltvBPS));
+    if (amountNGN.gt(limit)) {
+      fail(res, 'VALIDATION_ERROR', `amountNGN exceeds credit line of ${limit.format()} at ₦${Rate.ngnPerUsdc(live.rate).format()}/USD`);
+      return;
+    }
+
+    const bf = signerClient(req, res);
+    if (!bf) return;
+    const tx = await bf.createRFQ(
+      amountNGN.units,
+      tenorDays,
+      maxFeeBPS,
+      collType,
+      collateralUSD.units
+    );
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/rfq/whitelist', requireRole('admin'), idempotent(), validate({
+  tag: 'Admin', summary: 'Approve a wallet for KYB', status: 202,
+  body: { walletAddress: s.address(), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
   try {
     const { walletAddress } = req.body;
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.approveKYB(walletAddress);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/events', requireRole(), validate({
+  tag: 'Events', summary: 'Indexed contract events',
+  query: {
+    refId:     s.optional(s.bytes32({ description: 'Deal or RFQ id' })),
+    eventName: s.optional(s.string({ min: 1, max: 64, example: 'DealOpened' })),
+    fromBlock: s.optional(s.int({ min: 0 })),
+    confirmed: s.optional(s.bool({ description: 'Only events past the confirmation depth' })),
+    limit:     api.limit(1000),
+    offset:    s.optional(s.int({ min: 0 })),
+  },
+  response: s.object({ events: s.array(api.IndexedEvent) }),
+}), async (req, res) => {
+  try {
+    const { refId, eventName, fromBlock, confirmed, limit, offset } = req.query as {
+      refId?: string; eventName?: string; fromBlock?: number; confirmed?: boolean; limit?: number; offset?: number;
+    };
+
+    const events = await getIndexedEvents({ refId, eventName, fromBlock, confirmedOnly: confirmed === true, limit, offset });
+
+    sendOk(res, { events });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+const currencyCode = (fallback: string) => s.optional(s.string({ pattern: /^[A-Za-z]{3,5}$/, hint: 'a currency code' }), fallback);
+
+app.get('/api/fx/rate', requireRole(), validate({
+  tag: 'FX', summary: 'Aggregated live rate with per-source outcomes',
+  query: { base: currencyCode('USDC'), quote: currencyCode('NGN') },
+  response: api.FxRate,
+}), async (req, res) => {
+  try {
+    const r = await rates.getRate(req.query.base as string, req.query.quote as string);
+    sendOk(res, { pair: r.pair, rate: r.rate.toString(), display: formatRate(r.rate), sources: r.sources, outcomes: r.outcomes, at: r.at });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/rfqs', requireRole(), validate({
+  tag: 'Queries', summary: 'RFQs with their quotes, newest first',
+  query: {
+    open:     s.optional(s.bool()),
+    collType: s.optional(s.enumName(CollTypeName)),
+    borrower: s.optional(s.address()),
+    ...api.paging,
+  },
+  response: api.RFQPage,
+}), async (req, res) => {
+  try {
+    const { open, collType, borrower, page, pageSize } = req.query as {
+      open?: boolean; collType?: CollType; borrower?: string; page?: number; pageSize?: number;
+    };
+
+    const result = await listRFQs(client, {
+      open, borrower, page, pageSize,
+      collType: collType === undefined ? undefined : CollTypeName[collType],
+    });
+
+    sendOk(res, result);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/rfqs/:id', requireRole(), validate({
+  tag: 'Queries', summary: 'One RFQ with its quotes',
+  params: api.rfqIdParam,
+  response: s.object({ rfq: api.RFQDocument }),
+}), async (req, res) => {
+  try {
+    const rfq = await getRFQDocument(client, req.params.id);
+    if (!rfq) {
+      fail(res, 'NOT_FOUND', 'rfq not found');
+      return;
+    }
+    sendOk(res, { rfq });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/rfqs/:id/quotes', requireRole(), validate({
+  tag: 'Queries', summary: 'Quotes on an RFQ',
+  params: api.rfqIdParam,
+  response: s.object({ quotes: s.array(api.Quote) }),
+}), async (req, res) => {
+  try {
+    if (!(await client.getRFQ(req.params.id))) {
+      fail(res, 'NOT_FOUND', 'rfq not found');
+      return;
+    }
+    const quotes = await client.getQuotes(req.params.id);
+    sendOk(res, { quotes });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/deals', requireRole(), validate({
+  tag: 'Queries', summary: 'Deals with position, rate, fee and attestation history, newest first',
+  query: {
+    status:   s.optional(s.enumName(StatusName)),
+    health:   s.optional(s.enumName(HealthName)),
+    collType: s.optional(s.enumName(CollTypeName)),
+    borrower: s.optional(s.address()),
+    lender:   s.optional(s.address()),
+    ...api.paging,
+  },
+  response: api.DealPage,
+}), async (req, res) => {
+  try {
+    const { status, health, collType, borrower, lender, page, pageSize } = req.query as {
+      status?: DealStatus; health?: HealthState; collType?: CollType; borrower?: string; lender?: string;
+      page?: number; pageSize?: number;
+    };
+
+    const result = await listDeals(client, {
+      borrower, lender, page, pageSize,
+      status:   status   === undefined ? undefined : StatusName[status],
+      health:   health   === undefined ? undefined : HealthName[health],
+      collType: collType === undefined ? undefined : CollTypeName[collType],
+    });
+
+    sendOk(res, result);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/deals/:id', requireRole(), validate({
+  tag: 'Queries', summary: 'One deal with position, rate, fee and attestation history',
+  params: api.dealIdParam,
+  response: s.object({ deal: api.DealDocument }),
+}), async (req, res) => {
+  try {
+    const deal = await getDealDocument(client, req.params.id);
+    if (!deal) {
+      fail(res, 'NOT_FOUND', 'deal not found');
+      return;
+    }
+    sendOk(res, { deal });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/deals/:id/attestations', requireRole('oracle', 'admin'), validate({
+  tag: 'Queries', summary: 'Attestations this server sent for a deal, newest first',
+  params: api.dealIdParam,
+  query:  { limit: api.limit() },
+  response: s.object({ attestations: s.array(api.dbRow('oracle_attestations row')) }),
+}), async (req, res) => {
+  try {
+    const attestations = await getAttestationRecords(req.params.id, (req.query as { limit?: number }).limit);
+    sendOk(res, { attestations });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Lifecycle: RFQ → quote → deal → collateral → settlement ─────────────────
+app.post('/api/rfqs/:id/quotes', requireRole('lender'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Quote a fee on an open RFQ', status: 202,
+  params: api.rfqIdParam,
+  body: {
+    feeBPS:    api.feeBPS,
+    validSecs: s.optional(s.int({ min: 1, description: 'Quote lifetime (default 120)' })),
+    signerId:  api.signerId,
+  },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const { feeBPS, validSecs } = req.body;
+    const bf = signerClient(req, res);
+    if (!bf) return;
 
-    const rfqId = await client.approveKYB(walletAddress);
+    const tx = await bf.submitQuote(req.params.id, feeBPS, validSecs);
+    // The quote is out; a lost registration only costs webhooks
+    await registerParty(req.params.id, req.apiClient!.sourceCode, 'lender')
+      .catch(err => console.error('[Webhooks] could not register lender:', err));
 
-    res.json({ success: true, rfqId });
+    accepted(res, tx);
   } catch (err: any) {
     console.error(err);
-    res.status(500).json({ success: false, error: err.reason ?? err.shortMessage ?? err.message });
+    sendError(res, err);
+  }
+})
+
+app.post('/api/rfqs/:id/accept', requireRole('borrower'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Accept a quote, opening the deal', status: 202,
+  params: api.rfqIdParam,
+  body: { quoteIndex: s.int({ min: 0 }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.acceptQuote(req.params.id, req.body.quoteIndex);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Auto-accept policy ───────────────────────────────────────────────────────
+app.put('/api/rfqs/:id/accept-policy', requireRole('borrower'), idempotent(), validate({
+  tag: 'Auto-accept', summary: 'Accept the best qualifying quote automatically',
+  params: api.rfqIdParam,
+  body: {
+    signerId:       api.signerId,
+    maxFeeBPS:      api.feeBPS,
+    allowedLenders: s.optional(s.array(s.address())),
+    minWindowSecs:  s.optional(s.int({ min: 0, description: 'Wait at least this long for competing quotes' })),
+    acceptEarly:    s.optional(s.bool(), false),
+    expiresAt:      s.optional(s.date()),
+  },
+  response: s.object({ policy: api.AcceptPolicy }),
+}), async (req, res) => {
+  try {
+    const { signerId, maxFeeBPS, allowedLenders, minWindowSecs, acceptEarly, expiresAt } = req.body;
+    if (!usableSigner(req, res, signerId)) return;
+
+    const policy = await autoAccept.setPolicy(req.params.id, signerId, req.apiClient!.clientId, {
+      maxFeeBPS, allowedLenders, acceptEarly, minWindowSecs, expiresAt: expiresAt ?? null,
+    });
+    sendOk(res, { policy });
+  } catch (err: any) {
+    if (!(err instanceof AcceptPolicyError)) console.error(err);
+    sendError(res, err);
   }
 })
 
-  app.post('/yield-deposit', async (req, res) => {
+app.get('/api/rfqs/:id/accept-policy', requireRole('borrower'), validate({
+  tag: 'Auto-accept', summary: 'The caller\'s auto-accept policy on an RFQ',
+  params: api.rfqIdParam,
+  response: s.object({ policy: api.AcceptPolicy }),
+}), async (req, res) => {
+  try {
+    const policy = await getAcceptPolicy(req.params.id);
+    if (!policy || policy.clientId !== req.apiClient!.clientId) {
+      fail(res, 'NOT_FOUND', 'no policy for this RFQ');
+      return;
+    }
+    sendOk(res, { policy });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.delete('/api/rfqs/:id/accept-policy', requireRole('borrower'), idempotent(), validate({
+  tag: 'Auto-accept', summary: 'Cancel an active auto-accept policy',
+  params: api.rfqIdParam,
+}), async (req, res) => {
+  try {
+    const policy = await getAcceptPolicy(req.params.id);
+    if (!policy || policy.clientId !== req.apiClient!.clientId) {
+      fail(res, 'NOT_FOUND', 'no policy for this RFQ');
+      return;
+    }
+    const cancelled = await autoAccept.cancelPolicy(req.params.id);
+    if (!cancelled) { fail(res, 'CONFLICT', `policy is ${policy.status.toLowerCase()}`); return; }
+    sendOk(res);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/lock-rate', requireRole('borrower'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Lock the NGN/USDC rate for the deal', status: 202,
+  params: api.dealIdParam,
+  body: { signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.lockFXRate(req.params.id);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/deposit-usyc', requireRole('borrower'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Deposit USDC as USYC collateral', status: 202,
+  description: 'Approves USDC to the contract first when the allowance is short; the approval\'s id is returned as approvalTxId.',
+  params: api.dealIdParam,
+  body: { usdcAmount: s.amount('USDC', { positive: true }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const usdcAmount: Money = req.body.usdcAmount;
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.depositUSYC(process.env.USDC_ADDRESS!, req.params.id, usdcAmount.units);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/deposit-usdc', requireRole('borrower'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Deposit USDC collateral', status: 202,
+  description: 'Approves USDC to the contract first when the allowance is short; the approval\'s id is returned as approvalTxId.',
+  params: api.dealIdParam,
+  body: { usdcAmount: s.amount('USDC', { positive: true }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const usdcAmount: Money = req.body.usdcAmount;
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.depositUSDC(process.env.USDC_ADDRESS!, req.params.id, usdcAmount.units);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/confirm-payout', requireRole('oracle'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Record the NGN payout to the borrower', status: 202,
+  params: api.dealIdParam,
+  body: { fiatRef: s.string({ min: 1, max: 128, description: 'Bank settlement reference' }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.confirmPayout(req.params.id, req.body.fiatRef);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/attest', requireRole('oracle'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Attest collateral value, drawn amount and rate', status: 202,
+  params: api.dealIdParam,
+  body: {
+    collateralUSD: s.amount('USD'),
+    drawnNGN:      s.amount('NGN'),
+    ngnUsdRate:    s.rate(),
+    signerId:      api.signerId,
+  },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const { collateralUSD, drawnNGN, ngnUsdRate } = req.body as { collateralUSD: Money; drawnNGN: Money; ngnUsdRate: Rate };
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.attest(req.params.id, collateralUSD.units, drawnNGN.units, ngnUsdRate.value);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/confirm-repayment', requireRole('oracle'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Record the NGN repayment', status: 202,
+  params: api.dealIdParam,
+  body: { fiatRef: s.string({ min: 1, max: 128, description: 'Bank settlement reference' }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.confirmRepayment(req.params.id, req.body.fiatRef);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/redeem-usyc', requireRole('oracle'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Redeem USYC collateral of a repaid deal', status: 202,
+  params: api.dealIdParam,
+  body: { signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.redeemUSYC(req.params.id);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/release-usdc', requireRole('oracle'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Release USDC collateral of a repaid deal', status: 202,
+  params: api.dealIdParam,
+  body: { signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await bf.releaseUSDC(req.params.id);
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+  const usycAmount = (currency: string) => s.string({
+    pattern: /^\d+(\.\d+)?$/, hint: `a decimal ${currency} amount`, description: `${currency}, e.g. "1250.50"`,
+  });
+
+  app.post('/yield-deposit', requireRole('treasury'), idempotent(), validate({
+    tag: 'Treasury yield', summary: 'Deposit USDC into USYC', status: 202,
+    body: { amount: usycAmount('USDC'), chain: s.optional(s.string({ max: 32 })), signerId: api.signerId, ...api.usycAddresses },
+    response: api.UsycSubmitted,
+  }), async (req, res) => {
     try {
-  
-      if(!validateToken(req))
-      {
-        console.log(`Invalid authentication API key or token `)
-        res.status(500).json({success:false,error:'Invalid authentication API key or token '})
-        return;
-      }
+      const { amount, chain } = req.body;
+      const bf = signerClient(req, res);
+      if (!bf) return;
 
-      const { amount,tokenAddress,rpcUrl,chain,contractAddress,key,usycContractAddress} = req.body;
-      
-      console.log('bal22 ' + usycContractAddress + ' ' + tokenAddress + " " + chain + " " + amount)
-      console.log('rpc: ' + rpcUrl);
-      var response : any;
-      response = await usycDeposit(key, tokenAddress, rpcUrl, contractAddress, usycContractAddress, amount);
-      
-      res.json(response)
-    
+      console.log(`[Yield] deposit ${amount} USDC on ${chain ?? 'default chain'} via ${req.body.signerId}`);
+      const response = await usycDeposit(txm, req.body.signerId, amount);
+      sendOk(res, response, { status: 202, txHash: response.txHash });
     } catch (error) {
       console.log(`Error yield deposit `)
       console.log(error)
-      res.status(500).json({success:false,error:'error yield deposit ' + error})
+      sendError(res, error)
+    }
+  })
+
+  app.post('/yield-redeem', requireRole('treasury'), idempotent(), validate({
+    tag: 'Treasury yield', summary: 'Redeem USYC for USDC', status: 202,
+    body: {
+      amount:   s.string({ pattern: /^(all|\d+(\.\d+)?)$/, hint: 'a decimal USYC amount or "all"', description: 'USYC, or "all" for the full balance' }),
+      signerId: api.signerId,
+      ...api.usycAddresses,
+    },
+    response: api.UsycSubmitted,
+  }), async (req, res) => {
+    try {
+      const { amount } = req.body;
+      const bf = signerClient(req, res);
+      if (!bf) return;
+
+      console.log(`[Yield] redeem ${amount} USYC via ${req.body.signerId}`);
+      const response = await usycRedeem(txm, req.body.signerId, amount);
+      sendOk(res, response, { status: 202, txHash: response.txHash });
+    } catch (error) {
+      console.log(`Error yield redeem `)
+      console.log(error)
+      sendError(res, error)
+    }
+  })
+
+  app.get('/yield-position', requireRole('treasury'), validate({
+    tag: 'Treasury yield', summary: 'USDC / USYC balances of a signer, with an optional deposit or redeem preview',
+    query: {
+      signerId: api.signerId,
+      preview:  s.optional(s.oneOf(['deposit', 'redeem'] as const)),
+      amount:   s.optional(usycAmount('USDC or USYC')),
+      ...api.usycAddresses,
+    },
+    response: api.UsycPosition,
+  }), async (req, res) => {
+    try {
+      const { signerId, preview, amount } = req.query as Record<string, string | undefined>;
+
+      const signer = usableSigner(req, res, signerId);
+      if (!signer) return;
+
+      const position = await usycPosition(provider, await signer.getAddress());
+      if (!preview) { sendOk(res, position); return; }
+      if (!amount) { fail(res, 'VALIDATION_ERROR', 'amount required with preview'); return; }
+      const quote = await usycPreview(provider, preview as 'deposit' | 'redeem', amount);
+      sendOk(res, { ...position, preview: quote });
+    } catch (error: any) {
+      console.error(error);
+      sendError(res, error);
     }
   })
 
+// ─── Fiat payouts ─────────────────────────────────────────────────────────────
+app.put('/api/payouts/beneficiaries/:borrower', requireRole('admin'), idempotent(), validate({
+  tag: 'Payouts', summary: 'Set the bank account a borrower\'s NGN is paid to',
+  params: { borrower: s.address() },
+  body: {
+    bankCode:      s.string({ pattern: /^\d{3,6}$/, hint: '3-6 digits' }),
+    accountNumber: api.nuban,
+    accountName:   s.string({ min: 1, max: 128 }),
+  },
+}), async (req, res) => {
+  try {
+    const { bankCode, accountNumber, accountName } = req.body;
+    await setBeneficiary(req.params.borrower, { bankCode, accountNumber, accountName });
+    sendOk(res);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
 
+app.get('/api/payouts', requireRole('admin', 'oracle'), validate({
+  tag: 'Payouts', summary: 'Payouts, optionally by status or flagged for review',
+  query: {
+    status:  s.optional(s.oneOf(['HELD', 'PENDING', 'SETTLED', 'CONFIRMED', 'FAILED', 'REVERSED'] as const, { upper: true })),
+    flagged: s.optional(s.bool()),
+  },
+  response: s.object({ payouts: s.array(api.Payout) }),
+}), async (req, res) => {
+  try {
+    const { status, flagged } = req.query as { status?: string; flagged?: boolean };
+    sendOk(res, { payouts: await listPayouts({ status, flagged }) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
 
+app.get('/api/deals/:id/payout', requireRole(), validate({
+  tag: 'Payouts', summary: 'The NGN payout for a deal',
+  params: api.dealIdParam,
+  response: s.object({ payout: api.Payout }),
+}), async (req, res) => {
+  try {
+    const payout = await getDealPayout(req.params.id);
+    if (!payout) { fail(res, 'NOT_FOUND', 'no payout for this deal'); return; }
+    sendOk(res, { payout });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
 
-  
-  function validateToken(req: any)
-  {
-    const authHeader = req.headers['authorization']; // lowercase key
-    const sourceCode = req.headers['x-source-code'];
-    const clientId = req.headers['x-client-id'];
-    const clientSecret = req.headers['x-client-secret'];
+app.post('/api/deals/:id/payout/retry', requireRole('admin'), idempotent(), validate({
+  tag: 'Payouts', summary: 'Retry a failed or reversed payout',
+  params: api.dealIdParam,
+  response: s.object({ payout: api.Payout }),
+}), async (req, res) => {
+  try {
+    if (!payouts) { fail(res, 'SERVICE_DISABLED', 'payouts disabled (PAYOUTS_ENABLED)'); return; }
+    const payout = await payouts.retry(req.params.id);
+    if (!payout) { fail(res, 'NOT_FOUND', 'no payout for this deal'); return; }
+    sendOk(res, { payout });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
 
-    console.log('header ' + sourceCode + ' ' + clientId)
-    const xClientId = process.env.X_CLIENT_ID
-    const xClientSecret = process.env.X_CLIENT_SECRET;
-    const xSourceCode = process.env.X_SOURCE_CODE;
+app.post('/api/mock-bank/transfers/:ref/:action', requireRole('admin'), validate({
+  tag: 'Payouts', summary: 'Drive the in-process mock bank (offline testing only)',
+  params: { ref: s.string({ min: 1, max: 128 }), action: s.oneOf(['settle', 'fail', 'reverse'] as const) },
+  response: s.object({ transfer: api.BankTransfer }),
+}), async (req, res) => {
+  if (!(payoutAdapter instanceof MockBankAdapter)) { fail(res, 'NOT_FOUND', 'mock bank not in use'); return; }
+  const { ref, action } = req.params;
+  const moved = action === 'settle' ? payoutAdapter.settle(ref)
+              : action === 'fail'   ? payoutAdapter.fail(ref)
+              : payoutAdapter.reverse(ref);
+  if (!moved) { fail(res, 'CONFLICT', `transfer ${ref} cannot ${action} from its current state`); return; }
+  sendOk(res, { transfer: await payoutAdapter.status(ref) });
+})
 
-    console.log('source code ' + xSourceCode + ' ' + xClientId)
-    console.log('source code ' + xSourceCode + ' ' + xClientId)
+// ─── Repayments from bank statements ──────────────────────────────────────────
+const STATEMENT_FORMATS = ['csv', 'mt940', 'camt053'] as const;
+const CREDIT_STATUSES   = ['UNMATCHED', 'PARTIAL', 'OVERPAID', 'MATCHED', 'CONFIRMING', 'CONFIRMED', 'FAILED', 'IGNORED'] as const;
 
-    return true;
+/** Review actions answer 404/409 from RepaymentError, 500 otherwise */
+function repaymentError(res: Response, err: any) {
+  if (!(err instanceof RepaymentError)) console.error(err);
+  sendError(res, err);
+}
 
+app.post('/api/statements', requireRole('admin', 'treasury'), idempotent(), validate({
+  tag: 'Repayments', summary: 'Import a bank statement and match its credits to deals', status: 201,
+  description: 'Answers 200 instead of 201 when the same file was imported before.',
+  body: {
+    content:   s.string({ pattern: /\S/, hint: 'the statement file text' }),
+    format:    s.optional(s.oneOf(STATEMENT_FORMATS, { description: 'Detected when omitted' })),
+    accountId: s.optional(s.string({ max: 64 })),
+  },
+  response: api.ImportSummary,
+}), async (req, res) => {
+  try {
+    const { content, format, accountId } = req.body;
+    const summary = await repayments.importStatement(content, {
+      format, accountId, importedBy: req.apiClient!.clientId,
+    });
+    sendOk(res, summary, { status: summary.duplicate ? 200 : 201 });
+  } catch (err: any) {
+    if (!(err instanceof StatementParseError)) console.error(err);
+    sendError(res, err);
   }
+})
+
+app.get('/api/statements', requireRole('admin', 'treasury'), validate({
+  tag: 'Repayments', summary: 'Imported statements',
+  response: s.object({ statements: s.array(api.Statement) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { statements: await listStatements() });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/repayments/credits', requireRole('admin', 'treasury'), validate({
+  tag: 'Repayments', summary: 'Statement credits; defaults to the review queue',
+  query: {
+    status:      s.optional(s.csv(s.oneOf(CREDIT_STATUSES, { upper: true }), { description: `Comma-separated, default ${REVIEW_STATUSES.join(',')}` })),
+    dealId:      s.optional(s.bytes32()),
+    statementId: s.optional(s.string({ max: 64 })),
+  },
+  response: s.object({ credits: s.array(api.Credit) }),
+}), async (req, res) => {
+  try {
+    const { status, dealId, statementId } = req.query as { status?: string[]; dealId?: string; statementId?: string };
+    sendOk(res, { credits: await listCredits({ status: status ?? REVIEW_STATUSES, dealId, statementId }) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/repayments/credits/:id', requireRole('admin', 'treasury'), validate({
+  tag: 'Repayments', summary: 'One statement credit',
+  params: { id: s.string({ min: 1, max: 64, description: 'Credit id' }) },
+  response: s.object({ credit: api.Credit }),
+}), async (req, res) => {
+  try {
+    const credit = await getCredit(req.params.id);
+    if (!credit) { fail(res, 'NOT_FOUND', 'credit not found'); return; }
+    sendOk(res, { credit });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/repayments/credits/:id/match', requireRole('admin', 'treasury'), idempotent(), validate({
+  tag: 'Repayments', summary: 'Match a credit to a deal by hand',
+  params: { id: s.string({ min: 1, max: 64, description: 'Credit id' }) },
+  body: { dealId: s.bytes32() },
+  response: s.object({ credit: api.Credit }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { credit: await repayments.manualMatch(req.params.id, req.body.dealId, req.apiClient!.clientId) });
+  } catch (err: any) {
+    repaymentError(res, err);
+  }
+})
+
+app.post('/api/repayments/credits/:id/confirm', requireRole('admin'), idempotent(), validate({
+  tag: 'Repayments', summary: 'Confirm the repayment for a matched credit on-chain',
+  params: { id: s.string({ min: 1, max: 64, description: 'Credit id' }) },
+  response: s.object({ credit: api.Credit }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { credit: await repayments.manualConfirm(req.params.id, req.apiClient!.clientId) });
+  } catch (err: any) {
+    repaymentError(res, err);
+  }
+})
+
+app.post('/api/repayments/credits/:id/ignore', requireRole('admin', 'treasury'), idempotent(), validate({
+  tag: 'Repayments', summary: 'Dismiss a credit from the review queue',
+  params: { id: s.string({ min: 1, max: 64, description: 'Credit id' }) },
+  body: { reason: s.optional(s.string({ max: 255 })) },
+  response: s.object({ credit: api.Credit }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { credit: await repayments.ignore(req.params.id, req.apiClient!.clientId, req.body.reason) });
+  } catch (err: any) {
+    repaymentError(res, err);
+  }
+})
+
+app.put('/api/deals/:id/virtual-account', requireRole('admin', 'treasury'), idempotent(), validate({
+  tag: 'Repayments', summary: 'Assign the virtual account repayments for a deal arrive on',
+  params: api.dealIdParam,
+  body: { virtualAccount: api.nuban },
+  response: s.object({ dealId: s.string(), virtualAccount: s.string() }),
+}), async (req, res) => {
+  try {
+    const { virtualAccount } = req.body;
+    await setDealVirtualAccount(req.params.id, virtualAccount);
+    sendOk(res, { dealId: req.params.id, virtualAccount });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Ledger ───────────────────────────────────────────────────────────────────
+app.get('/api/ledger/trial-balance', requireRole('admin', 'treasury'), validate({
+  tag: 'Ledger', summary: 'Trial balance per account, totals per currency',
+  query: { asOf: s.optional(s.date({ description: 'Default now' })) },
+  response: api.TrialBalance,
+}), async (req, res) => {
+  try {
+    const { asOf } = req.query as { asOf?: Date };
+    sendOk(res, { asOf: asOf ?? new Date(), ...(await getTrialBalance(asOf)) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/ledger/accounts', requireRole('admin', 'treasury'), validate({
+  tag: 'Ledger', summary: 'Ledger accounts, optionally for one owner',
+  query: { owner: s.optional(s.string({ min: 1, max: 64, description: 'Borrower / lender address or "platform"' })) },
+  response: s.object({ accounts: s.array(api.LedgerAccount) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { accounts: await listAccounts(req.query.owner as string | undefined) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/ledger/accounts/:code/statement', requireRole('admin', 'treasury'), validate({
+  tag: 'Ledger', summary: 'Lines on one account with a running balance',
+  params: { code: s.string({ min: 1, max: 128, description: 'Full account code', example: 'borrower:0xab…:loan_receivable' }) },
+  query:  { from: s.optional(s.date()), to: s.optional(s.date()) },
+  response: api.AccountStatement,
+}), async (req, res) => {
+  try {
+    const { from, to } = req.query as { from?: Date; to?: Date };
+    const statement = await getAccountStatement(req.params.code, { from, to });
+    if (!statement) { fail(res, 'NOT_FOUND', 'account not found'); return; }
+    sendOk(res, statement);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/ledger/deals/:id/entries', requireRole('admin', 'treasury'), validate({
+  tag: 'Ledger', summary: 'Journal entries posted for a deal',
+  params: api.dealIdParam,
+  response: s.object({ entries: s.array(api.LedgerEntry) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { entries: await getDealEntries(req.params.id) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/ledger/collateral-check', requireRole('admin', 'treasury'), validate({
+  tag: 'Ledger', summary: 'Ledger collateral custody against the contract, per deal',
+  response: api.CollateralCheck,
+}), async (req, res) => {
+  try {
+    sendOk(res, await checkCollateral(client));
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Margin calls ─────────────────────────────────────────────────────────────
+app.get('/api/margin-calls', requireRole(), validate({
+  tag: 'Margin calls', summary: 'Margin call cases, newest first',
+  query: { status: s.optional(s.oneOf(['OPEN', 'CURED', 'LIQUIDATED'] as const, { upper: true })) },
+  response: s.object({ cases: s.array(api.MarginCase) }),
+}), async (req, res) => {
+  try {
+    const cases = await listCases(req.query.status as string | undefined);
+    sendOk(res, { cases });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/deals/:id/margin-calls', requireRole(), validate({
+  tag: 'Margin calls', summary: 'Margin call cases, top-ups and any liquidation for a deal',
+  params: api.dealIdParam,
+  response: s.object({
+    cases:       s.array(api.MarginCase),
+    topups:      s.array(api.dbRow('margin_call_topups row')),
+    liquidation: s.nullable(api.dbRow('liquidation_records row')),
+  }),
+}), async (req, res) => {
+  try {
+    const result = await getDealCases(req.params.id);
+    sendOk(res, result);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/deals/:id/top-up', requireRole('borrower'), idempotent(), validate({
+  tag: 'Lifecycle', summary: 'Top up collateral during a margin call', status: 202,
+  params: api.dealIdParam,
+  body: { usdcAmount: s.amount('USDC', { positive: true }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const usdcAmount: Money = req.body.usdcAmount;
+    const bf = signerClient(req, res);
+    if (!bf) return;
+
+    const tx = await margin.topUp(req.params.id, usdcAmount.units, bf, process.env.USDC_ADDRESS!);
+
+    // Re-attest once mined so a cured deal closes its case without waiting a full cycle
+    tx.wait().then(() => attestor?.runCycle('top-up')).catch(() => {});
+
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Webhooks ─────────────────────────────────────────────────────────────────
+app.post('/api/webhooks', requireRole(), idempotent(), validate({
+  tag: 'Webhooks', summary: 'Subscribe to deal events for the caller\'s source code',
+  description: 'The signing secret is only returned here.',
+  body: {
+    url:        s.string({ max: 512, pattern: /^https?:\/\//, hint: 'an http(s) URL' }),
+    eventTypes: s.optional(s.array(api.webhookEventType, { min: 1 }), ['*']),
+  },
+  response: s.object({ id: s.int(), url: s.string(), eventTypes: s.array(s.string()), secret: s.string() }),
+}), async (req, res) => {
+  try {
+    const { url, eventTypes } = req.body;
+    if (!req.apiClient!.sourceCode) {
+      fail(res, 'VALIDATION_ERROR', 'client has no source code to route events to');
+      return;
+    }
+    const sub = await createSubscription(req.apiClient!.clientId, req.apiClient!.sourceCode, url, eventTypes);
+    sendOk(res, sub);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/webhooks', requireRole(), validate({
+  tag: 'Webhooks', summary: 'The caller\'s subscriptions',
+  response: s.object({ subscriptions: s.array(api.WebhookSubscription) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { subscriptions: await listSubscriptions(req.apiClient!.clientId) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.delete('/api/webhooks/:id', requireRole(), idempotent(), validate({
+  tag: 'Webhooks', summary: 'Deactivate a subscription',
+  params: { id: s.int({ min: 1 }) },
+}), async (req, res) => {
+  try {
+    const ok = await deactivateSubscription(req.apiClient!.clientId, req.params.id);
+    if (!ok) { fail(res, 'NOT_FOUND', 'subscription not found'); return; }
+    sendOk(res);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/webhooks/deliveries', requireRole(), validate({
+  tag: 'Webhooks', summary: 'Recent deliveries to the caller\'s subscriptions',
+  query: { status: s.optional(s.oneOf(['PENDING', 'DELIVERED', 'DEAD'] as const, { upper: true })) },
+  response: s.object({ deliveries: s.array(api.dbRow('webhook_deliveries row')) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { deliveries: await listDeliveries(req.apiClient!.clientId, req.query.status as string | undefined) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/webhooks/dead-letters', requireRole(), validate({
+  tag: 'Webhooks', summary: 'Deliveries that ran out of attempts',
+  response: s.object({ deadLetters: s.array(api.dbRow('webhook_dead_letters row')) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { deadLetters: await listDeadLetters(req.apiClient!.clientId) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/webhooks/deliveries/:id/replay', requireRole(), idempotent(), validate({
+  tag: 'Webhooks', summary: 'Queue a delivery again with a fresh attempt budget',
+  params: { id: s.int({ min: 1 }) },
+}), async (req, res) => {
+  try {
+    const ok = await replayDelivery(req.apiClient!.clientId, req.params.id);
+    if (!ok) {
+      fail(res, 'NOT_FOUND', 'delivery not found');
+      return;
+    }
+    webhooks.deliverDue();
+    sendOk(res);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Signers ──────────────────────────────────────────────────────────────────
+app.get('/api/signers', requireRole(), validate({
+  tag: 'Transactions', summary: 'Signers the caller may write as',
+  response: s.object({ signers: s.array(api.Signer) }),
+}), async (req, res) => {
+  try {
+    sendOk(res, { signers: await signers.list(req.apiClient!) });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+// ─── Transactions ─────────────────────────────────────────────────────────────
+app.get('/api/tx', requireRole(), validate({
+  tag: 'Transactions', summary: 'Journalled transactions of the signers the caller may use',
+  query: {
+    refId:  s.optional(s.string({ min: 1, max: 128, description: 'Deal / RFQ id, or customer id for wallet deployments' })),
+    status: s.optional(s.oneOf(['SUBMITTED', 'CONFIRMED', 'REVERTED', 'CANCELLED', 'FAILED'] as const, { upper: true })),
+    limit:  api.limit(),
+  },
+  response: s.object({ transactions: s.array(api.TxRecord) }),
+}), async (req, res) => {
+  try {
+    const { refId, status, limit } = req.query as { refId?: string; status?: string; limit?: number };
+    const txs = await txm.list({ signerIds: signers.usableBy(req.apiClient!), refId, status, limit });
+    sendOk(res, { transactions: txs });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.get('/api/tx/:id', requireRole(), validate({
+  tag: 'Transactions', summary: 'One journalled transaction and its outcome',
+  params: { id: s.string({ min: 1, max: 64, description: 'tx_journal id' }) },
+  response: s.object({ transaction: api.TxRecord }),
+}), async (req, res) => {
+  try {
+    const tx = await txm.get(req.params.id);
+    if (!tx || !signers.canUse(tx.signerId, req.apiClient!)) {
+      fail(res, 'NOT_FOUND', 'transaction not found');
+      return;
+    }
+    sendOk(res, { transaction: tx });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/tx/:id/:action', requireRole(), idempotent(), validate({
+  tag: 'Transactions', summary: 'Re-broadcast a pending transaction with higher fees, or replace it with a cancel',
+  params: { id: s.string({ min: 1, max: 64, description: 'tx_journal id' }), action: s.oneOf(['speed-up', 'cancel'] as const) },
+  response: s.object({ transaction: api.TxRecord }),
+}), async (req, res) => {
+  try {
+    const action = req.params.action;
+    const tx = await txm.get(req.params.id);
+    if (!tx || !signers.canUse(tx.signerId, req.apiClient!)) {
+      fail(res, 'NOT_FOUND', 'transaction not found');
+      return;
+    }
+    const updated = action === 'speed-up' ? await txm.speedUp(tx.txId) : await txm.cancel(tx.txId);
+    sendOk(res, { transaction: updated });
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err instanceof ApiError ? err : new ApiError('CONFLICT', err.reason ?? err.shortMessage ?? err.message));
+  }
+})
+
+// ─── Admin ────────────────────────────────────────────────────────────────────
+app.post('/api/admin/oracles', requireRole('admin'), idempotent(), validate({
+  tag: 'Admin', summary: 'Authorise an oracle address', status: 202,
+  body: { oracleAddress: s.address(), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const { oracleAddress } = req.body;
+    const bf = signerClient(req, res);
+    if (!bf) return;
+    const tx = await bf.addOracle(oracleAddress);
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/admin/ltv', requireRole('admin'), idempotent(), validate({
+  tag: 'Admin', summary: 'Set the loan-to-value ratio', status: 202,
+  body: { ltvBPS: s.int({ min: 0, max: 9500 }), signerId: api.signerId },
+  response: api.Submitted,
+}), async (req, res) => {
+  try {
+    const bf = signerClient(req, res);
+    if (!bf) return;
+    const tx = await bf.setLTV(req.body.ltvBPS);
+    accepted(res, tx);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
+
+app.post('/api/admin/clients', requireRole('admin'), idempotent(), validate({
+  tag: 'Admin', summary: 'Create an API client',
+  description: 'The secret and signing key are only returned here.',
+  body: {
+    clientId:         s.string({ min: 1, max: 64 }),
+    roles:            s.array(api.role, { min: 1 }),
+    sourceCode:       s.optional(s.string({ min: 1, max: 64, description: 'Partner code; required for webhooks' })),
+    requireSignature: s.optional(s.bool({ description: 'Reject secret auth, require HMAC signing' }), false),
+  },
+  response: s.object({
+    clientId: s.string(), secret: s.string(), signingKey: s.string(), roles: s.array(api.role),
+    sourceCode: s.nullable(s.string()), requireSignature: s.bool(),
+  }),
+}), async (req, res) => {
+  try {
+    const { clientId, roles, sourceCode, requireSignature } = req.body;
+    const created = await createApiClient(clientId, roles, sourceCode ?? null, requireSignature);
+    sendOk(res, created);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err.code === 'ER_DUP_ENTRY' ? new ApiError('CONFLICT', 'client already exists') : err);
+  }
+})
+
+app.post('/api/admin/clients/:clientId/disable', requireRole('admin'), idempotent(), validate({
+  tag: 'Admin', summary: 'Disable an API client',
+  params: { clientId: s.string({ min: 1, max: 64 }) },
+}), async (req, res) => {
+  try {
+    await setClientActive(req.params.clientId, false);
+    sendOk(res);
+  } catch (err: any) {
+    console.error(err);
+    sendError(res, err);
+  }
+})
@@ -0,0 +1,103 @@
+import { test, mock, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "./db";
+import { BFPayClient } from "./bfpay";
+import { AttestationDaemon, rateMoveBPS } from "./attestor";
+
+test("rateMoveBPS is the absolute move against the old rate", () => {
+  assert.equal(rateMoveBPS(BigInt(1_580_000_000), BigInt(1_580_000_000)), 0);
+  assert.equal(rateMoveBPS(BigInt(1_580_000_000), BigInt(1_587_900_000)), 50);
+  assert.equal(rateMoveBPS(BigInt(1_580_000_000), BigInt(1_572_100_000)), 50);
+  assert.equal(rateMoveBPS(BigInt(1_000_000), BigInt(1_000_099)), 0);          // floored
+  assert.equal(rateMoveBPS(BigInt(0), BigInt(1)), Number.MAX_SAFE_INTEGER);     // no baseline yet
+});
+
+// ─── Pipelined submission ─────────────────────────────────────────────────────
+
+const id = (n: number) => "0x" + String(n).padStart(64, "0");
+
+type Sent = { dealId: string; nonce: bigint; gasLimit: bigint; txId: string };
+
+/** Active fiat-collateral deals, an oracle nonce and a recording sendAttestation */
+function fakeClient(opts: {
+  deals: { id: string; healthState?: string }[];
+  oracleNonce: () => bigint;
+  estimate?: (dealId: string) => bigint;          // throw to fail the estimate
+  outcome?: (s: Sent) => Promise<void>;           // reject to fail the receipt
+}) {
+  const sent: Sent[] = [];
+  const cancelled: string[] = [];
+  const client = {
+    signer:   { getAddress: async () => "0x00000000000000000000000000000000000000aa" },
+    contract: {
+      getActiveDealIds: async () => opts.deals.map(d => d.id),
+      oracleNonce:      async () => opts.oracleNonce(),
+    },
+    getDeal: async (dealId: string) => {
+      const d = opts.deals.find(x => x.id === dealId)!;
+      return { id: d.id, collType: "USD Fiat", collateralUSD: "1000000000", amountNGN: "1000000", healthState: d.healthState ?? "HEALTHY" };
+    },
+    estimateAttestation: async (dealId: string) => (opts.estimate ?? (() => BigInt(100_000)))(dealId),
+    sendAttestation: async (dealId: string, _c: bigint, _d: bigint, _r: bigint, o: { nonce: bigint; gasLimit: bigint }) => {
+      const s = { dealId, nonce: o.nonce, gasLimit: o.gasLimit, txId: `tx-${sent.length}` };
+      sent.push(s);
+      const txHash = `0x${sent.length}`;
+      const wait = async () => { await (opts.outcome ?? (async () => {}))(s); return { txHash, healthFactor: null, healthState: null }; };
+      return { txId: s.txId, txHash, wait };
+    },
+    txm: { gasMarginBPS: 2000, cancel: async (txId: string) => { cancelled.push(txId); } },
+  };
+  return { client: client as unknown as BFPayClient, sent, cancelled };
+}
+
+const daemon = (client: BFPayClient) =>
+  new AttestationDaemon(client, { getRate: async () => BigInt(1_580_000_000), liquidationGasLimit: BigInt(1_500_000) });
+
+beforeEach(() => {
+  let rowId = 0;
+  mock.method(pool, "execute", async () => [{ insertId: ++rowId, affectedRows: 1 }]);
+  mock.method(console, "log", () => {});
+  mock.method(console, "error", () => {});
+});
+afterEach(() => mock.restoreAll());
+
+test("each attestation gets the next oracle nonce and its own gas limit", async () => {
+  const { client, sent } = fakeClient({
+    deals: [{ id: id(1) }, { id: id(2), healthState: "MARGIN CALL" }],
+    oracleNonce: () => BigInt(7),
+    estimate: dealId => (dealId === id(1) ? BigInt(100_000) : BigInt(400_000)),
+  });
+  await daemon(client).runCycle("test");
+
+  assert.deepEqual(sent.map(s => [s.dealId, s.nonce, s.gasLimit]), [
+    [id(1), BigInt(7), BigInt(120_000)],       // estimate + 20% margin
+    [id(2), BigInt(8), BigInt(1_500_000)],     // may liquidate: raised to the ceiling
+  ]);
+});
+
+test("an attestation that fails its estimate is skipped without using a nonce", async () => {
+  const { client, sent } = fakeClient({
+    deals: [{ id: id(1) }, { id: id(2) }, { id: id(3) }],
+    oracleNonce: () => BigInt(7),
+    estimate: dealId => { if (dealId === id(2)) throw new Error("execution reverted"); return BigInt(100_000); },
+  });
+  await daemon(client).runCycle("test");
+
+  assert.deepEqual(sent.map(s => [s.dealId, s.nonce]), [[id(1), BigInt(7)], [id(3), BigInt(8)]]);
+});
+
+test("after a failed receipt the rest are cancelled and re-sent from the on-chain nonce", async () => {
+  let chainNonce = BigInt(7);
+  const { client, sent, cancelled } = fakeClient({
+    deals: [{ id: id(1) }, { id: id(2) }, { id: id(3) }],
+    oracleNonce: () => chainNonce,
+    outcome: async s => { if (s.txId === "tx-0") throw new Error("reverted"); chainNonce = s.nonce + BigInt(1); },
+  });
+  await daemon(client).runCycle("test");
+
+  assert.deepEqual(cancelled, ["tx-1", "tx-2"]);
+  assert.deepEqual(sent.map(s => [s.dealId, s.nonce]), [
+    [id(1), BigInt(7)], [id(2), BigInt(8)], [id(3), BigInt(9)],
+    [id(2), BigInt(7)], [id(3), BigInt(8)],    // nonce 7 was never used on-chain
+  ]);
+});
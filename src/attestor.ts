@@ -0,0 +1,325 @@
+/**
+ * Oracle attestation daemon
+ * Walks getActiveDealIds() on an interval (and sooner when the NGN/USD rate
+ * moves past a threshold) and pushes signed attestations for each deal.
+ *
+ * Attestations are pipelined: oracle nonces are assigned locally and the
+ * client's TxManager assigns account nonces in the same order, so several
+ * can be in flight at once. Each is sized from its own gas estimate, and
+ * once one fails the rest of the batch is cancelled and re-sent from the
+ * on-chain oracle nonce. Every outcome is written to oracle_attestations.
+ */
+
+import fs from "fs";
+import { pool } from "./db";
+import { BFPayClient, DealInfo, PendingTx, TxResult } from "./bfpay";
+
+/** Live NGN per USD × 1e6 */
+export type RateSource = () => Promise<bigint>;
+
+export type AttestorOptions = {
+  getRate:           RateSource;
+  intervalMs?:       number;   // regular attestation cycle
+  rateCheckMs?:      number;   // how often the live rate is sampled
+  rateThresholdBPS?: number;   // rate move that triggers an early cycle / re-attest
+  fiatCollateralFile?: string; // JSON { "<dealId>": "<USD × 1e6>" } for fiat-collateral deals
+  liquidationGasLimit?: bigint; // floor for deals that may liquidate (redeem from the vault) when mined
+};
+
+type AttestInput = {
+  dealId:        string;
+  collateralUSD: bigint;
+  drawnNGN:      bigint;
+  ngnUsdRate:    bigint;
+  healthState?:  string;      // deal state when the input was built
+};
+
+type Sent = { tx: AttestTx; input: AttestInput; rowId: number };
+type AttestTx = PendingTx<TxResult & { healthFactor: string | null; healthState: string | null }>;
+
+// Deals in these states are re-attested even with unchanged inputs: the
+// contract only moves MARGIN CALL → LIQUIDATING on a fresh attestation.
+const SKIPPABLE_STATES = ["HEALTHY", "WARNING"];
+
+// An attestation for these may liquidate, and redeem from the USYC vault, by the time it is mined
+const LIQUIDATION_STATES = ["MARGIN CALL", "LIQUIDATING"];
+
+export async function createAttestationTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS oracle_attestations (
+      id              BIGINT AUTO_INCREMENT PRIMARY KEY,
+      deal_id         VARCHAR(66)  NOT NULL,
+      oracle          VARCHAR(42)  NOT NULL,
+      oracle_nonce    BIGINT       NOT NULL,
+      collateral_usd  VARCHAR(78)  NOT NULL,
+      drawn_ngn       VARCHAR(78)  NOT NULL,
+      ngn_usd_rate    VARCHAR(78)  NOT NULL,
+      tx_hash         VARCHAR(66)  NULL,
+      status          VARCHAR(16)  NOT NULL,      -- SENT | CONFIRMED | FAILED
+      health_factor   VARCHAR(32)  NULL,
+      health_state    VARCHAR(16)  NULL,
+      error           TEXT         NULL,
+      created_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      KEY idx_att_deal (deal_id, created_at)
+    )`);
+}
+
+export function rateMoveBPS(from: bigint, to: bigint): number {
+  if (from === BigInt(0)) return Number.MAX_SAFE_INTEGER;
+  const diff = to > from ? to - from : from - to;
+  return Number((diff * BigInt(10000)) / from);
+}
+
+export class AttestationDaemon {
+  client:           BFPayClient;
+  getRate:          RateSource;
+  intervalMs:       number;
+  rateCheckMs:      number;
+  rateThresholdBPS: number;
+  fiatCollateralFile: string;
+  liquidationGasLimit: bigint;
+
+  private oracle        = "";
+  private last          = new Map<string, AttestInput>();
+  private lastRate:     bigint | null = null;
+  private cycleTimer:   NodeJS.Timeout | null = null;
+  private rateTimer:    NodeJS.Timeout | null = null;
+  private cycleRunning  = false;
+  private rerun         = false;
+
+  constructor(client: BFPayClient, opts: AttestorOptions) {
+    this.client           = client;
+    this.getRate          = opts.getRate;
+    this.intervalMs       = opts.intervalMs       ?? Number(process.env.ATTEST_INTERVAL_MS ?? 60_000);
+    this.rateCheckMs      = opts.rateCheckMs      ?? Number(process.env.ATTEST_RATE_CHECK_MS ?? 10_000);
+    this.rateThresholdBPS = opts.rateThresholdBPS ?? Number(process.env.ATTEST_RATE_THRESHOLD_BPS ?? 50);
+    this.fiatCollateralFile = opts.fiatCollateralFile ?? process.env.ATTEST_FIAT_COLLATERAL_FILE ?? "";
+    this.liquidationGasLimit = opts.liquidationGasLimit ?? BigInt(process.env.ATTEST_LIQUIDATION_GAS_LIMIT ?? 1_500_000);
+  }
+
+  async start() {
+    await createAttestationTables();
+    this.oracle = await this.client.signer.getAddress();
+    await this.loadLastAttested();
+    console.log(`[Attestor] Oracle ${this.oracle} | every ${this.intervalMs / 1000}s | rate trigger ${this.rateThresholdBPS} bps`);
+
+    this.cycleTimer = setInterval(() => this.runCycle("interval"), this.intervalMs);
+    this.rateTimer  = setInterval(() => this.checkRate(), this.rateCheckMs);
+    this.runCycle("startup");
+  }
+
+  stop() {
+    if (this.cycleTimer) clearInterval(this.cycleTimer);
+    if (this.rateTimer)  clearInterval(this.rateTimer);
+    this.cycleTimer = this.rateTimer = null;
+  }
+
+  /** Seed skip-detection from the last confirmed attestation per deal */
+  private async loadLastAttested() {
+    const [rows] = await pool.query(
+      `SELECT a.* FROM oracle_attestations a
+         JOIN (SELECT deal_id, MAX(id) id FROM oracle_attestations
+               WHERE status = 'CONFIRMED' AND oracle = ? GROUP BY deal_id) m ON m.id = a.id`,
+      [this.oracle]
+    );
+    for (const r of rows as any[]) {
+      this.last.set(r.deal_id, {
+        dealId:        r.deal_id,
+        collateralUSD: BigInt(r.collateral_usd),
+        drawnNGN:      BigInt(r.drawn_ngn),
+        ngnUsdRate:    BigInt(r.ngn_usd_rate),
+      });
+    }
+  }
+
+  private async checkRate() {
+    if (this.lastRate === null) return;
+    try {
+      const rate = await this.getRate();
+      const move = rateMoveBPS(this.lastRate, rate);
+      if (move >= this.rateThresholdBPS) {
+        console.log(`[Attestor] Rate moved ${move} bps (${this.lastRate} → ${rate}) — attesting early`);
+        this.runCycle("rate-move");
+      }
+    } catch (err) {
+      console.error("[Attestor] rate check failed:", err);
+    }
+  }
+
+  /** One pass over active deals. Overlapping triggers are folded into one re-run. */
+  async runCycle(reason: string) {
+    if (this.cycleRunning) { this.rerun = true; return; }
+    this.cycleRunning = true;
+    try {
+      const rate   = await this.getRate();
+      if (rate <= BigInt(0)) throw new Error("no NGN/USD rate available");
+      const ids    = await this.client.contract.getActiveDealIds() as string[];
+      const inputs: AttestInput[] = [];
+
+      for (const id of ids) {
+        const deal = await this.client.getDeal(id);
+        if (!deal) continue;
+        const input = await this.buildInput(deal, rate);
+        if (this.isUnchanged(input, deal)) continue;
+        inputs.push(input);
+      }
+
+      console.log(`[Attestor] Cycle (${reason}): ${ids.length} active, ${inputs.length} to attest`);
+      if (inputs.length) await this.submit(inputs);
+      this.lastRate = rate;
+    } catch (err) {
+      console.error("[Attestor] cycle failed:", err);
+    } finally {
+      this.cycleRunning = false;
+    }
+    if (this.rerun) { this.rerun = false; this.runCycle("queued"); }
+  }
+
+  private async buildInput(deal: DealInfo, rate: bigint): Promise<AttestInput> {
+    let collateralUSD = BigInt(deal.collateralUSD);
+
+    if (deal.collType === "USYC") {
+      // Contract re-values USYC from the vault anyway; send the same figure
+      const y = await this.client.views.yieldSummary(deal.id);
+      if (y.currentUSDC > BigInt(0)) collateralUSD = y.currentUSDC;
+    } else if (deal.collType === "USDC") {
+      const pos = await this.client.getPosition(deal.id);
+      collateralUSD = BigInt(pos.usdcDeposited);
+    } else {
+      const configured = this.fiatCollateral()[deal.id.toLowerCase()];
+      if (configured !== undefined) collateralUSD = BigInt(configured);
+    }
+
+    return { dealId: deal.id, collateralUSD, drawnNGN: BigInt(deal.amountNGN), ngnUsdRate: rate, healthState: deal.healthState };
+  }
+
+  /** Read per cycle so ops can update JNVA balances without a restart */
+  private fiatCollateral(): Record<string, string> {
+    if (!this.fiatCollateralFile || !fs.existsSync(this.fiatCollateralFile)) return {};
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.fiatCollateralFile, "utf8"));
+      return Object.fromEntries(Object.entries(raw).map(([k, v]) => [k.toLowerCase(), String(v)]));
+    } catch (err) {
+      console.error("[Attestor] bad fiat collateral file:", err);
+      return {};
+    }
+  }
+
+  private isUnchanged(input: AttestInput, deal: DealInfo): boolean {
+    const prev = this.last.get(input.dealId);
+    if (!prev || !SKIPPABLE_STATES.includes(deal.healthState)) return false;
+    return prev.collateralUSD === input.collateralUSD
+        && prev.drawnNGN      === input.drawnNGN
+        && rateMoveBPS(prev.ngnUsdRate, input.ngnUsdRate) < this.rateThresholdBPS;
+  }
+
+  /**
+   * Send every attestation back-to-back with locally assigned oracle nonces,
+   * then follow the receipts in nonce order. One that fails its own estimate
+   * is skipped without using a nonce. A send failure stops the batch:
+   * later oracle nonces would be rejected anyway. So does a failed receipt —
+   * everything behind it reverts on the oracle nonce, so it is cancelled and
+   * the rest re-sent from the nonce re-read on-chain.
+   */
+  private async submit(inputs: AttestInput[]) {
+    let nonce = await this.client.contract.oracleNonce(this.oracle) as bigint;
+    const sent: Sent[] = [];
+
+    for (const input of inputs) {
+      const rowId = await this.record(input, nonce);
+      let gasLimit: bigint;
+      try {
+        gasLimit = await this.gasFor(input);
+      } catch (err: any) {
+        // Would revert on its own — skip it without using the oracle nonce
+        await this.fail(rowId, err);
+        continue;
+      }
+      try {
+        const tx = await this.client.sendAttestation(
+          input.dealId, input.collateralUSD, input.drawnNGN, input.ngnUsdRate, { nonce, gasLimit }
+        );
+        await pool.execute("UPDATE oracle_attestations SET tx_hash = ? WHERE id = ?", [tx.txHash, rowId])
+          .catch(err => console.error(`[Attestor] attestation #${rowId} sent as ${tx.txHash}, not recorded:`, err));
+        sent.push({ tx, input, rowId });
+        nonce++;
+      } catch (err: any) {
+        await this.fail(rowId, err);
+        break;
+      }
+    }
+
+    for (let i = 0; i < sent.length; i++) {
+      if (await this.awaitOutcome(sent[i])) continue;
+      const behind = sent.slice(i + 1);
+      if (!behind.length) return;
+      console.log(`[Attestor] Attestation #${sent[i].rowId} failed — cancelling ${behind.length} behind it and re-reading the oracle nonce`);
+      await Promise.all(behind.map(s => this.abandon(s)));
+      return this.submit(behind.map(s => s.input));
+    }
+  }
+
+  /**
+   * Each attestation is estimated on its own, as if it were next: a plain
+   * update, a margin call and a liquidation that redeems from the vault cost
+   * very different amounts. Deals that may liquidate get at least the
+   * configured ceiling.
+   */
+  private async gasFor(input: AttestInput): Promise<bigint> {
+    const estimate = await this.client.estimateAttestation(input.dealId, input.collateralUSD, input.drawnNGN, input.ngnUsdRate);
+    const margin   = BigInt(10000 + (this.client.txm?.gasMarginBPS ?? 2000));
+    const gas      = estimate * margin / BigInt(10000);
+    return LIQUIDATION_STATES.includes(input.healthState ?? "") && gas < this.liquidationGasLimit ? this.liquidationGasLimit : gas;
+  }
+
+  /** Resolves false when the attestation did not confirm */
+  private async awaitOutcome({ tx, input, rowId }: Sent): Promise<boolean> {
+    try {
+      // The mined hash differs from the submitted one when the TxManager sped it up
+      const result = await tx.wait();
+      await pool.execute(
+        "UPDATE oracle_attestations SET status = 'CONFIRMED', tx_hash = ?, health_factor = ?, health_state = ? WHERE id = ?",
+        [result.txHash, result.healthFactor, result.healthState, rowId]
+      ).catch(err => console.error(`[Attestor] attestation #${rowId} confirmed, not recorded:`, err));
+      this.last.set(input.dealId, input);
+      return true;
+    } catch (err: any) {
+      await this.fail(rowId, err);
+      return false;
+    }
+  }
+
+  /** Behind a failed attestation: replace it if still pending, it can only revert */
+  private async abandon({ tx, rowId }: Sent) {
+    if (tx.txId && this.client.txm) {
+      await this.client.txm.cancel(tx.txId).catch(err => console.log(`[Attestor] #${rowId} not cancelled: ${err.message}`));
+    }
+    await this.fail(rowId, new Error("an earlier attestation in the batch failed"));
+  }
+
+  private async record(input: AttestInput, nonce: bigint): Promise<number> {
+    const [res] = await pool.execute(
+      `INSERT INTO oracle_attestations
+         (deal_id, oracle, oracle_nonce, collateral_usd, drawn_ngn, ngn_usd_rate, status)
+       VALUES (?, ?, ?, ?, ?, ?, 'SENT')`,
+      [input.dealId, this.oracle, nonce.toString(), input.collateralUSD.toString(),
+       input.drawnNGN.toString(), input.ngnUsdRate.toString()]
+    );
+    return (res as any).insertId;
+  }
+
+  private async fail(rowId: number, err: any) {
+    const msg = err.reason ?? err.shortMessage ?? err.message;
+    console.error(`[Attestor] ❌ attestation #${rowId} failed: ${msg}`);
+    await pool.execute("UPDATE oracle_attestations SET status = 'FAILED', error = ? WHERE id = ?", [msg, rowId]);
+  }
+}
+
+export async function getAttestationRecords(dealId: string, limit = 50) {
+  const [rows] = await pool.query(
+    `SELECT * FROM oracle_attestations WHERE deal_id = ? ORDER BY id DESC LIMIT ${Math.min(limit, 500)}`,
+    [dealId]
+  );
+  return rows as any[];
+}
@@ -0,0 +1,261 @@
+/**
+ * API client authentication + role-based authorization
+ *
+ * Clients send x-client-id and either
+ *   - x-client-secret                    (checked against a scrypt hash), or
+ *   - x-timestamp + x-signature          (HMAC-SHA256 request signing)
+ * x-source-code, when sent, must match the partner code on the client record.
+ *
+ * Signature = hex(HMAC_SHA256(signingKey, `${timestamp}.${METHOD}.${originalUrl}.${rawBody}`))
+ *
+ * Create a client:  npx ts-node src/auth.ts <clientId> <role,role> [sourceCode] [--require-signature]
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import dotenv from 'dotenv';
+import { pool } from './db';
+import { ApiError, sendError } from './api-errors';
+
+dotenv.config();
+
+export const ROLES = ['admin', 'oracle', 'lender', 'borrower', 'treasury'] as const;
+export type Role = typeof ROLES[number];
+
+export type ApiClient = {
+  clientId:         string;
+  sourceCode:       string | null;
+  roles:            Role[];
+  requireSignature: boolean;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiClient?: ApiClient;
+      rawBody?:   Buffer;
+    }
+  }
+}
+
+const MAX_SKEW_SECS = Number(process.env.AUTH_MAX_SKEW_SECS ?? 300);
+
+export class AuthError extends Error {
+  status: number;
+  constructor(status: 401 | 403, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createAuthTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS api_clients (
+      client_id          VARCHAR(64)  PRIMARY KEY,
+      secret_hash        VARCHAR(255) NOT NULL,
+      signing_key_enc    TEXT         NOT NULL,
+      source_code        VARCHAR(64)  NULL,
+      roles              VARCHAR(255) NOT NULL,
+      require_signature  TINYINT(1)   NOT NULL DEFAULT 0,
+      active             TINYINT(1)   NOT NULL DEFAULT 1,
+      created_at         TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      last_used_at       TIMESTAMP    NULL
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS api_request_nonces (
+      signature   VARCHAR(64)  PRIMARY KEY,
+      client_id   VARCHAR(64)  NOT NULL,
+      created_at  TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      KEY idx_nonce_created (created_at)
+    )`);
+}
+
+// ─── Secrets ──────────────────────────────────────────────────────────────────
+export function hashSecret(secret: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(secret, salt, 32);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export function verifySecret(secret: string, stored: string): boolean {
+  const [algo, saltHex, hashHex] = stored.split('$');
+  if (algo !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual   = crypto.scryptSync(secret, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Signing keys must be recoverable to compute HMACs, so they are AES-256-GCM
+// encrypted with AUTH_MASTER_KEY (32-byte hex) instead of hashed. Other
+// modules may seal values under their own master key env var.
+function masterKey(keyEnv: string): Buffer {
+  const hex = process.env[keyEnv] ?? '';
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) throw new Error(`${keyEnv} must be 32 bytes of hex`);
+  return Buffer.from(hex, 'hex');
+}
+
+export function encryptValue(plain: string, keyEnv = 'AUTH_MASTER_KEY'): string {
+  const iv     = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', masterKey(keyEnv), iv);
+  const enc    = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), enc].map(b => b.toString('hex')).join(':');
+}
+
+export function decryptValue(stored: string, keyEnv = 'AUTH_MASTER_KEY'): string {
+  const [iv, tag, enc] = stored.split(':').map(h => Buffer.from(h, 'hex'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey(keyEnv), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(enc), decipher.final()]).toString('utf8');
+}
+
+export function signRequest(signingKey: string, timestamp: string, method: string, url: string, rawBody: string) {
+  return crypto.createHmac('sha256', signingKey)
+    .update(`${timestamp}.${method.toUpperCase()}.${url}.${rawBody}`)
+    .digest('hex');
+}
+
+// ─── Client records ───────────────────────────────────────────────────────────
+function parseRoles(value: string): Role[] {
+  return value.split(',').map(r => r.trim()).filter((r): r is Role => (ROLES as readonly string[]).includes(r));
+}
+
+/**
+ * Create an API client. The secret and signing key are only ever returned here;
+ * the database keeps a hash of the secret and the encrypted signing key.
+ */
+export async function createApiClient(clientId: string, roles: Role[], sourceCode: string | null = null,
+                                      requireSignature = false) {
+  const bad = roles.filter(r => !(ROLES as readonly string[]).includes(r));
+  if (bad.length) throw new Error('unknown role(s): ' + bad.join(','));
+
+  const secret     = crypto.randomBytes(32).toString('hex');
+  const signingKey = crypto.randomBytes(32).toString('hex');
+
+  await pool.execute(
+    `INSERT INTO api_clients (client_id, secret_hash, signing_key_enc, source_code, roles, require_signature)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [clientId, hashSecret(secret), encryptValue(signingKey), sourceCode, roles.join(','), requireSignature ? 1 : 0]
+  );
+  return { clientId, secret, signingKey, roles, sourceCode, requireSignature };
+}
+
+export async function setClientActive(clientId: string, active: boolean) {
+  await pool.execute('UPDATE api_clients SET active = ? WHERE client_id = ?', [active ? 1 : 0, clientId]);
+}
+
+/** Source codes of the active clients among `clientIds` */
+export async function sourceCodesOf(clientIds: string[]): Promise<string[]> {
+  if (!clientIds.length) return [];
+  const [rows] = await pool.query(
+    'SELECT DISTINCT source_code FROM api_clients WHERE client_id IN (?) AND source_code IS NOT NULL AND active = 1',
+    [clientIds]
+  );
+  return (rows as any[]).map(r => r.source_code);
+}
+
+async function loadClient(clientId: string) {
+  const [rows] = await pool.query('SELECT * FROM api_clients WHERE client_id = ? AND active = 1', [clientId]);
+  return (rows as any[])[0] ?? null;
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+export async function authenticateRequest(req: Request): Promise<ApiClient> {
+  const clientId   = req.headers['x-client-id'] as string | undefined;
+  const secret     = req.headers['x-client-secret'] as string | undefined;
+  const sourceCode = req.headers['x-source-code'] as string | undefined;
+  const signature  = req.headers['x-signature'] as string | undefined;
+  const timestamp  = req.headers['x-timestamp'] as string | undefined;
+
+  if (!clientId) throw new AuthError(401, 'missing x-client-id');
+
+  const row = await loadClient(clientId);
+  if (!row) throw new AuthError(401, 'invalid client credentials');
+
+  if (row.source_code && sourceCode && sourceCode !== row.source_code)
+    throw new AuthError(401, 'source code does not match client');
+
+  if (signature) {
+    await verifySignature(req, row, signature, timestamp);
+  } else {
+    if (row.require_signature) throw new AuthError(401, 'request signature required');
+    if (!secret || !verifySecret(secret, row.secret_hash)) throw new AuthError(401, 'invalid client credentials');
+  }
+
+  pool.execute('UPDATE api_clients SET last_used_at = NOW() WHERE client_id = ?', [clientId]).catch(() => {});
+  return {
+    clientId:         row.client_id,
+    sourceCode:       row.source_code,
+    roles:            parseRoles(row.roles),
+    requireSignature: !!row.require_signature,
+  };
+}
+
+async function verifySignature(req: Request, row: any, signature: string, timestamp?: string) {
+  if (!timestamp || !/^\d+$/.test(timestamp)) throw new AuthError(401, 'missing or invalid x-timestamp');
+  const skew = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+  if (skew > MAX_SKEW_SECS) throw new AuthError(401, 'request timestamp outside allowed window');
+
+  const rawBody  = req.rawBody ? req.rawBody.toString('utf8') : '';
+  const expected = signRequest(decryptValue(row.signing_key_enc), timestamp, req.method, req.originalUrl, rawBody);
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(signature, 'hex');
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) throw new AuthError(401, 'invalid request signature');
+
+  // Replay guard: a signature is accepted once within the timestamp window
+  try {
+    await pool.execute('INSERT INTO api_request_nonces (signature, client_id) VALUES (?, ?)', [signature, row.client_id]);
+  } catch (err: any) {
+    if (err.code === 'ER_DUP_ENTRY') throw new AuthError(401, 'replayed request');
+    throw err;
+  }
+  pool.execute('DELETE FROM api_request_nonces WHERE created_at < NOW() - INTERVAL ? SECOND', [MAX_SKEW_SECS * 2])
+    .catch(() => {});
+}
+
+// ─── Middleware ───────────────────────────────────────────────────────────────
+/**
+ * Authenticate the caller and require at least one of `roles`.
+ * With no roles, any authenticated client is accepted.
+ */
+export function requireRole(...roles: Role[]) {
+  // `roles` is read back by openApiDocument (schema.ts)
+  return Object.assign(async (req: Request<any>, res: Response, next: NextFunction) => {
+    try {
+      const client = await authenticateRequest(req);
+      if (roles.length && !client.roles.some(r => roles.includes(r))) {
+        console.log(`[Auth] ${client.clientId} denied ${req.method} ${req.originalUrl} (needs ${roles.join('|')})`);
+        sendError(res, new ApiError('FORBIDDEN'));
+        return;
+      }
+      req.apiClient = client;
+      next();
+    } catch (err: any) {
+      if (err instanceof AuthError) {
+        console.log(`[Auth] ${req.method} ${req.originalUrl} rejected: ${err.message}`);
+        sendError(res, err);
+        return;
+      }
+      console.error(err);
+      sendError(res, new ApiError('INTERNAL_ERROR', 'authentication failed'));
+    }
+  }, { roles });
+}
+
+/** express.json verify hook — keeps the exact bytes for signature checks */
+export function captureRawBody(req: any, _res: any, buf: Buffer) {
+  req.rawBody = buf;
+}
+
+if (require.main === module) {
+  const [clientId, roles, sourceCode, flag] = process.argv.slice(2);
+  if (!clientId || !roles) {
+    console.log('usage: ts-node src/auth.ts <clientId> <role,role> [sourceCode] [--require-signature]');
+    process.exit(1);
+  }
+  createAuthTables()
+    .then(() => createApiClient(clientId, roles.split(',') as Role[], sourceCode ?? null, flag === '--require-signature'))
+    .then(c => { console.log('✅ API client created — store these now, they are not shown again:'); console.log(c); })
+    .catch(console.error)
+    .finally(() => pool.end());
+}
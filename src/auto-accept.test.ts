@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { QuoteInfo } from "./bfpay";
+import { chooseQuote } from "./auto-accept";
+
+const NOW = 1_700_000_000;
+const LENDER_A = "0x00000000000000000000000000000000000000Aa";
+const LENDER_B = "0x00000000000000000000000000000000000000bB";
+
+const quote = (index: number, feeBPS: number, over: Partial<QuoteInfo> = {}): QuoteInfo => ({
+  index, rfqId: "0x" + "01".repeat(32), lender: LENDER_A, feeBPS,
+  validUntil: new Date((NOW + 3_600) * 1000).toISOString(), accepted: false, expired: false, ...over,
+});
+
+test("the cheapest valid quote wins and ties go to the earlier quote", () => {
+  const quotes = [quote(0, 12), quote(1, 9), quote(2, 9, { lender: LENDER_B }), quote(3, 15)];
+  const { quote: best, reason } = chooseQuote({ maxFeeBPS: 20, allowedLenders: null }, quotes, NOW, 60);
+  assert.equal(best!.index, 1);
+  assert.equal(reason, "best of 4 valid: #1 at 9 bps/day");
+});
+
+test("accepted, expiring, too dear and unlisted quotes are passed over", () => {
+  const quotes = [
+    quote(0, 5, { accepted: true }),
+    quote(1, 6, { validUntil: new Date((NOW + 60) * 1000).toISOString() }),   // not past now + minValidity
+    quote(2, 21),
+    quote(3, 7, { lender: "0x" + "cc".repeat(20) }),
+    quote(4, 18, { lender: LENDER_B }),
+  ];
+  const policy = { maxFeeBPS: 20, allowedLenders: [LENDER_A.toLowerCase(), LENDER_B] };
+  const { quote: best, reason } = chooseQuote(policy, quotes, NOW, 60);
+  assert.equal(best!.index, 4);
+  assert.equal(reason, "best of 1 valid: #4 at 18 bps/day");
+});
+
+test("no valid quote is reported with the count considered", () => {
+  assert.deepEqual(chooseQuote({ maxFeeBPS: 5, allowedLenders: null }, [quote(0, 9), quote(1, 8)], NOW, 60), {
+    quote: null, reason: "no valid quote among 2",
+  });
+  assert.deepEqual(chooseQuote({ maxFeeBPS: 5, allowedLenders: null }, [], NOW, 60), { quote: null, reason: "no valid quote among 0" });
+});
@@ -0,0 +1,276 @@
+/**
+ * Borrower auto-accept
+ * A borrower sets an acceptance policy on an open RFQ; the service then picks
+ * and accepts the best quote for them instead of a hand-chosen index.
+ *
+ * Policy (one per RFQ):
+ *   maxFeeBPS       — quotes above this are ignored
+ *   allowedLenders  — optional allow-list of lender addresses
+ *   minWindowSecs   — collect quotes for at least this long after the policy
+ *                     is set before choosing the cheapest
+ *   acceptEarly     — accept the first qualifying quote without waiting out
+ *                     the window
+ *   expiresAt       — optional; stop watching after this
+ *
+ * Quotes that are expired, or that would expire within
+ * AUTO_ACCEPT_MIN_VALIDITY_SECS (default 20) before the tx can land, are
+ * skipped. The best quote is the lowest fee; ties go to the earliest quote.
+ * After acceptQuote confirms, a missing FXRateLocked event is followed by an
+ * explicit lockFXRate.
+ */
+
+import { pool } from "./db";
+import { BFPayClient, QuoteInfo } from "./bfpay";
+import { BFPayIndexer, IndexedEvent } from "./indexer";
+
+export type AcceptPolicyStatus = "ACTIVE" | "ACCEPTING" | "ACCEPTED" | "EXPIRED" | "CLOSED" | "CANCELLED" | "FAILED";
+
+export type AcceptPolicy = {
+  rfqId:          string;
+  signerId:       string;
+  clientId:       string;
+  maxFeeBPS:      number;
+  allowedLenders: string[] | null;
+  minWindowSecs:  number;
+  acceptEarly:    boolean;
+  expiresAt:      Date | null;
+  status:         AcceptPolicyStatus;
+  quoteIndex:     number | null;
+  feeBPS:         number | null;
+  lender:         string | null;
+  txId:           string | null;
+  dealId:         string | null;
+  rateLocked:     boolean | null;
+  reason:         string | null;
+  createdAt:      Date;
+  updatedAt:      Date;
+};
+
+export type PolicyInput = {
+  maxFeeBPS:       number;
+  allowedLenders?: string[] | null;
+  minWindowSecs?:  number;
+  acceptEarly?:    boolean;
+  expiresAt?:      Date | null;
+};
+
+export class AcceptPolicyError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createAcceptPolicyTable() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rfq_accept_policies (
+      rfq_id           VARCHAR(66)  PRIMARY KEY,
+      signer_id        VARCHAR(64)  NOT NULL,
+      client_id        VARCHAR(64)  NOT NULL,
+      max_fee_bps      INT          NOT NULL,
+      allowed_lenders  JSON         NULL,
+      min_window_secs  INT          NOT NULL DEFAULT 0,
+      accept_early     TINYINT(1)   NOT NULL DEFAULT 0,
+      expires_at       TIMESTAMP    NULL,
+      status           VARCHAR(16)  NOT NULL,
+      quote_index      INT          NULL,
+      fee_bps          INT          NULL,
+      lender           VARCHAR(42)  NULL,
+      tx_id            CHAR(36)     NULL,
+      deal_id          VARCHAR(66)  NULL,
+      rate_locked      TINYINT(1)   NULL,
+      reason           TEXT         NULL,
+      created_at       TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at       TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      KEY idx_accept_status (status)
+    )`);
+}
+
+function rowToPolicy(r: any): AcceptPolicy {
+  const lenders = typeof r.allowed_lenders === "string" ? JSON.parse(r.allowed_lenders) : r.allowed_lenders;
+  return {
+    rfqId: r.rfq_id, signerId: r.signer_id, clientId: r.client_id, maxFeeBPS: r.max_fee_bps,
+    allowedLenders: lenders ?? null, minWindowSecs: r.min_window_secs, acceptEarly: !!r.accept_early,
+    expiresAt: r.expires_at, status: r.status, quoteIndex: r.quote_index, feeBPS: r.fee_bps,
+    lender: r.lender, txId: r.tx_id, dealId: r.deal_id,
+    rateLocked: r.rate_locked === null ? null : !!r.rate_locked, reason: r.reason,
+    createdAt: r.created_at, updatedAt: r.updated_at,
+  };
+}
+
+export async function getAcceptPolicy(rfqId: string): Promise<AcceptPolicy | null> {
+  const [rows] = await pool.query("SELECT * FROM rfq_accept_policies WHERE rfq_id = ?", [rfqId.toLowerCase()]);
+  const row = (rows as any[])[0];
+  return row ? rowToPolicy(row) : null;
+}
+
+// ─── Selection ────────────────────────────────────────────────────────────────
+
+/** Pure: the quote the policy would accept now, or null with the reason */
+export function chooseQuote(
+  policy: Pick<AcceptPolicy, "maxFeeBPS" | "allowedLenders">,
+  quotes: QuoteInfo[],
+  nowSecs: number,
+  minValiditySecs: number,
+): { quote: QuoteInfo | null; reason: string } {
+  const allowed = policy.allowedLenders?.map(a => a.toLowerCase()) ?? null;
+  const valid = quotes.filter(q =>
+    !q.accepted &&
+    Date.parse(q.validUntil) / 1000 > nowSecs + minValiditySecs &&
+    q.feeBPS <= policy.maxFeeBPS &&
+    (!allowed || allowed.includes(q.lender.toLowerCase()))
+  );
+  if (valid.length === 0) return { quote: null, reason: `no valid quote among ${quotes.length}` };
+  const best = valid.reduce((a, b) => (b.feeBPS < a.feeBPS ? b : a));
+  return { quote: best, reason: `best of ${valid.length} valid: #${best.index} at ${best.feeBPS} bps/day` };
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class AutoAcceptService {
+  client:          BFPayClient;                          // read-only
+  borrowerClient:  (signerId: string) => BFPayClient;
+  checkMs:         number;
+  minValiditySecs: number;
+
+  private timer:   NodeJS.Timeout | null = null;
+  private running  = new Set<string>();                  // rfq ids being evaluated
+
+  constructor(client: BFPayClient, borrowerClient: (signerId: string) => BFPayClient, opts: { checkMs?: number } = {}) {
+    this.client          = client;
+    this.borrowerClient  = borrowerClient;
+    this.checkMs         = opts.checkMs ?? Number(process.env.AUTO_ACCEPT_CHECK_MS ?? 5_000);
+    this.minValiditySecs = Number(process.env.AUTO_ACCEPT_MIN_VALIDITY_SECS ?? 20);
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createAcceptPolicyTable();
+    // Claimed but never submitted before the last shutdown — safe to try again
+    await pool.execute("UPDATE rfq_accept_policies SET status = 'ACTIVE' WHERE status = 'ACCEPTING' AND tx_id IS NULL");
+    await indexer.consume("auto-accept", ["QuoteSubmitted"], (ev: IndexedEvent) => this.evaluate(ev.refId));
+    this.timer = setInterval(() => this.sweep().catch(err => console.error("[Auto Accept]", err)), this.checkMs);
+    console.log(`[Auto Accept] Started | check every ${this.checkMs / 1000}s`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Set (or replace) the policy for an RFQ the signer's address created.
+   * Replacing is only allowed while nothing has been accepted.
+   */
+  async setPolicy(rfqId: string, signerId: string, clientId: string, input: PolicyInput): Promise<AcceptPolicy> {
+    const rfq = await this.client.getRFQ(rfqId);
+    if (!rfq) throw new AcceptPolicyError(404, "RFQ not found");
+    if (!rfq.open) throw new AcceptPolicyError(409, "RFQ is no longer open");
+    const borrower = await this.borrowerClient(signerId).signer.getAddress();
+    if (borrower.toLowerCase() !== rfq.borrower.toLowerCase())
+      throw new AcceptPolicyError(403, `signer ${signerId} is not the borrower on this RFQ`);
+
+    if (!Number.isInteger(input.maxFeeBPS) || input.maxFeeBPS <= 0)
+      throw new AcceptPolicyError(400, "maxFeeBPS must be a positive integer");
+    const window = input.minWindowSecs ?? 0;
+    if (!Number.isInteger(window) || window < 0) throw new AcceptPolicyError(400, "minWindowSecs must be a non-negative integer");
+
+    const existing = await getAcceptPolicy(rfqId);
+    if (existing && !["ACTIVE", "CANCELLED", "EXPIRED"].includes(existing.status))
+      throw new AcceptPolicyError(409, `policy is already ${existing.status.toLowerCase()}`);
+
+    await pool.execute(
+      `REPLACE INTO rfq_accept_policies
+         (rfq_id, signer_id, client_id, max_fee_bps, allowed_lenders, min_window_secs, accept_early, expires_at, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'ACTIVE')`,
+      [rfqId.toLowerCase(), signerId, clientId, input.maxFeeBPS,
+       input.allowedLenders?.length ? JSON.stringify(input.allowedLenders) : null,
+       window, input.acceptEarly ? 1 : 0, input.expiresAt ?? null]
+    );
+    console.log(`[Auto Accept] Policy set for ${rfqId.slice(0, 12)}… | max ${input.maxFeeBPS} bps | window ${window}s${input.acceptEarly ? " | early" : ""}`);
+    this.evaluate(rfqId).catch(err => console.error("[Auto Accept]", err));
+    return (await getAcceptPolicy(rfqId))!;
+  }
+
+  async cancelPolicy(rfqId: string): Promise<boolean> {
+    const [res] = await pool.execute(
+      "UPDATE rfq_accept_policies SET status = 'CANCELLED' WHERE rfq_id = ? AND status = 'ACTIVE'", [rfqId.toLowerCase()]
+    );
+    return (res as any).affectedRows > 0;
+  }
+
+  private async finish(rfqId: string, status: AcceptPolicyStatus, reason: string, fields: Record<string, any> = {}) {
+    const cols = Object.keys(fields);
+    await pool.execute(
+      `UPDATE rfq_accept_policies SET status = ?, reason = ?${cols.map(c => `, ${c} = ?`).join("")} WHERE rfq_id = ?`,
+      [status, reason, ...cols.map(c => fields[c]), rfqId.toLowerCase()]
+    );
+    console.log(`[Auto Accept] ${rfqId.slice(0, 12)}… ${status} — ${reason}`);
+  }
+
+  /** Re-check active policies: windows close and quotes expire without any event */
+  async sweep() {
+    const [rows] = await pool.query("SELECT rfq_id FROM rfq_accept_policies WHERE status = 'ACTIVE'");
+    for (const r of rows as any[]) await this.evaluate(r.rfq_id);
+  }
+
+  async evaluate(rfqId: string) {
+    const key = rfqId.toLowerCase();
+    if (this.running.has(key)) return;
+    this.running.add(key);
+    try {
+      const policy = await getAcceptPolicy(key);
+      if (!policy || policy.status !== "ACTIVE") return;
+
+      const now = Math.floor(Date.now() / 1000);
+      if (policy.expiresAt && policy.expiresAt.getTime() / 1000 <= now)
+        return this.finish(key, "EXPIRED", "policy expired without a qualifying quote");
+
+      const rfq = await this.client.getRFQ(key);
+      if (!rfq || !rfq.open) return this.finish(key, "CLOSED", "RFQ closed outside the policy");
+
+      const { quote, reason } = chooseQuote(policy, await this.client.getQuotes(key), now, this.minValiditySecs);
+      if (!quote) return;
+
+      const windowOpen = now < policy.createdAt.getTime() / 1000 + policy.minWindowSecs;
+      if (windowOpen && !policy.acceptEarly) return;
+
+      // Claim the policy so a concurrent sweep or another process cannot accept twice
+      const [claim] = await pool.execute(
+        "UPDATE rfq_accept_policies SET status = 'ACCEPTING', quote_index = ?, fee_bps = ?, lender = ?, reason = ? WHERE rfq_id = ? AND status = 'ACTIVE'",
+        [quote.index, quote.feeBPS, quote.lender, reason, key]
+      );
+      if ((claim as any).affectedRows !== 1) return;
+      this.accept(policy, quote, reason).catch(err => console.error("[Auto Accept]", err));
+    } finally {
+      this.running.delete(key);
+    }
+  }
+
+  private async accept(policy: AcceptPolicy, quote: QuoteInfo, reason: string) {
+    const bf = this.borrowerClient(policy.signerId);
+    console.log(`[Auto Accept] ${policy.rfqId.slice(0, 12)}… accepting ${reason}`);
+    try {
+      const tx = await bf.acceptQuote(policy.rfqId, quote.index);
+      await pool.execute("UPDATE rfq_accept_policies SET tx_id = ? WHERE rfq_id = ?", [tx.txId, policy.rfqId]);
+      const result = await tx.wait();
+
+      let rateLocked = result.rateLocked;
+      if (!rateLocked) {
+        console.log(`[Auto Accept] FXRateLocked missing for deal ${result.dealId.slice(0, 12)}… — locking explicitly`);
+        try {
+          const lock = await (await bf.lockFXRate(result.dealId)).wait();
+          rateLocked = lock.ngnPerUsdc !== null;
+        } catch (err: any) {
+          console.error("[Auto Accept] ⚠️  lockFXRate failed:", err.reason ?? err.shortMessage ?? err.message);
+        }
+      }
+      await this.finish(policy.rfqId, "ACCEPTED", reason + (rateLocked ? "" : " — rate NOT locked, lock manually"), {
+        deal_id: result.dealId, rate_locked: rateLocked ? 1 : 0,
+      });
+    } catch (err: any) {
+      await this.finish(policy.rfqId, "FAILED", err.reason ?? err.shortMessage ?? err.message);
+    }
+  }
+}
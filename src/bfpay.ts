@@ -6,109 +6,241 @@
  * Run:     npx ts-node lib/bfpay.ts
  */
 
-import { ethers, Contract, Wallet, JsonRpcProvider, Interface } from "ethers";
+import { ethers, Contract, Wallet, JsonRpcProvider, Interface, LogDescription, TransactionReceipt } from "ethers";
 import * as dotenv from "dotenv";
 import { time } from "console";
+import type { TxManager } from "./tx-manager";
+import { Money, Rate, formatDecimal } from "./money";
+import { preflight } from "./api-errors";
+import { ABI, ERC20_ABI, CollType, HealthName, StatusName, CollTypeName, BFPayViews, Attestation } from "./bindings";
 dotenv.config();
 
-// ─── ABI ─────────────────────────────────────────────────────────────────────
-export const ABI = [
-  // Admin
-  "function addOracle(address) external",
-  "function approveKYB(address) external",
-  "function setLTV(uint256) external",
-  "function setAddresses(address,address,address,address) external",
-
-  // ── USYC ──
-  "function depositUSYC(bytes32 dealId, uint256 usdcAmount) external",
-  "function redeemUSYC(bytes32 dealId) external",
-
-  // ── USDC collateral ──
-  "function depositUSDCCollateral(bytes32 _dealId, uint256 _amount) external",
-  "function releaseUSDC(bytes32 dealId) external",
-
-  // ── StableFX ──
-  "function lockFXRate(bytes32 dealId) external",
-  "function lockFXRateInternal(bytes32 dealId) external",
-  "function getCreditLineNGN(bytes32 dealId) external view returns (uint256)",
-
-  // ── RFQ / Quote / Deal ──
-  "function createRFQ(uint256,uint256,uint256,uint8,uint256) external returns (bytes32)",
-  "function submitQuote(bytes32,uint256,uint256) external",
-  "function acceptQuote(bytes32,uint256) external returns (bytes32)",
-
-  // ── Settlement ──
-  "function confirmPayout(bytes32,string) external",
-  "function confirmRepayment(bytes32,string) external",
-
-  // ── Oracle ──
-  "function attest(bytes32,uint256,uint256,uint256,uint256,bytes) external",
-
-  // ── Views ──
-  "function calculateFee(bytes32) external view returns (uint256 gross, uint256 yieldOffset, uint256 net, uint256 days)",
-  "function getYieldSummary(bytes32) external view returns (uint256 tokens, uint256 originalUSDC, uint256 currentUSDC, uint256 yieldUSDC, uint256 aprBPS)",
-  "function getCreditLineNGN(bytes32) external view returns (uint256)",
-  "function getQuotes(bytes32) external view returns (tuple(bytes32,address,uint256,uint256,bool)[])",
-  "function getHistory(bytes32) external view returns (tuple(bytes32,uint256,uint256,uint256,uint256,uint256,uint8,uint256,address)[])",
-  "function getPosition(bytes32) external view returns (tuple(uint8,uint256,uint256,uint256,uint256))",
-  "function getRate(bytes32) external view returns (tuple(uint256,uint256,uint256,bool))",
-  "function getActiveDealIds() external view returns (bytes32[])",
-  "function getRFQCount() external view returns (uint256)",
-  "function getDealCount() external view returns (uint256)",
-  "function deals(bytes32) external view returns (bytes32,bytes32,address,address,uint256,uint256,uint256,uint256,uint256,uint256,uint8,uint8,uint8,string,string)",
-  "function rfqs(bytes32) external view returns (bytes32,address,uint256,uint256,uint256,uint8,uint256,uint256,bool)",
-  "function oracleNonce(address) external view returns (uint256)",
-  "function isKYB(address) external view returns (bool)",
-
-  // ── Events ──
-  "event USYCDeposited(bytes32 indexed dealId, uint256 usycTokens, uint256 usdcIn)",
-  "event USYCRedeemed(bytes32 indexed dealId, address recipient, uint256 usycTokens, uint256 usdcOut)",
-  "event USDCDeposited(bytes32 indexed dealId, uint256 amount)",
-  "event USDCReleased(bytes32 indexed dealId, address recipient, uint256 amount)",
-  "event FXRateLocked(bytes32 indexed dealId, uint256 ngnPerUsdc, uint256 expiresAt)",
-  "event YieldOffset(bytes32 indexed dealId, uint256 yieldUSDC, uint256 yieldNGN, uint256 netFeeNGN)",
-  "event RFQCreated(bytes32 indexed id, address borrower, uint256 amountNGN, uint8 collType)",
-  "event QuoteSubmitted(bytes32 indexed rfqId, address lender, uint256 feeBPS)",
-  "event DealOpened(bytes32 indexed dealId, address borrower, address lender)",
-  "event PayoutConfirmed(bytes32 indexed dealId, string fiatRef)",
-  "event Repaid(bytes32 indexed dealId, string fiatRef)",
-  "event Attested(bytes32 indexed dealId, uint256 healthFactor, uint8 state)",
-  "event MarginCall(bytes32 indexed dealId, uint256 endsAt)",
-  "event Liquidated(bytes32 indexed dealId)",
-];
-
-// Also need ERC-20 ABI for USDC approval
-export const ERC20_ABI = [
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function allowance(address owner, address spender) external view returns (uint256)",
-  "function balanceOf(address) external view returns (uint256)",
-];
-
-// ─── Helpers ──────────────────────────────────────────────────────────────────
-export const CollTypeName: Record<number, string> = {
-  0: "USYC", 1: "USDC", 2: "GBP Fiat", 3: "USD Fiat", 4: "EUR Fiat",
+// ─── Bindings ─────────────────────────────────────────────────────────────────
+// ABI, enums and struct decoders live in bindings.ts; re-exported for callers
+// that import them from here.
+export { ABI, ERC20_ABI, CollType, HealthState, DealStatus, CollTypeName, HealthName, StatusName } from "./bindings";
+
+// ─── Typed view results ───────────────────────────────────────────────────────
+// Amounts are base-unit integer strings (NGN whole units, USD/USDC × 1e6,
+// USYC × 1e18) so they survive JSON without losing precision.
+export type DealInfo = {
+  id:            string;
+  rfqId:         string;
+  borrower:      string;
+  lender:        string;
+  amountNGN:     string;
+  collateralUSD: string;
+  feeBPS:        number;
+  openedAt:      string;
+  tenorDays:     number;
+  healthFactor:  string;   // 1e18-scaled HF rendered to 4 dp, e.g. "1.6200"
+  healthState:   string;
+  collType:      string;
+  status:        string;
+  fiatPayoutRef: string;
+  fiatRepayRef:  string;
 };
-export const HealthName: Record<number, string> = {
-  0: "HEALTHY", 1: "WARNING", 2: "MARGIN CALL", 3: "LIQUIDATING",
+
+export type RFQInfo = {
+  id:            string;
+  borrower:      string;
+  amountNGN:     string;
+  tenorDays:     number;
+  maxFeeBPS:     number;
+  collType:      string;
+  collateralUSD: string;
+  createdAt:     string;
+  open:          boolean;
+};
+
+export type QuoteInfo = {
+  index:      number;
+  rfqId:      string;
+  lender:     string;
+  feeBPS:     number;
+  validUntil: string;
+  accepted:   boolean;
+  expired:    boolean;
+};
+
+export type PositionInfo = {
+  collType:        string;
+  usycTokens:      string;
+  usdcDeposited:   string;
+  usdcValueAtLock: string;
+  depositedAt:     string | null;
+};
+
+export type RateInfo = {
+  ngnPerUsdc: string;   // NGN × 1e6 per 1 USDC
+  lockedAt:   string | null;
+  expiresAt:  string | null;
+  active:     boolean;
+};
+
+export type AttestationInfo = {
+  collateralUSD:    string;
+  drawnNGN:         string;
+  yieldAccruedUSDC: string;
+  netFeeNGN:        string;
+  healthFactor:     string;
+  healthState:      string;
+  timestamp:        string;
+  oracle:           string;
+};
+
+// ─── Write results ────────────────────────────────────────────────────────────
+export type DecodedEvent = {
+  name:     string;
+  logIndex: number;
+  args:     Record<string, string>;
+};
+
+/** Every write returns the tx hash plus the BFPay events decoded from its receipt */
+export type TxResult = {
+  txHash:      string;
+  blockNumber: number;
+  events:      DecodedEvent[];
 };
-export const StatusName: Record<number, string> = {
-  0: "OPEN", 1: "MATCHED", 2: "ACTIVE", 3: "REPAID", 4: "LIQUIDATED",
+
+/**
+ * A submitted write. `wait()` resolves once mined with the decoded result;
+ * `txId` is the tx_journal id when the client is bound to a TxManager.
+ */
+export type PendingTx<T> = {
+  txId:     string | null;
+  txHash:   string;
+  gasLimit: string | null;
+  wait():   Promise<T>;
 };
 
-const fmt6  = (n: bigint) => (Number(n) / 1e6).toLocaleString("en", { minimumFractionDigits: 2 });
-const fmt18 = (n: bigint) => ethers.formatEther(n);
+/** bigint/Result → plain JSON-safe object keyed by the ABI param names */
+export function serializeArgs(parsed: LogDescription): Record<string, string> {
+  const out: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const v = parsed.args[i];
+    out[input.name || String(i)] = typeof v === "bigint" ? v.toString() : String(v);
+  });
+  return out;
+}
+
+const isoTime = (t: bigint) => new Date(Number(t) * 1000).toISOString();
+const fmtHF   = (hf: bigint) => hf === ethers.MaxUint256 ? "∞" : formatDecimal(hf, 18, { group: false, minFraction: 4, maxFraction: 4 });
+
+const fmtUSDC = (n: bigint | string) => Money.of("USDC", n).format();
+
+// Collateral deposits sent behind their approval cannot be estimated until it is mined
+const DEPOSIT_GAS_LIMIT = BigInt(process.env.DEPOSIT_GAS_LIMIT ?? 600_000);
+
+/** A collateral deposit, with the tx_journal id of the approval sent ahead of it (null when none was needed) */
+export type DepositTx<T> = PendingTx<T> & { approvalTxId: string | null };
 
 // ─── Client ───────────────────────────────────────────────────────────────────
 export class BFPayClient {
   contract:  Contract;
-  signer:    Wallet;
+  views:     BFPayViews;
+  signer:    ethers.Signer;
   iface:     Interface;
+  address:   string;
+  txm:       TxManager | null;
+  signerId:  string | null;
 
-  constructor(contractAddr: string, privateKey: string, rpcUrl: string) {
-    const provider   = new JsonRpcProvider(rpcUrl);
-    this.signer      = new Wallet(privateKey, provider);
+  /**
+   * @param signer  A connected signer (see signers.ts), or a raw private key
+   *                plus rpcUrl for local scripts such as runDemo
+   * @param tx      Route writes through a TxManager as `signerId` (the API always does)
+   */
+  constructor(contractAddr: string, signer: ethers.Signer | string, rpcUrl?: string,
+              tx?: { manager: TxManager; signerId: string }) {
+    this.signer      = typeof signer === "string" ? new Wallet(signer, new JsonRpcProvider(rpcUrl)) : signer;
     this.contract    = new Contract(contractAddr, ABI, this.signer);
+    this.views       = new BFPayViews(this.contract);
     this.iface       = new Interface(ABI);
+    this.address     = contractAddr;
+    this.txm         = tx?.manager ?? null;
+    this.signerId    = tx?.signerId ?? null;
+    this.txm?.registerDecoder(contractAddr, receipt => this.decodeReceipt(receipt));
+  }
+
+  /**
+   * Submit a write — through the TxManager when bound, otherwise straight
+   * from the signer with ethers' own gas estimate — and hand back a
+   * PendingTx whose wait() decodes the receipt with `finish`. Both paths
+   * preflight the call, so a revert throws a coded ApiError here.
+   */
+  private async send<T extends object>(
+    purpose: string,
+    to:      string,
+    data:    string,
+    refId:   string | null,
+    finish:  (result: TxResult) => T,
+    opts:    { gasLimit?: bigint } = {}
+  ): Promise<PendingTx<TxResult & T>> {
+    let txId: string | null = null;
+    let txHash: string;
+    let gasLimit: string | null = null;
+    let mined: () => Promise<TransactionReceipt>;
+
+    if (this.txm) {
+      const sent = await this.txm.submit(this.signerId!, { to, data, purpose, refId, gasLimit: opts.gasLimit });
+      ({ txId, txHash, gasLimit } = sent);
+      mined = () => this.txm!.wait(sent.txId);
+    } else {
+      if (opts.gasLimit === undefined) await preflight(this.signer, { from: await this.signer.getAddress(), to, data });
+      const sent = await this.signer.sendTransaction({ to, data, gasLimit: opts.gasLimit });
+      txHash   = sent.hash;
+      gasLimit = sent.gasLimit.toString();
+      mined    = async () => (await sent.wait())!;
+    }
+
+    let outcome: Promise<TxResult & T> | null = null;
+    return {
+      txId, txHash, gasLimit,
+      wait: () => outcome ??= mined().then(async receipt => {
+        const result = this.decodeReceipt(receipt);
+        const out    = { ...result, ...finish(result) };
+        if (txId) await this.txm!.saveResult(txId, out);
+        return out;
+      }),
+    };
+  }
+
+  /** BFPay contract call through send() */
+  private write<T extends object>(method: string, args: any[], refId: string | null,
+                                  finish: (result: TxResult) => T, opts: { gasLimit?: bigint } = {}) {
+    return this.send(method, this.address, this.iface.encodeFunctionData(method, args), refId, finish, opts);
+  }
+
+  /** Decode every BFPay log in a receipt; foreign logs (USDC Transfer etc.) are skipped */
+  decodeReceipt(receipt: TransactionReceipt): TxResult {
+    const events: DecodedEvent[] = [];
+    for (const l of receipt.logs) {
+      let parsed: LogDescription | null = null;
+      try { parsed = this.iface.parseLog(l); } catch { parsed = null; }
+      if (parsed) events.push({ name: parsed.name, logIndex: l.index, args: serializeArgs(parsed) });
+    }
+    return { txHash: receipt.hash, blockNumber: receipt.blockNumber, events };
+  }
+
+  private findEvent(result: TxResult, name: string): DecodedEvent | undefined {
+    return result.events.find(e => e.name === name);
+  }
+
+  /**
+   * Approve the BFPay contract for a deposit when the allowance is short.
+   * Through a TxManager that orders our nonces, the deposit is submitted
+   * right behind the approval with an explicit gas limit; otherwise the
+   * approval is waited for.
+   */
+  private async approveForDeposit(usdcAddress: string, usdcAmount: bigint): Promise<{ approvalTxId: string | null; gasLimit?: bigint }> {
+    const usdc      = new Contract(usdcAddress, ERC20_ABI, this.signer);
+    const allowance = await usdc.allowance(await this.signer.getAddress(), this.address) as bigint;
+    if (allowance >= usdcAmount) return { approvalTxId: null };
+
+    const approval = await this.approveUSDC(usdcAddress, usdcAmount, this.address);
+    if (this.txm?.ordersNonces(this.signerId!)) return { approvalTxId: approval.txId, gasLimit: DEPOSIT_GAS_LIMIT };
+    await approval.wait();
+    return { approvalTxId: approval.txId };
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -122,19 +254,19 @@ export class BFPayClient {
    * @param usdcAddress   USDC contract address
    * @param usdcAmount    Amount in USDC base units (6 dec) e.g. 100_000n * BigInt(1e6)
    */
-  async approveUSDC(usdcAddress: string, usdcAmount: bigint,contractAddress: string): Promise<string> {
-    const usdc = new Contract(usdcAddress, ERC20_ABI, this.signer);
-    console.log( usdcAddress + `[USDC] Approving $${fmt6(usdcAmount)} USDC for BFPay...`);
-    const tx = await usdc.approve(await contractAddress, usdcAmount);
-    await tx.wait();
-    console.log(`[USDC] ✅ Approved | tx: ${tx.hash}`);
-    return tx.hash;
+  async approveUSDC(usdcAddress: string, usdcAmount: bigint,contractAddress: string): Promise<PendingTx<TxResult>> {
+    console.log(`[USDC] Approving ${fmtUSDC(usdcAmount)} for BFPay (${usdcAddress})...`);
+    const data = new Interface(ERC20_ABI).encodeFunctionData("approve", [contractAddress, usdcAmount]);
+    return this.send("usdc.approve", usdcAddress, data, null, r => {
+      console.log(`[USDC] ✅ Approved | tx: ${r.txHash}`);
+      return {};
+    });
   }
 
   /**
    * Step 2: Deposit USDC → auto-converted to USYC collateral
    * @param dealId        The matched deal to back
-   * @param usdcAmount    USDC amount (6 dec) — must have approved first
+   * @param usdcAmount    USDC amount (6 dec) — approved to BFPay first when the allowance is short
    *
    * What happens onchain:
    *   1. BFPay pulls USDC from borrower
@@ -142,95 +274,57 @@ export class BFPayClient {
    *   3. USYC stays in BFPay contract, tracked per deal
    *   4. USYC earns ~5% APY → offsets daily borrowing fee
    */
-  async depositUSYC(usdcAddress: string, rpcUrl:string, key:string,contractAddress: string, dealId: string, usdcAmount: bigint): Promise<string> {
+  async depositUSYC(usdcAddress: string, dealId: string, usdcAmount: bigint): Promise<DepositTx<TxResult & { usycMinted: string | null }>> {
     console.log(`\n[USYC Deposit] Deal: ${dealId.slice(0,12)}...`);
-    console.log(`[USYC Deposit] USDC in: $${fmt6(usdcAmount)}`);
-    const provider   = new JsonRpcProvider(rpcUrl);
-    const wallet = new Wallet(key, provider);
-
-     const usdc = new Contract(usdcAddress, ERC20_ABI, wallet);
-    console.log( usdcAddress + `[USDC] Approving $${fmt6(usdcAmount)} USDC for BFPay...`);
-    const tx1 = await usdc.approve(await contractAddress, usdcAmount);
-    //await sleep(2000);
-    await tx1.wait();
-    console.log(`[USDC] ✅ Approved | tx: ${tx1.hash}`);
-
-    const lendContractAdr = new Contract(contractAddress, ABI, wallet);
-
-    const deal = await lendContractAdr.deals(dealId);
-    console.log(deal);
-    const isKYB = await lendContractAdr.isKYB(wallet.address); 
-    console.log('is kyb ' + isKYB);
-
-   /* try {
-    await lendContractAdr.depositUSYC.staticCall(dealId, usdcAmount);
-  } catch (e) {
-    console.error("Revert reason:", e);
-  }*/
-
-    const tx = await lendContractAdr.depositUSYC(dealId, usdcAmount, { gasLimit: 350_000 });
-    const receipt = await tx.wait();
-    console.log(`[USYC Deposit] USDC pulled and converted to USYC collateral | tx: ${tx.hash}`);
-    console.log(receipt);
-;    // Parse USYCDeposited event
-    const log    = receipt.logs.find((l: any) => {
-      try { return this.iface.parseLog(l)?.name === "USYCDeposited"; } catch { return false; }
-    });
-    const parsed = log ? this.iface.parseLog(log) : null;
-
-    if (parsed) {
-      const usycTokens = parsed.args.usycTokens as bigint;
-      console.log(`[USYC Deposit] ✅ USYC minted: ${ethers.formatUnits(usycTokens, 18)}`);
-      console.log(`[USYC Deposit] Yield accrual started — collateral is now earning`);
-    }
-    console.log(`[USYC Deposit] tx: ${tx.hash}`);
-    return tx.hash;
+    console.log(`[USYC Deposit] USDC in: ${fmtUSDC(usdcAmount)}`);
+    const { approvalTxId, gasLimit } = await this.approveForDeposit(usdcAddress, usdcAmount);
+
+    const tx = await this.write("depositUSYC", [dealId, usdcAmount], dealId, result => {
+      console.log(`[USYC Deposit] USDC pulled and converted to USYC collateral | tx: ${result.txHash}`);
+      const ev = this.findEvent(result, "USYCDeposited");
+      if (ev) {
+        console.log(`[USYC Deposit] ✅ USYC minted: ${Money.of("USYC", ev.args.usycTokens).format()}`);
+        console.log(`[USYC Deposit] Yield accrual started — collateral is now earning`);
+      }
+      return { usycMinted: ev?.args.usycTokens ?? null };
+    }, { gasLimit });
+    return { ...tx, approvalTxId };
   }
 
   /**
    * Redeem USYC → USDC+yield, return to borrower (usually auto-triggered)
    * Only callable after deal is REPAID or LIQUIDATED
    */
-  async redeemUSYC(dealId: string): Promise<string> {
+  async redeemUSYC(dealId: string): Promise<PendingTx<TxResult & { usdcOut: string | null; recipient: string | null }>> {
     console.log(`\n[USYC Redeem] Redeeming for deal ${dealId.slice(0,12)}...`);
 
-    const tx      = await this.contract.redeemUSYC(dealId, { gasLimit: 300_000 });
-    const receipt = await tx.wait();
-
-    const log    = receipt.logs.find((l: any) => {
-      try { return this.iface.parseLog(l)?.name === "USYCRedeemed"; } catch { return false; }
+    return this.write("redeemUSYC", [dealId], dealId, result => {
+      const ev = this.findEvent(result, "USYCRedeemed");
+      if (ev) {
+        console.log(`[USYC Redeem] ✅ USDC returned: ${fmtUSDC(ev.args.usdcOut)} (includes yield)`);
+      }
+      return { usdcOut: ev?.args.usdcOut ?? null, recipient: ev?.args.recipient ?? null };
     });
-    if (log) {
-      const parsed = this.iface.parseLog(log)!;
-      const usdcOut = parsed.args.usdcOut as bigint;
-      console.log(`[USYC Redeem] ✅ USDC returned: $${fmt6(usdcOut)} (includes yield)`);
-    }
-    return tx.hash;
   }
 
   /**
    * Read current USYC yield summary for a deal
    */
   async getYieldSummary(dealId: string) {
-    const r = await this.contract.getYieldSummary(dealId);
-    const originalUSDC = r[1] as bigint;
-    const currentUSDC  = r[2] as bigint;
-    const yieldUSDC    = r[3] as bigint;
-    const aprBPS       = r[4] as bigint;
-
+    const y = await this.views.yieldSummary(dealId);
     const summary = {
-      usycTokens:    ethers.formatUnits(r[0] as bigint, 18),
-      originalUSDC:  `$${fmt6(originalUSDC)}`,
-      currentUSDC:   `$${fmt6(currentUSDC)}`,
-      yieldEarned:   `$${fmt6(yieldUSDC)}`,
-      effectiveAPR:  `${(Number(aprBPS) / 100).toFixed(2)}%`,
+      usycTokens:    Money.of("USYC", y.usycTokens),
+      originalUSDC:  Money.of("USDC", y.originalUSDC),
+      currentUSDC:   Money.of("USDC", y.currentUSDC),
+      yieldEarned:   Money.of("USDC", y.yieldUSDC),
+      aprBPS:        y.aprBPS,
     };
 
     console.log(`\n[USYC Yield Summary]`);
-    console.log(`  Original deposit:  ${summary.originalUSDC}`);
-    console.log(`  Current value:     ${summary.currentUSDC}`);
-    console.log(`  Yield accrued:     ${summary.yieldEarned}`);
-    console.log(`  Effective APR:     ${summary.effectiveAPR}`);
+    console.log(`  Original deposit:  ${summary.originalUSDC.format()}`);
+    console.log(`  Current value:     ${summary.currentUSDC.format()}`);
+    console.log(`  Yield accrued:     ${summary.yieldEarned.format()}`);
+    console.log(`  Effective APR:     ${formatDecimal(BigInt(y.aprBPS), 2, { minFraction: 2 })}%`);
     return summary;
   }
 
@@ -238,20 +332,29 @@ export class BFPayClient {
   // USDC COLLATERAL (no yield — raw USDC locked)
   // ═══════════════════════════════════════════════════════════════════════════
 
-  async depositUSDC(dealId: string, usdcAmount: bigint): Promise<string> {
-    console.log(`[USDC Collateral] Depositing $${fmt6(usdcAmount)}...`);
-    const tx = await this.contract.depositUSDC(dealId, usdcAmount, { gasLimit: 200_000 });
-    await tx.wait();
-    console.log(`[USDC Collateral] ✅ Locked | tx: ${tx.hash}`);
-    return tx.hash;
+  /**
+   * Lock raw USDC collateral. Approves the BFPay contract first when the
+   * current allowance does not cover `usdcAmount`.
+   */
+  async depositUSDC(usdcAddress: string, dealId: string, usdcAmount: bigint): Promise<DepositTx<TxResult & { amount: string | null }>> {
+    const { approvalTxId, gasLimit } = await this.approveForDeposit(usdcAddress, usdcAmount);
+
+    console.log(`[USDC Collateral] Depositing ${fmtUSDC(usdcAmount)}...`);
+    // Deployed contract (and the dashboard ABI) name this depositUSDCCollateral
+    const tx = await this.write("depositUSDCCollateral", [dealId, usdcAmount], dealId, result => {
+      console.log(`[USDC Collateral] ✅ Locked | tx: ${result.txHash}`);
+      return { amount: this.findEvent(result, "USDCDeposited")?.args.amount ?? null };
+    }, { gasLimit });
+    return { ...tx, approvalTxId };
   }
 
-  async releaseUSDC(dealId: string): Promise<string> {
+  async releaseUSDC(dealId: string): Promise<PendingTx<TxResult & { amount: string | null; recipient: string | null }>> {
     console.log(`[USDC Release] Releasing USDC for deal ${dealId.slice(0,12)}...`);
-    const tx = await this.contract.releaseUSDC(dealId, { gasLimit: 150_000 });
-    await tx.wait();
-    console.log(`[USDC Release] ✅ Released | tx: ${tx.hash}`);
-    return tx.hash;
+    return this.write("releaseUSDC", [dealId], dealId, result => {
+      console.log(`[USDC Release] ✅ Released | tx: ${result.txHash}`);
+      const ev = this.findEvent(result, "USDCReleased");
+      return { amount: ev?.args.amount ?? null, recipient: ev?.args.recipient ?? null };
+    });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -264,48 +367,43 @@ export class BFPayClient {
    * Lock StableFX rate for a deal.
    * Usually auto-called inside acceptQuote() — call manually if auto-lock failed.
    */
-  async lockFXRate(dealId: string): Promise<string> {
+  async lockFXRate(dealId: string): Promise<PendingTx<TxResult & { ngnPerUsdc: string | null; expiresAt: string | null }>> {
     console.log(`\n[StableFX] Locking USDC/NGN rate for deal ${dealId.slice(0,12)}...`);
-    const tx      = await this.contract.lockFXRate(dealId, { gasLimit: 200_000 });
-    const receipt = await tx.wait();
-
-    const log = receipt.logs.find((l: any) => {
-      try { return this.iface.parseLog(l)?.name === "FXRateLocked"; } catch { return false; }
+    return this.write("lockFXRate", [dealId], dealId, result => {
+      const ev = this.findEvent(result, "FXRateLocked");
+      if (ev) {
+        console.log(`[StableFX] ✅ Rate locked: ₦${Rate.ngnPerUsdc(ev.args.ngnPerUsdc).format()} per 1 USDC`);
+        console.log(`[StableFX] Valid until: ${isoTime(BigInt(ev.args.expiresAt))}`);
+      }
+      return {
+        ngnPerUsdc: ev?.args.ngnPerUsdc ?? null,
+        expiresAt:  ev ? isoTime(BigInt(ev.args.expiresAt)) : null,
+      };
     });
-    if (log) {
-      const parsed = this.iface.parseLog(log)!;
-      const rate   = parsed.args.ngnPerUsdc as bigint;
-      // rate is NGN × 1e6 per 1 USDC
-      const humanRate = (Number(rate) / 1e6).toLocaleString("en", { maximumFractionDigits: 2 });
-      console.log(`[StableFX] ✅ Rate locked: ₦${humanRate} per $1 USDC`);
-      console.log(`[StableFX] Valid until: ${new Date(Number(parsed.args.expiresAt) * 1000).toISOString()}`);
-    }
-    return tx.hash;
   }
 
   /**
    * Read the locked NGN credit line for a deal
    */
-  async getCreditLineNGN(dealId: string): Promise<string> {
-    const creditNGN: bigint = await this.contract.getCreditLineNGN(dealId);
-    const humanNGN = Number(creditNGN).toLocaleString("en");
-    console.log(`[Credit Line] ₦${humanNGN} available for deal ${dealId.slice(0,12)}`);
-    return humanNGN;
+  async getCreditLineNGN(dealId: string): Promise<Money> {
+    const creditNGN = Money.of("NGN", await this.views.creditLineNGN(dealId));
+    console.log(`[Credit Line] ${creditNGN.format()} available for deal ${dealId.slice(0,12)}`);
+    return creditNGN;
   }
 
   /**
    * Read the locked StableFX rate
    */
   async getLockedRate(dealId: string) {
-    const r = await this.contract.getRate(dealId);
-    if (!r[3]) return null;
+    const r = await this.views.rate(dealId);
+    if (!r.active) return null;
     const rate = {
-      ngnPerUsdc: (Number(r[0] as bigint) / 1e6).toFixed(2),
-      lockedAt:   new Date(Number(r[1]) * 1000).toISOString(),
-      expiresAt:  new Date(Number(r[2]) * 1000).toISOString(),
-      active:     r[3] as boolean,
+      ngnPerUsdc: Rate.ngnPerUsdc(r.ngnPerUsdc),
+      lockedAt:   isoTime(r.lockedAt),
+      expiresAt:  isoTime(r.expiresAt),
+      active:     r.active,
     };
-    console.log(`[Locked Rate] ₦${rate.ngnPerUsdc} / USDC locked at ${rate.lockedAt}`);
+    console.log(`[Locked Rate] ₦${rate.ngnPerUsdc.format()} / USDC locked at ${rate.lockedAt}`);
     return rate;
   }
 
@@ -317,85 +415,84 @@ export class BFPayClient {
     amountNGN:    bigint,
     tenorDays:    number,
     maxFeeBPS:    number,
-    collType:     0|1|2|3|4,
+    collType:     CollType,
     collateralUSD: bigint       // USD × 1e6
-  ): Promise<string> {
+  ): Promise<PendingTx<TxResult & { rfqId: string }>> {
 
-    console.log('coll type ' + collType + ' ' + collateralUSD + ' ' + amountNGN);
-    console.log(`\n[RFQ] Creating: ₦${Number(amountNGN).toLocaleString()} | ${tenorDays}d | ${CollTypeName[collType]} collateral`);
-    const tx = await this.contract.createRFQ(amountNGN, tenorDays, maxFeeBPS, collType, collateralUSD);
-    const receipt = await tx.wait();
-
-    const log    = receipt.logs.find((l: any) => { try { return this.iface.parseLog(l)?.name === "RFQCreated"; } catch { return false; } });
-    const rfqId  = log ? (this.iface.parseLog(log)!.args.id as string) : "unknown";
-    console.log(`[RFQ] ✅ Created | id: ${rfqId}`);
-    return rfqId;
+    console.log(`\n[RFQ] Creating: ${Money.of("NGN", amountNGN).format()} | ${tenorDays}d | ${CollTypeName[collType]} collateral ${Money.of("USD", collateralUSD).format()}`);
+    return this.write("createRFQ", [amountNGN, tenorDays, maxFeeBPS, collType, collateralUSD], null, result => {
+      const rfqId = this.findEvent(result, "RFQCreated")?.args.id ?? "unknown";
+      console.log(`[RFQ] ✅ Created | id: ${rfqId}`);
+      return { rfqId };
+    });
   }
 
-  async submitQuote(rfqId: string, feeBPS: number, validSecs = 120): Promise<string> {
+  async submitQuote(rfqId: string, feeBPS: number, validSecs = 120): Promise<PendingTx<TxResult>> {
     console.log(`[Quote] Submitting ${feeBPS/100}%/day for RFQ ${rfqId.slice(0,12)}...`);
-    const tx = await this.contract.submitQuote(rfqId, feeBPS, validSecs);
-    await tx.wait();
-    console.log(`[Quote] ✅ Submitted`);
-    return tx.hash;
+    return this.write("submitQuote", [rfqId, feeBPS, validSecs], rfqId, () => {
+      console.log(`[Quote] ✅ Submitted`);
+      return {};
+    });
   }
 
-  async acceptQuote(rfqId: string, idx: number): Promise<string> {
+  async acceptQuote(rfqId: string, idx: number): Promise<PendingTx<TxResult & { dealId: string; rateLocked: boolean }>> {
     console.log(`[Deal] Accepting quote #${idx}...`);
-    const tx      = await this.contract.acceptQuote(rfqId, idx);
-    const receipt = await tx.wait();
-
-    const log    = receipt.logs.find((l: any) => { try { return this.iface.parseLog(l)?.name === "DealOpened"; } catch { return false; } });
-    const dealId = log ? (this.iface.parseLog(log)!.args.dealId as string) : "unknown";
-
-    // Check if StableFX rate was auto-locked
-    const rateLocked = receipt.logs.some((l: any) => { try { return this.iface.parseLog(l)?.name === "FXRateLocked"; } catch { return false; } });
-    console.log(`[Deal] ✅ Opened | id: ${dealId}`);
-    console.log(`[Deal] StableFX rate auto-locked: ${rateLocked ? "✅ YES" : "⚠️ NO — call lockFXRate() manually"}`);
-    return dealId;
+    return this.write("acceptQuote", [rfqId, idx], rfqId, result => {
+      const dealId = this.findEvent(result, "DealOpened")?.args.dealId ?? "unknown";
+
+      // Check if StableFX rate was auto-locked
+      const rateLocked = !!this.findEvent(result, "FXRateLocked");
+      console.log(`[Deal] ✅ Opened | id: ${dealId}`);
+      console.log(`[Deal] StableFX rate auto-locked: ${rateLocked ? "✅ YES" : "⚠️ NO — call lockFXRate() manually"}`);
+      return { dealId, rateLocked };
+    });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // SETTLEMENT
   // ═══════════════════════════════════════════════════════════════════════════
 
-  async confirmPayout(dealId: string, fiatRef: string): Promise<string> {
+  async confirmPayout(dealId: string, fiatRef: string): Promise<PendingTx<TxResult>> {
     console.log(`[Payout] Confirming ${dealId.slice(0,12)} | ref: ${fiatRef}`);
-    const tx = await this.contract.confirmPayout(dealId, fiatRef);
-    await tx.wait();
-    console.log(`[Payout] ✅ NGN payout confirmed`);
-    return tx.hash;
+    return this.write("confirmPayout", [dealId, fiatRef], dealId, () => {
+      console.log(`[Payout] ✅ NGN payout confirmed`);
+      return {};
+    });
   }
 
   /**
    * Confirm repayment — automatically redeems USYC+yield back to borrower
    */
-  async confirmRepayment(dealId: string, fiatRef: string): Promise<string> {
+  async confirmRepayment(dealId: string, fiatRef: string): Promise<PendingTx<TxResult & {
+    usdcReturned: string | null;
+    yieldOffset:  { yieldUSDC: string; yieldNGN: string; netFeeNGN: string } | null;
+  }>> {
     console.log(`\n[Repayment] Confirming ${dealId.slice(0,12)} | ref: ${fiatRef}`);
-    const tx      = await this.contract.confirmRepayment(dealId, fiatRef);
-    const receipt = await tx.wait();
-
-    // Check for auto-redeem events
-    const usycRedeemed = receipt.logs.find((l: any) => { try { return this.iface.parseLog(l)?.name === "USYCRedeemed"; } catch { return false; } });
-    const usdcReleased = receipt.logs.find((l: any) => { try { return this.iface.parseLog(l)?.name === "USDCReleased"; } catch { return false; } });
-    const yieldOff     = receipt.logs.find((l: any) => { try { return this.iface.parseLog(l)?.name === "YieldOffset";  } catch { return false; } });
-
-    if (usycRedeemed) {
-      const p = this.iface.parseLog(usycRedeemed)!;
-      console.log(`[Repayment] ✅ USYC redeemed → $${fmt6(p.args.usdcOut as bigint)} USDC returned to borrower`);
-    }
-    if (usdcReleased) {
-      const p = this.iface.parseLog(usdcReleased)!;
-      console.log(`[Repayment] ✅ USDC released → $${fmt6(p.args.amount as bigint)} returned`);
-    }
-    if (yieldOff) {
-      const p = this.iface.parseLog(yieldOff)!;
-      console.log(`[Yield Offset] Yield: $${fmt6(p.args.yieldUSDC as bigint)} USDC`);
-      console.log(`[Yield Offset] Offset: ₦${Number(p.args.yieldNGN as bigint).toLocaleString()}`);
-      console.log(`[Yield Offset] Net fee owed: ₦${Number(p.args.netFeeNGN as bigint).toLocaleString()}`);
-    }
-    console.log(`[Repayment] tx: ${tx.hash}`);
-    return tx.hash;
+    return this.write("confirmRepayment", [dealId, fiatRef], dealId, result => {
+      // Check for auto-redeem events
+      const usycRedeemed = this.findEvent(result, "USYCRedeemed");
+      const usdcReleased = this.findEvent(result, "USDCReleased");
+      const yieldOff     = this.findEvent(result, "YieldOffset");
+
+      if (usycRedeemed) {
+        console.log(`[Repayment] ✅ USYC redeemed → ${fmtUSDC(usycRedeemed.args.usdcOut)} returned to borrower`);
+      }
+      if (usdcReleased) {
+        console.log(`[Repayment] ✅ USDC released → ${fmtUSDC(usdcReleased.args.amount)} returned`);
+      }
+      if (yieldOff) {
+        console.log(`[Yield Offset] Yield: ${fmtUSDC(yieldOff.args.yieldUSDC)}`);
+        console.log(`[Yield Offset] Offset: ${Money.of("NGN", yieldOff.args.yieldNGN).format()}`);
+        console.log(`[Yield Offset] Net fee owed: ${Money.of("NGN", yieldOff.args.netFeeNGN).format()}`);
+      }
+      console.log(`[Repayment] tx: ${result.txHash}`);
+      return {
+        usdcReturned: usycRedeemed?.args.usdcOut ?? usdcReleased?.args.amount ?? null,
+        yieldOffset:  yieldOff
+          ? { yieldUSDC: yieldOff.args.yieldUSDC, yieldNGN: yieldOff.args.yieldNGN, netFeeNGN: yieldOff.args.netFeeNGN }
+          : null,
+      };
+    });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -407,34 +504,64 @@ export class BFPayClient {
     collateralUSD: bigint,   // USD × 1e6 (for fiat deals; USYC uses vault price)
     drawnNGN:     bigint,    // whole NGN
     ngnUsdRate:   bigint     // NGN per USD × 1e6 (live rate)
-  ): Promise<string> {
-    const nonce   = await this.contract.oracleNonce(this.signer.address) as bigint;
-    const chainId = (await this.signer.provider!.getNetwork()).chainId;
+  ): Promise<PendingTx<TxResult & { healthFactor: string | null; healthState: string | null }>> {
+    return this.sendAttestation(dealId, collateralUSD, drawnNGN, ngnUsdRate);
+  }
 
+  /** attest() arguments signed by this client's signer as oracle */
+  private async signedAttestation(dealId: string, collateralUSD: bigint, drawnNGN: bigint, ngnUsdRate: bigint, nonce: bigint) {
+    const chainId = (await this.signer.provider!.getNetwork()).chainId;
     const dataHash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
       ["bytes32","uint256","uint256","uint256","uint256","uint256"],
       [dealId, collateralUSD, drawnNGN, ngnUsdRate, nonce, chainId]
     ));
-    const msgHash = ethers.keccak256(ethers.concat([
-      ethers.toUtf8Bytes("\x19Ethereum Signed Message:\n32"),
-      dataHash,
-    ]));
-    const sig = ethers.Signature.from(
-      await this.signer.signingKey.sign(ethers.getBytes(msgHash))
-    ).serialized;
-
-    console.log(`\n[Attest] Pushing health factor for ${dealId.slice(0,12)}...`);
-    const tx      = await this.contract.attest(dealId, collateralUSD, drawnNGN, ngnUsdRate, nonce, sig, { gasLimit: 400_000 });
-    const receipt = await tx.wait();
-
-    const attLog = receipt.logs.find((l: any) => { try { return this.iface.parseLog(l)?.name === "Attested"; } catch { return false; } });
-    if (attLog) {
-      const p  = this.iface.parseLog(attLog)!;
-      const hf = Number(p.args.healthFactor as bigint) / 1e18;
-      const st = HealthName[Number(p.args.state)];
-      console.log(`[Attest] ✅ HF: ${hf.toFixed(4)} | State: ${st}`);
-    }
-    return tx.hash;
+    // EIP-191 over the 32-byte hash — matches the contract's "\x19Ethereum Signed Message:\n32" prefix
+    const sig = await this.signer.signMessage(ethers.getBytes(dataHash));
+    return [dealId, collateralUSD, drawnNGN, ngnUsdRate, nonce, sig] as const;
+  }
+
+  /**
+   * Gas for an attestation as if it were the oracle's next one. Used to size
+   * pipelined attestations, which cannot be estimated with their own nonce;
+   * a call that would revert throws the decoded ApiError.
+   */
+  async estimateAttestation(dealId: string, collateralUSD: bigint, drawnNGN: bigint, ngnUsdRate: bigint): Promise<bigint> {
+    const from  = await this.signer.getAddress();
+    const nonce = await this.contract.oracleNonce(from) as bigint;
+    const data  = this.iface.encodeFunctionData("attest",
+      [...await this.signedAttestation(dealId, collateralUSD, drawnNGN, ngnUsdRate, nonce)]);
+    await preflight(this.signer, { from, to: this.address, data });
+    return this.signer.provider!.estimateGas({ from, to: this.address, data });
+  }
+
+  /**
+   * Sign and submit an attestation. `nonce` (oracle nonce) lets a caller
+   * pipeline several attestations from one oracle; it defaults to the
+   * on-chain value. Pipelined calls past the first must pass `gasLimit`
+   * (see estimateAttestation), since estimating against the current oracle
+   * nonce would revert.
+   */
+  async sendAttestation(
+    dealId:        string,
+    collateralUSD: bigint,
+    drawnNGN:      bigint,
+    ngnUsdRate:    bigint,
+    opts: { nonce?: bigint; gasLimit?: bigint } = {}
+  ): Promise<PendingTx<TxResult & { healthFactor: string | null; healthState: string | null }>> {
+    const nonce = opts.nonce ?? await this.contract.oracleNonce(await this.signer.getAddress()) as bigint;
+    const args  = await this.signedAttestation(dealId, collateralUSD, drawnNGN, ngnUsdRate, nonce);
+
+    console.log(`\n[Attest] Pushing health factor for ${dealId.slice(0,12)}... (oracle nonce ${nonce})`);
+    return this.write("attest", [...args], dealId, result => {
+      const ev = this.findEvent(result, "Attested");
+      if (ev) {
+        console.log(`[Attest] ✅ HF: ${fmtHF(BigInt(ev.args.healthFactor))} | State: ${HealthName[Number(ev.args.state)]}`);
+      }
+      return {
+        healthFactor: ev ? fmtHF(BigInt(ev.args.healthFactor)) : null,
+        healthState:  ev ? HealthName[Number(ev.args.state)] : null,
+      };
+    }, { gasLimit: opts.gasLimit });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -442,24 +569,127 @@ export class BFPayClient {
   // ═══════════════════════════════════════════════════════════════════════════
 
   async calculateFee(dealId: string) {
-    const r = await this.contract.calculateFee(dealId);
+    const f = await this.views.fee(dealId);
     const result = {
-      grossFeeNGN:   Number(r[0] as bigint).toLocaleString(),
-      yieldOffsetNGN: Number(r[1] as bigint).toLocaleString(),
-      netFeeNGN:     Number(r[2] as bigint).toLocaleString(),
-      daysElapsed:   Number(r[3] as bigint),
+      grossFeeNGN:    Money.of("NGN", f.grossFeeNGN),
+      yieldOffsetNGN: Money.of("NGN", f.yieldOffsetNGN),
+      netFeeNGN:      Money.of("NGN", f.netFeeNGN),
+      daysElapsed:    f.daysElapsed,
     };
     console.log(`\n[Fee Breakdown]`);
-    console.log(`  Gross fee:     ₦${result.grossFeeNGN}`);
-    console.log(`  Yield offset:  ₦${result.yieldOffsetNGN} (from USYC accrual)`);
-    console.log(`  Net fee owed:  ₦${result.netFeeNGN}`);
+    console.log(`  Gross fee:     ${result.grossFeeNGN.format()}`);
+    console.log(`  Yield offset:  ${result.yieldOffsetNGN.format()} (from USYC accrual)`);
+    console.log(`  Net fee owed:  ${result.netFeeNGN.format()}`);
     console.log(`  Days elapsed:  ${result.daysElapsed}`);
     return result;
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TYPED READS — raw view data for the REST API (no console output)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  async getDeal(dealId: string): Promise<DealInfo | null> {
+    const d = await this.views.deal(dealId);
+    if (!d) return null;
+    return {
+      id:            d.id,
+      rfqId:         d.rfqId,
+      borrower:      d.borrower,
+      lender:        d.lender,
+      amountNGN:     d.amountNGN.toString(),
+      collateralUSD: d.collateralUSD.toString(),
+      feeBPS:        d.feeBPS,
+      openedAt:      isoTime(d.openedAt),
+      tenorDays:     d.tenorDays,
+      healthFactor:  fmtHF(d.healthFactor),
+      healthState:   HealthName[d.healthState],
+      collType:      CollTypeName[d.collType],
+      status:        StatusName[d.status],
+      fiatPayoutRef: d.fiatPayoutRef,
+      fiatRepayRef:  d.fiatRepayRef,
+    };
+  }
+
+  async getRFQ(rfqId: string): Promise<RFQInfo | null> {
+    const r = await this.views.rfq(rfqId);
+    if (!r) return null;
+    return {
+      id:            r.id,
+      borrower:      r.borrower,
+      amountNGN:     r.amountNGN.toString(),
+      tenorDays:     r.tenorDays,
+      maxFeeBPS:     r.maxFeeBPS,
+      collType:      CollTypeName[r.collType],
+      collateralUSD: r.collateralUSD.toString(),
+      createdAt:     isoTime(r.createdAt),
+      open:          r.open,
+    };
+  }
+
+  async getQuotes(rfqId: string): Promise<QuoteInfo[]> {
+    const quotes = await this.views.quotes(rfqId);
+    const now    = BigInt(Math.floor(Date.now() / 1000));
+    return quotes.map((q, index) => ({
+      index,
+      rfqId:      q.rfqId,
+      lender:     q.lender,
+      feeBPS:     q.feeBPS,
+      validUntil: isoTime(q.validUntil),
+      accepted:   q.accepted,
+      expired:    q.validUntil < now,
+    }));
+  }
+
+  async getPosition(dealId: string): Promise<PositionInfo> {
+    const p = await this.views.position(dealId);
+    return {
+      collType:        CollTypeName[p.collType],
+      usycTokens:      p.usycTokens.toString(),
+      usdcDeposited:   p.usdcDeposited.toString(),
+      usdcValueAtLock: p.usdcValueAtLock.toString(),
+      depositedAt:     p.depositedAt > BigInt(0) ? isoTime(p.depositedAt) : null,
+    };
+  }
+
+  async getRate(dealId: string): Promise<RateInfo> {
+    const r = await this.views.rate(dealId);
+    return {
+      ngnPerUsdc: r.ngnPerUsdc.toString(),
+      lockedAt:   r.lockedAt > BigInt(0) ? isoTime(r.lockedAt) : null,
+      expiresAt:  r.expiresAt > BigInt(0) ? isoTime(r.expiresAt) : null,
+      active:     r.active,
+    };
+  }
+
+  async getHistory(dealId: string): Promise<AttestationInfo[]> {
+    return (await this.views.history(dealId)).map((a: Attestation) => ({
+      collateralUSD:    a.collateralUSD.toString(),
+      drawnNGN:         a.drawnNGN.toString(),
+      yieldAccruedUSDC: a.yieldAccruedUSDC.toString(),
+      netFeeNGN:        a.netFeeNGN.toString(),
+      healthFactor:     fmtHF(a.healthFactor),
+      healthState:      HealthName[a.healthState],
+      timestamp:        isoTime(a.timestamp),
+      oracle:           a.oracle,
+    }));
+  }
+
+  /** All deal ids in creation order (dealList is a public array) */
+  async getDealIds(): Promise<string[]> {
+    const n = Number(await this.contract.getDealCount());
+    return Promise.all(Array.from({ length: n }, (_, i) => this.contract.dealList(i) as Promise<string>));
+  }
+
+  /** All RFQ ids in creation order */
+  async getRFQIds(): Promise<string[]> {
+    const n = Number(await this.contract.getRFQCount());
+    return Promise.all(Array.from({ length: n }, (_, i) => this.contract.rfqList(i) as Promise<string>));
+  }
+
   // ── Admin helpers ──────────────────────────────────────────────────────────
-  async approveKYB(user: string)   { const tx = await this.contract.approveKYB(user); await tx.wait(); console.log(`✅ KYB: ${user}`); }
-  async addOracle(oracle: string)  { const tx = await this.contract.addOracle(oracle); await tx.wait(); console.log(`✅ Oracle: ${oracle}`); }
+  async approveKYB(user: string): Promise<PendingTx<TxResult>>  { return this.write("approveKYB", [user], null, () => { console.log(`✅ KYB: ${user}`); return {}; }); }
+  async addOracle(oracle: string): Promise<PendingTx<TxResult>> { return this.write("addOracle", [oracle], null, () => { console.log(`✅ Oracle: ${oracle}`); return {}; }); }
+  async setLTV(bps: number): Promise<PendingTx<TxResult>>       { return this.write("setLTV", [bps], null, () => { console.log(`✅ LTV: ${bps} bps`); return {}; }); }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // DEMO — full USYC + StableFX lifecycle
@@ -504,7 +734,7 @@ export class BFPayClient {
 
     // 5. Borrower approves USDC then deposits → auto-converts to USYC
     //await borrower.approveUSDC(USDC_ADDR, BigInt(100000) * BigInt(1000000));
-    await borrower.depositUSYC(USDC_ADDR,RPC, BORROWER_PK, CONTRACT, dealId, BigInt(5) * BigInt(1000000));
+    await (await borrower.depositUSYC(USDC_ADDR, dealId, BigInt(5) * BigInt(1000000))).wait();
     
       
     // 6. Read locked rate and credit line
@@ -512,22 +742,26 @@ export class BFPayClient {
     await borrower.getCreditLineNGN(dealId);
 
     // 7. Oracle confirms NGN payout sent via fiat partner
-    await owner.confirmPayout(dealId, "FP-TXN-0001");
-
-    // 8. Oracle attests health factor (60s polling loop in production)
-    await owner.attest(
+    await (await owner.confirmPayout(dealId, "FP-TXN-0001")).wait();
+
+    // 8. Oracle attests health factor (AttestationDaemon runs this loop in production)
+    //    Live rate comes from the provider layer (RATE_PROVIDERS / RATE_STATIC_USDC_NGN)
+    const { createRateAggregatorFromEnv } = await import("./fx-rates");
+    const live = await createRateAggregatorFromEnv({ audit: false }).getRate("USDC", "NGN");
+    const deal = await owner.getDeal(dealId);
+    await (await owner.attest(
       dealId,
-      BigInt(5) * BigInt(1000000), // $100K collateral (USD × 1e6)
-      BigInt(5000),            // ₦50M drawn (whole NGN)
-      BigInt(1370000)          // ₦1,580 per $1 (× 1e6)
-    );
+      BigInt(deal!.collateralUSD),   // USD × 1e6
+      BigInt(deal!.amountNGN),       // whole NGN drawn
+      live.rate                      // NGN per $1 × 1e6
+    )).wait();
 
     // 9. Check yield and fee after some time
     await borrower.getYieldSummary(dealId);
     await borrower.calculateFee(dealId);
 
     // 10. Oracle confirms repayment — USYC auto-redeemed + yield returned
-    await owner.confirmRepayment(dealId, "FP-REPAY-0001");
+    await (await owner.confirmRepayment(dealId, "FP-REPAY-0001")).wait();
 
     console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
     console.log("  Demo complete ✅");
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { ABI, CollTypeName, HealthName, HealthState, decodeEvent, parseEvent, resolveEnumName } from "./bindings";
+
+const iface  = new ethers.Interface(ABI);
+const DEAL   = "0x" + "ab".repeat(32);
+const WALLET = "0x" + "cd".repeat(20);
+
+const log = (name: string, values: unknown[]) => iface.encodeEventLog(name, values);
+
+test("parseEvent names the args and types them by their ABI type", () => {
+  assert.deepEqual(parseEvent(log("Attested", [DEAL, BigInt(15_000), HealthState.MARGIN_CALL])), {
+    name: "Attested", args: { dealId: DEAL, healthFactor: BigInt(15_000), state: 2 },
+  });
+  const ev = parseEvent(log("USDCReleased", [DEAL, ethers.getAddress(WALLET), BigInt(1_000_000)]));
+  assert.equal(ev!.name, "USDCReleased");
+  assert.deepEqual(ev!.args, { dealId: DEAL, recipient: ethers.getAddress(WALLET), amount: BigInt(1_000_000) });
+  assert.deepEqual(parseEvent(log("Repaid", [DEAL, "NIP-0001"]))!.args, { dealId: DEAL, fiatRef: "NIP-0001" });
+});
+
+test("parseEvent ignores logs that are not BFPay events", () => {
+  const transfer = new ethers.Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+  assert.equal(parseEvent(transfer.encodeEventLog("Transfer", [WALLET, WALLET, 1])), null);
+  assert.equal(parseEvent({ topics: [], data: "0x" }), null);
+});
+
+test("decodeEvent types the indexer's stored string args the same way", () => {
+  assert.deepEqual(decodeEvent("Attested", { dealId: DEAL, healthFactor: "15000", state: "2" }), {
+    name: "Attested", args: { dealId: DEAL, healthFactor: BigInt(15_000), state: 2 },
+  });
+  assert.deepEqual(decodeEvent("YieldOffset", { dealId: DEAL, yieldUSDC: "86301369", yieldNGN: "136356", netFeeNGN: "388644" })!.args, {
+    dealId: DEAL, yieldUSDC: BigInt(86_301_369), yieldNGN: BigInt(136_356), netFeeNGN: BigInt(388_644),
+  });
+  assert.equal(decodeEvent("NotAnEvent", {}), null);
+});
+
+test("RFQCreated decodes with the deployed contract's signature", () => {
+  const topic = ethers.id("RFQCreated(bytes32,address,uint256,uint256,uint256,uint8,uint256)");
+  assert.equal(iface.getEvent("RFQCreated")!.topicHash, topic);
+
+  const borrower = ethers.getAddress(WALLET);
+  const encoded  = log("RFQCreated", [DEAL, borrower, BigInt(50_000_000), BigInt(7), BigInt(20), 0, BigInt(100_000_000_000)]);
+  assert.equal(encoded.topics[0], topic);
+  assert.equal(encoded.topics[2], ethers.zeroPadValue(WALLET, 32));   // borrower is indexed
+  assert.deepEqual(parseEvent(encoded), {
+    name: "RFQCreated",
+    args: {
+      id: DEAL, borrower, amountNGN: BigInt(50_000_000), tenorDays: BigInt(7), maxFeeBPS: BigInt(20),
+      collType: 0, collateralUSD: BigInt(100_000_000_000),
+    },
+  });
+});
+
+test("resolveEnumName takes a name in any case or the numeric code", () => {
+  assert.equal(resolveEnumName(HealthName, "margin_call"), "MARGIN CALL");
+  assert.equal(resolveEnumName(HealthName, "2"), "MARGIN CALL");
+  assert.equal(resolveEnumName(CollTypeName, "GBP FIAT"), "GBP Fiat");
+  assert.equal(resolveEnumName(CollTypeName, "9"), null);
+  assert.equal(resolveEnumName(CollTypeName, "gold"), null);
+});
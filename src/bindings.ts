@@ -0,0 +1,477 @@
+/**
+ * BFPay contract bindings
+ * One named-field ABI, the contract's enums, typed structs for every view
+ * and typed event decoders. BFPayClient, the indexer and the dashboard
+ * (via GET /bfpay-bindings.js) all read the contract through this file, so
+ * a struct or event change is made here once.
+ *
+ * Structs are raw: amounts stay bigint in base units (NGN whole naira,
+ * USD/USDC × 1e6, USYC × 1e18, rates × 1e6, health factor × 1e18) and
+ * enum fields are the enum values below.
+ *
+ * The ABI follows the deployed contract where it differs from src/BFPay.sol:
+ * the bulk views, and RFQCreated, which the deployed contract emits with an
+ * indexed borrower and the full RFQ terms (the signature the dashboard was
+ * built against). BFPay.sol's four-field event hashes to a different topic,
+ * so logs decoded with it would never match.
+ */
+
+import { ethers, Contract, Interface, Log, LogDescription } from "ethers";
+
+// ─── Enums (order matches BFPay.sol) ─────────────────────────────────────────
+export enum CollType    { USYC, USDC, GBP_FIAT, USD_FIAT, EUR_FIAT }
+export enum HealthState { HEALTHY, WARNING, MARGIN_CALL, LIQUIDATING }
+export enum DealStatus  { OPEN, MATCHED, ACTIVE, REPAID, LIQUIDATED }
+
+/** Display names used across the API, e.g. "GBP Fiat", "MARGIN CALL" */
+export const CollTypeName: Record<CollType, string> = {
+  [CollType.USYC]: "USYC", [CollType.USDC]: "USDC",
+  [CollType.GBP_FIAT]: "GBP Fiat", [CollType.USD_FIAT]: "USD Fiat", [CollType.EUR_FIAT]: "EUR Fiat",
+};
+export const HealthName: Record<HealthState, string> = {
+  [HealthState.HEALTHY]: "HEALTHY", [HealthState.WARNING]: "WARNING",
+  [HealthState.MARGIN_CALL]: "MARGIN CALL", [HealthState.LIQUIDATING]: "LIQUIDATING",
+};
+export const StatusName: Record<DealStatus, string> = {
+  [DealStatus.OPEN]: "OPEN", [DealStatus.MATCHED]: "MATCHED", [DealStatus.ACTIVE]: "ACTIVE",
+  [DealStatus.REPAID]: "REPAID", [DealStatus.LIQUIDATED]: "LIQUIDATED",
+};
+
+/**
+ * Resolve a request value against one of the name maps. Accepts the numeric
+ * code or the name in any case, with `_` standing in for spaces
+ * ("MARGIN_CALL" → "MARGIN CALL").
+ */
+export function resolveEnumName<E extends number>(names: Record<E, string>, value: string): string | null {
+  if (/^\d+$/.test(value)) return names[Number(value) as E] ?? null;
+  const wanted = value.replace(/_/g, " ").toUpperCase();
+  return (Object.values(names) as string[]).find(n => n.toUpperCase() === wanted) ?? null;
+}
+
+// ─── Struct layouts ──────────────────────────────────────────────────────────
+// Field names follow BFPay.sol; the public getters (deals, rfqs) return the
+// same fields flattened.
+const DEAL = "bytes32 id, bytes32 rfqId, address borrower, address lender, uint256 amountNGN, uint256 collateralUSD, " +
+             "uint256 feeBPS, uint256 openedAt, uint256 tenorDays, uint256 healthFactor, uint8 healthState, " +
+             "uint8 collType, uint8 status, string fiatPayoutRef, string fiatRepayRef";
+const RFQ = "bytes32 id, address borrower, uint256 amountNGN, uint256 tenorDays, uint256 maxFeeBPS, uint8 collateral, " +
+            "uint256 collateralUSD, uint256 createdAt, bool open";
+// The deployed contract's bulk RFQ view carries an rfqType ahead of `open`
+const RFQ_BULK = "bytes32 id, address borrower, uint256 amountNGN, uint256 tenorDays, uint256 maxFeeBPS, uint8 collateral, " +
+                 "uint256 collateralUSD, uint256 createdAt, uint8 rfqType, bool open";
+const QUOTE = "bytes32 rfqId, address lender, uint256 feeBPS, uint256 validUntil, bool accepted";
+const POSITION = "uint8 collType, uint256 usycTokens, uint256 usdcDeposited, uint256 usdcValueAtLock, uint256 depositedAt";
+const LOCKED_RATE = "uint256 ngnPerUsdc, uint256 lockedAt, uint256 expiresAt, bool active";
+const ATTESTATION = "bytes32 dealId, uint256 collateralUSD, uint256 drawnNGN, uint256 yieldAccruedUSDC, uint256 netFeeNGN, " +
+                    "uint256 healthFactor, uint8 healthState, uint256 timestamp, address oracle";
+
+// ─── ABI ─────────────────────────────────────────────────────────────────────
+export const ABI = [
+  // Admin
+  "function addOracle(address oracle) external",
+  "function approveKYB(address user) external",
+  "function setLTV(uint256 bps) external",
+  "function setAddresses(address usycVault, address usycToken, address usdc, address stableFX) external",
+
+  // ── USYC ──
+  "function depositUSYC(bytes32 dealId, uint256 usdcAmount) external",
+  "function redeemUSYC(bytes32 dealId) external",
+
+  // ── USDC collateral ──
+  "function depositUSDCCollateral(bytes32 dealId, uint256 amount) external",
+  "function releaseUSDC(bytes32 dealId) external",
+
+  // ── StableFX ──
+  "function lockFXRate(bytes32 dealId) external",
+  "function lockFXRateInternal(bytes32 dealId) external",
+
+  // ── RFQ / Quote / Deal ──
+  "function createRFQ(uint256 amountNGN, uint256 tenorDays, uint256 maxFeeBPS, uint8 collType, uint256 collateralUSD) external returns (bytes32)",
+  "function submitQuote(bytes32 rfqId, uint256 feeBPS, uint256 validSecs) external",
+  "function acceptQuote(bytes32 rfqId, uint256 idx) external returns (bytes32)",
+
+  // ── Settlement ──
+  "function confirmPayout(bytes32 dealId, string fiatRef) external",
+  "function confirmRepayment(bytes32 dealId, string fiatRef) external",
+
+  // ── Oracle ──
+  "function attest(bytes32 dealId, uint256 collateralUSD, uint256 drawnNGN, uint256 ngnUsdRate, uint256 nonce, bytes sig) external",
+
+  // ── Views ──
+  "function calculateFee(bytes32 dealId) external view returns (uint256 grossFeeNGN, uint256 yieldOffsetNGN, uint256 netFeeNGN, uint256 daysElapsed)",
+  "function getYieldSummary(bytes32 dealId) external view returns (uint256 usycTokens, uint256 originalUSDC, uint256 currentUSDC, uint256 yieldUSDC, uint256 aprBPS)",
+  "function getCreditLineNGN(bytes32 dealId) external view returns (uint256)",
+  `function getQuotes(bytes32 rfqId) external view returns (tuple(${QUOTE})[])`,
+  `function getHistory(bytes32 dealId) external view returns (tuple(${ATTESTATION})[])`,
+  `function getPosition(bytes32 dealId) external view returns (tuple(${POSITION}))`,
+  `function getRate(bytes32 dealId) external view returns (tuple(${LOCKED_RATE}))`,
+  "function getActiveDealIds() external view returns (bytes32[])",
+  "function getRFQCount() external view returns (uint256)",
+  "function getDealCount() external view returns (uint256)",
+  `function deals(bytes32) external view returns (${DEAL})`,
+  `function rfqs(bytes32) external view returns (${RFQ})`,
+  "function rfqList(uint256) external view returns (bytes32)",
+  "function dealList(uint256) external view returns (bytes32)",
+  "function ltvBPS() external view returns (uint256)",
+  "function oracleNonce(address) external view returns (uint256)",
+  "function isKYB(address) external view returns (bool)",
+
+  // ── Bulk views (deployed contract only; not in src/BFPay.sol) ──
+  `function getAllDeals() external view returns (bytes32[] ids, tuple(${DEAL})[] deals)`,
+  `function getAllRfqs() external view returns (bytes32[] ids, tuple(${RFQ_BULK})[] rfqs)`,
+  `function getAllCollateralPositions() external view returns (bytes32[] ids, tuple(${POSITION})[] positions)`,
+  `function getAttestationHistory(bytes32 dealId) external view returns (tuple(${ATTESTATION})[])`,
+
+  // ── Events ──
+  "event USYCDeposited(bytes32 indexed dealId, uint256 usycTokens, uint256 usdcIn)",
+  "event USYCRedeemed(bytes32 indexed dealId, address recipient, uint256 usycTokens, uint256 usdcOut)",
+  "event USDCDeposited(bytes32 indexed dealId, uint256 amount)",
+  "event USDCReleased(bytes32 indexed dealId, address recipient, uint256 amount)",
+  "event FXRateLocked(bytes32 indexed dealId, uint256 ngnPerUsdc, uint256 expiresAt)",
+  "event YieldOffset(bytes32 indexed dealId, uint256 yieldUSDC, uint256 yieldNGN, uint256 netFeeNGN)",
+  "event RFQCreated(bytes32 indexed id, address indexed borrower, uint256 amountNGN, uint256 tenorDays, uint256 maxFeeBPS, uint8 collType, uint256 collateralUSD)",
+  "event QuoteSubmitted(bytes32 indexed rfqId, address lender, uint256 feeBPS)",
+  "event DealOpened(bytes32 indexed dealId, address borrower, address lender)",
+  "event PayoutConfirmed(bytes32 indexed dealId, string fiatRef)",
+  "event Repaid(bytes32 indexed dealId, string fiatRef)",
+  "event Attested(bytes32 indexed dealId, uint256 healthFactor, uint8 state)",
+  "event MarginCall(bytes32 indexed dealId, uint256 endsAt)",
+  "event Liquidated(bytes32 indexed dealId)",
+];
+
+export const ERC20_ABI = [
+  "function approve(address spender, uint256 amount) external returns (bool)",
+  "function allowance(address owner, address spender) external view returns (uint256)",
+  "function balanceOf(address) external view returns (uint256)",
+];
+
+// ─── Structs ─────────────────────────────────────────────────────────────────
+export type Deal = {
+  id:            string;
+  rfqId:         string;
+  borrower:      string;
+  lender:        string;
+  amountNGN:     bigint;
+  collateralUSD: bigint;
+  feeBPS:        number;
+  openedAt:      bigint;
+  tenorDays:     number;
+  healthFactor:  bigint;
+  healthState:   HealthState;
+  collType:      CollType;
+  status:        DealStatus;
+  fiatPayoutRef: string;
+  fiatRepayRef:  string;
+};
+
+export type RFQ = {
+  id:            string;
+  borrower:      string;
+  amountNGN:     bigint;
+  tenorDays:     number;
+  maxFeeBPS:     number;
+  collType:      CollType;
+  collateralUSD: bigint;
+  createdAt:     bigint;
+  open:          boolean;
+  rfqType?:      number;   // bulk view only
+};
+
+export type Quote = {
+  rfqId:      string;
+  lender:     string;
+  feeBPS:     number;
+  validUntil: bigint;
+  accepted:   boolean;
+};
+
+export type Position = {
+  collType:        CollType;
+  usycTokens:      bigint;
+  usdcDeposited:   bigint;
+  usdcValueAtLock: bigint;
+  depositedAt:     bigint;
+};
+
+export type LockedRate = {
+  ngnPerUsdc: bigint;
+  lockedAt:   bigint;
+  expiresAt:  bigint;
+  active:     boolean;
+};
+
+export type Attestation = {
+  dealId:           string;
+  collateralUSD:    bigint;
+  drawnNGN:         bigint;
+  yieldAccruedUSDC: bigint;
+  netFeeNGN:        bigint;
+  healthFactor:     bigint;
+  healthState:      HealthState;
+  timestamp:        bigint;
+  oracle:           string;
+};
+
+export type FeeBreakdown = {
+  grossFeeNGN:    bigint;
+  yieldOffsetNGN: bigint;
+  netFeeNGN:      bigint;
+  daysElapsed:    number;
+};
+
+export type YieldSummary = {
+  usycTokens:   bigint;
+  originalUSDC: bigint;
+  currentUSDC:  bigint;
+  yieldUSDC:    bigint;
+  aprBPS:       number;
+};
+
+// ─── Struct decoders ─────────────────────────────────────────────────────────
+// Each takes the ethers Result for one struct and reads it by field name.
+
+export function decodeDeal(r: ethers.Result): Deal {
+  return {
+    id:            r.id,
+    rfqId:         r.rfqId,
+    borrower:      r.borrower,
+    lender:        r.lender,
+    amountNGN:     r.amountNGN,
+    collateralUSD: r.collateralUSD,
+    feeBPS:        Number(r.feeBPS),
+    openedAt:      r.openedAt,
+    tenorDays:     Number(r.tenorDays),
+    healthFactor:  r.healthFactor,
+    healthState:   Number(r.healthState),
+    collType:      Number(r.collType),
+    status:        Number(r.status),
+    fiatPayoutRef: r.fiatPayoutRef,
+    fiatRepayRef:  r.fiatRepayRef,
+  };
+}
+
+export function decodeRFQ(r: ethers.Result): RFQ {
+  const rfq: RFQ = {
+    id:            r.id,
+    borrower:      r.borrower,
+    amountNGN:     r.amountNGN,
+    tenorDays:     Number(r.tenorDays),
+    maxFeeBPS:     Number(r.maxFeeBPS),
+    collType:      Number(r.collateral),
+    collateralUSD: r.collateralUSD,
+    createdAt:     r.createdAt,
+    open:          r.open,
+  };
+  if (r.length > 9) rfq.rfqType = Number(r.rfqType);
+  return rfq;
+}
+
+export function decodeQuote(r: ethers.Result): Quote {
+  return {
+    rfqId:      r.rfqId,
+    lender:     r.lender,
+    feeBPS:     Number(r.feeBPS),
+    validUntil: r.validUntil,
+    accepted:   r.accepted,
+  };
+}
+
+export function decodePosition(r: ethers.Result): Position {
+  return {
+    collType:        Number(r.collType),
+    usycTokens:      r.usycTokens,
+    usdcDeposited:   r.usdcDeposited,
+    usdcValueAtLock: r.usdcValueAtLock,
+    depositedAt:     r.depositedAt,
+  };
+}
+
+export function decodeLockedRate(r: ethers.Result): LockedRate {
+  return {
+    ngnPerUsdc: r.ngnPerUsdc,
+    lockedAt:   r.lockedAt,
+    expiresAt:  r.expiresAt,
+    active:     r.active,
+  };
+}
+
+export function decodeAttestation(r: ethers.Result): Attestation {
+  return {
+    dealId:           r.dealId,
+    collateralUSD:    r.collateralUSD,
+    drawnNGN:         r.drawnNGN,
+    yieldAccruedUSDC: r.yieldAccruedUSDC,
+    netFeeNGN:        r.netFeeNGN,
+    healthFactor:     r.healthFactor,
+    healthState:      Number(r.healthState),
+    timestamp:        r.timestamp,
+    oracle:           r.oracle,
+  };
+}
+
+// ─── Typed views ─────────────────────────────────────────────────────────────
+
+/** Read-only contract access returning the structs above */
+export class BFPayViews {
+  constructor(readonly contract: Contract) {}
+
+  /** null when the id has never been used (the getter returns a zeroed struct) */
+  async deal(dealId: string): Promise<Deal | null> {
+    const r = await this.contract.deals(dealId);
+    return r.id === ethers.ZeroHash ? null : decodeDeal(r);
+  }
+
+  async rfq(rfqId: string): Promise<RFQ | null> {
+    const r = await this.contract.rfqs(rfqId);
+    return r.id === ethers.ZeroHash ? null : decodeRFQ(r);
+  }
+
+  async quotes(rfqId: string): Promise<Quote[]> {
+    return (await this.contract.getQuotes(rfqId)).map(decodeQuote);
+  }
+
+  async position(dealId: string): Promise<Position> {
+    return decodePosition(await this.contract.getPosition(dealId));
+  }
+
+  async rate(dealId: string): Promise<LockedRate> {
+    return decodeLockedRate(await this.contract.getRate(dealId));
+  }
+
+  async history(dealId: string): Promise<Attestation[]> {
+    return (await this.contract.getHistory(dealId)).map(decodeAttestation);
+  }
+
+  async fee(dealId: string): Promise<FeeBreakdown> {
+    const r = await this.contract.calculateFee(dealId);
+    return { grossFeeNGN: r.grossFeeNGN, yieldOffsetNGN: r.yieldOffsetNGN, netFeeNGN: r.netFeeNGN, daysElapsed: Number(r.daysElapsed) };
+  }
+
+  async yieldSummary(dealId: string): Promise<YieldSummary> {
+    const r = await this.contract.getYieldSummary(dealId);
+    return { usycTokens: r.usycTokens, originalUSDC: r.originalUSDC, currentUSDC: r.currentUSDC, yieldUSDC: r.yieldUSDC, aprBPS: Number(r.aprBPS) };
+  }
+
+  /** Reverts with "no rate locked" until a rate exists */
+  async creditLineNGN(dealId: string): Promise<bigint> {
+    return await this.contract.getCreditLineNGN(dealId) as bigint;
+  }
+
+  // Bulk views exist on the deployed contract only
+  async allDeals(): Promise<Deal[]> {
+    const [, rows] = await this.contract.getAllDeals();
+    return rows.map(decodeDeal);
+  }
+
+  async allRFQs(): Promise<RFQ[]> {
+    const [, rows] = await this.contract.getAllRfqs();
+    return rows.map(decodeRFQ);
+  }
+
+  async allPositions(): Promise<{ dealId: string; position: Position }[]> {
+    const [ids, rows] = await this.contract.getAllCollateralPositions();
+    return rows.map((p: ethers.Result, i: number) => ({ dealId: ids[i] as string, position: decodePosition(p) }));
+  }
+}
+
+// ─── Events ──────────────────────────────────────────────────────────────────
+export type BFPayEventArgs = {
+  USYCDeposited:   { dealId: string; usycTokens: bigint; usdcIn: bigint };
+  USYCRedeemed:    { dealId: string; recipient: string; usycTokens: bigint; usdcOut: bigint };
+  USDCDeposited:   { dealId: string; amount: bigint };
+  USDCReleased:    { dealId: string; recipient: string; amount: bigint };
+  FXRateLocked:    { dealId: string; ngnPerUsdc: bigint; expiresAt: bigint };
+  YieldOffset:     { dealId: string; yieldUSDC: bigint; yieldNGN: bigint; netFeeNGN: bigint };
+  RFQCreated:      { id: string; borrower: string; amountNGN: bigint; tenorDays: bigint; maxFeeBPS: bigint; collType: CollType; collateralUSD: bigint };
+  QuoteSubmitted:  { rfqId: string; lender: string; feeBPS: bigint };
+  DealOpened:      { dealId: string; borrower: string; lender: string };
+  PayoutConfirmed: { dealId: string; fiatRef: string };
+  Repaid:          { dealId: string; fiatRef: string };
+  Attested:        { dealId: string; healthFactor: bigint; state: HealthState };
+  MarginCall:      { dealId: string; endsAt: bigint };
+  Liquidated:      { dealId: string };
+};
+
+export type BFPayEventName = keyof BFPayEventArgs;
+
+/** Discriminated on `name`, so a switch narrows `args` */
+export type BFPayEvent = { [K in BFPayEventName]: { name: K; args: BFPayEventArgs[K] } }[BFPayEventName];
+
+const iface = new Interface(ABI);
+
+function typedValue(type: string, value: unknown): unknown {
+  if (type === "uint8") return Number(value);
+  if (type.startsWith("uint") || type.startsWith("int")) return BigInt(value as any);
+  if (type === "bool") return value === true || value === "true";
+  return String(value);
+}
+
+/**
+ * Type an event from its stored form — the string args the indexer keeps
+ * in bf_events and DecodedEvent carries. null for names outside the ABI.
+ */
+export function decodeEvent(name: string, args: Record<string, string>): BFPayEvent | null {
+  const fragment = iface.getEvent(name);
+  if (!fragment) return null;
+  const out: Record<string, unknown> = {};
+  for (const input of fragment.inputs) out[input.name] = typedValue(input.type, args[input.name]);
+  return { name, args: out } as BFPayEvent;
+}
+
+/** Type a log straight from a receipt or getLogs; null for foreign logs */
+export function parseEvent(log: Log | { topics: readonly string[]; data: string }): BFPayEvent | null {
+  let parsed: LogDescription | null = null;
+  try { parsed = iface.parseLog(log); } catch { parsed = null; }
+  if (!parsed) return null;
+  const out: Record<string, unknown> = {};
+  parsed.fragment.inputs.forEach((input, i) => { out[input.name] = typedValue(input.type, parsed!.args[i]); });
+  return { name: parsed.name, args: out } as BFPayEvent;
+}
+
+// ─── Dashboard ───────────────────────────────────────────────────────────────
+
+const enumNames = (e: object) => Object.keys(e).filter(k => isNaN(Number(k)));
+
+/**
+ * The browser copy of these bindings, served as /bfpay-bindings.js. Sets
+ * `window.BFPay` with the same ABI, the enums (value ↔ key, plus display
+ * names) and the struct / event decoders over the page's ethers global.
+ */
+export function bindingsScript(): string {
+  const enums = {
+    CollType:    { keys: enumNames(CollType),    names: CollTypeName },
+    HealthState: { keys: enumNames(HealthState), names: HealthName },
+    DealStatus:  { keys: enumNames(DealStatus),  names: StatusName },
+  };
+  return `// Generated from src/bindings.ts — do not edit
+window.BFPay = (function () {
+  var ABI = ${JSON.stringify(ABI, null, 2)};
+  var ERC20_ABI = ${JSON.stringify(ERC20_ABI)};
+  var enums = ${JSON.stringify(enums)};
+  var iface = new ethers.Interface(ABI);
+
+  /** Struct Result → plain object keyed by field name */
+  function struct(r) { return r.toObject(); }
+
+  /** Enum value → display name, e.g. label("HealthState", 2) → "MARGIN CALL" */
+  function label(enumName, value) { return enums[enumName].names[Number(value)]; }
+
+  /** Every BFPay event in a receipt as { name, args } with named args */
+  function parseEvents(receipt) {
+    var out = [];
+    receipt.logs.forEach(function (l) {
+      var parsed = null;
+      try { parsed = iface.parseLog(l); } catch (e) { parsed = null; }
+      if (parsed) out.push({ name: parsed.name, args: parsed.args.toObject() });
+    });
+    return out;
+  }
+
+  function findEvent(receipt, name) {
+    return parseEvents(receipt).find(function (e) { return e.name === name; }) || null;
+  }
+
+  return { ABI: ABI, ERC20_ABI: ERC20_ABI, enums: enums, iface: iface, struct: struct, label: label, parseEvents: parseEvents, findEvent: findEvent };
+})();
+`;
+}
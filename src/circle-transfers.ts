@@ -0,0 +1,132 @@
+/**
+ * Circle transfer status tracking
+ *
+ * Two paths move a circle_transfers row (see circle-wallet.ts) to its final
+ * state:
+ *   - Circle's notifications webhook, POSTed to /webhooks/circle. Each body is
+ *     signed with ECDSA/SHA-256; X-Circle-Key-Id names the public key and
+ *     X-Circle-Signature carries the base64 signature over the raw body.
+ *   - CircleTransferReconciler, which re-queries anything not yet COMPLETE,
+ *     CONFIRMED, FAILED or CANCELLED in case a notification never arrived.
+ */
+
+import crypto from "crypto";
+import { pool } from "./db";
+import { circleClient, applyCircleTransaction, FINAL_TRANSFER_STATES } from "./circle-wallet";
+
+export class CircleNotificationError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ─── Signature verification ───────────────────────────────────────────────────
+
+const publicKeys = new Map<string, crypto.KeyObject>();   // keyId → key, keys never rotate under an id
+
+async function notificationKey(keyId: string): Promise<crypto.KeyObject> {
+  const cached = publicKeys.get(keyId);
+  if (cached) return cached;
+  const response = await circleClient().getNotificationSignature(keyId).catch((err: any) => {
+    if (err.response?.status === 400 || err.response?.status === 404) return null;
+    throw err;
+  });
+  const encoded  = response?.data?.publicKey;
+  if (!encoded) throw new CircleNotificationError(401, `unknown Circle key ${keyId}`);
+  const key = crypto.createPublicKey({ key: Buffer.from(encoded, "base64"), format: "der", type: "spki" });
+  publicKeys.set(keyId, key);
+  return key;
+}
+
+/** Throws CircleNotificationError(401) unless the body was signed by Circle */
+export async function verifyCircleNotification(rawBody: Buffer | undefined, signature?: string, keyId?: string) {
+  if (!rawBody || !signature || !keyId) throw new CircleNotificationError(401, "missing Circle signature headers");
+  const key = await notificationKey(keyId);
+  const ok  = crypto.verify("sha256", rawBody, key, Buffer.from(signature, "base64"));
+  if (!ok) throw new CircleNotificationError(401, "invalid Circle signature");
+}
+
+// ─── Notifications ────────────────────────────────────────────────────────────
+
+/**
+ * Apply a verified notification. Transaction notifications update (or insert)
+ * the transfer; other types are acknowledged and ignored.
+ */
+export async function handleCircleNotification(body: any): Promise<{ handled: boolean; type: string }> {
+  const type = String(body?.notificationType ?? "");
+  if (type !== "transactions.outbound" && type !== "transactions.inbound") {
+    console.log(`[Circle] ignoring notification ${type || "(untyped)"}`);
+    return { handled: false, type };
+  }
+
+  const tx = body.notification;
+  if (!tx?.id || !tx?.state) throw new CircleNotificationError(400, "transaction notification without id/state");
+  const changed = await applyCircleTransaction(tx, type === "transactions.inbound" ? "INBOUND" : "OUTBOUND");
+  if (changed) console.log(`[Circle] ${tx.id} → ${tx.state}${tx.txHash ? ` | ${tx.txHash}` : ""}`);
+  return { handled: true, type };
+}
+
+// ─── Reconciler ───────────────────────────────────────────────────────────────
+
+export class CircleTransferReconciler {
+  pollMs:    number;
+  minAgeMs:  number;   // give the webhook a head start before querying
+  batchSize: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private busy  = false;
+
+  constructor(opts: { pollMs?: number; minAgeMs?: number; batchSize?: number } = {}) {
+    this.pollMs    = opts.pollMs    ?? Number(process.env.CIRCLE_RECONCILE_MS ?? 60_000);
+    this.minAgeMs  = opts.minAgeMs  ?? Number(process.env.CIRCLE_RECONCILE_MIN_AGE_MS ?? 30_000);
+    this.batchSize = opts.batchSize ?? Number(process.env.CIRCLE_RECONCILE_BATCH ?? 50);
+  }
+
+  start() {
+    this.timer = setInterval(() => this.runOnce().catch(err => console.error("[Circle]", err)), this.pollMs);
+    console.log(`[Circle] Transfer reconciler started | every ${this.pollMs / 1000}s`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Re-query non-final transfers, least recently checked first */
+  async runOnce(): Promise<number> {
+    if (this.busy) return 0;
+    this.busy = true;
+    try {
+      const [rows] = await pool.query(
+        `SELECT circle_tx_id, direction FROM circle_transfers
+          WHERE state NOT IN (${FINAL_TRANSFER_STATES.map(() => "?").join(",")})
+            AND created_at < NOW() - INTERVAL ? SECOND
+          ORDER BY last_checked_at IS NOT NULL, last_checked_at
+          LIMIT ?`,
+        [...FINAL_TRANSFER_STATES, Math.floor(this.minAgeMs / 1000), this.batchSize]
+      );
+
+      let changed = 0;
+      for (const row of rows as any[]) {
+        try {
+          const tx = (await circleClient().getTransaction({ id: row.circle_tx_id })).data?.transaction;
+          if (tx && await applyCircleTransaction(tx, row.direction)) {
+            changed++;
+            console.log(`[Circle] reconciled ${row.circle_tx_id} → ${tx.state}`);
+          }
+        } catch (err: any) {
+          console.error(`[Circle] ⚠️  could not query ${row.circle_tx_id}:`, err.message);
+        }
+        await pool.execute(
+          "UPDATE circle_transfers SET checks = checks + 1, last_checked_at = NOW() WHERE circle_tx_id = ?",
+          [row.circle_tx_id]
+        );
+      }
+      return changed;
+    } finally {
+      this.busy = false;
+    }
+  }
+}
@@ -7,11 +7,26 @@ import { registerEntitySecretCiphertext } from '@circle-fin/developer-controlled
 import { initiateDeveloperControlledWalletsClient,Blockchain } from '@circle-fin/developer-controlled-wallets';
 
 import { generateEntitySecret } from '@circle-fin/developer-controlled-wallets'
+import crypto from 'crypto';
+import { pool } from './db';
 // This will print a new entity secret in the terminal
 //generateEntitySecret()
 dotenv.config();
 
 
+let sharedClient: ReturnType<typeof initiateDeveloperControlledWalletsClient> | null = null;
+
+/** One Circle client per process — also used by the signer registry */
+export function circleClient() {
+  if (!sharedClient) {
+    sharedClient = initiateDeveloperControlledWalletsClient({
+      apiKey: process.env.CRC_API_KEY!,
+      entitySecret: process.env.CRC_ENTITY_SECRET!
+    });
+  }
+  return sharedClient;
+}
+
 type Wallet = {
   id: string;
   address: string;
@@ -19,16 +34,127 @@ type Wallet = {
   state: string;
 };
 
+// ─── Wallet records ───────────────────────────────────────────────────────────
+// One Circle wallet set per customer; every wallet created for that customer
+// lands in it and is recorded here so it can be listed without asking Circle.
+
+export type WalletRecord = {
+  walletId:    string;
+  address:     string;
+  blockchain:  string;
+  walletSetId: string;
+  customerRef: string;
+  accountType: string;
+  state:       string;
+  createdAt:   Date;
+};
+
+export type TokenBalance = {
+  tokenId:      string;
+  symbol:       string;
+  name:         string | null;
+  amount:       string;
+  decimals:     number | null;
+  tokenAddress: string | null;    // null for the native token
+  blockchain:   string;
+  isNative:     boolean;
+};
+
+export async function createWalletTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS circle_wallet_sets (
+      customer_ref   VARCHAR(128) PRIMARY KEY,
+      wallet_set_id  VARCHAR(64)  NOT NULL,
+      name           VARCHAR(255) NOT NULL,
+      created_at     TIMESTAMP    DEFAULT CURRENT_TIMESTAMP
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS circle_wallets (
+      wallet_id      VARCHAR(64)  PRIMARY KEY,
+      address        VARCHAR(128) NOT NULL,
+      blockchain     VARCHAR(32)  NOT NULL,
+      wallet_set_id  VARCHAR(64)  NOT NULL,
+      customer_ref   VARCHAR(128) NOT NULL,
+      account_type   VARCHAR(8)   NOT NULL,
+      state          VARCHAR(16)  NOT NULL,
+      created_at     TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      KEY idx_wallet_customer (customer_ref),
+      KEY idx_wallet_address (address)
+    )`);
+}
+
+function toWalletRecord(r: any): WalletRecord {
+  return {
+    walletId: r.wallet_id, address: r.address, blockchain: r.blockchain,
+    walletSetId: r.wallet_set_id, customerRef: r.customer_ref,
+    accountType: r.account_type, state: r.state, createdAt: r.created_at,
+  };
+}
+
+/** The customer's wallet set, created in Circle on first use */
+async function walletSetFor(customerRef: string, name: string): Promise<string> {
+  const [rows] = await pool.query('SELECT wallet_set_id FROM circle_wallet_sets WHERE customer_ref = ?', [customerRef]);
+  const existing = (rows as any[])[0];
+  if (existing) return existing.wallet_set_id;
+
+  const response = await circleClient().createWalletSet({ name });
+  const walletSetId = response.data?.walletSet.id;
+  if (!walletSetId) throw new Error(`Circle did not return a wallet set for ${customerRef}`);
+
+  // A concurrent request may have won; keep whichever set was recorded first
+  await pool.execute(
+    'INSERT IGNORE INTO circle_wallet_sets (customer_ref, wallet_set_id, name) VALUES (?, ?, ?)',
+    [customerRef, walletSetId, name]
+  );
+  const [again] = await pool.query('SELECT wallet_set_id FROM circle_wallet_sets WHERE customer_ref = ?', [customerRef]);
+  return (again as any[])[0].wallet_set_id;
+}
+
+/** Create an SCA wallet on `chain` in the customer's wallet set and record it */
+export async function createCustomerWallet(customerRef: string, chain: string, name?: string): Promise<WalletRecord> {
+  const walletSetId = await walletSetFor(customerRef, name ?? `Customer ${customerRef}`);
+
+  const response = await circleClient().createWallets({
+    accountType: 'SCA',
+    blockchains: [chain as Blockchain],
+    count: 1,
+    walletSetId,
+    metadata: [{ name: name ?? customerRef, refId: customerRef }],
+  });
+  const wallet = response.data?.wallets?.[0];
+  if (!wallet) throw new Error(`Circle did not return a wallet for ${customerRef} on ${chain}`);
+
+  await pool.execute(
+    `INSERT INTO circle_wallets (wallet_id, address, blockchain, wallet_set_id, customer_ref, account_type, state)
+     VALUES (?, ?, ?, ?, ?, 'SCA', ?)`,
+    [wallet.id, wallet.address, wallet.blockchain, walletSetId, customerRef, wallet.state]
+  );
+  console.log(`[Wallets] ✅ ${customerRef}: ${wallet.blockchain} ${wallet.address} (${wallet.id})`);
+
+  const [rows] = await pool.query('SELECT * FROM circle_wallets WHERE wallet_id = ?', [wallet.id]);
+  return toWalletRecord((rows as any[])[0]);
+}
+
+export async function listCustomerWallets(customerRef: string, chain?: string): Promise<WalletRecord[]> {
+  const [rows] = chain
+    ? await pool.query('SELECT * FROM circle_wallets WHERE customer_ref = ? AND blockchain = ? ORDER BY created_at', [customerRef, chain])
+    : await pool.query('SELECT * FROM circle_wallets WHERE customer_ref = ? ORDER BY created_at', [customerRef]);
+  return (rows as any[]).map(toWalletRecord);
+}
+
+export async function getWalletRecord(walletId: string): Promise<WalletRecord | null> {
+  const [rows] = await pool.query('SELECT * FROM circle_wallets WHERE wallet_id = ?', [walletId]);
+  const row = (rows as any[])[0];
+  return row ? toWalletRecord(row) : null;
+}
+
 export async function initWallet () {
 
     //generateEntitySecret()
 
     //console.log(process.env.CRC_SECRET_CYPHER)
     
-    const client = initiateDeveloperControlledWalletsClient({
-    apiKey: process.env.CRC_API_KEY!,
-    entitySecret: process.env.CRC_ENTITY_SECRET!
-    });
+    const client = circleClient();
 
     const responsew = await client.createWalletSet({
       name: 'Customer Wallet 1'
@@ -45,10 +171,7 @@ export async function initWallet () {
 
 export async function createWallet (name: string, walletSetId: string,chain: string) {
   
-  const client = initiateDeveloperControlledWalletsClient({
-  apiKey: process.env.CRC_API_KEY!,
-  entitySecret: process.env.CRC_ENTITY_SECRET!
-  });
+  const client = circleClient();
 
 
   if(walletSetId == '')
@@ -89,47 +212,168 @@ export async function createWallet (name: string, walletSetId: string,chain: str
 
 }
 
-export async function fetchBalanceUSDC (walletId: string) {
-  
-  const client = initiateDeveloperControlledWalletsClient({
-  apiKey: process.env.CRC_API_KEY!,
-  entitySecret: process.env.CRC_ENTITY_SECRET!
-  });
+/** Every token the wallet holds, native token included */
+export async function fetchBalances (walletId: string): Promise<{success: boolean, balances: TokenBalance[]}> {
+
+  const client = circleClient();
 
   const response = await client.getWalletTokenBalance({
     id: walletId,
   });
 
-  console.log(response)
-  if(response.status == 200 )
+  if(response.status != 200)
+    return {success:false, balances: []};
+
+  const balances = (response.data?.tokenBalances ?? []).map(b => ({
+    tokenId:      b.token.id,
+    symbol:       b.token.symbol ?? '',
+    name:         b.token.name ?? null,
+    amount:       b.amount,
+    decimals:     b.token.decimals ?? null,
+    tokenAddress: b.token.tokenAddress ?? null,
+    blockchain:   b.token.blockchain,
+    isNative:     b.token.isNative,
+  }));
+  return {success:true, balances};
+
+}
+
+export async function fetchBalanceUSDC (walletId: string) {
+
+  const response = await fetchBalances(walletId);
+  if(!response.success)
+    return {success:false, balance: 0, symbol: 'USDC', id: '' };
+
+  // Wallets can hold the native token or others ahead of USDC — pick by symbol
+  const usdc = response.balances.find(b => b.symbol.toUpperCase() == 'USDC');
+  if(usdc)
   {
-    if(response.data!.tokenBalances!.length > 0)
-    {
-      console.log('wallet balance ' + response.data!.tokenBalances![0].amount); 
-      console.log('wallet id ' + response.data!.tokenBalances![0].token.id); 
-      var response2 = {success:true, balance: response.data!.tokenBalances![0].amount, symbol: 'USDC',
-      id: response.data!.tokenBalances![0].token.id };
-      return response2;
-    }
-    else
-      {
-        return {success:true, balance: 0, symbol: 'USDC', id: '' };
-      }
+    console.log('wallet balance ' + usdc.amount);
+    console.log('wallet id ' + usdc.tokenId);
+    return {success:true, balance: usdc.amount, symbol: 'USDC', id: usdc.tokenId };
   }
 
-  return {success:false, balance: 0, symbol: 'USDC', id: '' };
+  return {success:true, balance: 0, symbol: 'USDC', id: '' };
+
+}
+
+// ─── Transfer records ─────────────────────────────────────────────────────────
+// Every Circle transaction we start (and every inbound one Circle tells us
+// about) is kept here. State moves forward from the notifications webhook and
+// the reconciler in circle-transfers.ts.
+
+export const FINAL_TRANSFER_STATES = ['COMPLETE', 'CONFIRMED', 'FAILED', 'CANCELLED', 'DENIED'];
+
+export type TransferRecord = {
+  circleTxId:    string;
+  externalRef:   string | null;
+  direction:     'OUTBOUND' | 'INBOUND';
+  walletId:      string | null;
+  tokenId:       string | null;
+  sourceAddress: string | null;
+  destinationAddress: string | null;
+  amount:        string | null;
+  blockchain:    string | null;
+  state:         string;
+  txHash:        string | null;
+  networkFee:    string | null;
+  errorReason:   string | null;
+  final:         boolean;
+  createdAt:     Date;
+  updatedAt:     Date;
+};
+
+export async function createTransferTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS circle_transfers (
+      circle_tx_id        VARCHAR(64)  PRIMARY KEY,
+      external_ref        VARCHAR(128) NULL,
+      direction           VARCHAR(8)   NOT NULL,      -- OUTBOUND | INBOUND
+      wallet_id           VARCHAR(64)  NULL,
+      token_id            VARCHAR(64)  NULL,
+      source_address      VARCHAR(128) NULL,
+      destination_address VARCHAR(128) NULL,
+      amount              VARCHAR(78)  NULL,
+      blockchain          VARCHAR(32)  NULL,
+      state               VARCHAR(16)  NOT NULL,
+      tx_hash             VARCHAR(128) NULL,
+      network_fee         VARCHAR(78)  NULL,
+      error_reason        TEXT         NULL,
+      checks              INT          NOT NULL DEFAULT 0,
+      last_checked_at     TIMESTAMP    NULL,
+      created_at          TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at          TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_transfer_ref (external_ref),
+      KEY idx_transfer_state (state)
+    )`);
+}
+
+function toTransferRecord(r: any): TransferRecord {
+  return {
+    circleTxId: r.circle_tx_id, externalRef: r.external_ref, direction: r.direction,
+    walletId: r.wallet_id, tokenId: r.token_id,
+    sourceAddress: r.source_address, destinationAddress: r.destination_address,
+    amount: r.amount, blockchain: r.blockchain, state: r.state, txHash: r.tx_hash,
+    networkFee: r.network_fee, errorReason: r.error_reason,
+    final: FINAL_TRANSFER_STATES.includes(r.state),
+    createdAt: r.created_at, updatedAt: r.updated_at,
+  };
+}
+
+/**
+ * Apply a Circle transaction object (from getTransaction or a notification).
+ * Unknown transactions are inserted; a final state is never overwritten.
+ * Returns true when the stored state changed.
+ */
+export async function applyCircleTransaction(tx: any, direction: 'OUTBOUND' | 'INBOUND' = 'OUTBOUND'): Promise<boolean> {
+  const before = await getTransfer(tx.id);
+  await pool.execute(
+    `INSERT INTO circle_transfers
+       (circle_tx_id, direction, wallet_id, token_id, source_address, destination_address, amount, blockchain,
+        state, tx_hash, network_fee, error_reason)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       state        = IF(state IN (${FINAL_TRANSFER_STATES.map(() => '?').join(',')}), state, VALUES(state)),
+       tx_hash      = COALESCE(VALUES(tx_hash), tx_hash),
+       network_fee  = COALESCE(VALUES(network_fee), network_fee),
+       error_reason = COALESCE(VALUES(error_reason), error_reason),
+       source_address = COALESCE(source_address, VALUES(source_address))`,
+    [
+      tx.id, direction, tx.walletId ?? null, tx.tokenId ?? null,
+      tx.sourceAddress ?? null, tx.destinationAddress ?? null,
+      tx.amounts?.[0] ?? null, tx.blockchain ?? null, tx.state,
+      tx.txHash ?? null, tx.networkFee ?? null, tx.errorReason ?? null,
+      ...FINAL_TRANSFER_STATES,
+    ]
+  );
+  return !before || (!before.final && before.state !== tx.state);
+}
 
+export async function getTransferByRef(externalRef: string): Promise<TransferRecord | null> {
+  const [rows] = await pool.query('SELECT * FROM circle_transfers WHERE external_ref = ?', [externalRef]);
+  const row = (rows as any[])[0];
+  return row ? toTransferRecord(row) : null;
+}
+
+export async function getTransfer(circleTxId: string): Promise<TransferRecord | null> {
+  const [rows] = await pool.query('SELECT * FROM circle_transfers WHERE circle_tx_id = ?', [circleTxId]);
+  const row = (rows as any[])[0];
+  return row ? toTransferRecord(row) : null;
+}
+
+/** Circle wants a UUID idempotency key; derive one from externalRef so a retried transfer is not sent twice */
+function transferIdempotencyKey(externalRef: string): string {
+  const h = crypto.createHash('sha256').update(`transfer:${externalRef}`).digest('hex');
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-4${h.slice(13, 16)}-a${h.slice(17, 20)}-${h.slice(20, 32)}`;
 }
 
 export async function transferUSDC (sourceWalletId: string, beneficiaryWalletId: string,
   amount: string, sourceTokenId: string, externalRef: string,chain:string) {
   
-  const client = initiateDeveloperControlledWalletsClient({
-  apiKey: process.env.CRC_API_KEY!,
-  entitySecret: process.env.CRC_ENTITY_SECRET!
-  });
+  const client = circleClient();
 
   const response = await client.createTransaction({
+    idempotencyKey: transferIdempotencyKey(externalRef),
     walletId: sourceWalletId,
     tokenId: sourceTokenId,
     destinationAddress: beneficiaryWalletId,
@@ -146,12 +390,19 @@ export async function transferUSDC (sourceWalletId: string, beneficiaryWalletId:
   const txId = response.data!.id
 
   console.log('txtId ' + txId)
-  //data: { id: '55b469eb-2c01-523d-8016-121cdee4dfd4', state: 'INITIATED' },
-  //insertTranData(externalRef ,txId, chain);
+  await pool.execute(
+    `INSERT INTO circle_transfers
+       (circle_tx_id, external_ref, direction, wallet_id, token_id, destination_address, amount, blockchain, state)
+     VALUES (?, ?, 'OUTBOUND', ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE external_ref = COALESCE(external_ref, VALUES(external_ref))`,
+    [txId, externalRef, sourceWalletId, sourceTokenId, beneficiaryWalletId, amount, chain, response.data!.state]
+  );
 
   var response2 = {success: true, responseCode: 'PP', responseMessage: '', txId: txId, blockNumber: '',
   blockTimeStamp: '', status: response.data!.state };
 
+  // A short poll for fast chains; anything still pending is finished by the
+  // notifications webhook or the reconciler — look it up by externalRef.
   for (let i = 0; i < 4; i++) {
     try {
       console.log(`Iteration ${i + 1} started`);
@@ -159,6 +410,11 @@ export async function transferUSDC (sourceWalletId: string, beneficiaryWalletId:
         console.log("Sleeping for 5 seconds...");
         await sleep(5000);
 
+         const latest = (await client.getTransaction({ id: txId })).data?.transaction;
+         if (!latest) continue;
+         await applyCircleTransaction(latest);
+         if (!FINAL_TRANSFER_STATES.includes(latest.state)) continue;
+
          var responset = await transferQueryUSDC (txId,'USDC') 
          if(responset != null && responset.success)
             return responset;
@@ -182,10 +438,7 @@ function sleep(ms: number): Promise<void> {
 
 export async function transferQueryUSDC (txId: string, symbol:string) {
   
-  const client = initiateDeveloperControlledWalletsClient({
-  apiKey: process.env.CRC_API_KEY!,
-  entitySecret: process.env.CRC_ENTITY_SECRET!
-  });
+  const client = circleClient();
 
   console.log('txt query status ' + txId)
 
@@ -218,7 +471,7 @@ export async function transferQueryUSDC (txId: string, symbol:string) {
 }
 
 //initWallet();
-var wx  = createWallet("Merchant Wallet","f2d68602-382c-5eca-a719-fe40ac77d234","ARC-TESTNET")
+//var wx  = createWallet("Merchant Wallet","f2d68602-382c-5eca-a719-fe40ac77d234","ARC-TESTNET")
 //fetchBalance('ebe05c72-2884-5c68-85e2-bd61aada7a80')
 ////fetchBalance('b79f7bf5-fbc8-5f88-ab6b-aa6cd41d56c7')
 //transfer('ebe05c72-2884-5c68-85e2-bd61aada7a80','0xee8306a02e59b4527dc3fda555c5e40d61b29a73',0.1,'bdf128b4-827b-5267-8f9e-243694989b5f');
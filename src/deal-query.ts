@@ -0,0 +1,178 @@
+/**
+ * Read-only deal / RFQ / quote queries for the REST API.
+ * Combines the BFPayClient views into one JSON document per deal and adds
+ * pagination + filters on top of the on-chain id lists.
+ */
+
+import { ethers } from "ethers";
+import {
+  BFPayClient, DealInfo, RFQInfo, QuoteInfo, PositionInfo, RateInfo, AttestationInfo,
+  CollTypeName, HealthName, StatusName,
+} from "./bfpay";
+import { resolveEnumName } from "./bindings";
+import { Money, Rate } from "./money";
+
+export type FeeInfo = {
+  grossFeeNGN:    string;
+  yieldOffsetNGN: string;
+  netFeeNGN:      string;
+  daysElapsed:    number;
+};
+
+export type YieldInfo = {
+  usycTokens:   string;
+  originalUSDC: string;
+  currentUSDC:  string;
+  yieldUSDC:    string;
+  aprBPS:       number;
+};
+
+export type DealDocument = DealInfo & {
+  position:      PositionInfo;
+  rate:          RateInfo;
+  fee:           FeeInfo;
+  yield:         YieldInfo;
+  creditLineNGN: string | null;   // null until a rate is locked
+  history:       AttestationInfo[];
+  display:       Record<string, string>;   // formatted copies of the amounts above
+};
+
+export type RFQDocument = RFQInfo & { quotes: QuoteInfo[] };
+
+export type Page<T> = {
+  items:    T[];
+  total:    number;
+  page:     number;
+  pageSize: number;
+};
+
+export type DealFilter = {
+  status?:   string;
+  health?:   string;
+  collType?: string;
+  borrower?: string;
+  lender?:   string;
+  page?:     number;
+  pageSize?: number;
+};
+
+export type RFQFilter = {
+  open?:     boolean;
+  collType?: string;
+  borrower?: string;
+  page?:     number;
+  pageSize?: number;
+};
+
+const MAX_PAGE_SIZE = 100;
+
+function sameAddr(a: string, b?: string) {
+  return !b || a.toLowerCase() === b.toLowerCase();
+}
+
+function paginate<T>(all: T[], page = 1, pageSize = 20): { slice: T[]; page: number; pageSize: number } {
+  const size  = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+  const p     = Math.max(1, page);
+  return { slice: all.slice((p - 1) * size, p * size), page: p, pageSize: size };
+}
+
+// ─── Deals ────────────────────────────────────────────────────────────────────
+
+export async function getDealDocument(client: BFPayClient, dealId: string): Promise<DealDocument | null> {
+  const deal = await client.getDeal(dealId);
+  if (!deal) return null;
+
+  const [position, rate, fee, yieldR, history] = await Promise.all([
+    client.getPosition(dealId),
+    client.getRate(dealId),
+    client.views.fee(dealId),
+    client.views.yieldSummary(dealId),
+    client.getHistory(dealId),
+  ]);
+
+  // getCreditLineNGN reverts with "no rate locked" until a rate exists
+  const creditLineNGN = rate.active ? Money.of("NGN", await client.views.creditLineNGN(dealId)) : null;
+
+  return {
+    ...deal,
+    position,
+    rate,
+    fee: {
+      grossFeeNGN:    fee.grossFeeNGN.toString(),
+      yieldOffsetNGN: fee.yieldOffsetNGN.toString(),
+      netFeeNGN:      fee.netFeeNGN.toString(),
+      daysElapsed:    fee.daysElapsed,
+    },
+    yield: {
+      usycTokens:   yieldR.usycTokens.toString(),
+      originalUSDC: yieldR.originalUSDC.toString(),
+      currentUSDC:  yieldR.currentUSDC.toString(),
+      yieldUSDC:    yieldR.yieldUSDC.toString(),
+      aprBPS:       yieldR.aprBPS,
+    },
+    creditLineNGN: creditLineNGN?.toString() ?? null,
+    history,
+    display: {
+      amountNGN:     Money.of("NGN", deal.amountNGN).format(),
+      collateralUSD: Money.of("USD", deal.collateralUSD).format(),
+      netFeeNGN:     Money.of("NGN", fee.netFeeNGN).format(),
+      currentUSDC:   Money.of("USDC", yieldR.currentUSDC).format(),
+      ngnPerUsdc:    rate.active ? Rate.ngnPerUsdc(rate.ngnPerUsdc).format() : "",
+      creditLineNGN: creditLineNGN?.format() ?? "",
+    },
+  };
+}
+
+/**
+ * Newest deals first. Filters run over the lightweight `deals()` tuple;
+ * the full document is only built for the rows on the requested page.
+ */
+export async function listDeals(client: BFPayClient, filter: DealFilter = {}): Promise<Page<DealDocument>> {
+  const status   = filter.status   ? resolveEnumName(StatusName, filter.status)     : null;
+  const health   = filter.health   ? resolveEnumName(HealthName, filter.health)     : null;
+  const collType = filter.collType ? resolveEnumName(CollTypeName, filter.collType) : null;
+
+  const ids   = (await client.getDealIds()).reverse();
+  const deals = (await Promise.all(ids.map(id => client.getDeal(id)))).filter((d): d is DealInfo => !!d);
+
+  const matched = deals.filter(d =>
+    (!filter.status   || d.status      === status)   &&
+    (!filter.health   || d.healthState === health)   &&
+    (!filter.collType || d.collType    === collType) &&
+    sameAddr(d.borrower, filter.borrower) &&
+    sameAddr(d.lender,   filter.lender)
+  );
+
+  const { slice, page, pageSize } = paginate(matched, filter.page, filter.pageSize);
+  const items = await Promise.all(slice.map(d => getDealDocument(client, d.id)));
+  return { items: items.filter((d): d is DealDocument => !!d), total: matched.length, page, pageSize };
+}
+
+// ─── RFQs ─────────────────────────────────────────────────────────────────────
+
+export async function getRFQDocument(client: BFPayClient, rfqId: string): Promise<RFQDocument | null> {
+  const rfq = await client.getRFQ(rfqId);
+  if (!rfq) return null;
+  return { ...rfq, quotes: await client.getQuotes(rfqId) };
+}
+
+export async function listRFQs(client: BFPayClient, filter: RFQFilter = {}): Promise<Page<RFQDocument>> {
+  const collType = filter.collType ? resolveEnumName(CollTypeName, filter.collType) : null;
+
+  const ids  = (await client.getRFQIds()).reverse();
+  const rfqs = (await Promise.all(ids.map(id => client.getRFQ(id)))).filter((r): r is RFQInfo => !!r);
+
+  const matched = rfqs.filter(r =>
+    (filter.open === undefined || r.open === filter.open) &&
+    (!filter.collType || r.collType === collType) &&
+    sameAddr(r.borrower, filter.borrower)
+  );
+
+  const { slice, page, pageSize } = paginate(matched, filter.page, filter.pageSize);
+  const items = await Promise.all(slice.map(async r => ({ ...r, quotes: await client.getQuotes(r.id) })));
+  return { items, total: matched.length, page, pageSize };
+}
+
+export function isBytes32(id: string) {
+  return ethers.isHexString(id, 32);
+}
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MockRateProvider, RateAggregator, RateError, median, parseRate, formatRate, estimateCreditLineNGN,
+} from "./fx-rates";
+
+const rate = (v: string) => parseRate(v);
+
+/** Aggregator over mocks named a, b, c… quoting USDC/NGN; no audit rows */
+function setup(rates: string[], opts: ConstructorParameters<typeof RateAggregator>[1] = {}) {
+  const providers = rates.map((r, i) => new MockRateProvider(String.fromCharCode(97 + i), { "USDC/NGN": r }));
+  return { providers, agg: new RateAggregator(providers, { audit: false, ...opts }) };
+}
+
+test("parseRate and formatRate use the contract's 1e6 scale", () => {
+  assert.equal(rate("1580.25"), BigInt(1_580_250_000));
+  assert.equal(rate("1580.1234567"), BigInt(1_580_123_456));   // truncated
+  assert.equal(formatRate(BigInt(1_580_000_000)), "1580.0");
+  assert.equal(formatRate(BigInt(1_580_250_000)), "1580.25");
+  for (const bad of ["-1", "1e3", "", "1,580"])
+    assert.throws(() => parseRate(bad), (err: any) => err instanceof RateError && err.code === "BAD_RATE");
+});
+
+test("median of odd and even sets, in any order", () => {
+  assert.equal(median([BigInt(3), BigInt(1), BigInt(2)]), BigInt(2));
+  assert.equal(median([BigInt(4), BigInt(1), BigInt(3), BigInt(2)]), BigInt(2));   // (2 + 3) / 2, floored
+  assert.equal(median([BigInt(10), BigInt(20)]), BigInt(15));
+  assert.equal(median([BigInt(7)]), BigInt(7));
+});
+
+test("the aggregated rate is the median of fresh quotes", async () => {
+  const { agg } = setup(["1580", "1582", "1581"]);
+  const r = await agg.getRate("usdc", "ngn");
+  assert.equal(r.pair, "USDC/NGN");
+  assert.equal(r.rate, rate("1581"));
+  assert.deepEqual(r.sources, ["a", "b", "c"]);
+  assert.ok(r.outcomes.every(o => o.status === "used"));
+});
+
+test("quotes too far from the median are dropped as outliers", async () => {
+  const { agg } = setup(["1580", "1581", "1700"], { maxDeviationBPS: 200 });
+  const r = await agg.getRate("USDC", "NGN");
+  assert.equal(r.rate, rate("1580.5"));
+  assert.deepEqual(r.sources, ["a", "b"]);
+  assert.deepEqual(r.outcomes.map(o => o.status), ["used", "used", "outlier"]);
+});
+
+test("stale and failing sources are reported but not used", async () => {
+  const { agg, providers } = setup(["1580", "1590", "1600"], { maxAgeMs: 60_000 });
+  providers[1].setRate("USDC/NGN", "1590", new Date(Date.now() - 120_000));
+  providers[2].failWith = new Error("feed down");
+
+  const r = await agg.getRate("USDC", "NGN");
+  assert.equal(r.rate, rate("1580"));
+  assert.deepEqual(r.outcomes.map(o => o.status), ["used", "stale", "error"]);
+  assert.equal(r.outcomes[2].error, "feed down");
+});
+
+test("too few usable sources or no fresh rate is refused", async () => {
+  const { agg, providers } = setup(["1580", "1700"], { minSources: 2, maxDeviationBPS: 200 });
+  await assert.rejects(agg.getRate("USDC", "NGN"), { code: "INSUFFICIENT_SOURCES" });
+
+  providers.forEach(p => (p.failWith = new Error("down")));
+  await assert.rejects(agg.getRate("USDC", "NGN"), { code: "NO_FRESH_RATE" });
+  await assert.rejects(agg.getRate("USDC", "GBP"), { code: "NO_FRESH_RATE" });
+});
+
+test("a sudden jump trips the breaker until it is reset", async () => {
+  const { agg, providers } = setup(["1580"], { maxJumpBPS: 1000, breakerCooldownMs: 60_000 });
+  assert.equal((await agg.getRate("USDC", "NGN")).rate, rate("1580"));
+
+  // Within the jump limit the new median becomes the baseline
+  providers[0].setRate("USDC/NGN", "1700");
+  assert.equal((await agg.getRate("USDC", "NGN")).rate, rate("1700"));
+
+  providers[0].setRate("USDC/NGN", "1900");
+  await assert.rejects(agg.getRate("USDC", "NGN"), { code: "BREAKER_TRIPPED" });
+
+  // While open, providers are not asked at all
+  const calls = providers[0].calls;
+  await assert.rejects(agg.getRate("USDC", "NGN"), { code: "BREAKER_OPEN" });
+  assert.equal(providers[0].calls, calls);
+
+  agg.resetBreaker("USDC", "NGN");
+  assert.equal((await agg.getRate("USDC", "NGN")).rate, rate("1900"));
+});
+
+test("the breaker closes by itself after the cooldown", async () => {
+  const { agg, providers } = setup(["1580"], { maxJumpBPS: 100, breakerCooldownMs: 0 });
+  await agg.getRate("USDC", "NGN");
+  providers[0].setRate("USDC/NGN", "1600");
+  await assert.rejects(agg.getRate("USDC", "NGN"), { code: "BREAKER_TRIPPED" });
+  assert.equal((await agg.getRate("USDC", "NGN")).rate, rate("1600"));
+});
+
+test("estimateCreditLineNGN mirrors getCreditLineNGN", () => {
+  // $100,000 at ₦1,580.25 and 70% LTV
+  assert.equal(estimateCreditLineNGN(BigInt(100_000_000_000), rate("1580.25"), BigInt(7000)), BigInt(110_617_500));
+  assert.equal(estimateCreditLineNGN(BigInt(1), rate("1580"), BigInt(7000)), BigInt(0));
+});
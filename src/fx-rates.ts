@@ -0,0 +1,321 @@
+/**
+ * FX rate provider layer
+ * Providers: Circle StableFX, static/manual, JSON file feed, in-memory mock.
+ * RateAggregator takes the median of fresh quotes, drops outliers, trips a
+ * circuit breaker on sudden jumps, and writes an audit row per rate served.
+ *
+ * Rates are bigint × 1e6 (quote currency per 1 unit of base), e.g.
+ * USDC/NGN 1_580_000_000n = ₦1,580 per $1 — the same scale the contract uses.
+ */
+
+import fs from "fs";
+import dotenv from "dotenv";
+import { pool } from "./db";
+import { getStableFXQuote } from "./stable-fx";
+import { RATE_DECIMALS, parseDecimal, formatDecimal } from "./money";
+
+dotenv.config();
+
+export type RateQuote = {
+  pair:       string;    // "USDC/NGN"
+  rate:       bigint;    // × 1e6
+  source:     string;
+  observedAt: Date;
+};
+
+export interface RateProvider {
+  name: string;
+  getRate(base: string, quote: string): Promise<RateQuote>;
+}
+
+export class RateError extends Error {
+  code: string;
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const pairOf = (base: string, quote: string) => `${base.toUpperCase()}/${quote.toUpperCase()}`;
+
+/** "1580.25" → 1_580_250_000n; extra decimals are truncated */
+export function parseRate(value: string | number): bigint {
+  const str = String(value).trim();
+  if (!/^\d+(\.\d+)?$/.test(str)) throw new RateError("BAD_RATE", `invalid rate "${value}"`);
+  return parseDecimal(str, RATE_DECIMALS, { truncate: true });
+}
+
+export const formatRate = (rate: bigint) => formatDecimal(rate, RATE_DECIMALS, { group: false, minFraction: 1 });
+
+// ─── Providers ────────────────────────────────────────────────────────────────
+
+/** Circle StableFX RFQ quote — the rate is read from the quote response */
+export class CircleStableFXProvider implements RateProvider {
+  name = "circle-stablefx";
+  constructor(private notional = "1000") {}
+
+  async getRate(base: string, quote: string): Promise<RateQuote> {
+    const q: any = await getStableFXQuote(base, this.notional, quote);
+    const data   = q?.data ?? q;
+    let rate: bigint;
+    if (data?.rate !== undefined) {
+      rate = parseRate(data.rate);
+    } else if (data?.to?.amount && data?.from?.amount) {
+      rate = (parseRate(data.to.amount) * BigInt(10 ** RATE_DECIMALS)) / parseRate(data.from.amount);
+    } else {
+      throw new RateError("BAD_RESPONSE", "StableFX quote has no rate");
+    }
+    return {
+      pair:       pairOf(base, quote),
+      rate,
+      source:     this.name,
+      observedAt: data?.createdAt ? new Date(data.createdAt) : new Date(),
+    };
+  }
+}
+
+/**
+ * Manually configured rates, e.g. from RATE_STATIC_USDC_NGN=1580.
+ * A manual rate counts as current unless it was set with an explicit time.
+ */
+export class StaticRateProvider implements RateProvider {
+  name = "static";
+  private rates = new Map<string, { rate: bigint; at?: Date }>();
+
+  constructor(rates: Record<string, string> = {}) {
+    for (const [pair, v] of Object.entries(rates)) this.setRate(pair, v);
+  }
+
+  setRate(pair: string, rate: string | bigint, at?: Date) {
+    this.rates.set(pair.toUpperCase(), { rate: typeof rate === "bigint" ? rate : parseRate(rate), at });
+  }
+
+  async getRate(base: string, quote: string): Promise<RateQuote> {
+    const pair = pairOf(base, quote);
+    const r    = this.rates.get(pair);
+    if (!r) throw new RateError("NO_RATE", `${this.name}: no rate for ${pair}`);
+    return { pair, rate: r.rate, source: this.name, observedAt: r.at ?? new Date() };
+  }
+}
+
+/** JSON feed on disk: { "USDC/NGN": { "rate": "1580.25", "updatedAt": "<ISO>" } } */
+export class FileRateProvider implements RateProvider {
+  name: string;
+  constructor(private path: string) {
+    this.name = `file:${path}`;
+  }
+
+  async getRate(base: string, quote: string): Promise<RateQuote> {
+    const pair = pairOf(base, quote);
+    const feed = JSON.parse(await fs.promises.readFile(this.path, "utf8"));
+    const row  = feed[pair];
+    if (!row?.rate) throw new RateError("NO_RATE", `${this.name}: no rate for ${pair}`);
+    const observedAt = row.updatedAt ? new Date(row.updatedAt) : (await fs.promises.stat(this.path)).mtime;
+    return { pair, rate: parseRate(row.rate), source: this.name, observedAt };
+  }
+}
+
+/** In-memory provider for tests: set rates, ages and failures directly */
+export class MockRateProvider extends StaticRateProvider {
+  failWith: Error | null = null;
+  calls = 0;
+
+  constructor(name = "mock", rates: Record<string, string> = {}) {
+    super(rates);
+    this.name = name;
+  }
+
+  async getRate(base: string, quote: string): Promise<RateQuote> {
+    this.calls++;
+    if (this.failWith) throw this.failWith;
+    return super.getRate(base, quote);
+  }
+}
+
+// ─── Aggregation ──────────────────────────────────────────────────────────────
+
+export type SourceOutcome = {
+  source:      string;
+  rate:        string | null;
+  observedAt:  string | null;
+  status:      "used" | "stale" | "outlier" | "error";
+  error?:      string;
+};
+
+export type AggregatedRate = {
+  pair:       string;
+  rate:       bigint;
+  sources:    string[];        // sources that contributed to the median
+  outcomes:   SourceOutcome[];
+  at:         Date;
+};
+
+export type AggregatorOptions = {
+  maxAgeMs?:        number;   // older quotes are rejected as stale
+  minSources?:      number;   // fresh, non-outlier quotes required
+  maxDeviationBPS?: number;   // quote vs median before it is dropped as an outlier
+  maxJumpBPS?:      number;   // median vs last accepted rate before the breaker trips
+  breakerCooldownMs?: number;
+  audit?:           boolean;
+};
+
+export function median(values: bigint[]): bigint {
+  const v   = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(v.length / 2);
+  return v.length % 2 ? v[mid] : (v[mid - 1] + v[mid]) / BigInt(2);
+}
+
+function deviationBPS(a: bigint, b: bigint): number {
+  if (b === BigInt(0)) return Number.MAX_SAFE_INTEGER;
+  const diff = a > b ? a - b : b - a;
+  return Number((diff * BigInt(10000)) / b);
+}
+
+export async function createRateAuditTable() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS fx_rate_audit (
+      id          BIGINT AUTO_INCREMENT PRIMARY KEY,
+      pair        VARCHAR(16)  NOT NULL,
+      rate        VARCHAR(78)  NULL,
+      status      VARCHAR(16)  NOT NULL,     -- ACCEPTED | REJECTED
+      reason      VARCHAR(255) NULL,
+      sources     JSON         NOT NULL,
+      created_at  TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      KEY idx_rate_pair (pair, created_at)
+    )`);
+}
+
+export class RateAggregator {
+  providers:       RateProvider[];
+  maxAgeMs:        number;
+  minSources:      number;
+  maxDeviationBPS: number;
+  maxJumpBPS:      number;
+  breakerCooldownMs: number;
+  audit:           boolean;
+
+  private lastAccepted = new Map<string, bigint>();
+  private trippedAt    = new Map<string, number>();
+
+  constructor(providers: RateProvider[], opts: AggregatorOptions = {}) {
+    this.providers         = providers;
+    this.maxAgeMs          = opts.maxAgeMs          ?? Number(process.env.RATE_MAX_AGE_MS ?? 5 * 60_000);
+    this.minSources        = opts.minSources        ?? Number(process.env.RATE_MIN_SOURCES ?? 1);
+    this.maxDeviationBPS   = opts.maxDeviationBPS   ?? Number(process.env.RATE_MAX_DEVIATION_BPS ?? 200);
+    this.maxJumpBPS        = opts.maxJumpBPS        ?? Number(process.env.RATE_MAX_JUMP_BPS ?? 1000);
+    this.breakerCooldownMs = opts.breakerCooldownMs ?? Number(process.env.RATE_BREAKER_COOLDOWN_MS ?? 15 * 60_000);
+    this.audit             = opts.audit ?? true;
+  }
+
+  /** Clear a tripped breaker and accept the next median as the new baseline */
+  resetBreaker(base: string, quote: string) {
+    const pair = pairOf(base, quote);
+    this.trippedAt.delete(pair);
+    this.lastAccepted.delete(pair);
+  }
+
+  async getRate(base: string, quote: string): Promise<AggregatedRate> {
+    const pair = pairOf(base, quote);
+    const now  = Date.now();
+
+    const tripped = this.trippedAt.get(pair);
+    if (tripped !== undefined) {
+      if (now - tripped < this.breakerCooldownMs)
+        return this.reject(pair, [], "BREAKER_OPEN", `circuit breaker open for ${pair}`);
+      this.resetBreaker(base, quote);
+    }
+
+    const results = await Promise.allSettled(this.providers.map(p => p.getRate(base, quote)));
+    const outcomes: SourceOutcome[] = [];
+    const fresh: RateQuote[] = [];
+
+    results.forEach((r, i) => {
+      const source = this.providers[i].name;
+      if (r.status === "rejected") {
+        outcomes.push({ source, rate: null, observedAt: null, status: "error", error: String(r.reason?.message ?? r.reason) });
+        return;
+      }
+      const q     = r.value;
+      const stale = now - q.observedAt.getTime() > this.maxAgeMs;
+      outcomes.push({ source, rate: q.rate.toString(), observedAt: q.observedAt.toISOString(), status: stale ? "stale" : "used" });
+      if (!stale && q.rate > BigInt(0)) fresh.push(q);
+    });
+
+    if (!fresh.length) return this.reject(pair, outcomes, "NO_FRESH_RATE", `no fresh rate for ${pair}`);
+
+    // Drop quotes too far from the first-pass median, then re-take the median
+    const first = median(fresh.map(q => q.rate));
+    const kept  = fresh.filter(q => {
+      if (deviationBPS(q.rate, first) <= this.maxDeviationBPS) return true;
+      const o = outcomes.find(o => o.source === q.source);
+      if (o) o.status = "outlier";
+      return false;
+    });
+
+    if (kept.length < this.minSources)
+      return this.reject(pair, outcomes, "INSUFFICIENT_SOURCES", `${kept.length}/${this.minSources} usable sources for ${pair}`);
+
+    const rate = median(kept.map(q => q.rate));
+
+    const prev = this.lastAccepted.get(pair);
+    if (prev !== undefined && deviationBPS(rate, prev) > this.maxJumpBPS) {
+      this.trippedAt.set(pair, now);
+      return this.reject(pair, outcomes, "BREAKER_TRIPPED",
+        `${pair} moved ${deviationBPS(rate, prev)} bps (${formatRate(prev)} → ${formatRate(rate)}) — breaker tripped`);
+    }
+
+    this.lastAccepted.set(pair, rate);
+    const result = { pair, rate, sources: kept.map(q => q.source), outcomes, at: new Date(now) };
+    await this.writeAudit(pair, rate, "ACCEPTED", null, outcomes);
+    return result;
+  }
+
+  private async reject(pair: string, outcomes: SourceOutcome[], code: string, message: string): Promise<never> {
+    console.warn(`[FX] ⚠️ ${message}`);
+    await this.writeAudit(pair, null, "REJECTED", message, outcomes);
+    throw new RateError(code, message);
+  }
+
+  private async writeAudit(pair: string, rate: bigint | null, status: string, reason: string | null, outcomes: SourceOutcome[]) {
+    if (!this.audit) return;
+    try {
+      await pool.execute(
+        "INSERT INTO fx_rate_audit (pair, rate, status, reason, sources) VALUES (?, ?, ?, ?, ?)",
+        [pair, rate?.toString() ?? null, status, reason, JSON.stringify(outcomes)]
+      );
+    } catch (err) {
+      console.error("[FX] audit write failed:", err);
+    }
+  }
+}
+
+/**
+ * Build the aggregator from env:
+ *   RATE_PROVIDERS=circle,static,file   RATE_STATIC_USDC_NGN=1580   RATE_FILE=./rates.json
+ */
+export function createRateAggregatorFromEnv(opts: AggregatorOptions = {}): RateAggregator {
+  const names = (process.env.RATE_PROVIDERS ?? "static").split(",").map(n => n.trim()).filter(Boolean);
+  const providers: RateProvider[] = [];
+
+  for (const name of names) {
+    if (name === "circle") providers.push(new CircleStableFXProvider());
+    else if (name === "file" && process.env.RATE_FILE) providers.push(new FileRateProvider(process.env.RATE_FILE));
+    else if (name === "static") {
+      const rates: Record<string, string> = {};
+      for (const [k, v] of Object.entries(process.env)) {
+        const m = k.match(/^RATE_STATIC_([A-Z]+)_([A-Z]+)$/);
+        if (m && v) rates[`${m[1]}/${m[2]}`] = v;
+      }
+      providers.push(new StaticRateProvider(rates));
+    }
+  }
+  return new RateAggregator(providers, opts);
+}
+
+/**
+ * Off-chain mirror of getCreditLineNGN:
+ * collateralUSD (1e6) × ngnPerUsdc (1e6) × ltvBPS / (1e12 × 10000)
+ */
+export function estimateCreditLineNGN(collateralUSD: bigint, ngnPerUsdc: bigint, ltvBPS: bigint): bigint {
+  return (collateralUSD * ngnPerUsdc * ltvBPS) / (BigInt(1e12) * BigInt(10000));
+}
@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Request } from "express";
+import { requestFingerprint } from "./idempotency";
+
+const req = (body: any, method = "POST", baseUrl = "/api", path = "/deals/open") =>
+  ({ method, baseUrl, path, body } as unknown as Request);
+
+test("the fingerprint ignores key order at every depth", () => {
+  const a = requestFingerprint(req({ amountNGN: "1000", quote: { index: 1, rfqId: "0x01" }, tags: ["a", "b"] }));
+  const b = requestFingerprint(req({ tags: ["a", "b"], quote: { rfqId: "0x01", index: 1 }, amountNGN: "1000" }));
+  assert.equal(a, b);
+  assert.match(a, /^[0-9a-f]{64}$/);
+});
+
+test("values, array order, method and path all change the fingerprint", () => {
+  const base = requestFingerprint(req({ amountNGN: "1000", tags: ["a", "b"] }));
+  for (const other of [
+    req({ amountNGN: "1001", tags: ["a", "b"] }),
+    req({ amountNGN: 1000,   tags: ["a", "b"] }),          // a number is not its string
+    req({ amountNGN: "1000", tags: ["b", "a"] }),
+    req({ amountNGN: "1000", tags: ["a", "b"] }, "PUT"),
+    req({ amountNGN: "1000", tags: ["a", "b"] }, "POST", "/api", "/deals/repay"),
+    req({ amountNGN: "1000", tags: ["a", "b"] }, "POST", "/admin"),
+  ])
+    assert.notEqual(requestFingerprint(other), base);
+});
+
+test("a missing body fingerprints as an empty one", () => {
+  assert.equal(requestFingerprint(req(undefined)), requestFingerprint(req({})));
+  assert.notEqual(requestFingerprint(req({ memo: null })), requestFingerprint(req({})));
+});
@@ -0,0 +1,161 @@
+/**
+ * Idempotency-Key support for state-changing routes
+ *
+ * A client may send `Idempotency-Key: <up to 255 chars>` on any POST/DELETE.
+ * The first request with a key runs normally and its final response is stored
+ * against (client, key) together with a fingerprint of method, path and body.
+ * A retry with the same key gets the stored response back (header
+ * Idempotent-Replayed: true), or 409 while the first is still running.
+ * Reusing a key for a different request is rejected with 422.
+ *
+ * 5xx responses release the key so the client can retry — unless the request
+ * already broadcast a transaction (TxManager.submit reports it through
+ * noteSubmittedTx). Then the key completes as 202 SUBMITTED with the txId(s),
+ * since a retry would send the transaction again; a key left IN_PROGRESS by a
+ * crash answers 409 with those txIds. Keys expire after IDEMPOTENCY_TTL_HOURS
+ * (default 24).
+ */
+
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { pool } from './db';
+import { ApiError, SUCCESS_CODES, sendError } from './api-errors';
+
+const TTL_HOURS = Number(process.env.IDEMPOTENCY_TTL_HOURS ?? 24);
+
+export async function createIdempotencyTable() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      client_id        VARCHAR(64)  NOT NULL,
+      idem_key         VARCHAR(255) NOT NULL,
+      method           VARCHAR(8)   NOT NULL,
+      path             VARCHAR(255) NOT NULL,
+      fingerprint      CHAR(64)     NOT NULL,
+      status           VARCHAR(16)  NOT NULL,      -- IN_PROGRESS | COMPLETED
+      response_status  INT          NULL,
+      response_body    JSON         NULL,
+      tx_ids           JSON         NULL,      -- tx_journal ids broadcast while serving the request
+      created_at       TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      completed_at     TIMESTAMP    NULL,
+      PRIMARY KEY (client_id, idem_key),
+      KEY idx_idem_created (created_at)
+    )`);
+}
+
+/** Key order and whitespace do not change the fingerprint */
+function canonical(value: any): string {
+  if (Array.isArray(value)) return '[' + value.map(canonical).join(',') + ']';
+  if (value && typeof value === 'object')
+    return '{' + Object.keys(value).sort().map(k => JSON.stringify(k) + ':' + canonical(value[k])).join(',') + '}';
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function requestFingerprint(req: Request<any>): string {
+  return crypto.createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonical(req.body ?? {})}`)
+    .digest('hex');
+}
+
+type KeyContext = { clientId: string; key: string; txs: { txId: string; txHash: string }[] };
+
+const current = new AsyncLocalStorage<KeyContext>();
+
+/**
+ * Called by TxManager once a transaction is out. Ties it to the
+ * Idempotency-Key of the request being served, if there is one.
+ */
+export function noteSubmittedTx(txId: string, txHash: string) {
+  const ctx = current.getStore();
+  if (!ctx) return;
+  ctx.txs.push({ txId, txHash });
+  pool.execute(
+    `UPDATE idempotency_keys SET tx_ids = JSON_ARRAY_APPEND(COALESCE(tx_ids, JSON_ARRAY()), '$', ?)
+     WHERE client_id = ? AND idem_key = ?`,
+    [txId, ctx.clientId, ctx.key]
+  ).catch(err => console.error('[Idempotency] failed to record tx on key:', err));
+}
+
+const jsonColumn = (v: any) => typeof v === 'string' ? JSON.parse(v) : v;
+
+async function loadKey(clientId: string, key: string) {
+  const [rows] = await pool.query('SELECT * FROM idempotency_keys WHERE client_id = ? AND idem_key = ?', [clientId, key]);
+  return (rows as any[])[0] ?? null;
+}
+
+/**
+ * Must run after requireRole — keys are scoped to the authenticated client.
+ * Requests without the header pass straight through.
+ */
+export function idempotent() {
+  // The flag is read back by openApiDocument (schema.ts)
+  return Object.assign(async (req: Request<any>, res: Response, next: NextFunction) => {
+    const key = req.headers['idempotency-key'] as string | undefined;
+    if (key === undefined) return next();
+    if (!key || key.length > 255) {
+      sendError(res, new ApiError('VALIDATION_ERROR', 'Idempotency-Key must be 1-255 characters'));
+      return;
+    }
+
+    const clientId    = req.apiClient!.clientId;
+    const fingerprint = requestFingerprint(req);
+    try {
+      await pool.execute('DELETE FROM idempotency_keys WHERE created_at < NOW() - INTERVAL ? HOUR', [TTL_HOURS]);
+      await pool.execute(
+        `INSERT INTO idempotency_keys (client_id, idem_key, method, path, fingerprint, status)
+         VALUES (?, ?, ?, ?, ?, 'IN_PROGRESS')`,
+        [clientId, key, req.method, (req.baseUrl + req.path).slice(0, 255), fingerprint]
+      );
+    } catch (err: any) {
+      if (err.code !== 'ER_DUP_ENTRY') {
+        console.error(err);
+        sendError(res, new ApiError('INTERNAL_ERROR', 'idempotency check failed'));
+        return;
+      }
+      const row = await loadKey(clientId, key).catch(() => null);
+      if (!row) {
+        sendError(res, new ApiError('REQUEST_IN_PROGRESS', 'Idempotency-Key is being released, retry shortly'));
+      } else if (row.fingerprint !== fingerprint) {
+        console.log(`[Idempotency] ${clientId} reused key ${key} for ${req.method} ${req.originalUrl}`);
+        sendError(res, new ApiError('IDEMPOTENCY_KEY_REUSED',
+          `Idempotency-Key was already used for a different request (${row.method} ${row.path})`));
+      } else if (row.status === 'IN_PROGRESS') {
+        const txIds = jsonColumn(row.tx_ids);
+        sendError(res, new ApiError('REQUEST_IN_PROGRESS', undefined, { data: txIds?.length ? { txIds } : null }));
+      } else {
+        const body = jsonColumn(row.response_body);
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(row.response_status).json(body);
+      }
+      return;
+    }
+
+    // Settle the key with whatever the handler answers. This happens at
+    // res.json() rather than on 'finish' so a client that timed out and
+    // disconnected still finds the result when it retries.
+    const ctx: KeyContext = { clientId, key, txs: [] };
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      if (res.statusCode >= 500 && ctx.txs.length) {
+        // Failed after broadcasting: answer, and replay, what was sent
+        const last = ctx.txs[ctx.txs.length - 1];
+        console.error(`[Idempotency] ${req.method} ${req.originalUrl} failed after broadcasting ${last.txId}: ${body?.message}`);
+        res.status(202);
+        body = {
+          success: true, code: SUCCESS_CODES[202], message: `submitted; the request then failed: ${body?.message ?? 'unknown error'}`,
+          data: { txId: last.txId, status: 'SUBMITTED', txIds: ctx.txs.map(t => t.txId) }, txHash: last.txHash,
+        };
+      }
+      const done = res.statusCode >= 500
+        ? pool.execute('DELETE FROM idempotency_keys WHERE client_id = ? AND idem_key = ?', [clientId, key])
+        : pool.execute(
+            `UPDATE idempotency_keys SET status = 'COMPLETED', response_status = ?, response_body = ?, completed_at = NOW()
+             WHERE client_id = ? AND idem_key = ?`,
+            [res.statusCode, JSON.stringify(body), clientId, key]
+          );
+      done.catch(err => console.error('[Idempotency] failed to settle key:', err));
+      return json(body);
+    };
+    current.run(ctx, () => next());
+  }, { idempotent: true });
+}
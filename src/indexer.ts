@@ -0,0 +1,404 @@
+/**
+ * BFPay event indexer
+ * Backfills every event in the BFPay ABI into MySQL, keeps a block checkpoint
+ * and rolls back unconfirmed rows when the chain reorgs under us.
+ *
+ * Services read confirmed events through consume(), which keeps a durable
+ * per-consumer cursor so nothing is lost to a crash or a failing handler.
+ *
+ * Tables: bf_events, bf_indexer_blocks, bf_indexer_checkpoint, bf_indexer_cursors
+ */
+
+import { EventEmitter } from "events";
+import { ethers, Interface, JsonRpcProvider, Log, LogDescription } from "ethers";
+import { pool } from "./db";
+import { serializeArgs } from "./bfpay";
+import { ABI } from "./bindings";
+
+export type IndexedEvent = {
+  id:          number;
+  eventName:   string;
+  refId:       string;          // first indexed bytes32 (dealId / rfqId)
+  blockNumber: number;
+  blockHash:   string;
+  txHash:      string;
+  logIndex:    number;
+  args:        Record<string, string>;
+  confirmed:   boolean;
+};
+
+export type IndexerOptions = {
+  startBlock?:    number;   // first block to backfill from
+  confirmations?: number;   // blocks before a row is considered final
+  batchSize?:     number;   // max blocks per eth_getLogs call
+  pollMs?:        number;
+  name?:          string;   // checkpoint key, one per contract
+};
+
+export type EventHandler = (ev: IndexedEvent) => Promise<unknown>;
+
+type Consumer = {
+  name:    string;
+  events:  string[] | null;
+  handler: EventHandler;
+  active:  Promise<void> | null;
+  again:   boolean;
+};
+
+const CONSUME_BATCH = 500;
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createIndexerTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS bf_events (
+      id            BIGINT AUTO_INCREMENT PRIMARY KEY,
+      contract      VARCHAR(42)  NOT NULL,
+      event_name    VARCHAR(64)  NOT NULL,
+      ref_id        VARCHAR(66)  NULL,
+      block_number  BIGINT       NOT NULL,
+      block_hash    VARCHAR(66)  NOT NULL,
+      tx_hash       VARCHAR(66)  NOT NULL,
+      log_index     INT          NOT NULL,
+      args          JSON         NOT NULL,
+      confirmed     TINYINT(1)   NOT NULL DEFAULT 0,
+      created_at    TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_event_log (tx_hash, log_index),
+      KEY idx_event_ref (ref_id),
+      KEY idx_event_name (event_name),
+      KEY idx_event_block (block_number)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS bf_indexer_blocks (
+      name          VARCHAR(64)  NOT NULL,
+      block_number  BIGINT       NOT NULL,
+      block_hash    VARCHAR(66)  NOT NULL,
+      PRIMARY KEY (name, block_number)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS bf_indexer_checkpoint (
+      name          VARCHAR(64)  PRIMARY KEY,
+      last_block    BIGINT       NOT NULL,
+      last_hash     VARCHAR(66)  NOT NULL,
+      updated_at    TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS bf_indexer_cursors (
+      name           VARCHAR(64)  NOT NULL,      -- indexer (checkpoint) name
+      consumer       VARCHAR(64)  NOT NULL,
+      last_event_id  BIGINT       NOT NULL,      -- bf_events.id handled last
+      updated_at     TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      PRIMARY KEY (name, consumer)
+    )`);
+}
+
+function rowToEvent(r: any): IndexedEvent {
+  return {
+    id:          Number(r.id),
+    eventName:   r.event_name,
+    refId:       r.ref_id,
+    blockNumber: Number(r.block_number),
+    blockHash:   r.block_hash,
+    txHash:      r.tx_hash,
+    logIndex:    Number(r.log_index),
+    args:        typeof r.args === "string" ? JSON.parse(r.args) : r.args,
+    confirmed:   !!r.confirmed,
+  };
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+export async function getIndexedEvents(filter: {
+  refId?: string; eventName?: string; fromBlock?: number; confirmedOnly?: boolean;
+  limit?: number; offset?: number;
+} = {}): Promise<IndexedEvent[]> {
+  const where: string[] = [];
+  const params: any[]   = [];
+  if (filter.refId)         { where.push("ref_id = ?");       params.push(filter.refId.toLowerCase()); }
+  if (filter.eventName)     { where.push("event_name = ?");   params.push(filter.eventName); }
+  if (filter.fromBlock)     { where.push("block_number >= ?"); params.push(filter.fromBlock); }
+  if (filter.confirmedOnly) { where.push("confirmed = 1"); }
+
+  const limit  = Math.min(filter.limit ?? 100, 1000);
+  const offset = filter.offset ?? 0;
+  const [rows] = await pool.query(
+    `SELECT * FROM bf_events ${where.length ? "WHERE " + where.join(" AND ") : ""}
+     ORDER BY block_number, log_index LIMIT ${limit} OFFSET ${offset}`,
+    params
+  );
+  return (rows as any[]).map(rowToEvent);
+}
+
+// ─── Indexer ──────────────────────────────────────────────────────────────────
+/**
+ * Emits `event` (and the event name, e.g. `DealOpened`) once a row reaches
+ * the confirmation depth, and `reorg` with the block it rolled back to.
+ * Emits are best-effort; anything that must see every event uses consume().
+ */
+export class BFPayIndexer extends EventEmitter {
+  provider:      JsonRpcProvider;
+  iface:         Interface;
+  contractAddr:  string;
+  name:          string;
+  startBlock:    number;
+  confirmations: number;
+  batchSize:     number;
+  pollMs:        number;
+
+  private timer:   NodeJS.Timeout | null = null;
+  private running  = false;
+  private consumers: Consumer[] = [];
+
+  constructor(contractAddr: string, provider: JsonRpcProvider, opts: IndexerOptions = {}) {
+    super();
+    this.provider      = provider;
+    this.iface         = new Interface(ABI);
+    this.contractAddr  = ethers.getAddress(contractAddr);
+    this.name          = opts.name          ?? `bfpay:${this.contractAddr.toLowerCase()}`;
+    this.startBlock    = opts.startBlock    ?? Number(process.env.INDEXER_START_BLOCK ?? 0);
+    this.confirmations = opts.confirmations ?? Number(process.env.INDEXER_CONFIRMATIONS ?? 12);
+    this.batchSize     = opts.batchSize     ?? Number(process.env.INDEXER_BATCH_SIZE ?? 2000);
+    this.pollMs        = opts.pollMs        ?? Number(process.env.INDEXER_POLL_MS ?? 15000);
+  }
+
+  async start() {
+    if (this.running) return;
+    this.running = true;
+    await createIndexerTables();
+    console.log(`[Indexer] Starting ${this.name} from block ${await this.getCheckpoint()}`);
+    this.loop();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // ─── Consumers ──────────────────────────────────────────────────────────────
+
+  /**
+   * Hand `handler` every confirmed event named in `events` (all when null),
+   * one at a time in chain order, starting after the consumer's cursor. The
+   * cursor only moves once the handler resolves, so after a crash or a throw
+   * the event is delivered again — on start and on every later pass — and
+   * handlers must be idempotent. A consumer seen for the first time starts
+   * after the events already confirmed, or at the beginning with `fromStart`.
+   */
+  async consume(name: string, events: string[] | null, handler: EventHandler, opts: { fromStart?: boolean } = {}) {
+    await createIndexerTables();
+    await pool.execute(
+      `INSERT IGNORE INTO bf_indexer_cursors (name, consumer, last_event_id)
+       SELECT ?, ?, ${opts.fromStart ? "0" : "COALESCE(MAX(id), 0)"} FROM bf_events WHERE contract = ? AND confirmed = 1`,
+      [this.name, name, this.contractAddr]
+    );
+    const c: Consumer = { name, events, handler, active: null, again: false };
+    this.consumers.push(c);
+    this.drain(c);   // whatever the last run left unhandled
+  }
+
+  private drain(c: Consumer) {
+    if (c.active) { c.again = true; return; }
+    c.active = this.deliver(c)
+      .catch(err => console.error(`[Indexer] ${c.name} halted, retrying next pass:`, err?.message ?? err))
+      .finally(() => {
+        c.active = null;
+        if (c.again) { c.again = false; this.drain(c); }
+      });
+  }
+
+  private async deliver(c: Consumer) {
+    const [cur] = await pool.query(
+      "SELECT last_event_id FROM bf_indexer_cursors WHERE name = ? AND consumer = ?", [this.name, c.name]
+    );
+    let cursor = Number((cur as any[])[0]?.last_event_id ?? 0);
+    const names = c.events?.length ? `AND event_name IN (${c.events.map(() => "?").join(",")})` : "";
+
+    for (;;) {
+      const [rows] = await pool.query(
+        `SELECT * FROM bf_events WHERE contract = ? AND confirmed = 1 AND id > ? ${names}
+         ORDER BY id LIMIT ${CONSUME_BATCH}`,
+        [this.contractAddr, cursor, ...(c.events ?? [])]
+      );
+      for (const r of rows as any[]) {
+        await c.handler(rowToEvent(r));
+        cursor = Number(r.id);
+        await pool.execute(
+          "UPDATE bf_indexer_cursors SET last_event_id = ? WHERE name = ? AND consumer = ?", [cursor, this.name, c.name]
+        );
+      }
+      if ((rows as any[]).length < CONSUME_BATCH) return;
+    }
+  }
+
+  private async loop() {
+    try {
+      await this.syncOnce();
+    } catch (err) {
+      console.error("[Indexer] sync failed:", err);
+    }
+    if (this.running) this.timer = setTimeout(() => this.loop(), this.pollMs);
+  }
+
+  /** Last processed block, or startBlock - 1 on a fresh database */
+  async getCheckpoint(): Promise<number> {
+    const [rows] = await pool.query(
+      "SELECT last_block FROM bf_indexer_checkpoint WHERE name = ?", [this.name]
+    );
+    const r = (rows as any[])[0];
+    return r ? Number(r.last_block) : this.startBlock - 1;
+  }
+
+  /**
+   * One pass: reorg check → fetch logs up to head in batches → confirm rows
+   * that are now deep enough → emit them.
+   */
+  async syncOnce() {
+    const head = await this.provider.getBlockNumber();
+    await this.handleReorg();
+
+    let from = (await this.getCheckpoint()) + 1;
+    while (from <= head && this.running) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      await this.processRange(from, to, head);
+      from = to + 1;
+    }
+    await this.confirmUpTo(head - this.confirmations);
+  }
+
+  private async processRange(from: number, to: number, head: number) {
+    const logs = await this.provider.getLogs({ address: this.contractAddr, fromBlock: from, toBlock: to });
+    const toBlock = await this.provider.getBlock(to);
+    if (!toBlock) throw new Error(`block ${to} not found`);
+
+    const safe = head - this.confirmations;
+    const conn = await pool.getConnection();
+    try {
+      await conn.beginTransaction();
+      const seenBlocks = new Map<number, string>();
+
+      for (const log of logs) {
+        const parsed = this.parse(log);
+        if (!parsed) continue;
+        const ref = log.topics[1] ?? null;
+        await conn.execute(
+          `INSERT IGNORE INTO bf_events
+             (contract, event_name, ref_id, block_number, block_hash, tx_hash, log_index, args, confirmed)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+          [this.contractAddr, parsed.name, ref?.toLowerCase() ?? null, log.blockNumber, log.blockHash,
+           log.transactionHash, log.index, JSON.stringify(serializeArgs(parsed))]
+        );
+        seenBlocks.set(log.blockNumber, log.blockHash);
+      }
+
+      // Remember hashes of every unconfirmed block we touched, plus the range tip,
+      // so the next pass can detect that one of them was replaced
+      seenBlocks.set(to, toBlock.hash!);
+      for (const [num, hash] of seenBlocks) {
+        if (num <= safe) continue;
+        await conn.execute(
+          `REPLACE INTO bf_indexer_blocks (name, block_number, block_hash) VALUES (?, ?, ?)`,
+          [this.name, num, hash]
+        );
+      }
+
+      await conn.execute(
+        `INSERT INTO bf_indexer_checkpoint (name, last_block, last_hash) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE last_block = VALUES(last_block), last_hash = VALUES(last_hash)`,
+        [this.name, to, toBlock.hash]
+      );
+      await conn.commit();
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+    if (logs.length) console.log(`[Indexer] Blocks ${from}-${to}: ${logs.length} log(s)`);
+  }
+
+  private parse(log: Log): LogDescription | null {
+    try { return this.iface.parseLog(log); } catch { return null; }
+  }
+
+  /**
+   * Compare stored unconfirmed block hashes with the chain (newest first).
+   * Everything above the newest block that still matches is deleted and the
+   * checkpoint rewound to it.
+   */
+  private async handleReorg() {
+    const [rows] = await pool.query(
+      "SELECT block_number, block_hash FROM bf_indexer_blocks WHERE name = ? ORDER BY block_number DESC",
+      [this.name]
+    );
+    const stored = rows as any[];
+    if (!stored.length) return;
+
+    let ancestor: { num: number; hash: string } | null = null;
+    for (const r of stored) {
+      const b = await this.provider.getBlock(Number(r.block_number));
+      if (b && b.hash === r.block_hash) { ancestor = { num: Number(r.block_number), hash: r.block_hash }; break; }
+    }
+    if (ancestor && ancestor.num === Number(stored[0].block_number)) return;   // tip still canonical
+
+    // No stored block survived: fall back to just below the oldest unconfirmed one
+    const rewindTo = ancestor ? ancestor.num : Number(stored[stored.length - 1].block_number) - 1;
+    const rewindBlock = ancestor ? null : await this.provider.getBlock(rewindTo);
+    const rewindHash  = ancestor ? ancestor.hash : rewindBlock?.hash ?? ethers.ZeroHash;
+
+    const conn = await pool.getConnection();
+    try {
+      await conn.beginTransaction();
+      const [res] = await conn.execute(
+        "DELETE FROM bf_events WHERE contract = ? AND block_number > ? AND confirmed = 0",
+        [this.contractAddr, rewindTo]
+      );
+      await conn.execute(
+        "DELETE FROM bf_indexer_blocks WHERE name = ? AND block_number > ?", [this.name, rewindTo]
+      );
+      await conn.execute(
+        "UPDATE bf_indexer_checkpoint SET last_block = ?, last_hash = ? WHERE name = ?",
+        [rewindTo, rewindHash, this.name]
+      );
+      await conn.commit();
+      console.warn(`[Indexer] ⚠️ Reorg detected — rolled back ${(res as any).affectedRows} event(s) to block ${rewindTo}`);
+    } catch (err) {
+      await conn.rollback();
+      throw err;
+    } finally {
+      conn.release();
+    }
+    this.emit("reorg", rewindTo);
+  }
+
+  /**
+   * Mark rows at or below `safeBlock` confirmed and hand them to listeners.
+   * Consumers pick them up from their own cursors, so a crash after the
+   * UPDATE loses nothing.
+   */
+  private async confirmUpTo(safeBlock: number) {
+    if (safeBlock < 0) return;
+    const [rows] = await pool.query(
+      `SELECT * FROM bf_events WHERE contract = ? AND confirmed = 0 AND block_number <= ?
+       ORDER BY block_number, log_index`,
+      [this.contractAddr, safeBlock]
+    );
+    const pending = rows as any[];
+
+    if (pending.length) {
+      await pool.execute(
+        "UPDATE bf_events SET confirmed = 1 WHERE contract = ? AND confirmed = 0 AND block_number <= ?",
+        [this.contractAddr, safeBlock]
+      );
+    }
+    await pool.execute(
+      "DELETE FROM bf_indexer_blocks WHERE name = ? AND block_number <= ?", [this.name, safeBlock]
+    );
+
+    for (const r of pending) {
+      const ev = rowToEvent({ ...r, confirmed: 1 });
+      this.emit("event", ev);
+      this.emit(ev.eventName, ev);
+    }
+    // Every pass, so a consumer halted by a failing handler retries even when nothing new arrived
+    for (const c of this.consumers) this.drain(c);
+  }
+}
@@ -0,0 +1,541 @@
+/**
+ * Double-entry ledger
+ * Posts balanced journal entries from confirmed contract events so balances
+ * come from the books rather than from formatting contract views.
+ *
+ * Amounts are base-unit integers (NGN whole naira, USDC × 1e6) stored as
+ * DECIMAL(65,0); each entry balances per currency. Every entry carries the
+ * tx hash of the event it came from, plus the fiat reference where the
+ * event has one (payouts, repayments).
+ *
+ * Accounts are `<owner type>:<owner>:<kind>` for parties and
+ * `platform:<kind>` for our own books, e.g.
+ *   borrower:0xab…:loan_receivable   NGN principal the borrower owes
+ *   lender:0xcd…:principal_payable   NGN principal owed back to the lender
+ *   platform:collateral_custody      USDC held by the contract, per deal
+ *
+ * Fees accrue from YieldOffset snapshots (cumulative, so deltas are posted)
+ * and are caught up at repayment / liquidation with the contract's formula.
+ *
+ * Tables: ledger_accounts, ledger_entries, ledger_lines
+ */
+
+import crypto from "crypto";
+import { pool } from "./db";
+import { BFPayClient, DealInfo } from "./bfpay";
+import { CollType, CollTypeName, decodeEvent } from "./bindings";
+import { BFPayIndexer, IndexedEvent } from "./indexer";
+import { daysElapsed } from "./simulator";
+
+export type AccountType = "ASSET" | "LIABILITY" | "INCOME" | "EXPENSE";
+export type Currency    = "NGN" | "USDC";
+
+const KINDS: Record<string, { type: AccountType; currency: Currency }> = {
+  loan_receivable:    { type: "ASSET",     currency: "NGN"  },
+  fee_receivable:     { type: "ASSET",     currency: "NGN"  },
+  payout_payable:     { type: "LIABILITY", currency: "NGN"  },
+  collateral_payable: { type: "LIABILITY", currency: "USDC" },
+  principal_payable:  { type: "LIABILITY", currency: "NGN"  },
+  ngn_settlement:     { type: "ASSET",     currency: "NGN"  },
+  fee_income:         { type: "INCOME",    currency: "NGN"  },
+  yield_offset:       { type: "EXPENSE",   currency: "NGN"  },
+  fee_writeoff:       { type: "EXPENSE",   currency: "NGN"  },
+  collateral_custody: { type: "ASSET",     currency: "USDC" },
+};
+
+export type EntryKind =
+  | "DEAL_OPENED" | "PAYOUT" | "COLLATERAL_IN" | "ACCRUAL" | "REPAYMENT"
+  | "COLLATERAL_OUT" | "LIQUIDATION";
+
+export type LedgerLine = {
+  account:  string;
+  currency: Currency;
+  debit:    string;
+  credit:   string;
+};
+
+export type LedgerEntry = {
+  id:        string;
+  sourceKey: string;
+  kind:      EntryKind;
+  dealId:    string | null;
+  txHash:    string | null;
+  fiatRef:   string | null;
+  memo:      string;
+  postedAt:  Date;
+  lines:     LedgerLine[];
+};
+
+export type TrialBalanceRow = {
+  account:  string;
+  type:     AccountType;
+  currency: Currency;
+  debits:   string;
+  credits:  string;
+  balance:  string;     // on the account's normal side
+};
+
+export type StatementLine = {
+  entryId:  string;
+  kind:     EntryKind;
+  dealId:   string | null;
+  txHash:   string | null;
+  fiatRef:  string | null;
+  memo:     string;
+  postedAt: Date;
+  debit:    string;
+  credit:   string;
+  balance:  string;     // running, on the normal side
+};
+
+type Line = { account: string; debit: bigint; credit: bigint };
+
+const ZERO = BigInt(0);
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createLedgerTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ledger_accounts (
+      code          VARCHAR(96)  PRIMARY KEY,
+      owner_type    VARCHAR(16)  NOT NULL,
+      owner         VARCHAR(42)  NULL,
+      kind          VARCHAR(32)  NOT NULL,
+      type          VARCHAR(16)  NOT NULL,
+      currency      VARCHAR(8)   NOT NULL,
+      created_at    TIMESTAMP    DEFAULT CURRENT_TIMESTAMP
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ledger_entries (
+      id            CHAR(36)     PRIMARY KEY,
+      source_key    VARCHAR(160) NOT NULL UNIQUE,
+      kind          VARCHAR(16)  NOT NULL,
+      deal_id       VARCHAR(66)  NULL,
+      tx_hash       VARCHAR(66)  NULL,
+      fiat_ref      VARCHAR(128) NULL,
+      memo          VARCHAR(255) NOT NULL,
+      posted_at     TIMESTAMP    NOT NULL,
+      created_at    TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      KEY idx_ledger_deal (deal_id),
+      KEY idx_ledger_posted (posted_at)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ledger_lines (
+      id            BIGINT AUTO_INCREMENT PRIMARY KEY,
+      entry_id      CHAR(36)       NOT NULL,
+      account_code  VARCHAR(96)    NOT NULL,
+      currency      VARCHAR(8)     NOT NULL,
+      debit         DECIMAL(65,0)  NOT NULL DEFAULT 0,
+      credit        DECIMAL(65,0)  NOT NULL DEFAULT 0,
+      deal_id       VARCHAR(66)    NULL,
+      KEY idx_line_account (account_code),
+      KEY idx_line_deal (deal_id, account_code),
+      KEY idx_line_entry (entry_id)
+    )`);
+}
+
+// ─── Accounts ─────────────────────────────────────────────────────────────────
+
+function account(ownerType: "borrower" | "lender", owner: string, kind: string): string;
+function account(ownerType: "platform", kind: string): string;
+function account(ownerType: string, a: string, b?: string): string {
+  return b === undefined ? `${ownerType}:${a}` : `${ownerType}:${a.toLowerCase()}:${b}`;
+}
+
+function describe(code: string) {
+  const parts = code.split(":");
+  const kind  = parts[parts.length - 1];
+  const def   = KINDS[kind];
+  if (!def) throw new Error(`unknown ledger account kind ${kind}`);
+  return { ownerType: parts[0], owner: parts.length === 3 ? parts[1] : null, kind, ...def };
+}
+
+/** Normal-side balance: debit-normal for assets/expenses, credit-normal otherwise */
+function normalBalance(type: AccountType, debits: bigint, credits: bigint): bigint {
+  return type === "ASSET" || type === "EXPENSE" ? debits - credits : credits - debits;
+}
+
+/** A negative amount posts to the opposite side */
+function dr(account: string, amount: bigint): Line {
+  return amount < ZERO ? { account, debit: ZERO, credit: -amount } : { account, debit: amount, credit: ZERO };
+}
+function cr(account: string, amount: bigint): Line {
+  return amount < ZERO ? { account, debit: -amount, credit: ZERO } : { account, debit: ZERO, credit: amount };
+}
+
+// ─── Posting ──────────────────────────────────────────────────────────────────
+
+export class LedgerError extends Error {}
+
+type PostInput = {
+  sourceKey: string;
+  kind:      EntryKind;
+  dealId:    string | null;
+  txHash:    string | null;
+  fiatRef?:  string | null;
+  memo:      string;
+  postedAt:  Date;
+  lines:     Line[];
+};
+
+/** Insert one balanced entry; a second post with the same sourceKey is a no-op */
+export async function postEntry(input: PostInput): Promise<boolean> {
+  const lines = input.lines.filter(l => l.debit !== ZERO || l.credit !== ZERO);
+  if (!lines.length) return false;
+
+  const totals = new Map<Currency, bigint>();
+  for (const l of lines) {
+    const { currency } = describe(l.account);
+    totals.set(currency, (totals.get(currency) ?? ZERO) + l.debit - l.credit);
+  }
+  for (const [currency, diff] of totals)
+    if (diff !== ZERO) throw new LedgerError(`${input.sourceKey}: ${currency} lines off by ${diff}`);
+
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const id = crypto.randomUUID();
+    const [res] = await conn.execute(
+      `INSERT IGNORE INTO ledger_entries (id, source_key, kind, deal_id, tx_hash, fiat_ref, memo, posted_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, input.sourceKey, input.kind, input.dealId?.toLowerCase() ?? null, input.txHash,
+       input.fiatRef ?? null, input.memo.slice(0, 255), input.postedAt]
+    );
+    if (!(res as any).affectedRows) { await conn.rollback(); return false; }
+
+    for (const l of lines) {
+      const a = describe(l.account);
+      await conn.execute(
+        `INSERT IGNORE INTO ledger_accounts (code, owner_type, owner, kind, type, currency) VALUES (?, ?, ?, ?, ?, ?)`,
+        [l.account, a.ownerType, a.owner, a.kind, a.type, a.currency]
+      );
+      await conn.execute(
+        `INSERT INTO ledger_lines (entry_id, account_code, currency, debit, credit, deal_id) VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, l.account, a.currency, l.debit.toString(), l.credit.toString(), input.dealId?.toLowerCase() ?? null]
+      );
+    }
+    await conn.commit();
+    return true;
+  } catch (err) {
+    await conn.rollback();
+    throw err;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Debits − credits on one account for one deal, optionally one entry kind */
+async function dealNet(dealId: string, accountCode: string, kind?: EntryKind): Promise<bigint> {
+  const [rows] = await pool.query(
+    `SELECT COALESCE(SUM(l.debit), 0) - COALESCE(SUM(l.credit), 0) AS net
+       FROM ledger_lines l ${kind ? "JOIN ledger_entries e ON e.id = l.entry_id" : ""}
+      WHERE l.deal_id = ? AND l.account_code = ? ${kind ? "AND e.kind = ?" : ""}`,
+    kind ? [dealId.toLowerCase(), accountCode, kind] : [dealId.toLowerCase(), accountCode]
+  );
+  return BigInt(String((rows as any[])[0].net).split(".")[0]);
+}
+
+async function hasEntry(dealId: string, kind: EntryKind): Promise<boolean> {
+  const [rows] = await pool.query("SELECT 1 FROM ledger_entries WHERE deal_id = ? AND kind = ? LIMIT 1", [dealId.toLowerCase(), kind]);
+  return (rows as any[]).length > 0;
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+export async function getTrialBalance(asOf?: Date): Promise<{ rows: TrialBalanceRow[]; totals: Record<string, { debits: string; credits: string; balanced: boolean }> }> {
+  const [rows] = await pool.query(
+    `SELECT a.code, a.type, a.currency, COALESCE(SUM(l.debit), 0) AS debits, COALESCE(SUM(l.credit), 0) AS credits
+       FROM ledger_accounts a
+       JOIN ledger_lines l   ON l.account_code = a.code
+       JOIN ledger_entries e ON e.id = l.entry_id
+      ${asOf ? "WHERE e.posted_at <= ?" : ""}
+      GROUP BY a.code, a.type, a.currency
+      ORDER BY a.currency, a.code`,
+    asOf ? [asOf] : []
+  );
+
+  const totals: Record<string, { debits: bigint; credits: bigint }> = {};
+  const out = (rows as any[]).map(r => {
+    const debits  = BigInt(String(r.debits));
+    const credits = BigInt(String(r.credits));
+    const t = (totals[r.currency] ??= { debits: ZERO, credits: ZERO });
+    t.debits  += debits;
+    t.credits += credits;
+    return {
+      account: r.code, type: r.type, currency: r.currency,
+      debits: debits.toString(), credits: credits.toString(),
+      balance: normalBalance(r.type, debits, credits).toString(),
+    };
+  });
+
+  return {
+    rows: out,
+    totals: Object.fromEntries(Object.entries(totals).map(([ccy, t]) => [ccy, {
+      debits: t.debits.toString(), credits: t.credits.toString(), balanced: t.debits === t.credits,
+    }])),
+  };
+}
+
+export async function listAccounts(owner?: string) {
+  const [rows] = await pool.query(
+    `SELECT code, owner_type, owner, kind, type, currency FROM ledger_accounts ${owner ? "WHERE owner = ?" : ""} ORDER BY code`,
+    owner ? [owner.toLowerCase()] : []
+  );
+  return (rows as any[]).map(r => ({ code: r.code, ownerType: r.owner_type, owner: r.owner, kind: r.kind, type: r.type, currency: r.currency }));
+}
+
+/** Lines on one account in posting order with a running balance; null if the account is unknown */
+export async function getAccountStatement(code: string, range: { from?: Date; to?: Date } = {}) {
+  const [acct] = await pool.query("SELECT * FROM ledger_accounts WHERE code = ?", [code]);
+  const a = (acct as any[])[0];
+  if (!a) return null;
+
+  const [opening] = await pool.query(
+    `SELECT COALESCE(SUM(l.debit), 0) AS debits, COALESCE(SUM(l.credit), 0) AS credits
+       FROM ledger_lines l JOIN ledger_entries e ON e.id = l.entry_id
+      WHERE l.account_code = ? AND e.posted_at < ?`,
+    [code, range.from ?? new Date(0)]
+  );
+  const o = (opening as any[])[0];
+  let balance = normalBalance(a.type, BigInt(String(o.debits)), BigInt(String(o.credits)));
+  const openingBalance = balance;
+
+  const [rows] = await pool.query(
+    `SELECT e.id, e.kind, e.deal_id, e.tx_hash, e.fiat_ref, e.memo, e.posted_at, l.debit, l.credit
+       FROM ledger_lines l JOIN ledger_entries e ON e.id = l.entry_id
+      WHERE l.account_code = ? AND e.posted_at >= ? ${range.to ? "AND e.posted_at <= ?" : ""}
+      ORDER BY e.posted_at, l.id LIMIT 5000`,
+    range.to ? [code, range.from ?? new Date(0), range.to] : [code, range.from ?? new Date(0)]
+  );
+  const lines: StatementLine[] = (rows as any[]).map(r => {
+    const debit  = BigInt(String(r.debit));
+    const credit = BigInt(String(r.credit));
+    balance += normalBalance(a.type, debit, credit);
+    return {
+      entryId: r.id, kind: r.kind, dealId: r.deal_id, txHash: r.tx_hash, fiatRef: r.fiat_ref, memo: r.memo,
+      postedAt: r.posted_at, debit: debit.toString(), credit: credit.toString(), balance: balance.toString(),
+    };
+  });
+
+  return {
+    account: { code: a.code, type: a.type, currency: a.currency },
+    openingBalance: openingBalance.toString(), closingBalance: balance.toString(), lines,
+  };
+}
+
+export async function getDealEntries(dealId: string): Promise<LedgerEntry[]> {
+  const [entries] = await pool.query("SELECT * FROM ledger_entries WHERE deal_id = ? ORDER BY posted_at, created_at", [dealId.toLowerCase()]);
+  const [lines]   = await pool.query(
+    "SELECT l.* FROM ledger_lines l JOIN ledger_entries e ON e.id = l.entry_id WHERE e.deal_id = ? ORDER BY l.id", [dealId.toLowerCase()]
+  );
+  return (entries as any[]).map(e => ({
+    id: e.id, sourceKey: e.source_key, kind: e.kind, dealId: e.deal_id, txHash: e.tx_hash, fiatRef: e.fiat_ref,
+    memo: e.memo, postedAt: e.posted_at,
+    lines: (lines as any[]).filter(l => l.entry_id === e.id).map(l => ({
+      account: l.account_code, currency: l.currency, debit: String(l.debit), credit: String(l.credit),
+    })),
+  }));
+}
+
+// ─── Collateral check ─────────────────────────────────────────────────────────
+
+export type CollateralCheckLine = {
+  dealId:      string;
+  collType:    string;
+  ledgerUSDC:  string;
+  onchainUSDC: string;
+  diff:        string;
+  match:       boolean;
+};
+
+/**
+ * Ledger custody per deal against the contract. USDC positions must match
+ * exactly; USYC may drift by unbooked yield since the last attestation, up
+ * to `toleranceBPS` of the on-chain value.
+ */
+export async function checkCollateral(client: BFPayClient, toleranceBPS = Number(process.env.LEDGER_YIELD_TOLERANCE_BPS ?? 50)) {
+  const custody = account("platform", "collateral_custody");
+  const [rows] = await pool.query(
+    `SELECT deal_id, SUM(debit) - SUM(credit) AS net FROM ledger_lines WHERE account_code = ? GROUP BY deal_id`, [custody]
+  );
+  const booked = new Map<string, bigint>((rows as any[]).map(r => [r.deal_id, BigInt(String(r.net))]));
+
+  const positions = await client.views.allPositions();
+  const lines: CollateralCheckLine[] = [];
+  for (const { dealId: id, position: pos } of positions) {
+    const dealId   = id.toLowerCase();
+    const collType = CollTypeName[pos.collType];
+    let onchain    = pos.usdcDeposited;
+    if (pos.collType === CollType.USYC && pos.usycTokens > ZERO) {
+      onchain = (await client.views.yieldSummary(id)).currentUSDC;
+    }
+    const ledger = booked.get(dealId) ?? ZERO;
+    booked.delete(dealId);
+    if (ledger === ZERO && onchain === ZERO) continue;
+
+    const diff  = ledger - onchain;
+    const abs   = diff < ZERO ? -diff : diff;
+    const limit = pos.collType === CollType.USYC ? onchain * BigInt(toleranceBPS) / BigInt(10_000) : ZERO;
+    lines.push({
+      dealId, collType, ledgerUSDC: ledger.toString(), onchainUSDC: onchain.toString(),
+      diff: diff.toString(), match: abs <= limit,
+    });
+  }
+  // Custody booked against ids the contract does not know
+  for (const [dealId, ledger] of booked) {
+    if (ledger === ZERO) continue;
+    lines.push({ dealId, collType: "UNKNOWN", ledgerUSDC: ledger.toString(), onchainUSDC: "0", diff: ledger.toString(), match: false });
+  }
+
+  const mismatches = lines.filter(l => !l.match);
+  if (mismatches.length) console.log(`[Ledger] ⚠️  collateral differs from chain on ${mismatches.length} deal(s)`);
+  return { checkedAt: new Date().toISOString(), toleranceBPS, consistent: mismatches.length === 0, lines };
+}
+
+// ─── Poster ───────────────────────────────────────────────────────────────────
+
+const POSTED_EVENTS = [
+  "DealOpened", "PayoutConfirmed", "USYCDeposited", "USDCDeposited", "YieldOffset",
+  "Repaid", "USYCRedeemed", "USDCReleased", "Liquidated",
+];
+
+/**
+ * Turns confirmed indexer events into journal entries. Events are posted one
+ * at a time in chain order — accruals are deltas against what is already
+ * booked, so two posts for the same deal must never interleave. The indexer
+ * cursor starts at the first event, so a fresh ledger books all history;
+ * sourceKey makes repeats no-ops.
+ */
+export class LedgerPoster {
+  client: BFPayClient;
+
+  private blockTimes = new Map<number, Date>();
+
+  constructor(client: BFPayClient) {
+    this.client = client;
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createLedgerTables();
+    await indexer.consume("ledger", POSTED_EVENTS, (ev: IndexedEvent) => this.post(ev), { fromStart: true });
+    console.log("[Ledger] Started");
+  }
+
+  private async blockTime(blockNumber: number): Promise<Date> {
+    let t = this.blockTimes.get(blockNumber);
+    if (!t) {
+      const block = await this.client.contract.runner!.provider!.getBlock(blockNumber);
+      t = block ? new Date(block.timestamp * 1000) : new Date();
+      if (this.blockTimes.size > 1000) this.blockTimes.clear();
+      this.blockTimes.set(blockNumber, t);
+    }
+    return t;
+  }
+
+  /** Returns whether anything new was booked */
+  async post(ev: IndexedEvent): Promise<boolean> {
+    const deal = await this.client.getDeal(ev.refId);
+    if (!deal) return false;
+    const at   = await this.blockTime(ev.blockNumber);
+    const base = { dealId: deal.id, txHash: ev.txHash, postedAt: at };
+    const key  = `${ev.txHash}:${ev.logIndex}`;
+
+    const B = (kind: string) => account("borrower", deal.borrower, kind);
+    const L = (kind: string) => account("lender", deal.lender, kind);
+    const P = (kind: string) => account("platform", kind);
+    const amount = BigInt(deal.amountNGN);
+
+    const e = decodeEvent(ev.eventName, ev.args);
+    if (!e) return false;
+
+    switch (e.name) {
+      case "DealOpened":
+        return postEntry({ ...base, sourceKey: key, kind: "DEAL_OPENED", memo: `Credit line drawn ₦${amount}`,
+          lines: [dr(B("loan_receivable"), amount), cr(B("payout_payable"), amount)] });
+
+      case "PayoutConfirmed":
+        return postEntry({ ...base, sourceKey: key, kind: "PAYOUT", fiatRef: e.args.fiatRef, memo: "NGN payout funded by lender",
+          lines: [dr(B("payout_payable"), amount), cr(L("principal_payable"), amount)] });
+
+      case "USYCDeposited":
+      case "USDCDeposited": {
+        const usdc = e.name === "USYCDeposited" ? e.args.usdcIn : e.args.amount;
+        return postEntry({ ...base, sourceKey: key, kind: "COLLATERAL_IN",
+          memo: `${e.name === "USYCDeposited" ? "USYC" : "USDC"} collateral deposited`,
+          lines: [dr(P("collateral_custody"), usdc), cr(B("collateral_payable"), usdc)] });
+      }
+
+      case "YieldOffset":
+        return this.accrue(deal, key, base, e.args.yieldUSDC, e.args.yieldNGN);
+
+      case "Repaid": {
+        const accrued = await this.accrue(deal, `${key}:accrual`, base);
+        const fee = await dealNet(deal.id, B("fee_receivable"));
+        const repaid = await postEntry({ ...base, sourceKey: key, kind: "REPAYMENT", fiatRef: e.args.fiatRef,
+          memo: `Repayment ₦${amount} principal + ₦${fee} fee; principal returned to lender`,
+          lines: [
+            dr(P("ngn_settlement"), amount + fee), cr(B("loan_receivable"), amount), cr(B("fee_receivable"), fee),
+            dr(L("principal_payable"), amount), cr(P("ngn_settlement"), amount),
+          ] });
+        return accrued || repaid;
+      }
+
+      case "USYCRedeemed":
+      case "USDCReleased": {
+        // Book any yield the attestations missed so custody clears to zero
+        const out    = e.name === "USYCRedeemed" ? e.args.usdcOut : e.args.amount;
+        const booked = await dealNet(deal.id, P("collateral_custody"));
+        const trueUp = await postEntry({ ...base, sourceKey: `${key}:true-up`, kind: "ACCRUAL", memo: "Collateral value at release",
+          lines: [dr(P("collateral_custody"), out - booked), cr(B("collateral_payable"), out - booked)] });
+        const toLender = e.args.recipient.toLowerCase() === deal.lender.toLowerCase();
+        const released = await postEntry({ ...base, sourceKey: key, kind: "COLLATERAL_OUT",
+          memo: toLender ? "Collateral paid to lender on liquidation" : "Collateral returned to borrower",
+          lines: [dr(B("collateral_payable"), out), cr(P("collateral_custody"), out)] });
+        return trueUp || released;
+      }
+
+      case "Liquidated": {
+        const accrued = await this.accrue(deal, `${key}:accrual`, base);
+        const fee     = await dealNet(deal.id, B("fee_receivable"));
+        // Lender is made whole from the collateral; before payout nothing was funded
+        const funded  = await hasEntry(deal.id, "PAYOUT");
+        const settled = await postEntry({ ...base, sourceKey: key, kind: "LIQUIDATION",
+          memo: `Liquidated — ₦${amount} principal settled from collateral, ₦${fee} fee written off`,
+          lines: [
+            dr(funded ? L("principal_payable") : B("payout_payable"), amount), cr(B("loan_receivable"), amount),
+            dr(P("fee_writeoff"), fee), cr(B("fee_receivable"), fee),
+          ] });
+        return accrued || settled;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Bring fee and yield up to a snapshot. Gross fee follows calculateFee's
+   * formula at the event's block time; the NGN offset is capped at gross like
+   * the contract's net fee. Without a snapshot (repayment, liquidation) yield
+   * stays where the last attestation left it.
+   */
+  private async accrue(deal: DealInfo, sourceKey: string, base: { dealId: string; txHash: string; postedAt: Date },
+                       yieldUSDC?: bigint, yieldNGN?: bigint): Promise<boolean> {
+    const B = (kind: string) => account("borrower", deal.borrower, kind);
+    const P = (kind: string) => account("platform", kind);
+
+    const days   = daysElapsed(Math.floor(Date.parse(deal.openedAt) / 1000), Math.floor(base.postedAt.getTime() / 1000));
+    const gross  = BigInt(deal.amountNGN) * BigInt(deal.feeBPS) * BigInt(days) / BigInt(10_000);
+    const bookedGross  = -(await dealNet(deal.id, P("fee_income")));
+    const bookedOffset = await dealNet(deal.id, P("yield_offset"));
+    const bookedYield  = await dealNet(deal.id, P("collateral_custody"), "ACCRUAL");
+
+    const offset = yieldNGN === undefined ? bookedOffset : (yieldNGN < gross ? yieldNGN : gross);
+    const yieldDelta = yieldUSDC === undefined ? ZERO : yieldUSDC - bookedYield;
+
+    return postEntry({ ...base, sourceKey, kind: "ACCRUAL",
+      memo: `Fee accrual to day ${days}${yieldUSDC !== undefined ? `, yield $${yieldUSDC} × 1e-6` : ""}`,
+      lines: [
+        dr(B("fee_receivable"), gross - bookedGross), cr(P("fee_income"), gross - bookedGross),
+        dr(P("yield_offset"), offset - bookedOffset), cr(B("fee_receivable"), offset - bookedOffset),
+        dr(P("collateral_custody"), yieldDelta), cr(B("collateral_payable"), yieldDelta),
+      ] });
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Margin call & liquidation workflow
+ * Driven by confirmed indexer events:
+ *   MarginCall(dealId, endsAt) → open a case, track the grace period
+ *   Attested(state = HEALTHY)  → close the case as CURED
+ *   Liquidated(dealId)         → close the case, write a liquidation record
+ * A reminder timer escalates through MARGIN_REMINDER_STEPS (% of grace elapsed).
+ */
+
+import { pool } from "./db";
+import { BFPayClient, DepositTx, TxResult } from "./bfpay";
+import { HealthState, decodeEvent } from "./bindings";
+import { BFPayIndexer, IndexedEvent, getIndexedEvents } from "./indexer";
+
+export type MarginCase = {
+  id:            number;
+  dealId:        string;
+  status:        "OPEN" | "CURED" | "LIQUIDATED";
+  openedAt:      Date;
+  endsAt:        Date;
+  openedTx:      string;
+  reminderLevel: number;
+  closedAt:      Date | null;
+  closedTx:      string | null;
+};
+
+export type LiquidationRecord = {
+  dealId:               string;
+  caseId:               number | null;
+  txHash:               string;
+  collateralRedeemedUSDC: string;   // 6 dec, 0 for fiat collateral
+  recipient:            string | null;
+  ngnPerUsdc:           string;
+  collateralValueNGN:   string;
+  ngnOutstanding:       string;     // principal + net fee at liquidation
+  shortfallNGN:         string;
+};
+
+/** Called for each reminder; plug webhooks / email in here */
+export type MarginNotifier = (c: MarginCase, level: number, message: string) => Promise<void>;
+
+const consoleNotifier: MarginNotifier = async (c, level, message) => {
+  console.log(`[Margin Call] 🔔 L${level} ${c.dealId.slice(0, 12)}… ${message}`);
+};
+
+export async function createMarginTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS margin_call_cases (
+      id              BIGINT AUTO_INCREMENT PRIMARY KEY,
+      deal_id         VARCHAR(66)  NOT NULL,
+      status          VARCHAR(16)  NOT NULL,      -- OPEN | CURED | LIQUIDATED
+      opened_at       DATETIME     NOT NULL,
+      ends_at         DATETIME     NOT NULL,
+      opened_tx       VARCHAR(66)  NOT NULL,
+      reminder_level  INT          NOT NULL DEFAULT -1,
+      closed_at       DATETIME     NULL,
+      closed_tx       VARCHAR(66)  NULL,
+      UNIQUE KEY uq_case_open_tx (deal_id, opened_tx),
+      KEY idx_case_status (status)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS margin_call_reminders (
+      id          BIGINT AUTO_INCREMENT PRIMARY KEY,
+      case_id     BIGINT       NOT NULL,
+      level       INT          NOT NULL,
+      message     VARCHAR(255) NOT NULL,
+      sent_at     TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_reminder (case_id, level)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS margin_call_topups (
+      id           BIGINT AUTO_INCREMENT PRIMARY KEY,
+      case_id      BIGINT       NOT NULL,
+      deal_id      VARCHAR(66)  NOT NULL,
+      coll_type    VARCHAR(16)  NOT NULL,
+      usdc_amount  VARCHAR(78)  NOT NULL,
+      tx_id        VARCHAR(36)  NULL,           -- tx_journal id
+      tx_hash      VARCHAR(66)  NULL,
+      status       VARCHAR(16)  NOT NULL,       -- SUBMITTED | CONFIRMED | FAILED
+      error        TEXT         NULL,
+      created_at   TIMESTAMP    DEFAULT CURRENT_TIMESTAMP
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS liquidation_records (
+      id                        BIGINT AUTO_INCREMENT PRIMARY KEY,
+      deal_id                   VARCHAR(66)  NOT NULL UNIQUE,
+      case_id                   BIGINT       NULL,
+      tx_hash                   VARCHAR(66)  NOT NULL,
+      collateral_redeemed_usdc  VARCHAR(78)  NOT NULL,
+      recipient                 VARCHAR(42)  NULL,
+      ngn_per_usdc              VARCHAR(78)  NOT NULL,
+      collateral_value_ngn      VARCHAR(78)  NOT NULL,
+      ngn_outstanding           VARCHAR(78)  NOT NULL,
+      shortfall_ngn             VARCHAR(78)  NOT NULL,
+      created_at                TIMESTAMP    DEFAULT CURRENT_TIMESTAMP
+    )`);
+}
+
+function rowToCase(r: any): MarginCase {
+  return {
+    id:            Number(r.id),
+    dealId:        r.deal_id,
+    status:        r.status,
+    openedAt:      new Date(r.opened_at),
+    endsAt:        new Date(r.ends_at),
+    openedTx:      r.opened_tx,
+    reminderLevel: Number(r.reminder_level),
+    closedAt:      r.closed_at ? new Date(r.closed_at) : null,
+    closedTx:      r.closed_tx,
+  };
+}
+
+export async function getOpenCase(dealId: string): Promise<MarginCase | null> {
+  const [rows] = await pool.query(
+    "SELECT * FROM margin_call_cases WHERE deal_id = ? AND status = 'OPEN' ORDER BY id DESC LIMIT 1",
+    [dealId.toLowerCase()]
+  );
+  const r = (rows as any[])[0];
+  return r ? rowToCase(r) : null;
+}
+
+export async function listCases(status?: string): Promise<MarginCase[]> {
+  const [rows] = await pool.query(
+    `SELECT * FROM margin_call_cases ${status ? "WHERE status = ?" : ""} ORDER BY id DESC LIMIT 500`,
+    status ? [status] : []
+  );
+  return (rows as any[]).map(rowToCase);
+}
+
+export async function getDealCases(dealId: string) {
+  const [cases]   = await pool.query("SELECT * FROM margin_call_cases WHERE deal_id = ? ORDER BY id DESC", [dealId.toLowerCase()]);
+  const [liq]     = await pool.query("SELECT * FROM liquidation_records WHERE deal_id = ?", [dealId.toLowerCase()]);
+  const [topups]  = await pool.query("SELECT * FROM margin_call_topups WHERE deal_id = ? ORDER BY id DESC", [dealId.toLowerCase()]);
+  return { cases: (cases as any[]).map(rowToCase), topups: topups as any[], liquidation: (liq as any[])[0] ?? null };
+}
+
+export class MarginCallEngine {
+  client:        BFPayClient;
+  notifiers:     MarginNotifier[] = [consoleNotifier];
+  steps:         number[];          // % of grace period elapsed per reminder level
+  checkMs:       number;
+
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(client: BFPayClient, opts: { steps?: number[]; checkMs?: number } = {}) {
+    this.client  = client;
+    this.steps   = opts.steps ?? (process.env.MARGIN_REMINDER_STEPS ?? "0,50,75,90,100").split(",").map(Number);
+    this.checkMs = opts.checkMs ?? Number(process.env.MARGIN_REMINDER_CHECK_MS ?? 60_000);
+  }
+
+  addNotifier(n: MarginNotifier) {
+    this.notifiers.push(n);
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createMarginTables();
+    await indexer.consume("margin-calls", ["MarginCall", "Attested", "Liquidated"], (ev: IndexedEvent) =>
+      ev.eventName === "MarginCall" ? this.onMarginCall(ev)
+      : ev.eventName === "Attested" ? this.onAttested(ev)
+      : this.onLiquidated(ev));
+    this.timer = setInterval(() => this.sendReminders().catch(err => console.error("[Margin Call]", err)), this.checkMs);
+    console.log(`[Margin Call] Engine started | reminders at ${this.steps.join("/")}% of grace`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // ─── Event handlers ─────────────────────────────────────────────────────────
+
+  async onMarginCall(ev: IndexedEvent) {
+    const block   = await this.client.contract.runner!.provider!.getBlock(ev.blockNumber);
+    const openedAt = new Date((block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000);
+    const endsAt   = new Date(Number(ev.args.endsAt) * 1000);
+
+    await pool.execute(
+      `INSERT IGNORE INTO margin_call_cases (deal_id, status, opened_at, ends_at, opened_tx)
+       VALUES (?, 'OPEN', ?, ?, ?)`,
+      [ev.refId, openedAt, endsAt, ev.txHash]
+    );
+    console.log(`[Margin Call] ⚠️ Case opened for ${ev.refId.slice(0, 12)}… — grace ends ${endsAt.toISOString()}`);
+    await this.sendReminders();
+  }
+
+  async onAttested(ev: IndexedEvent) {
+    const e = decodeEvent(ev.eventName, ev.args);
+    if (e?.name !== "Attested" || e.args.state !== HealthState.HEALTHY) return;
+    const c = await getOpenCase(ev.refId);
+    if (!c) return;
+    await pool.execute(
+      "UPDATE margin_call_cases SET status = 'CURED', closed_at = NOW(), closed_tx = ? WHERE id = ?",
+      [ev.txHash, c.id]
+    );
+    console.log(`[Margin Call] ✅ Case #${c.id} cured — deal ${ev.refId.slice(0, 12)}… back to HEALTHY`);
+    await this.notify({ ...c, status: "CURED" }, c.reminderLevel, "margin call cured — deal is HEALTHY again");
+  }
+
+  async onLiquidated(ev: IndexedEvent) {
+    const c = await getOpenCase(ev.refId);
+    if (c) {
+      await pool.execute(
+        "UPDATE margin_call_cases SET status = 'LIQUIDATED', closed_at = NOW(), closed_tx = ? WHERE id = ?",
+        [ev.txHash, c.id]
+      );
+    }
+    const record = await this.buildLiquidationRecord(ev, c?.id ?? null);
+    await pool.execute(
+      `INSERT IGNORE INTO liquidation_records
+         (deal_id, case_id, tx_hash, collateral_redeemed_usdc, recipient, ngn_per_usdc,
+          collateral_value_ngn, ngn_outstanding, shortfall_ngn)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [record.dealId, record.caseId, record.txHash, record.collateralRedeemedUSDC, record.recipient,
+       record.ngnPerUsdc, record.collateralValueNGN, record.ngnOutstanding, record.shortfallNGN]
+    );
+    console.log(`[Margin Call] ❌ Deal ${ev.refId.slice(0, 12)}… liquidated — shortfall ₦${Number(record.shortfallNGN).toLocaleString()}`);
+    if (c) await this.notify({ ...c, status: "LIQUIDATED" }, c.reminderLevel, `deal liquidated — shortfall ${record.shortfallNGN} NGN`);
+  }
+
+  /**
+   * Collateral redeemed comes from the USYCRedeemed log in the same tx;
+   * outstanding = principal + net fee, both valued at the locked rate.
+   */
+  async buildLiquidationRecord(ev: IndexedEvent, caseId: number | null): Promise<LiquidationRecord> {
+    const redeemed = (await getIndexedEvents({ refId: ev.refId, eventName: "USYCRedeemed" }))
+      .find(e => e.txHash === ev.txHash);
+
+    const deal = await this.client.getDeal(ev.refId);
+    const rate = await this.client.getRate(ev.refId);
+    const fee  = await this.client.views.fee(ev.refId);
+
+    const usdcOut        = BigInt(redeemed?.args.usdcOut ?? "0");
+    const ngnPerUsdc     = BigInt(rate.ngnPerUsdc);
+    const collateralNGN  = (usdcOut * ngnPerUsdc) / BigInt(1e12);
+    const outstanding    = BigInt(deal?.amountNGN ?? "0") + fee.netFeeNGN;
+    const shortfall      = outstanding > collateralNGN ? outstanding - collateralNGN : BigInt(0);
+
+    return {
+      dealId:                 ev.refId,
+      caseId,
+      txHash:                 ev.txHash,
+      collateralRedeemedUSDC: usdcOut.toString(),
+      recipient:              redeemed?.args.recipient ?? null,
+      ngnPerUsdc:             ngnPerUsdc.toString(),
+      collateralValueNGN:     collateralNGN.toString(),
+      ngnOutstanding:         outstanding.toString(),
+      shortfallNGN:           shortfall.toString(),
+    };
+  }
+
+  // ─── Reminders ──────────────────────────────────────────────────────────────
+
+  async sendReminders() {
+    for (const c of await listCases("OPEN")) {
+      const grace   = c.endsAt.getTime() - c.openedAt.getTime();
+      const elapsed = Date.now() - c.openedAt.getTime();
+      const pct     = grace > 0 ? (elapsed * 100) / grace : 100;
+
+      // Highest step reached that has not been sent yet
+      let level = -1;
+      this.steps.forEach((step, i) => { if (pct >= step) level = i; });
+      if (level <= c.reminderLevel) continue;
+
+      const minsLeft = Math.max(0, Math.round((c.endsAt.getTime() - Date.now()) / 60_000));
+      const message  = pct >= 100
+        ? "grace period over — deal will be liquidated on the next attestation"
+        : `top up collateral — ${minsLeft} min left in grace period`;
+
+      await pool.execute(
+        "INSERT IGNORE INTO margin_call_reminders (case_id, level, message) VALUES (?, ?, ?)", [c.id, level, message]
+      );
+      await pool.execute("UPDATE margin_call_cases SET reminder_level = ? WHERE id = ?", [level, c.id]);
+      await this.notify(c, level, message);
+    }
+  }
+
+  private async notify(c: MarginCase, level: number, message: string) {
+    for (const n of this.notifiers) {
+      try { await n(c, level, message); } catch (err) { console.error("[Margin Call] notifier failed:", err); }
+    }
+  }
+
+  // ─── Top-ups ────────────────────────────────────────────────────────────────
+
+  /**
+   * Add collateral to a deal under margin call through depositUSYC/depositUSDC,
+   * paid from `payer` (a client bound to the borrower's signer). Returns once
+   * the deposit is submitted; the top-up row follows it to CONFIRMED/FAILED.
+   * The case stays open until an attestation reports HEALTHY.
+   */
+  async topUp(dealId: string, usdcAmount: bigint, payer: BFPayClient, usdcAddress: string) {
+    const c = await getOpenCase(dealId);
+    if (!c) throw new Error("no open margin call for deal");
+    const deal = await this.client.getDeal(dealId);
+    if (!deal) throw new Error("deal not found");
+    if (deal.collType !== "USYC" && deal.collType !== "USDC")
+      throw new Error(`${deal.collType} collateral is topped up off-chain with the banking partner`);
+
+    let tx: DepositTx<TxResult>;
+    try {
+      tx = deal.collType === "USYC"
+        ? await payer.depositUSYC(usdcAddress, dealId, usdcAmount)
+        : await payer.depositUSDC(usdcAddress, dealId, usdcAmount);
+    } catch (err: any) {
+      await pool.execute(
+        `INSERT INTO margin_call_topups (case_id, deal_id, coll_type, usdc_amount, status, error)
+         VALUES (?, ?, ?, ?, 'FAILED', ?)`,
+        [c.id, dealId.toLowerCase(), deal.collType, usdcAmount.toString(), err.reason ?? err.shortMessage ?? err.message]
+      );
+      throw err;
+    }
+
+    // The deposit is broadcast; a failed insert is logged, not thrown
+    pool.execute(
+      `INSERT INTO margin_call_topups (case_id, deal_id, coll_type, usdc_amount, tx_id, tx_hash, status)
+       VALUES (?, ?, ?, ?, ?, ?, 'SUBMITTED')`,
+      [c.id, dealId.toLowerCase(), deal.collType, usdcAmount.toString(), tx.txId, tx.txHash]
+    ).then(([res]) => {
+      const rowId = (res as any).insertId;
+      return tx.wait().then(
+        r   => pool.execute("UPDATE margin_call_topups SET status = 'CONFIRMED', tx_hash = ? WHERE id = ?", [r.txHash, rowId]),
+        err => pool.execute("UPDATE margin_call_topups SET status = 'FAILED', error = ? WHERE id = ?",
+                            [err.reason ?? err.shortMessage ?? err.message, rowId]),
+      );
+    }).catch(err => console.error(`[MarginCall] top-up ${tx.txId} not recorded:`, err));
+    return tx;
+  }
+}
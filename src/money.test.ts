@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Money, MoneyError, Rate, parseDecimal, formatDecimal } from "./money";
+
+test("parseDecimal reads grouped decimals exactly", () => {
+  assert.equal(parseDecimal("1,250.50", 2), BigInt(125050));
+  assert.equal(parseDecimal("0.000001", 6), BigInt(1));
+  assert.equal(parseDecimal(".5", 6), BigInt(500000));
+  assert.equal(parseDecimal("7.", 2), BigInt(700));
+  assert.equal(parseDecimal(42, 0), BigInt(42));
+  assert.equal(parseDecimal(BigInt(3), 6), BigInt(3000000));
+  // Beyond 2^53 a JS number would lose the last digits
+  assert.equal(parseDecimal("123456789012345678.123456789012345678", 18), BigInt("123456789012345678123456789012345678"));
+});
+
+test("parseDecimal rejects signs, exponents and excess precision", () => {
+  for (const bad of ["-1", "+1", "1e6", "", ".", "abc", "1.2.3"])
+    assert.throws(() => parseDecimal(bad, 6), MoneyError, bad);
+  assert.throws(() => parseDecimal(Infinity, 6), MoneyError);
+  assert.throws(() => parseDecimal(BigInt(-1), 6), MoneyError);
+  assert.throws(() => parseDecimal("1.0000001", 6), /more than 6 decimal places/);
+  // Trailing zeros past the precision are not a loss
+  assert.equal(parseDecimal("1.5000000", 6), BigInt(1500000));
+  assert.equal(parseDecimal("1.2345678", 6, { truncate: true }), BigInt(1234567));
+});
+
+test("formatDecimal groups and trims without rounding up", () => {
+  assert.equal(formatDecimal(BigInt(125050), 2), "1,250.5");
+  assert.equal(formatDecimal(BigInt(125050), 2, { minFraction: 2 }), "1,250.50");
+  assert.equal(formatDecimal(BigInt(125050), 2, { group: false }), "1250.5");
+  assert.equal(formatDecimal(BigInt(1999999), 6, { maxFraction: 2 }), "1.99");
+  assert.equal(formatDecimal(BigInt(-1500000), 6), "-1.5");
+  assert.equal(formatDecimal(BigInt(1000000), 0), "1,000,000");
+});
+
+test("Money.format uses each currency's symbol and decimals", () => {
+  assert.equal(Money.of("NGN", "1250000").format(), "₦1,250,000");
+  assert.equal(Money.parse("USD", "1250").format(), "$1,250.00");
+  assert.equal(Money.parse("USDC", "1250.5").format(), "1,250.50 USDC");
+  assert.equal(Money.of("NGN", BigInt(-500)).format(), "-₦500");
+  assert.equal(Money.parse("USYC", "1.123456789").format({ maxFraction: 4 }), "1.1234 USYC");
+  assert.equal(Money.parse("USDC", "1250.5").toDecimal(), "1250.5");
+});
+
+test("Money round-trips base units through JSON", () => {
+  const m = Money.parse("USDC", "1250.50");
+  assert.equal(m.units, BigInt(1250500000));
+  assert.equal(JSON.stringify({ amount: m }), '{"amount":"1250500000"}');
+  assert.equal(Money.of("USDC", m.toJSON()).units, m.units);
+});
+
+test("Money.of and fromInput accept base-unit integers only", () => {
+  assert.throws(() => Money.of("NGN", "1.5"), MoneyError);
+  assert.equal(Money.fromInput("NGN", 5000, "amountNGN").units, BigInt(5000));
+  assert.equal(Money.fromInput("NGN", " 5000 ", "amountNGN").units, BigInt(5000));
+  assert.throws(() => Money.fromInput("NGN", "5,000", "amountNGN"), /amountNGN must be a non-negative integer/);
+  assert.throws(() => Money.fromInput("NGN", 1.5, "amountNGN"), MoneyError);
+  assert.throws(() => Money.fromInput("NGN", "0", "amountNGN", { positive: true }), /greater than zero/);
+});
+
+test("Money arithmetic refuses to mix currencies", () => {
+  const a = Money.parse("USDC", "10"), b = Money.parse("USDC", "2.5");
+  assert.equal(a.plus(b).toDecimal(), "12.5");
+  assert.equal(a.minus(b).toDecimal(), "7.5");
+  assert.equal(Money.of("NGN", 10).mulDiv(BigInt(1), BigInt(3)).units, BigInt(3));
+  assert.ok(a.gt(b) && b.lt(a) && a.cmp(a) === 0);
+  assert.throws(() => a.plus(Money.parse("USD", "1")), /cannot combine USDC with USD/);
+});
+
+test("Rate parses to 1e6 and converts both ways, flooring like the contract", () => {
+  const r = Rate.parse("USDC", "NGN", "1580.25");
+  assert.equal(r.value, BigInt(1580250000));
+  assert.equal(r.format(), "1,580.25");
+  assert.equal(r.convert(Money.parse("USDC", "1")).format(), "₦1,580");
+  assert.equal(r.convert(Money.of("NGN", 1580250)).toDecimal(), "1000");
+  assert.equal(r.convert(Money.of("NGN", 1)).units, BigInt(632));   // 1e6 / 1580.25, floored
+  assert.throws(() => r.convert(Money.parse("USD", "1")), /cannot convert USD/);
+  assert.throws(() => Rate.parse("USDC", "NGN", "0"), /must be positive/);
+});
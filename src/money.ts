@@ -0,0 +1,194 @@
+/**
+ * Exact amounts
+ * Money is a bigint in base units plus its currency; nothing here goes
+ * through a JS number. Decimals follow the contract and tokens:
+ *   NGN whole naira (0), USD / USDC 6, USYC 18
+ * Rates are quote per 1 base × 1e6 (RATE_DECIMALS), e.g. NGN/USDC 1580.25
+ * is 1_580_250_000n — the same scale the contract locks.
+ *
+ * toJSON() is the base-unit string, so payloads keep their existing shape;
+ * format() is for logs and `display` fields.
+ */
+
+export type Currency = "NGN" | "USD" | "USDC" | "USYC";
+
+export const CURRENCIES: Record<Currency, { decimals: number; symbol: string; prefix: boolean }> = {
+  NGN:  { decimals: 0,  symbol: "₦",     prefix: true  },
+  USD:  { decimals: 6,  symbol: "$",     prefix: true  },
+  USDC: { decimals: 6,  symbol: "USDC",  prefix: false },
+  USYC: { decimals: 18, symbol: "USYC",  prefix: false },
+};
+
+export const RATE_DECIMALS = 6;
+
+const ZERO = BigInt(0);
+
+/** 10^n as bigint (no ** on bigint at our ES target) */
+const pow10 = (n: number) => BigInt("1" + "0".repeat(n));
+
+export class MoneyError extends Error {}
+
+// ─── Decimal strings ──────────────────────────────────────────────────────────
+
+/**
+ * "1,250.50" → 125050n at 2 decimals. Rejects signs, exponents and more
+ * fraction digits than `decimals` unless `truncate` is set.
+ */
+export function parseDecimal(value: string | number | bigint, decimals: number, opts: { truncate?: boolean } = {}): bigint {
+  if (typeof value === "bigint") {
+    if (value < ZERO) throw new MoneyError(`negative amount ${value}`);
+    return value * pow10(decimals);
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) throw new MoneyError(`invalid amount ${value}`);
+  const str = String(value).trim().replace(/,/g, "");
+  const m = str.match(/^(\d*)(?:\.(\d*))?$/);
+  if (!m || (!m[1] && !m[2])) throw new MoneyError(`invalid amount "${value}"`);
+  let frac = m[2] ?? "";
+  if (frac.length > decimals) {
+    if (!opts.truncate && /[1-9]/.test(frac.slice(decimals))) throw new MoneyError(`"${value}" has more than ${decimals} decimal places`);
+    frac = frac.slice(0, decimals);
+  }
+  return BigInt(m[1] || "0") * pow10(decimals) + BigInt(frac.padEnd(decimals, "0") || "0");
+}
+
+/**
+ * 125050n at 2 decimals → "1,250.50". Fraction digits are trimmed to
+ * `minFraction`..`maxFraction` (truncating, never rounding up).
+ */
+export function formatDecimal(units: bigint, decimals: number, opts: { group?: boolean; minFraction?: number; maxFraction?: number } = {}): string {
+  const negative = units < ZERO;
+  const abs   = negative ? -units : units;
+  const scale = pow10(decimals);
+  let whole = (abs / scale).toString();
+  let frac  = decimals ? (abs % scale).toString().padStart(decimals, "0") : "";
+
+  frac = frac.slice(0, opts.maxFraction ?? decimals).replace(/0+$/, "");
+  frac = frac.padEnd(Math.min(opts.minFraction ?? 0, opts.maxFraction ?? decimals), "0");
+  if (opts.group !== false) whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return `${negative ? "-" : ""}${whole}${frac ? "." + frac : ""}`;
+}
+
+// ─── Money ────────────────────────────────────────────────────────────────────
+
+export class Money {
+  readonly units:    bigint;
+  readonly currency: Currency;
+
+  constructor(units: bigint, currency: Currency) {
+    if (!CURRENCIES[currency]) throw new MoneyError(`unknown currency ${currency}`);
+    this.units    = units;
+    this.currency = currency;
+  }
+
+  get decimals(): number {
+    return CURRENCIES[this.currency].decimals;
+  }
+
+  /** From base units — contract return values, DB columns, event args */
+  static of(currency: Currency, units: bigint | string | number): Money {
+    if (typeof units === "bigint") return new Money(units, currency);
+    if (!/^-?\d+$/.test(String(units))) throw new MoneyError(`invalid ${currency} base-unit amount "${units}"`);
+    return new Money(BigInt(String(units)), currency);
+  }
+
+  /** From a human decimal string, e.g. Money.parse("USDC", "1250.50") */
+  static parse(currency: Currency, value: string | number): Money {
+    return new Money(parseDecimal(value, CURRENCIES[currency].decimals), currency);
+  }
+
+  /**
+   * API input in base units (the REST contract for amounts). Throws a
+   * MoneyError naming `field` for anything but a non-negative integer.
+   */
+  static fromInput(currency: Currency, value: unknown, field: string, opts: { positive?: boolean } = {}): Money {
+    const str = typeof value === "number" && Number.isSafeInteger(value) ? String(value) : value;
+    if (typeof str !== "string" || !/^\d+$/.test(str.trim()))
+      throw new MoneyError(`${field} must be a non-negative integer in ${currency} base units (${CURRENCIES[currency].decimals} decimals)`);
+    const m = new Money(BigInt(str.trim()), currency);
+    if (opts.positive && m.isZero()) throw new MoneyError(`${field} must be greater than zero`);
+    return m;
+  }
+
+  static zero(currency: Currency): Money {
+    return new Money(ZERO, currency);
+  }
+
+  private same(other: Money) {
+    if (other.currency !== this.currency) throw new MoneyError(`cannot combine ${this.currency} with ${other.currency}`);
+  }
+
+  plus(other: Money): Money  { this.same(other); return new Money(this.units + other.units, this.currency); }
+  minus(other: Money): Money { this.same(other); return new Money(this.units - other.units, this.currency); }
+  /** × num / den, floored like the contract's integer maths */
+  mulDiv(num: bigint, den: bigint): Money { return new Money((this.units * num) / den, this.currency); }
+
+  cmp(other: Money): number { this.same(other); return this.units === other.units ? 0 : this.units < other.units ? -1 : 1; }
+  gt(other: Money): boolean { return this.cmp(other) > 0; }
+  lt(other: Money): boolean { return this.cmp(other) < 0; }
+  isZero(): boolean         { return this.units === ZERO; }
+
+  /** Exact decimal string without grouping, e.g. "1250.5" */
+  toDecimal(): string {
+    return formatDecimal(this.units, this.decimals, { group: false });
+  }
+
+  /** "₦1,250,000", "$1,250.00", "1,250.50 USDC"; `maxFraction` trims long tails (USYC) */
+  format(opts: { maxFraction?: number } = {}): string {
+    const { symbol, prefix, decimals } = CURRENCIES[this.currency];
+    const num = formatDecimal(this.units, decimals, { minFraction: Math.min(2, decimals), maxFraction: opts.maxFraction });
+    return prefix ? `${num.startsWith("-") ? "-" : ""}${symbol}${num.replace(/^-/, "")}` : `${num} ${symbol}`;
+  }
+
+  toString(): string { return this.units.toString(); }
+  toJSON(): string   { return this.units.toString(); }
+}
+
+// ─── Rates ────────────────────────────────────────────────────────────────────
+
+export class Rate {
+  readonly base:  Currency;
+  readonly quote: Currency;
+  readonly value: bigint;     // quote per 1 base × 1e6
+
+  constructor(base: Currency, quote: Currency, value: bigint) {
+    if (value <= ZERO) throw new MoneyError(`${base}/${quote} rate must be positive`);
+    this.base  = base;
+    this.quote = quote;
+    this.value = value;
+  }
+
+  /** "1580.25" → 1_580_250_000n; digits past 1e-6 are truncated */
+  static parse(base: Currency, quote: Currency, value: string | number): Rate {
+    return new Rate(base, quote, parseDecimal(value, RATE_DECIMALS, { truncate: true }));
+  }
+
+  /** The contract's locked NGN per USDC (× 1e6) */
+  static ngnPerUsdc(value: bigint | string): Rate {
+    return new Rate("USDC", "NGN", BigInt(value));
+  }
+
+  /**
+   * Convert between base and quote, flooring like the contract:
+   * 1_000_000 USDC units at 1580.25 → ₦1,580.
+   */
+  convert(m: Money): Money {
+    const scale = pow10(RATE_DECIMALS);
+    if (m.currency === this.base) {
+      const out = CURRENCIES[this.quote].decimals, inDec = CURRENCIES[this.base].decimals;
+      return new Money((m.units * this.value * pow10(out)) / (pow10(inDec) * scale), this.quote);
+    }
+    if (m.currency === this.quote) {
+      const out = CURRENCIES[this.base].decimals, inDec = CURRENCIES[this.quote].decimals;
+      return new Money((m.units * scale * pow10(out)) / (pow10(inDec) * this.value), this.base);
+    }
+    throw new MoneyError(`${this.base}/${this.quote} rate cannot convert ${m.currency}`);
+  }
+
+  /** "1,580.25" */
+  format(): string {
+    return formatDecimal(this.value, RATE_DECIMALS, { minFraction: 2 });
+  }
+
+  toString(): string { return this.value.toString(); }
+  toJSON(): string   { return this.value.toString(); }
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MockBankAdapter, PayoutRequest } from "./payouts";
+
+const request = (payoutId: string, accountNumber = "0123456789"): PayoutRequest => ({
+  payoutId,
+  dealId:      "0x" + "ab".repeat(32),
+  amountNGN:   BigInt(50_000_000),
+  beneficiary: { bankCode: "058", accountNumber, accountName: "Acme Ltd" },
+  narration:   "BFPay drawdown",
+});
+
+test("MockBankAdapter settles a transfer once settleMs has passed", async () => {
+  const bank = new MockBankAdapter({ settleMs: 0, failAccounts: [] });
+  const t = await bank.initiate(request("p1"));
+  assert.equal(t.status, "PENDING");
+  assert.match(t.providerRef, /^MOCK-/);
+
+  const s = await bank.status(t.providerRef);
+  assert.equal(s.status, "SETTLED");
+  assert.match(s.fiatRef!, /^MOCKNIP[0-9A-F]{16}$/);
+});
+
+test("MockBankAdapter keeps a transfer pending until settled by hand", async () => {
+  const bank = new MockBankAdapter({ settleMs: 60_000, failAccounts: [] });
+  const t = await bank.initiate(request("p1"));
+  assert.equal((await bank.status(t.providerRef)).status, "PENDING");
+
+  assert.equal(bank.reverse(t.providerRef), false);   // only a settled transfer reverses
+  assert.equal(bank.settle(t.providerRef), true);
+  assert.equal(bank.settle(t.providerRef), false);
+  assert.equal(bank.reverse(t.providerRef), true);
+  const s = await bank.status(t.providerRef);
+  assert.equal(s.status, "REVERSED");
+  assert.equal(s.reason, "reversed by operator");
+});
+
+test("MockBankAdapter fails listed accounts and operator-failed transfers", async () => {
+  const bank = new MockBankAdapter({ settleMs: 0, failAccounts: ["9999999999"] });
+  const rejected = await bank.initiate(request("p1", "9999999999"));
+  assert.equal(rejected.status, "FAILED");
+  assert.equal(rejected.reason, "beneficiary account rejected");
+  assert.equal((await bank.status(rejected.providerRef)).status, "FAILED");
+
+  const slow = new MockBankAdapter({ settleMs: 60_000, failAccounts: [] });
+  const t = await slow.initiate(request("p2"));
+  assert.equal(slow.fail(t.providerRef), true);
+  assert.deepEqual(await slow.status(t.providerRef), {
+    providerRef: t.providerRef, status: "FAILED", fiatRef: undefined, reason: "failed by operator",
+  });
+});
+
+test("MockBankAdapter is idempotent on payoutId", async () => {
+  const bank = new MockBankAdapter({ settleMs: 60_000, failAccounts: [] });
+  const first  = await bank.initiate(request("p1"));
+  const again  = await bank.initiate(request("p1"));
+  const second = await bank.initiate(request("p2"));
+  assert.equal(again.providerRef, first.providerRef);
+  assert.notEqual(second.providerRef, first.providerRef);
+});
+
+test("MockBankAdapter reports references it does not know as failed", async () => {
+  const bank = new MockBankAdapter({ settleMs: 0, failAccounts: [] });
+  const s = await bank.status("MOCK-unknown");
+  assert.equal(s.status, "FAILED");
+  assert.match(s.reason!, /unknown to mock bank/);
+});
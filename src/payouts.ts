@@ -0,0 +1,392 @@
+/**
+ * NGN fiat payouts
+ * When a deal opens, the borrower's drawn amount is sent to their NGN bank
+ * account through a PayoutAdapter. The service polls the transfer and, once
+ * the bank reports it settled, calls confirmPayout with the bank's own
+ * reference instead of a hand-typed one.
+ *
+ * Failed and reversed transfers are flagged (flagged = 1) and passed to the
+ * notifiers so the deal is never left ACTIVE without the borrower being paid.
+ * Settled payouts are watched for PAYOUT_REVERSAL_WATCH_HOURS (default 24)
+ * in case the bank reverses them.
+ *
+ * Adapters: PAYOUT_ADAPTER=mock (default) runs an in-process bank for offline
+ * testing; real partners implement PayoutAdapter.
+ */
+
+import crypto from "crypto";
+import { pool } from "./db";
+import { BFPayClient } from "./bfpay";
+import { BFPayIndexer, IndexedEvent } from "./indexer";
+
+export type BankTransferStatus = "PENDING" | "SETTLED" | "FAILED" | "REVERSED";
+
+export type Beneficiary = {
+  bankCode:      string;
+  accountNumber: string;
+  accountName:   string;
+};
+
+export type PayoutRequest = {
+  payoutId:    string;     // our idempotency key at the bank, one per attempt
+  dealId:      string;
+  amountNGN:   bigint;     // whole naira
+  beneficiary: Beneficiary;
+  narration:   string;
+};
+
+export type BankTransfer = {
+  providerRef: string;
+  status:      BankTransferStatus;
+  fiatRef?:    string;     // bank's settlement reference, e.g. NIP session id
+  reason?:     string;
+};
+
+export interface PayoutAdapter {
+  name: string;
+  initiate(req: PayoutRequest): Promise<BankTransfer>;
+  status(providerRef: string): Promise<BankTransfer>;
+}
+
+export type PayoutStatus =
+  | "HELD"        // waiting for a beneficiary or for the credit line to be set
+  | "PENDING"     // with the bank
+  | "SETTLED"     // bank paid, confirmPayout not yet mined
+  | "CONFIRMED"   // confirmPayout mined
+  | "FAILED"
+  | "REVERSED";
+
+export type PayoutRecord = {
+  id:           string;
+  dealId:       string;
+  borrower:     string;
+  adapter:      string;
+  amountNGN:    string;
+  providerRef:  string | null;
+  fiatRef:      string | null;
+  status:       PayoutStatus;
+  flagged:      boolean;
+  reason:       string | null;
+  confirmTxId:  string | null;
+  attempts:     number;
+  createdAt:    Date;
+  updatedAt:    Date;
+};
+
+export type PayoutNotifier = (p: PayoutRecord, message: string) => Promise<void> | void;
+
+// ─── Mock bank ────────────────────────────────────────────────────────────────
+
+/**
+ * In-process bank. Transfers settle after MOCK_BANK_SETTLE_MS (default 5s);
+ * accounts in MOCK_BANK_FAIL_ACCOUNTS (comma-separated) fail instead.
+ * settle/fail/reverse drive a transfer by hand. State is lost on restart.
+ */
+export class MockBankAdapter implements PayoutAdapter {
+  name = "mock";
+  settleMs:     number;
+  failAccounts: string[];
+
+  private transfers = new Map<string, BankTransfer & { createdAt: number; payoutId: string }>();
+  private seq = 0;
+
+  constructor(opts: { settleMs?: number; failAccounts?: string[] } = {}) {
+    this.settleMs     = opts.settleMs ?? Number(process.env.MOCK_BANK_SETTLE_MS ?? 5_000);
+    this.failAccounts = opts.failAccounts ?? (process.env.MOCK_BANK_FAIL_ACCOUNTS ?? "").split(",").map(a => a.trim()).filter(Boolean);
+  }
+
+  async initiate(req: PayoutRequest): Promise<BankTransfer> {
+    const existing = [...this.transfers.values()].find(t => t.payoutId === req.payoutId);
+    if (existing) return existing;
+    const providerRef = `MOCK-${Date.now()}-${++this.seq}`;
+    const t = { providerRef, status: "PENDING" as BankTransferStatus, createdAt: Date.now(), payoutId: req.payoutId };
+    this.transfers.set(providerRef, t);
+    if (this.failAccounts.includes(req.beneficiary.accountNumber)) {
+      t.status = "FAILED";
+      (t as BankTransfer).reason = "beneficiary account rejected";
+    }
+    console.log(`[Mock Bank] ₦${req.amountNGN} → ${req.beneficiary.accountNumber} (${req.beneficiary.bankCode}) | ${providerRef}`);
+    return { ...t };
+  }
+
+  async status(providerRef: string): Promise<BankTransfer> {
+    const t = this.transfers.get(providerRef);
+    if (!t) return { providerRef, status: "FAILED", reason: "unknown to mock bank (restarted?)" };
+    if (t.status === "PENDING" && Date.now() - t.createdAt >= this.settleMs) this.settle(providerRef);
+    return { providerRef: t.providerRef, status: t.status, fiatRef: t.fiatRef, reason: t.reason };
+  }
+
+  settle(providerRef: string)  { return this.move(providerRef, "PENDING", "SETTLED"); }
+  fail(providerRef: string)    { return this.move(providerRef, "PENDING", "FAILED", "failed by operator"); }
+  reverse(providerRef: string) { return this.move(providerRef, "SETTLED", "REVERSED", "reversed by operator"); }
+
+  private move(providerRef: string, from: BankTransferStatus, to: BankTransferStatus, reason?: string): boolean {
+    const t = this.transfers.get(providerRef);
+    if (!t || t.status !== from) return false;
+    t.status = to;
+    if (to === "SETTLED") t.fiatRef = `MOCKNIP${crypto.randomBytes(8).toString("hex").toUpperCase()}`;
+    if (reason) t.reason = reason;
+    return true;
+  }
+}
+
+export function createPayoutAdapterFromEnv(): PayoutAdapter | null {
+  const name = process.env.PAYOUT_ADAPTER ?? "mock";
+  if (name === "mock") return new MockBankAdapter();
+  if (name === "none") return null;
+  throw new Error(`unknown PAYOUT_ADAPTER ${name}`);
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createPayoutTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS payout_beneficiaries (
+      borrower        VARCHAR(42)  PRIMARY KEY,
+      bank_code       VARCHAR(16)  NOT NULL,
+      account_number  VARCHAR(20)  NOT NULL,
+      account_name    VARCHAR(255) NOT NULL,
+      updated_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS fiat_payouts (
+      id              CHAR(36)     PRIMARY KEY,
+      deal_id         VARCHAR(66)  NOT NULL UNIQUE,
+      borrower        VARCHAR(42)  NOT NULL,
+      adapter         VARCHAR(32)  NOT NULL,
+      amount_ngn      VARCHAR(78)  NOT NULL,
+      beneficiary     JSON         NULL,
+      provider_ref    VARCHAR(128) NULL,
+      fiat_ref        VARCHAR(128) NULL,
+      status          VARCHAR(16)  NOT NULL,
+      flagged         TINYINT(1)   NOT NULL DEFAULT 0,
+      reason          TEXT         NULL,
+      confirm_tx_id   CHAR(36)     NULL,
+      attempts        INT          NOT NULL DEFAULT 0,
+      settled_at      TIMESTAMP    NULL,
+      created_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      KEY idx_payout_status (status)
+    )`);
+}
+
+function rowToPayout(r: any): PayoutRecord {
+  return {
+    id: r.id, dealId: r.deal_id, borrower: r.borrower, adapter: r.adapter, amountNGN: r.amount_ngn,
+    providerRef: r.provider_ref, fiatRef: r.fiat_ref, status: r.status, flagged: !!r.flagged,
+    reason: r.reason, confirmTxId: r.confirm_tx_id, attempts: r.attempts,
+    createdAt: r.created_at, updatedAt: r.updated_at,
+  };
+}
+
+export async function setBeneficiary(borrower: string, b: Beneficiary) {
+  await pool.execute(
+    `INSERT INTO payout_beneficiaries (borrower, bank_code, account_number, account_name) VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE bank_code = VALUES(bank_code), account_number = VALUES(account_number), account_name = VALUES(account_name)`,
+    [borrower.toLowerCase(), b.bankCode, b.accountNumber, b.accountName]
+  );
+}
+
+async function getBeneficiary(borrower: string): Promise<Beneficiary | null> {
+  const [rows] = await pool.query("SELECT * FROM payout_beneficiaries WHERE borrower = ?", [borrower.toLowerCase()]);
+  const r = (rows as any[])[0];
+  return r ? { bankCode: r.bank_code, accountNumber: r.account_number, accountName: r.account_name } : null;
+}
+
+export async function getDealPayout(dealId: string): Promise<PayoutRecord | null> {
+  const [rows] = await pool.query("SELECT * FROM fiat_payouts WHERE deal_id = ?", [dealId.toLowerCase()]);
+  const r = (rows as any[])[0];
+  return r ? rowToPayout(r) : null;
+}
+
+export async function listPayouts(filter: { status?: string; flagged?: boolean } = {}): Promise<PayoutRecord[]> {
+  const where: string[] = [];
+  const params: any[]   = [];
+  if (filter.status)              { where.push("status = ?");  params.push(filter.status); }
+  if (filter.flagged !== undefined) { where.push("flagged = ?"); params.push(filter.flagged ? 1 : 0); }
+  const [rows] = await pool.query(
+    `SELECT * FROM fiat_payouts ${where.length ? "WHERE " + where.join(" AND ") : ""} ORDER BY created_at DESC LIMIT 500`, params
+  );
+  return (rows as any[]).map(rowToPayout);
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+const REVERSAL_WATCH_HOURS = Number(process.env.PAYOUT_REVERSAL_WATCH_HOURS ?? 24);
+
+export class PayoutService {
+  client:    BFPayClient;       // read-only
+  confirmer: BFPayClient;       // signs confirmPayout (oracle)
+  adapter:   PayoutAdapter;
+  pollMs:    number;
+  notifiers: PayoutNotifier[] = [];
+
+  private timer: NodeJS.Timeout | null = null;
+  private busy  = false;
+
+  constructor(client: BFPayClient, confirmer: BFPayClient, adapter: PayoutAdapter, opts: { pollMs?: number } = {}) {
+    this.client    = client;
+    this.confirmer = confirmer;
+    this.adapter   = adapter;
+    this.pollMs    = opts.pollMs ?? Number(process.env.PAYOUT_POLL_MS ?? 10_000);
+  }
+
+  addNotifier(n: PayoutNotifier) {
+    this.notifiers.push(n);
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createPayoutTables();
+    await indexer.consume("payouts", ["DealOpened", "PayoutConfirmed"], (ev: IndexedEvent) =>
+      ev.eventName === "DealOpened" ? this.onDealOpened(ev.refId) : this.onPayoutConfirmed(ev.refId, ev.args.fiatRef));
+    this.timer = setInterval(() => this.poll().catch(err => console.error("[Payout]", err)), this.pollMs);
+    console.log(`[Payout] Started | adapter ${this.adapter.name} | poll ${this.pollMs / 1000}s`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async update(p: PayoutRecord, fields: Record<string, any>) {
+    const cols = Object.keys(fields);
+    await pool.execute(
+      `UPDATE fiat_payouts SET ${cols.map(c => `${c} = ?`).join(", ")} WHERE id = ?`,
+      [...cols.map(c => fields[c]), p.id]
+    );
+  }
+
+  private async flag(p: PayoutRecord, status: PayoutStatus, reason: string) {
+    await this.update(p, { status, flagged: 1, reason });
+    const message = `payout ${status.toLowerCase()} for deal ${p.dealId}: ${reason}`;
+    console.log(`[Payout] ❌ ${message}`);
+    for (const n of this.notifiers) {
+      try { await n({ ...p, status, flagged: true, reason }, message); }
+      catch (err) { console.error("[Payout] notifier failed:", err); }
+    }
+  }
+
+  /** Record the payout for a newly opened deal and send it if it can go now */
+  async onDealOpened(dealId: string) {
+    const deal = await this.client.getDeal(dealId);
+    if (!deal) return;
+    await pool.execute(
+      `INSERT IGNORE INTO fiat_payouts (id, deal_id, borrower, adapter, amount_ngn, status, reason)
+       VALUES (?, ?, ?, ?, ?, 'HELD', 'awaiting initiation')`,
+      [crypto.randomUUID(), dealId.toLowerCase(), deal.borrower.toLowerCase(), this.adapter.name, deal.amountNGN]
+    );
+    const p = await getDealPayout(dealId);
+    if (p && p.status === "HELD") await this.initiate(p);
+  }
+
+  /** Someone confirmed by hand (or a previous run did) — nothing left to do */
+  async onPayoutConfirmed(dealId: string, fiatRef: string) {
+    const p = await getDealPayout(dealId);
+    if (p && p.status !== "CONFIRMED" && p.status !== "REVERSED")
+      await this.update(p, { status: "CONFIRMED", fiat_ref: p.fiatRef ?? fiatRef, reason: null });
+  }
+
+  /** Send a HELD or FAILED payout to the bank */
+  async initiate(p: PayoutRecord) {
+    const deal = await this.client.getDeal(p.dealId);
+    if (!deal) return this.update(p, { reason: "deal not found" });
+    if (deal.status !== "MATCHED") {
+      return this.update(p, { status: "HELD", reason: `deal is ${deal.status}, payout not sent` });
+    }
+
+    // The drawn amount must sit inside the credit line fixed by the locked rate
+    const rate = await this.client.getRate(p.dealId);
+    if (!rate.active) return this.update(p, { status: "HELD", reason: "FX rate not locked yet" });
+    const creditLine = await this.client.views.creditLineNGN(p.dealId);
+    if (BigInt(p.amountNGN) > creditLine) {
+      return this.flag(p, "FAILED", `₦${p.amountNGN} exceeds credit line ₦${creditLine} — not sent`);
+    }
+
+    const beneficiary = await getBeneficiary(p.borrower);
+    if (!beneficiary) return this.update(p, { status: "HELD", reason: "no beneficiary account on file for borrower" });
+
+    try {
+      const t = await this.adapter.initiate({
+        payoutId: `${p.id}-${p.attempts + 1}`, dealId: p.dealId, amountNGN: BigInt(p.amountNGN), beneficiary,
+        narration: `BFPay ${p.dealId.slice(2, 14)}`,
+      });
+      await this.update(p, {
+        status: "PENDING", provider_ref: t.providerRef, beneficiary: JSON.stringify(beneficiary),
+        attempts: p.attempts + 1, flagged: 0, reason: null,
+      });
+      console.log(`[Payout] ⏳ ₦${p.amountNGN} sent for deal ${p.dealId.slice(0, 12)}… | ${t.providerRef}`);
+      await this.apply({ ...p, status: "PENDING", providerRef: t.providerRef }, t);
+    } catch (err: any) {
+      await this.update(p, { attempts: p.attempts + 1 });
+      await this.flag(p, "FAILED", `initiation failed: ${err.message}`);
+    }
+  }
+
+  /** Move a payout forward from the bank's view of the transfer */
+  private async apply(p: PayoutRecord, t: BankTransfer) {
+    if (t.status === "PENDING") return;
+    if (t.status === "FAILED")   return this.flag(p, "FAILED", t.reason ?? "bank rejected the transfer");
+    if (t.status === "REVERSED") {
+      const confirmed = p.status === "CONFIRMED" || p.status === "SETTLED";
+      return this.flag(p, "REVERSED", (t.reason ?? "bank reversed the transfer") +
+        (confirmed ? " after payout was confirmed on-chain — deal is ACTIVE without funds" : ""));
+    }
+    if (p.status === "PENDING") {
+      await this.update(p, { status: "SETTLED", fiat_ref: t.fiatRef ?? t.providerRef, settled_at: new Date() });
+      await this.confirm({ ...p, status: "SETTLED", fiatRef: t.fiatRef ?? t.providerRef });
+    }
+  }
+
+  private async confirm(p: PayoutRecord) {
+    try {
+      const tx = await this.confirmer.confirmPayout(p.dealId, p.fiatRef!);
+      await this.update(p, { confirm_tx_id: tx.txId });
+      await tx.wait();
+      await this.update(p, { status: "CONFIRMED", reason: null });
+      console.log(`[Payout] ✅ Deal ${p.dealId.slice(0, 12)}… payout confirmed | ${p.fiatRef}`);
+    } catch (err: any) {
+      // Stays SETTLED: the money is out, only the on-chain confirmation is missing
+      await this.update(p, { reason: `confirmPayout failed: ${err.reason ?? err.shortMessage ?? err.message}` });
+      console.error(`[Payout] ⚠️  confirmPayout failed for ${p.dealId.slice(0, 12)}…:`, err.reason ?? err.message);
+    }
+  }
+
+  async poll() {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      const [rows] = await pool.query(
+        `SELECT * FROM fiat_payouts
+          WHERE status IN ('HELD', 'PENDING')
+             OR (status = 'SETTLED' AND (confirm_tx_id IS NULL OR updated_at < NOW() - INTERVAL 10 MINUTE))
+             OR (status = 'CONFIRMED' AND provider_ref IS NOT NULL AND settled_at > NOW() - INTERVAL ? HOUR)`,
+        [REVERSAL_WATCH_HOURS]
+      );
+      for (const p of (rows as any[]).map(rowToPayout)) {
+        try {
+          if (p.status === "HELD") await this.initiate(p);
+          else if (p.status === "SETTLED") await this.retryConfirm(p);
+          else await this.apply(p, await this.adapter.status(p.providerRef!));
+        } catch (err: any) {
+          console.error(`[Payout] ${p.dealId.slice(0, 12)}…:`, err.message);
+        }
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /** SETTLED whose confirmPayout never landed — re-check the chain before resending */
+  private async retryConfirm(p: PayoutRecord) {
+    const deal = await this.client.getDeal(p.dealId);
+    if (deal && deal.status !== "MATCHED") return this.update(p, { status: "CONFIRMED", reason: null });
+    await this.confirm(p);
+  }
+
+  /** Operator retry of a FAILED (or HELD) payout */
+  async retry(dealId: string): Promise<PayoutRecord | null> {
+    const p = await getDealPayout(dealId);
+    if (!p || (p.status !== "FAILED" && p.status !== "HELD")) return p;
+    await this.initiate({ ...p, status: "HELD" });
+    return getDealPayout(dealId);
+  }
+}
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RFQInfo } from "./bfpay";
+import { LenderStrategy, priceRFQ } from "./quoting-bot";
+
+const BORROWER = "0x00000000000000000000000000000000000000Bb";
+
+const STRATEGY: LenderStrategy = {
+  baseBPS:        { USYC: 10, USDC: 12 },
+  tenorCurve:     [{ maxDays: 30, addBPS: 3 }, { maxDays: 7, addBPS: 0 }],   // sorted before use
+  tiers:          { [BORROWER]: "gold" },
+  tierAddBPS:     { gold: -2, default: 4 },
+  blockedTiers:   ["watch"],
+  exposureCapNGN: "100000000",
+};
+
+const rfq = (over: Partial<RFQInfo> = {}): RFQInfo => ({
+  id: "0x" + "01".repeat(32), borrower: BORROWER, amountNGN: "50000000", tenorDays: 7, maxFeeBPS: 20,
+  collType: "USYC", collateralUSD: "100000000000", createdAt: "1700000000", open: true, ...over,
+});
+
+test("the fee is base + tenor step + tier, with a breakdown", () => {
+  assert.deepEqual(priceRFQ(STRATEGY, rfq(), BigInt(0)), {
+    feeBPS: 8, skip: null,
+    breakdown: { baseBPS: 10, tenorAddBPS: 0, tier: "gold", tierAddBPS: -2, feeBPS: 8, exposureNGN: "0", capNGN: "100000000" },
+  });
+  // Tiers match the borrower address in any case; unknown borrowers take the default
+  assert.equal(priceRFQ(STRATEGY, rfq({ borrower: BORROWER.toLowerCase(), tenorDays: 8 }), BigInt(0)).feeBPS, 11);
+  assert.equal(priceRFQ(STRATEGY, rfq({ borrower: "0x" + "cc".repeat(20), collType: "USDC" }), BigInt(0)).feeBPS, 16);
+});
+
+test("the fee never drops below the minimum", () => {
+  const cheap = { ...STRATEGY, baseBPS: { USYC: 1 } };
+  assert.equal(priceRFQ(cheap, rfq(), BigInt(0)).feeBPS, 1);
+  assert.equal(priceRFQ({ ...cheap, minFeeBPS: 5 }, rfq(), BigInt(0)).feeBPS, 5);
+});
+
+test("unpriceable RFQs are skipped with the reason", () => {
+  const skip = (s: LenderStrategy, r: RFQInfo, exposure = BigInt(0)) => priceRFQ(s, r, exposure).skip;
+  assert.equal(skip(STRATEGY, rfq({ collType: "USD Fiat" })), "USD Fiat collateral not accepted");
+  assert.equal(skip(STRATEGY, rfq({ tenorDays: 31 })), "tenor 31d beyond the curve");
+  assert.equal(skip({ ...STRATEGY, tiers: { [BORROWER]: "watch" } }, rfq()), "borrower tier watch is blocked");
+  assert.equal(skip(STRATEGY, rfq({ maxFeeBPS: 7 })), "priced 8 bps/day, above the RFQ max of 7");
+  assert.equal(skip(STRATEGY, rfq(), BigInt(50_000_001)), "exposure would be ₦100000001 against a cap of ₦100000000");
+  assert.equal(skip(STRATEGY, rfq(), BigInt(50_000_000)), null);                       // exactly at the cap
+});
+
+test("a per-borrower cap overrides the default and no cap means no limit", () => {
+  const s = { ...STRATEGY, borrowerCapNGN: { [BORROWER.toLowerCase()]: "60000000" } };
+  assert.match(priceRFQ(s, rfq(), BigInt(20_000_000)).skip!, /cap of ₦60000000/);
+  const uncapped = priceRFQ({ ...STRATEGY, exposureCapNGN: undefined }, rfq(), BigInt("999999999999"));
+  assert.equal(uncapped.feeBPS, 8);
+  assert.equal(uncapped.breakdown.capNGN, undefined);
+});
@@ -0,0 +1,320 @@
+/**
+ * Lender quoting bot
+ * Listens for RFQCreated and prices each new RFQ for every configured lender:
+ *
+ *   fee = base rate for the collateral type
+ *       + tenor curve add-on
+ *       + borrower tier add-on
+ *       (floored at minFeeBPS)
+ *
+ * A quote is submitted when the fee fits inside the RFQ's maxFeeBPS and the
+ * borrower's exposure cap has room for the amount. Exposure counts open deals
+ * with this lender plus the bot's own quotes that are still valid. Quotes for
+ * one lender are priced one at a time, and each reserves its amount in
+ * lender_quote_log (QUOTING) before it is submitted, so two RFQs from the same
+ * borrower cannot both fit under the cap. The lender's clients are registered
+ * as webhook parties for every RFQ the bot quotes.
+ *
+ * Strategies live in QUOTING_STRATEGIES_FILE (default quoting-strategies.json),
+ * one entry per lender signer, and are re-read per RFQ so the desk can change
+ * pricing without a restart:
+ *
+ *   { "lender-desk": {
+ *       "dryRun": true, "validSecs": 300, "minFeeBPS": 5,
+ *       "baseBPS": { "USYC": 10, "USDC": 12, "GBP Fiat": 18 },
+ *       "tenorCurve": [{ "maxDays": 7, "addBPS": 0 }, { "maxDays": 30, "addBPS": 3 }],
+ *       "tiers": { "0xBorrower…": "A" }, "defaultTier": "B",
+ *       "tierAddBPS": { "A": -2, "B": 0, "C": 6 }, "blockedTiers": ["D"],
+ *       "exposureCapNGN": "250000000", "borrowerCapNGN": { "0xBorrower…": "500000000" },
+ *       "sourceCode": "LENDER-DESK" } }
+ *
+ * QUOTING_BOT_DRY_RUN=true forces dry-run for every lender. Every decision,
+ * quoted or skipped, is written to lender_quote_log with its reason.
+ */
+
+import fs from "fs";
+import { pool } from "./db";
+import { BFPayClient, RFQInfo } from "./bfpay";
+import { BFPayIndexer, IndexedEvent } from "./indexer";
+import { registerParty } from "./webhooks";
+
+export type LenderStrategy = {
+  enabled?:        boolean;
+  dryRun?:         boolean;
+  validSecs?:      number;
+  minFeeBPS?:      number;
+  maxRfqAgeSecs?:  number;                         // ignore RFQs older than this (backfills)
+  baseBPS:         Record<string, number>;         // per CollTypeName; missing type = not accepted
+  tenorCurve?:     { maxDays: number; addBPS: number }[];
+  tiers?:          Record<string, string>;         // borrower address → tier
+  defaultTier?:    string;
+  tierAddBPS?:     Record<string, number>;
+  blockedTiers?:   string[];
+  exposureCapNGN?: string;                         // per borrower, default
+  borrowerCapNGN?: Record<string, string>;         // per borrower override
+  sourceCode?:     string;                         // webhook party; default the signer's listed clients
+};
+
+export type QuoteDecision = "QUOTING" | "QUOTED" | "DRY_RUN" | "SKIPPED" | "FAILED";
+
+export type Pricing = {
+  feeBPS:    number | null;
+  skip:      string | null;    // reason when no quote should be sent
+  breakdown: Record<string, number | string>;
+};
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createQuotingTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS lender_quote_log (
+      id            BIGINT AUTO_INCREMENT PRIMARY KEY,
+      rfq_id        VARCHAR(66)  NOT NULL,
+      signer_id     VARCHAR(64)  NOT NULL,
+      lender        VARCHAR(42)  NOT NULL,
+      borrower      VARCHAR(42)  NOT NULL,
+      amount_ngn    VARCHAR(78)  NOT NULL,
+      tenor_days    INT          NOT NULL,
+      coll_type     VARCHAR(16)  NOT NULL,
+      max_fee_bps   INT          NOT NULL,
+      fee_bps       INT          NULL,
+      decision      VARCHAR(16)  NOT NULL,      -- QUOTING (reserved, being sent) | QUOTED | DRY_RUN | SKIPPED | FAILED
+      reason        TEXT         NOT NULL,
+      breakdown     JSON         NULL,
+      tx_id         CHAR(36)     NULL,
+      valid_until   TIMESTAMP    NULL,
+      created_at    TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_quote_rfq_signer (rfq_id, signer_id),
+      KEY idx_quote_borrower (borrower, signer_id)
+    )`);
+}
+
+export async function listQuoteDecisions(filter: { rfqId?: string; signerIds: string[]; limit?: number }) {
+  if (filter.signerIds.length === 0) return [];
+  const where  = ["signer_id IN (?)"];
+  const params: any[] = [filter.signerIds];
+  if (filter.rfqId) { where.push("rfq_id = ?"); params.push(filter.rfqId.toLowerCase()); }
+  params.push(Math.min(filter.limit ?? 100, 500));
+  const [rows] = await pool.query(
+    `SELECT * FROM lender_quote_log WHERE ${where.join(" AND ")} ORDER BY id DESC LIMIT ?`, params
+  );
+  return (rows as any[]).map(r => ({
+    id: Number(r.id), rfqId: r.rfq_id, signerId: r.signer_id, lender: r.lender, borrower: r.borrower,
+    amountNGN: r.amount_ngn, tenorDays: r.tenor_days, collType: r.coll_type, maxFeeBPS: r.max_fee_bps,
+    feeBPS: r.fee_bps, decision: r.decision as QuoteDecision, reason: r.reason,
+    breakdown: typeof r.breakdown === "string" ? JSON.parse(r.breakdown) : r.breakdown,
+    txId: r.tx_id, validUntil: r.valid_until, createdAt: r.created_at,
+  }));
+}
+
+// ─── Pricing ──────────────────────────────────────────────────────────────────
+
+function tenorAddBPS(curve: LenderStrategy["tenorCurve"], tenorDays: number): number | null {
+  if (!curve || curve.length === 0) return 0;
+  const step = [...curve].sort((a, b) => a.maxDays - b.maxDays).find(s => tenorDays <= s.maxDays);
+  return step ? step.addBPS : null;
+}
+
+function lookup<T>(map: Record<string, T> | undefined, address: string): T | undefined {
+  if (!map) return undefined;
+  const key = Object.keys(map).find(k => k.toLowerCase() === address.toLowerCase());
+  return key === undefined ? undefined : map[key];
+}
+
+/** Pure: price an RFQ for one lender given the borrower's current exposure to that lender */
+export function priceRFQ(strategy: LenderStrategy, rfq: RFQInfo, exposureNGN: bigint): Pricing {
+  const breakdown: Record<string, number | string> = {};
+  const skip = (reason: string): Pricing => ({ feeBPS: null, skip: reason, breakdown });
+
+  const base = strategy.baseBPS[rfq.collType];
+  if (base === undefined) return skip(`${rfq.collType} collateral not accepted`);
+  breakdown.baseBPS = base;
+
+  const tenorAdd = tenorAddBPS(strategy.tenorCurve, rfq.tenorDays);
+  if (tenorAdd === null) return skip(`tenor ${rfq.tenorDays}d beyond the curve`);
+  breakdown.tenorAddBPS = tenorAdd;
+
+  const tier = lookup(strategy.tiers, rfq.borrower) ?? strategy.defaultTier ?? "default";
+  breakdown.tier = tier;
+  if ((strategy.blockedTiers ?? []).includes(tier)) return skip(`borrower tier ${tier} is blocked`);
+  const tierAdd = strategy.tierAddBPS?.[tier] ?? 0;
+  breakdown.tierAddBPS = tierAdd;
+
+  const raw = base + tenorAdd + tierAdd;
+  const fee = Math.max(raw, strategy.minFeeBPS ?? 1);
+  breakdown.feeBPS = fee;
+  if (fee > rfq.maxFeeBPS) return skip(`priced ${fee} bps/day, above the RFQ max of ${rfq.maxFeeBPS}`);
+
+  const cap = lookup(strategy.borrowerCapNGN, rfq.borrower) ?? strategy.exposureCapNGN;
+  breakdown.exposureNGN = exposureNGN.toString();
+  if (cap !== undefined) {
+    breakdown.capNGN = cap;
+    const after = exposureNGN + BigInt(rfq.amountNGN);
+    if (after > BigInt(cap)) return skip(`exposure would be ₦${after} against a cap of ₦${cap}`);
+  }
+
+  return { feeBPS: fee, skip: null, breakdown };
+}
+
+// ─── Bot ──────────────────────────────────────────────────────────────────────
+
+export class QuotingBot {
+  client:         BFPayClient;                          // read-only
+  lenderClient:   (signerId: string) => BFPayClient;    // bound to the lender's signer
+  lenderParties:  (signerId: string) => Promise<string[]>;   // source codes of the signer's clients
+  strategiesFile: string;
+
+  private lenders = new Map<string, string>();          // signerId → address
+  private queues  = new Map<string, Promise<unknown>>(); // per-signer quoting chain
+
+  constructor(client: BFPayClient, lenderClient: (signerId: string) => BFPayClient,
+              lenderParties: (signerId: string) => Promise<string[]> = async () => [], strategiesFile?: string) {
+    this.client         = client;
+    this.lenderClient   = lenderClient;
+    this.lenderParties  = lenderParties;
+    this.strategiesFile = strategiesFile ?? process.env.QUOTING_STRATEGIES_FILE ?? "quoting-strategies.json";
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createQuotingTables();
+    await indexer.consume("quoting-bot", ["RFQCreated"], (ev: IndexedEvent) => this.onRFQ(ev.refId));
+    const ids = Object.keys(this.strategies());
+    console.log(`[Quoting Bot] Watching RFQs for ${ids.length} lender(s): ${ids.join(", ") || "none configured"}`);
+  }
+
+  /** Read per RFQ so the desk can adjust pricing without a restart */
+  strategies(): Record<string, LenderStrategy> {
+    if (!fs.existsSync(this.strategiesFile)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(this.strategiesFile, "utf8"));
+    } catch (err) {
+      console.error("[Quoting Bot] bad strategies file:", err);
+      return {};
+    }
+  }
+
+  private async lenderAddress(signerId: string): Promise<string> {
+    let address = this.lenders.get(signerId);
+    if (!address) {
+      address = await this.lenderClient(signerId).signer.getAddress();
+      this.lenders.set(signerId, address);
+    }
+    return address;
+  }
+
+  /** Run `fn` after every earlier quote for the same lender, so each sees the exposure reserved before it */
+  private serialize<T>(signerId: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.queues.get(signerId) ?? Promise.resolve();
+    const next = prev.catch(() => {}).then(fn);
+    this.queues.set(signerId, next);
+    return next;
+  }
+
+  /** Open deals with this lender plus the bot's own quotes that can still be accepted, or are being sent */
+  async exposure(signerId: string, lender: string, borrower: string): Promise<bigint> {
+    const [opened] = await pool.query(
+      `SELECT ref_id FROM bf_events
+        WHERE event_name = 'DealOpened'
+          AND LOWER(JSON_UNQUOTE(JSON_EXTRACT(args, '$.borrower'))) = ?
+          AND LOWER(JSON_UNQUOTE(JSON_EXTRACT(args, '$.lender')))   = ?`,
+      [borrower.toLowerCase(), lender.toLowerCase()]
+    );
+    let total = BigInt(0);
+    for (const row of opened as any[]) {
+      const deal = await this.client.getDeal(row.ref_id);
+      if (deal && (deal.status === "MATCHED" || deal.status === "ACTIVE")) total += BigInt(deal.amountNGN);
+    }
+
+    const [quoted] = await pool.query(
+      `SELECT amount_ngn FROM lender_quote_log
+        WHERE signer_id = ? AND borrower = ? AND decision IN ('QUOTING', 'QUOTED') AND valid_until > NOW()`,
+      [signerId, borrower.toLowerCase()]
+    );
+    for (const row of quoted as any[]) total += BigInt(row.amount_ngn);
+    return total;
+  }
+
+  /** Price without quoting — used by the preview route */
+  async preview(rfqId: string, signerIds?: string[]) {
+    const rfq = await this.client.getRFQ(rfqId);
+    if (!rfq) return null;
+    const all = this.strategies();
+    const out: Record<string, Pricing> = {};
+    for (const [signerId, strategy] of Object.entries(all)) {
+      if (signerIds && !signerIds.includes(signerId)) continue;
+      const lender = await this.lenderAddress(signerId);
+      out[signerId] = priceRFQ(strategy, rfq, await this.exposure(signerId, lender, rfq.borrower));
+    }
+    return { rfq, pricing: out };
+  }
+
+  async onRFQ(rfqId: string) {
+    const rfq = await this.client.getRFQ(rfqId);
+    if (!rfq) return;
+    for (const [signerId, strategy] of Object.entries(this.strategies())) {
+      if (strategy.enabled === false) continue;
+      await this.serialize(signerId, () => this.quoteFor(signerId, strategy, rfq))
+        .catch(err => console.error(`[Quoting Bot] ${signerId}:`, err));
+    }
+  }
+
+  private async quoteFor(signerId: string, strategy: LenderStrategy, rfq: RFQInfo) {
+    const lender = await this.lenderAddress(signerId);
+    const log = (decision: QuoteDecision, reason: string, pricing?: Pricing, txId?: string | null, validUntil?: Date | null) =>
+      pool.execute(
+        `INSERT IGNORE INTO lender_quote_log
+           (rfq_id, signer_id, lender, borrower, amount_ngn, tenor_days, coll_type, max_fee_bps,
+            fee_bps, decision, reason, breakdown, tx_id, valid_until)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [rfq.id.toLowerCase(), signerId, lender.toLowerCase(), rfq.borrower.toLowerCase(), rfq.amountNGN,
+         rfq.tenorDays, rfq.collType, rfq.maxFeeBPS, pricing?.feeBPS ?? null, decision, reason,
+         pricing ? JSON.stringify(pricing.breakdown) : null, txId ?? null, validUntil ?? null]
+      ).then(([res]) => {
+        console.log(`[Quoting Bot] ${signerId} ${decision} ${rfq.id.slice(0, 12)}… — ${reason}`);
+        return (res as any).affectedRows > 0;
+      });
+
+    // Indexer backfills replay old RFQs; only quote live ones we have not seen
+    const [seen] = await pool.query("SELECT 1 FROM lender_quote_log WHERE rfq_id = ? AND signer_id = ?", [rfq.id.toLowerCase(), signerId]);
+    if ((seen as any[]).length) return;
+    if (!rfq.open) return log("SKIPPED", "RFQ already closed");
+    const ageSecs = (Date.now() - Date.parse(rfq.createdAt)) / 1000;
+    if (ageSecs > (strategy.maxRfqAgeSecs ?? 900)) return log("SKIPPED", `RFQ is ${Math.round(ageSecs)}s old`);
+    if (rfq.borrower.toLowerCase() === lender.toLowerCase()) return log("SKIPPED", "lender is the borrower");
+
+    const pricing = priceRFQ(strategy, rfq, await this.exposure(signerId, lender, rfq.borrower));
+    if (pricing.skip) return log("SKIPPED", pricing.skip, pricing);
+
+    const validSecs = strategy.validSecs ?? 300;
+    const reason    = `priced ${pricing.feeBPS} bps/day within max ${rfq.maxFeeBPS}`;
+    if (strategy.dryRun || process.env.QUOTING_BOT_DRY_RUN === "true") return log("DRY_RUN", reason, pricing);
+
+    // The QUOTING row holds the amount against the cap while the quote is sent;
+    // losing the insert means another instance already has this RFQ
+    if (!await log("QUOTING", reason, pricing, null, new Date(Date.now() + validSecs * 1000))) return;
+    const settle = (decision: QuoteDecision, fields: { reason?: string; txId?: string; validUntil?: Date | null }) =>
+      pool.execute(
+        `UPDATE lender_quote_log SET decision = ?, reason = COALESCE(?, reason), tx_id = COALESCE(?, tx_id), valid_until = ?
+          WHERE rfq_id = ? AND signer_id = ? AND decision = 'QUOTING'`,
+        [decision, fields.reason ?? null, fields.txId ?? null, fields.validUntil ?? null, rfq.id.toLowerCase(), signerId]
+      );
+
+    let txId: string | null;
+    try {
+      txId = (await this.lenderClient(signerId).submitQuote(rfq.id, pricing.feeBPS!, validSecs)).txId;
+    } catch (err: any) {
+      await settle("FAILED", { reason: err.reason ?? err.shortMessage ?? err.message });
+      console.log(`[Quoting Bot] ${signerId} FAILED ${rfq.id.slice(0, 12)}…`);
+      return;
+    }
+    // The quote is out: bookkeeping failures are logged, never retried as a second quote
+    await settle("QUOTED", { txId: txId ?? undefined, validUntil: new Date(Date.now() + validSecs * 1000) })
+      .catch(err => console.error(`[Quoting Bot] ${signerId} quote ${txId} sent but not logged:`, err));
+    console.log(`[Quoting Bot] ${signerId} QUOTED ${rfq.id.slice(0, 12)}… — ${reason}`);
+
+    const parties = strategy.sourceCode ? [strategy.sourceCode] : await this.lenderParties(signerId).catch(() => []);
+    for (const sourceCode of parties) {
+      await registerParty(rfq.id, sourceCode, "lender")
+        .catch(err => console.error(`[Quoting Bot] could not register ${sourceCode} for webhooks:`, err));
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { test, mock, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "./db";
+import { BFPayClient, DealInfo } from "./bfpay";
+import { CreditRecord, RepaymentMatcher } from "./repayments";
+
+const DEAL_A = "0x" + "a1b2c3d4e5f6".repeat(5) + "0001";
+const DEAL_B = "0x" + "a1b2c3d4e5f6".repeat(5) + "0002";
+const DEAL_C = "0x" + "0c".repeat(32);
+
+/** bank_credits keyed by entry_key, as INSERT IGNORE on the unique key sees it */
+let credits: Map<string, any>;
+let virtualAccounts: Record<string, string>;
+
+beforeEach(() => {
+  credits = new Map();
+  virtualAccounts = {};
+  mock.method(pool, "execute", async (sql: string, params: any[]) => {
+    if (sql.includes("INSERT IGNORE INTO bank_credits")) {
+      const [id, entry_key, statement_id, account_id, booking_date, amount_kobo, currency, reference, narration, virtual_account, bank_ref] = params;
+      if (credits.has(entry_key)) return [{ affectedRows: 0 }];
+      credits.set(entry_key, { id, statement_id, account_id, booking_date, amount_kobo, currency, reference, narration, virtual_account, bank_ref, status: "UNMATCHED" });
+      return [{ affectedRows: 1 }];
+    }
+    return [{ affectedRows: 1 }];
+  });
+  mock.method(pool, "query", async (sql: string, params: any[]) => {
+    if (sql.includes("FROM bank_credits WHERE id"))
+      return [[...credits.values()].filter(r => r.id === params[0])];
+    if (sql.includes("FROM deal_virtual_accounts"))
+      return [virtualAccounts[params[0]] ? [{ deal_id: virtualAccounts[params[0]] }] : []];
+    return [[]];
+  });
+  mock.method(console, "log", () => {});
+});
+afterEach(() => mock.restoreAll());
+
+const matcher = (toleranceNGN = 0) =>
+  new RepaymentMatcher({ getDealIds: async () => [] } as unknown as BFPayClient, () => ({} as BFPayClient), { toleranceNGN, autoConfirm: false });
+
+const csv = (...rows: string[]) => ["Date,Narration,Reference,Credit,Debit,Transaction ID", ...rows].join("\n");
+
+test("a credit in two overlapping statements is stored once", async () => {
+  const m = matcher();
+  const first = await m.importStatement(csv(
+    "2025-03-02,Repayment,BFP-1,1000.00,,TXN001",
+    "2025-03-03,Cash deposit,,500.00,,",
+  ), { accountId: "0123456789" });
+  assert.equal(first.skipped, 0);
+  assert.deepEqual(first.credits, { UNMATCHED: 2 });
+
+  // Same bank reference even with edited text; the unreferenced credit matches on its details
+  const second = await m.importStatement(csv(
+    "2025-03-02,REPAYMENT (edited),BFP-1,1000.00,,TXN001",
+    "2025-03-03,Cash deposit,,500.00,,",
+    "2025-03-03,Cash deposit,,500.01,,",
+  ), { accountId: "0123456789" });
+  assert.equal(second.skipped, 2);
+  assert.deepEqual(second.credits, { UNMATCHED: 1 });
+
+  // A bank reference is only unique within its account
+  const other = await m.importStatement(csv("2025-03-02,Repayment,BFP-1,1000.00,,TXN001"), { accountId: "9999999999" });
+  assert.equal(other.skipped, 0);
+  assert.equal(credits.size, 4);
+});
+
+// ─── findDeal ─────────────────────────────────────────────────────────────────
+
+const credit = (over: Partial<CreditRecord>): CreditRecord => ({
+  id: "c1", statementId: "s1", accountId: null, bookingDate: "2025-03-02", amountKobo: "0", currency: "NGN",
+  reference: null, narration: "", virtualAccount: null, bankRef: null, status: "UNMATCHED", dealId: null,
+  matchMethod: null, expectedKobo: null, reason: null, confirmTxId: null, reviewedBy: null,
+  createdAt: new Date(), updatedAt: new Date(), ...over,
+});
+
+const due = (id: string, naira: number) => ({ deal: { id } as DealInfo, dueKobo: BigInt(naira) * BigInt(100) });
+const DUES = async () => [due(DEAL_A, 1_000), due(DEAL_B, 2_000), due(DEAL_C, 2_000)];
+
+const find = (c: CreditRecord, toleranceNGN = 0) => matcher(toleranceNGN)["findDeal"](c, DUES);
+
+test("findDeal tries the virtual account, then the statement account", async () => {
+  virtualAccounts = { "9012345678": DEAL_C, "0123456789": DEAL_B };
+  // The virtual account wins over a reference and an amount that point elsewhere
+  assert.deepEqual(await find(credit({ virtualAccount: "9012345678", accountId: "0123456789", reference: DEAL_A, amountKobo: "100000" })),
+    { dealId: DEAL_C, method: "VIRTUAL_ACCOUNT" });
+  assert.deepEqual(await find(credit({ virtualAccount: "1111111111", accountId: "0123456789" })),
+    { dealId: DEAL_B, method: "VIRTUAL_ACCOUNT" });
+});
+
+test("findDeal takes a unique deal id prefix from the reference or narration before the amount", async () => {
+  assert.deepEqual(await find(credit({ narration: `repay 0x${DEAL_C.slice(2, 16).toUpperCase()} thanks`, amountKobo: "100000" })),
+    { dealId: DEAL_C, method: "REFERENCE" });
+  // A prefix shared by two deals is not a match; the full id is
+  assert.deepEqual(await find(credit({ reference: DEAL_A.slice(0, 20), amountKobo: "100000" })),
+    { dealId: DEAL_A, method: "AMOUNT" });
+  assert.deepEqual(await find(credit({ reference: DEAL_B })), { dealId: DEAL_B, method: "REFERENCE" });
+});
+
+test("findDeal falls back to the only deal due that amount, within tolerance", async () => {
+  assert.deepEqual(await find(credit({ amountKobo: "99900" }), 1), { dealId: DEAL_A, method: "AMOUNT" });
+  assert.equal(await find(credit({ amountKobo: "99900" })), null);
+  assert.equal(await find(credit({ amountKobo: "200000" })), null);        // two deals are due ₦2,000
+});
+
+test("the confirming signer is only looked up to confirm, and a missing one fails the credit", async () => {
+  let lookups = 0;
+  const m = new RepaymentMatcher({} as BFPayClient, () => { lookups++; throw new Error("signer oracle not found"); });
+  assert.equal(lookups, 0);
+
+  const updates: any[][] = [];
+  mock.method(pool, "execute", async (sql: string, params: any[]) => {
+    if (sql.startsWith("UPDATE bank_credits SET status =")) updates.push(params);
+    return [{ affectedRows: 1 }];
+  });
+  mock.method(pool, "query", async () => [[{ id: "c1", deal_id: DEAL_A, bank_ref: "TXN001", amount_kobo: "100000", status: "CONFIRMING" }]]);
+  mock.method(console, "error", () => {});
+
+  await m["confirm"]("c1");
+  assert.equal(lookups, 1);
+  assert.deepEqual(updates[updates.length - 1], ["FAILED", "confirmRepayment failed: signer oracle not found", "c1"]);
+});
@@ -0,0 +1,511 @@
+/**
+ * Repayment matching from bank statements
+ * Imported statements (see statement-parsers) are stored once per file and
+ * their credits once per bank reference, then matched to ACTIVE deals by, in
+ * order:
+ *   1. virtual account assigned to the deal (PUT /api/deals/:id/virtual-account)
+ *   2. a deal id (or its first 12+ hex chars) in the reference or narration
+ *   3. amount — the only ACTIVE deal whose amount due equals the credit
+ *
+ * Amount due is amountNGN + net fee from the contract's calculateFee at match
+ * time, ± REPAYMENT_TOLERANCE_NGN (default 0). Exact matches are confirmed
+ * with confirmRepayment using the bank reference as fiatRef, signed by
+ * REPAYMENT_SIGNER_ID (default ORACLE_SIGNER_ID). The signer is looked up on
+ * the first confirmation, so imports and matching run without one. Everything
+ * else — partial, over- and unmatched payments, failed confirmations — waits
+ * in the review queue for an operator to match and confirm by hand.
+ *
+ * REPAYMENT_AUTO_CONFIRM=false queues exact matches for review as well.
+ */
+
+import crypto from "crypto";
+import { pool } from "./db";
+import { BFPayClient, DealInfo } from "./bfpay";
+import { BFPayIndexer, IndexedEvent } from "./indexer";
+import { parseStatement, ParsedStatement, StatementEntry, StatementFormat } from "./statement-parsers";
+
+export type CreditStatus =
+  | "UNMATCHED"   // no deal found
+  | "PARTIAL"     // less than the amount due
+  | "OVERPAID"    // more than due, or the deal is already settled by another credit
+  | "MATCHED"     // exact, waiting for confirmation
+  | "CONFIRMING"  // confirmRepayment submitted
+  | "CONFIRMED"
+  | "FAILED"      // confirmRepayment reverted or could not be sent
+  | "IGNORED";    // dismissed by an operator
+
+export type MatchMethod = "VIRTUAL_ACCOUNT" | "REFERENCE" | "AMOUNT" | "MANUAL";
+
+export const REVIEW_STATUSES: CreditStatus[] = ["UNMATCHED", "PARTIAL", "OVERPAID", "MATCHED", "FAILED"];
+
+export type StatementRecord = {
+  id:           string;
+  format:       StatementFormat;
+  accountId:    string | null;
+  statementRef: string | null;
+  entries:      number;
+  credits:      number;
+  importedBy:   string | null;
+  importedAt:   Date;
+};
+
+export type CreditRecord = {
+  id:             string;
+  statementId:    string;
+  accountId:      string | null;
+  bookingDate:    string;
+  amountKobo:     string;
+  currency:       string;
+  reference:      string | null;
+  narration:      string;
+  virtualAccount: string | null;
+  bankRef:        string | null;
+  status:         CreditStatus;
+  dealId:         string | null;
+  matchMethod:    MatchMethod | null;
+  expectedKobo:   string | null;
+  reason:         string | null;
+  confirmTxId:    string | null;
+  reviewedBy:     string | null;
+  createdAt:      Date;
+  updatedAt:      Date;
+};
+
+export type ImportSummary = {
+  statement: StatementRecord;
+  duplicate: boolean;           // same file imported before
+  skipped:   number;            // debits and credits already seen
+  credits:   Record<string, number>;
+};
+
+export class RepaymentError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createRepaymentTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS bank_statements (
+      id              CHAR(36)     PRIMARY KEY,
+      file_hash       CHAR(64)     NOT NULL UNIQUE,
+      format          VARCHAR(16)  NOT NULL,
+      account_id      VARCHAR(64)  NULL,
+      statement_ref   VARCHAR(128) NULL,
+      entries         INT          NOT NULL,
+      credits         INT          NOT NULL,
+      imported_by     VARCHAR(64)  NULL,
+      imported_at     TIMESTAMP    DEFAULT CURRENT_TIMESTAMP
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS bank_credits (
+      id              CHAR(36)     PRIMARY KEY,
+      entry_key       CHAR(64)     NOT NULL UNIQUE,
+      statement_id    CHAR(36)     NOT NULL,
+      account_id      VARCHAR(64)  NULL,
+      booking_date    DATE         NOT NULL,
+      amount_kobo     VARCHAR(40)  NOT NULL,
+      currency        CHAR(3)      NOT NULL,
+      reference       VARCHAR(255) NULL,
+      narration       TEXT         NOT NULL,
+      virtual_account VARCHAR(34)  NULL,
+      bank_ref        VARCHAR(128) NULL,
+      status          VARCHAR(16)  NOT NULL,
+      deal_id         VARCHAR(66)  NULL,
+      match_method    VARCHAR(16)  NULL,
+      expected_kobo   VARCHAR(40)  NULL,
+      reason          TEXT         NULL,
+      confirm_tx_id   CHAR(36)     NULL,
+      reviewed_by     VARCHAR(64)  NULL,
+      created_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      KEY idx_credit_status (status),
+      KEY idx_credit_deal (deal_id)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS deal_virtual_accounts (
+      virtual_account VARCHAR(34)  PRIMARY KEY,
+      deal_id         VARCHAR(66)  NOT NULL,
+      created_at      TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      KEY idx_va_deal (deal_id)
+    )`);
+}
+
+function rowToStatement(r: any): StatementRecord {
+  return {
+    id: r.id, format: r.format, accountId: r.account_id, statementRef: r.statement_ref,
+    entries: r.entries, credits: r.credits, importedBy: r.imported_by, importedAt: r.imported_at,
+  };
+}
+
+function rowToCredit(r: any): CreditRecord {
+  return {
+    id: r.id, statementId: r.statement_id, accountId: r.account_id,
+    bookingDate: r.booking_date instanceof Date ? r.booking_date.toISOString().slice(0, 10) : String(r.booking_date),
+    amountKobo: r.amount_kobo, currency: r.currency, reference: r.reference, narration: r.narration,
+    virtualAccount: r.virtual_account, bankRef: r.bank_ref, status: r.status, dealId: r.deal_id,
+    matchMethod: r.match_method, expectedKobo: r.expected_kobo, reason: r.reason,
+    confirmTxId: r.confirm_tx_id, reviewedBy: r.reviewed_by, createdAt: r.created_at, updatedAt: r.updated_at,
+  };
+}
+
+export async function setDealVirtualAccount(dealId: string, virtualAccount: string) {
+  await pool.execute(
+    `INSERT INTO deal_virtual_accounts (virtual_account, deal_id) VALUES (?, ?)
+     ON DUPLICATE KEY UPDATE deal_id = VALUES(deal_id)`,
+    [virtualAccount, dealId.toLowerCase()]
+  );
+}
+
+async function dealForVirtualAccount(virtualAccount: string): Promise<string | null> {
+  const [rows] = await pool.query("SELECT deal_id FROM deal_virtual_accounts WHERE virtual_account = ?", [virtualAccount]);
+  return (rows as any[])[0]?.deal_id ?? null;
+}
+
+export async function getCredit(id: string): Promise<CreditRecord | null> {
+  const [rows] = await pool.query("SELECT * FROM bank_credits WHERE id = ?", [id]);
+  const r = (rows as any[])[0];
+  return r ? rowToCredit(r) : null;
+}
+
+export async function listCredits(filter: { status?: string[]; dealId?: string; statementId?: string } = {}): Promise<CreditRecord[]> {
+  const where: string[] = [];
+  const params: any[]   = [];
+  if (filter.status?.length) { where.push(`status IN (${filter.status.map(() => "?").join(", ")})`); params.push(...filter.status); }
+  if (filter.dealId)         { where.push("deal_id = ?");      params.push(filter.dealId.toLowerCase()); }
+  if (filter.statementId)    { where.push("statement_id = ?"); params.push(filter.statementId); }
+  const [rows] = await pool.query(
+    `SELECT * FROM bank_credits ${where.length ? "WHERE " + where.join(" AND ") : ""} ORDER BY booking_date DESC, created_at DESC LIMIT 500`, params
+  );
+  return (rows as any[]).map(rowToCredit);
+}
+
+export async function listStatements(): Promise<StatementRecord[]> {
+  const [rows] = await pool.query("SELECT * FROM bank_statements ORDER BY imported_at DESC LIMIT 200");
+  return (rows as any[]).map(rowToStatement);
+}
+
+/** Same credit seen in two overlapping statements maps to one key */
+function entryKey(e: StatementEntry, accountId: string | null): string {
+  const parts = e.bankRef
+    ? [accountId ?? "", e.bankRef]
+    : [accountId ?? "", e.bookingDate, e.amountKobo.toString(), e.reference ?? "", e.narration];
+  return crypto.createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+const HEX_TOKEN = /(?:0x)?([0-9a-f]{12,64})/gi;
+
+type DealDue = { deal: DealInfo; dueKobo: bigint };
+
+export class RepaymentMatcher {
+  client:      BFPayClient;     // read-only
+  confirmer:   () => BFPayClient;   // signs confirmRepayment (oracle); resolved when first needed
+  toleranceKobo: bigint;
+  autoConfirm: boolean;
+  pollMs:      number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private busy  = false;
+
+  constructor(client: BFPayClient, confirmer: () => BFPayClient, opts: { toleranceNGN?: number; autoConfirm?: boolean; pollMs?: number } = {}) {
+    this.client        = client;
+    this.confirmer     = confirmer;
+    this.toleranceKobo = BigInt(opts.toleranceNGN ?? Number(process.env.REPAYMENT_TOLERANCE_NGN ?? 0)) * BigInt(100);
+    this.autoConfirm   = opts.autoConfirm ?? process.env.REPAYMENT_AUTO_CONFIRM !== "false";
+    this.pollMs        = opts.pollMs ?? Number(process.env.REPAYMENT_POLL_MS ?? 60_000);
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createRepaymentTables();
+    await indexer.consume("repayments", ["Repaid"], (ev: IndexedEvent) => this.onRepaid(ev.refId, ev.args.fiatRef));
+    this.timer = setInterval(() => this.poll().catch(err => console.error("[Repayments]", err)), this.pollMs);
+    console.log(`[Repayments] Started | auto-confirm ${this.autoConfirm ? "on" : "off"} | tolerance ₦${this.toleranceKobo / BigInt(100)}`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async update(id: string, fields: Record<string, any>) {
+    const cols = Object.keys(fields);
+    await pool.execute(
+      `UPDATE bank_credits SET ${cols.map(c => `${c} = ?`).join(", ")} WHERE id = ?`,
+      [...cols.map(c => fields[c]), id]
+    );
+  }
+
+  // ─── Import ─────────────────────────────────────────────────────────────────
+
+  async importStatement(content: string, opts: { format?: StatementFormat; accountId?: string; importedBy?: string } = {}): Promise<ImportSummary> {
+    const fileHash = crypto.createHash("sha256").update(content).digest("hex");
+    const [seen] = await pool.query("SELECT * FROM bank_statements WHERE file_hash = ?", [fileHash]);
+    if ((seen as any[])[0]) {
+      const statement = rowToStatement((seen as any[])[0]);
+      return { statement, duplicate: true, skipped: statement.entries, credits: {} };
+    }
+
+    const parsed: ParsedStatement = parseStatement(content, opts.format);
+    const accountId = opts.accountId ?? parsed.accountId;
+    const credits   = parsed.entries.filter(e => e.direction === "CREDIT" && e.amountKobo > BigInt(0));
+
+    const statementId = crypto.randomUUID();
+    await pool.execute(
+      `INSERT INTO bank_statements (id, file_hash, format, account_id, statement_ref, entries, credits, imported_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [statementId, fileHash, parsed.format, accountId, parsed.statementRef, parsed.entries.length, credits.length, opts.importedBy ?? null]
+    );
+
+    const inserted: string[] = [];
+    for (const e of credits) {
+      const id = crypto.randomUUID();
+      const [res] = await pool.execute(
+        `INSERT IGNORE INTO bank_credits
+           (id, entry_key, statement_id, account_id, booking_date, amount_kobo, currency, reference, narration, virtual_account, bank_ref, status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'UNMATCHED')`,
+        [id, entryKey(e, accountId), statementId, accountId, e.bookingDate, e.amountKobo.toString(), e.currency,
+         e.reference, e.narration, e.virtualAccount, e.bankRef]
+      );
+      if ((res as any).affectedRows) inserted.push(id);
+    }
+
+    // Active deals and their dues are read once per import
+    let dues: Promise<DealDue[]> | null = null;
+    const activeDues = () => (dues ??= this.activeDues());
+    const counts: Record<string, number> = {};
+    for (const id of inserted) {
+      const c = (await getCredit(id))!;
+      const status = await this.match(c, activeDues);
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+
+    const statement = rowToStatement({
+      id: statementId, format: parsed.format, account_id: accountId, statement_ref: parsed.statementRef,
+      entries: parsed.entries.length, credits: credits.length, imported_by: opts.importedBy ?? null, imported_at: new Date(),
+    });
+    console.log(`[Repayments] 📄 ${parsed.format} statement ${parsed.statementRef ?? statementId} | ${inserted.length} new credit(s) | ${JSON.stringify(counts)}`);
+    return { statement, duplicate: false, skipped: parsed.entries.length - inserted.length, credits: counts };
+  }
+
+  // ─── Matching ───────────────────────────────────────────────────────────────
+
+  private async activeDues(): Promise<DealDue[]> {
+    const ids   = await this.client.getDealIds();
+    const deals = (await Promise.all(ids.map(id => this.client.getDeal(id)))).filter((d): d is DealInfo => !!d && d.status === "ACTIVE");
+    return Promise.all(deals.map(async deal => ({ deal, dueKobo: await this.dueKobo(deal) })));
+  }
+
+  /** (amountNGN + net fee) in kobo, fee as the contract computes it now */
+  private async dueKobo(deal: DealInfo): Promise<bigint> {
+    const fee = await this.client.views.fee(deal.id);
+    return (BigInt(deal.amountNGN) + fee.netFeeNGN) * BigInt(100);
+  }
+
+  private async findDeal(c: CreditRecord, activeDues: () => Promise<DealDue[]>): Promise<{ dealId: string; method: MatchMethod } | null> {
+    for (const va of [c.virtualAccount, c.accountId]) {
+      const dealId = va ? await dealForVirtualAccount(va) : null;
+      if (dealId) return { dealId, method: "VIRTUAL_ACCOUNT" };
+    }
+
+    const dues = await activeDues();
+    const text = `${c.reference ?? ""} ${c.narration}`.toLowerCase();
+    const tokens = Array.from(text.matchAll(HEX_TOKEN), m => m[1]);
+    for (const token of tokens) {
+      const hits = dues.filter(d => d.deal.id.toLowerCase().slice(2).startsWith(token));
+      if (hits.length === 1) return { dealId: hits[0].deal.id.toLowerCase(), method: "REFERENCE" };
+    }
+
+    const amount = BigInt(c.amountKobo);
+    const byAmount = dues.filter(d => this.within(amount, d.dueKobo));
+    if (byAmount.length === 1) return { dealId: byAmount[0].deal.id.toLowerCase(), method: "AMOUNT" };
+    return null;
+  }
+
+  private within(amount: bigint, due: bigint): boolean {
+    const diff = amount - due;
+    return (diff < BigInt(0) ? -diff : diff) <= this.toleranceKobo;
+  }
+
+  /** Classify a credit against a deal and, if exact, confirm it */
+  private async match(c: CreditRecord, activeDues: () => Promise<DealDue[]>): Promise<CreditStatus> {
+    if (c.currency !== "NGN") {
+      await this.update(c.id, { reason: `${c.currency} credit — only NGN repayments are matched` });
+      return "UNMATCHED";
+    }
+    const found = await this.findDeal(c, activeDues);
+    if (!found) {
+      await this.update(c.id, { reason: "no ACTIVE deal matches account, reference or amount" });
+      return "UNMATCHED";
+    }
+    const status = await this.classify(c, found.dealId, found.method);
+    if (status === "MATCHED" && this.autoConfirm) {
+      this.confirm(c.id).catch(err => console.error("[Repayments]", err));
+      return "CONFIRMING";
+    }
+    return status;
+  }
+
+  private async classify(c: CreditRecord, dealId: string, method: MatchMethod, reviewedBy: string | null = null): Promise<CreditStatus> {
+    const set = async (status: CreditStatus, reason: string | null, expected: bigint | null = null) => {
+      await this.update(c.id, {
+        status, deal_id: dealId, match_method: method, expected_kobo: expected?.toString() ?? null,
+        reason, reviewed_by: reviewedBy,
+      });
+      return status;
+    };
+
+    const deal = await this.client.getDeal(dealId);
+    if (!deal) return set("UNMATCHED", `deal ${dealId} not found`);
+    if (deal.status !== "ACTIVE") return set("OVERPAID", `deal is ${deal.status} — nothing owed`);
+
+    const [settled] = await pool.query(
+      "SELECT id FROM bank_credits WHERE deal_id = ? AND id <> ? AND status IN ('CONFIRMING', 'CONFIRMED') LIMIT 1",
+      [dealId, c.id]
+    );
+    if ((settled as any[])[0]) return set("OVERPAID", `deal already being settled by credit ${(settled as any[])[0].id}`);
+
+    const due    = await this.dueKobo(deal);
+    const amount = BigInt(c.amountKobo);
+    if (this.within(amount, due)) return set("MATCHED", null, due);
+    return amount < due
+      ? set("PARTIAL",  `short by ₦${naira(due - amount)} of ₦${naira(due)} due`, due)
+      : set("OVERPAID", `over by ₦${naira(amount - due)} of ₦${naira(due)} due`, due);
+  }
+
+  // ─── Confirmation ───────────────────────────────────────────────────────────
+
+  /** Submit confirmRepayment for a credit; the status claim stops a double send */
+  private async confirm(creditId: string, from: CreditStatus[] = ["MATCHED"], reviewedBy?: string) {
+    const [claim] = await pool.execute(
+      `UPDATE bank_credits SET status = 'CONFIRMING', reason = NULL${reviewedBy ? ", reviewed_by = ?" : ""}
+        WHERE id = ? AND deal_id IS NOT NULL AND status IN (${from.map(() => "?").join(", ")})`,
+      [...(reviewedBy ? [reviewedBy] : []), creditId, ...from]
+    );
+    if (!(claim as any).affectedRows) return;
+
+    const c = (await getCredit(creditId))!;
+    const fiatRef = c.bankRef ?? c.reference ?? `STMT-${c.id}`;
+    const failed = async (err: any) => {
+      const reason = `confirmRepayment failed: ${err.reason ?? err.shortMessage ?? err.message}`;
+      await this.update(c.id, { status: "FAILED", reason });
+      console.error(`[Repayments] ❌ ${c.dealId!.slice(0, 12)}…: ${reason}`);
+    };
+    try {
+      const tx = await this.confirmer().confirmRepayment(c.dealId!, fiatRef);
+      // Sent — poll() finds the tx by deal if this is lost, so do not fail the credit over it
+      await this.update(c.id, { confirm_tx_id: tx.txId })
+        .catch(err => console.error(`[Repayments] confirm tx ${tx.txId} not recorded on credit ${c.id}:`, err));
+      // Resolves once broadcast; the outcome lands in the background
+      tx.wait()
+        .then(async () => {
+          await this.update(c.id, { status: "CONFIRMED" });
+          console.log(`[Repayments] ✅ Deal ${c.dealId!.slice(0, 12)}… repaid ₦${naira(BigInt(c.amountKobo))} | ${fiatRef}`);
+        }, failed)
+        .catch(err => console.error("[Repayments]", err));
+    } catch (err: any) {
+      await failed(err);
+    }
+  }
+
+  /** Repaid on-chain (by us or by hand) — settle the credit carrying that reference */
+  async onRepaid(dealId: string, fiatRef: string) {
+    await pool.execute(
+      `UPDATE bank_credits SET status = 'CONFIRMED', reason = NULL
+        WHERE deal_id = ? AND status IN ('MATCHED', 'CONFIRMING', 'FAILED')
+          AND (bank_ref = ? OR reference = ? OR CONCAT('STMT-', id) = ?)`,
+      [dealId.toLowerCase(), fiatRef, fiatRef, fiatRef]
+    );
+  }
+
+  /**
+   * CONFIRMING rows whose wait died with the process: settle from the deal's
+   * state, and fail them only once their confirmRepayment is known dead —
+   * one the TxManager is still speeding up stays CONFIRMING, since FAILED
+   * can be confirmed again from the review queue.
+   */
+  async poll() {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      const [rows] = await pool.query(
+        "SELECT * FROM bank_credits WHERE status = 'CONFIRMING' AND updated_at < NOW() - INTERVAL 10 MINUTE"
+      );
+      for (const c of (rows as any[]).map(rowToCredit)) {
+        const deal = await this.client.getDeal(c.dealId!);
+        if (deal?.status === "REPAID") { await this.update(c.id, { status: "CONFIRMED" }); continue; }
+        const tx = await confirmTxState(c);
+        if (tx.pending) continue;
+        await this.update(c.id, {
+          status: "FAILED",
+          reason: `confirmation ${tx.status ? `${tx.status.toLowerCase()}${tx.error ? `: ${tx.error}` : ""}` : "was never sent"} — retry from the review queue`,
+        });
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  // ─── Review actions ─────────────────────────────────────────────────────────
+
+  private async reviewable(creditId: string): Promise<CreditRecord> {
+    const c = await getCredit(creditId);
+    if (!c) throw new RepaymentError(404, "credit not found");
+    if (!REVIEW_STATUSES.includes(c.status)) throw new RepaymentError(409, `credit is ${c.status}`);
+    return c;
+  }
+
+  /** Attach a credit to a deal by hand; it is re-classified but never auto-confirmed */
+  async manualMatch(creditId: string, dealId: string, reviewedBy: string): Promise<CreditRecord> {
+    const c = await this.reviewable(creditId);
+    await this.classify(c, dealId.toLowerCase(), "MANUAL", reviewedBy);
+    return (await getCredit(creditId))!;
+  }
+
+  /**
+   * Operator confirmation. Partial and overpaid credits are confirmed as-is —
+   * the operator has accepted the difference.
+   */
+  async manualConfirm(creditId: string, reviewedBy: string): Promise<CreditRecord> {
+    const c = await this.reviewable(creditId);
+    if (!c.dealId) throw new RepaymentError(409, "credit is not matched to a deal");
+    const deal = await this.client.getDeal(c.dealId);
+    if (deal?.status !== "ACTIVE") throw new RepaymentError(409, `deal is ${deal?.status ?? "missing"}`);
+    await this.confirm(c.id, ["MATCHED", "PARTIAL", "OVERPAID", "FAILED"], reviewedBy);
+    return (await getCredit(creditId))!;
+  }
+
+  async ignore(creditId: string, reviewedBy: string, reason?: string): Promise<CreditRecord> {
+    const c = await this.reviewable(creditId);
+    await this.update(c.id, { status: "IGNORED", reviewed_by: reviewedBy, reason: reason ?? c.reason });
+    return (await getCredit(creditId))!;
+  }
+}
+
+const DEAD_TX = ["REVERTED", "CANCELLED", "FAILED"];
+
+/**
+ * tx_journal state of a credit's confirmRepayment. Without a recorded
+ * confirm_tx_id, any unsettled confirmRepayment for the deal counts.
+ */
+async function confirmTxState(c: CreditRecord): Promise<{ pending: boolean; status: string | null; error: string | null }> {
+  const [rows] = c.confirmTxId
+    ? await pool.query("SELECT status, error FROM tx_journal WHERE tx_id = ?", [c.confirmTxId])
+    : await pool.query(
+        `SELECT status, error FROM tx_journal WHERE ref_id = ? AND purpose = 'confirmRepayment'
+         ORDER BY status = 'SUBMITTED' DESC, created_at DESC LIMIT 1`,
+        [c.dealId!.toLowerCase()]
+      );
+  const tx = (rows as any[])[0];
+  if (!tx) return { pending: false, status: null, error: null };
+  return { pending: !DEAD_TX.includes(tx.status), status: tx.status, error: tx.error };
+}
+
+function naira(kobo: bigint): string {
+  const k = kobo.toString().padStart(3, "0");
+  return `${k.slice(0, -2)}.${k.slice(-2)}`;
+}
@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { CollType, CollTypeName } from "./bindings";
+import { requireRole } from "./auth";
+import { idempotent } from "./idempotency";
+import { Money, Rate } from "./money";
+import { SchemaInvalid, openApiDocument, s, validate } from "./schema";
+
+/** The issues a parse failed with, as "path message" */
+function issues(schema: { parse(v: unknown): unknown }, value: unknown): string[] {
+  try {
+    schema.parse(value);
+  } catch (err) {
+    assert.ok(err instanceof SchemaInvalid);
+    return err.issues.map(i => `${i.path} ${i.message}`.trim());
+  }
+  assert.fail(`${JSON.stringify(value)} parsed`);
+}
+
+const ADDRESS = "0x52908400098527886E0F7030069857D2E4169EE7";
+
+test("scalars normalise query strings and JSON alike", () => {
+  assert.equal(s.int({ min: 1 }).parse("42"), 42);
+  assert.deepEqual(issues(s.int({ min: 1 }), "0"), ["must be at least 1"]);
+  assert.deepEqual(issues(s.int(), "1.5"), ["must be an integer"]);
+  assert.equal(s.bool().parse("false"), false);
+  assert.equal(s.string({ min: 1 }).parse(7), "7");
+  assert.deepEqual(issues(s.string({ min: 1 }), ""), ["must not be empty"]);
+  assert.deepEqual(issues(s.string({ pattern: /^\d{10}$/, hint: "a 10-digit NUBAN" }), "123"), ["must be a 10-digit NUBAN"]);
+  assert.equal(s.oneOf(["PARTIAL", "OVERPAID"] as const, { upper: true }).parse("partial"), "PARTIAL");
+  assert.equal(s.date().parse("2025-03-02").toISOString(), "2025-03-02T00:00:00.000Z");
+});
+
+test("addresses are checksummed, bytes32 lower-cased", () => {
+  assert.equal(s.address().parse(ADDRESS.toLowerCase()), ADDRESS);
+  assert.deepEqual(issues(s.address(), ADDRESS.replace("E0F", "e0F")), ["has an invalid checksum"]);
+  assert.deepEqual(issues(s.address(), "0x1234"), ["must be a 0x-prefixed 20-byte address"]);
+  assert.equal(s.bytes32().parse("0x" + "AB".repeat(32)), "0x" + "ab".repeat(32));
+});
+
+test("enum names, amounts and rates parse to contract values", () => {
+  const coll = s.enumName(CollTypeName);
+  assert.equal(coll.parse("usd_fiat"), CollType.USD_FIAT);
+  assert.equal(coll.parse(1), CollType.USDC);
+  assert.deepEqual(coll.json.enum, ["USYC", "USDC", "GBP_Fiat", "USD_Fiat", "EUR_Fiat"]);
+  assert.match(issues(coll, "GOLD")[0], /^must be one of USYC, USDC/);
+
+  const ngn = s.amount("NGN", { positive: true }).parse("50000000");
+  assert.ok(ngn instanceof Money);
+  assert.equal(ngn.toJSON(), "50000000");
+  assert.deepEqual(issues(s.amount("NGN", { positive: true }), "0"), ["must be greater than zero"]);
+  assert.deepEqual(issues(s.amount("USDC"), "1.5"), ["must be a non-negative integer in USDC base units (6 decimals)"]);
+
+  const r = s.rate().parse("1580250000");
+  assert.ok(r instanceof Rate);
+  assert.equal(r.toJSON(), "1580250000");
+});
+
+test("objects drop unknown keys, fill defaults and report every problem", () => {
+  const body = s.object({
+    dealId:  s.bytes32(),
+    lenders: s.optional(s.array(s.address(), { min: 1 })),
+    tenor:   s.optional(s.int({ min: 1 }), 7),
+    memo:    s.forbidden("set by the server"),
+  });
+  assert.deepEqual(body.parse({ dealId: "0x" + "01".repeat(32), extra: 1 }), { dealId: "0x" + "01".repeat(32), tenor: 7 });
+  assert.deepEqual(issues(body, { lenders: [ADDRESS, "nope"], tenor: 0, memo: "x" }), [
+    "dealId is required",
+    "lenders[1] must be a 0x-prefixed 20-byte address",
+    "tenor must be at least 1",
+    "memo must not be set: set by the server",
+  ]);
+  assert.deepEqual(s.csv(s.oneOf(["A", "B"] as const)).parse("A, B,"), ["A", "B"]);
+  assert.deepEqual(issues(s.record(s.int()), { a: 1, b: "x" }), ["b must be an integer"]);
+  assert.equal(s.nullable(s.int()).parse(null), null);
+});
+
+test("validate replaces the request parts or answers VALIDATION_ERROR", () => {
+  const mw = validate({ summary: "t", tag: "t", params: { id: s.bytes32() }, body: { amountNGN: s.amount("NGN") } });
+  const req: any = { params: { id: "0x" + "AB".repeat(32) }, body: { amountNGN: "100", junk: true } };
+  let called = false;
+  mw(req, {} as any, () => { called = true; });
+  assert.ok(called);
+  assert.equal(req.params.id, "0x" + "ab".repeat(32));
+  assert.deepEqual(Object.keys(req.body), ["amountNGN"]);
+
+  let status = 0, sent: any = null;
+  const res: any = { status(c: number) { status = c; return this; }, json(b: any) { sent = b; } };
+  mw({ params: { id: "x" }, body: {} } as any, res, () => assert.fail("next called"));
+  assert.equal(status, 400);
+  assert.equal(sent.code, "VALIDATION_ERROR");
+  assert.deepEqual(sent.data.issues.map((i: any) => i.path), ["params.id", "body.amountNGN"]);
+});
+
+test("openApiDocument lists validated routes with their roles and idempotency", () => {
+  const app = express();
+  const noop = (_req: any, res: any) => res.end();
+  app.get("/health", noop);                                                         // no spec: not listed
+  app.get("/api/deals/:id", validate({ summary: "Get a deal", tag: "Deals", params: { id: s.bytes32() } }), noop);
+  app.post("/api/rfqs/:id/quotes", requireRole("lender"), idempotent(),
+    validate({ summary: "Quote", tag: "RFQs", params: { id: s.bytes32() }, body: { feeBPS: s.int() }, status: 202 }), noop);
+
+  const doc = openApiDocument(app, { title: "BFPay", version: "1" });
+  assert.deepEqual(Object.keys(doc.paths), ["/api/deals/{id}", "/api/rfqs/{id}/quotes"]);
+
+  const get = doc.paths["/api/deals/{id}"].get;
+  assert.equal(get.operationId, "getApiDealsId");
+  assert.deepEqual(get.security, []);
+  assert.deepEqual(get.parameters.map((p: any) => [p.name, p.in, p.required]), [["id", "path", true]]);
+
+  const post = doc.paths["/api/rfqs/{id}/quotes"].post;
+  assert.equal(post.operationId, "postApiRfqsIdQuotes");
+  assert.deepEqual(post["x-roles"], ["lender"]);
+  assert.match(post.description, /Roles: lender\./);
+  assert.deepEqual(post.parameters.at(-1), { $ref: "#/components/parameters/IdempotencyKey" });
+  assert.deepEqual(post.requestBody.content["application/json"].schema.required, ["feeBPS"]);
+  assert.deepEqual(Object.keys(post.responses), ["202", "400", "401", "403", "default"]);
+  assert.equal(post.responses[202].description, "SUBMITTED");
+});
@@ -0,0 +1,459 @@
+/**
+ * Declarative request / response schemas and the OpenAPI document built from them
+ *
+ * Routes declare their inputs with validate({ params, query, body, response }).
+ * The middleware parses each part and replaces req.params / req.query /
+ * req.body with the normalised result, so handlers only see checked values:
+ *   address   → EIP-55 checksummed (a wrong mixed-case checksum is rejected)
+ *   bytes32   → lower-case 0x-hex
+ *   amount    → Money from base units (money.ts), rate → Rate
+ *   int/bool  → numbers and booleans, also from query strings
+ *   enumName  → the contract enum value, from its name or numeric code
+ * Unknown keys are dropped, except those declared forbidden. Failures answer 400 VALIDATION_ERROR with every
+ * problem listed in `data.issues`.
+ *
+ * openApiDocument(app) walks the Express router, so the document lists exactly
+ * the mounted routes together with their roles (requireRole), Idempotency-Key
+ * support (idempotent) and these schemas inside the response envelope.
+ */
+
+import { Express, Request, Response, NextFunction } from 'express';
+import { ethers } from 'ethers';
+import { ApiError, ERROR_CODES, SUCCESS_CODES, sendError } from './api-errors';
+import { Money, Rate, Currency, CURRENCIES } from './money';
+import { resolveEnumName } from './bindings';
+
+/** OpenAPI 3.0 schema object */
+export type JsonSchema = Record<string, any>;
+
+export type Schema<T = any> = {
+  json:      JsonSchema;
+  optional?: boolean;
+  default?:  T;
+  /** Checked, normalised value; throws SchemaInvalid */
+  parse(value: unknown): T;
+};
+
+export type Issue = { path: string; message: string };
+
+export class SchemaInvalid extends Error {
+  issues: Issue[];
+  constructor(issues: Issue[] | string) {
+    const list = typeof issues === 'string' ? [{ path: '', message: issues }] : issues;
+    super(list.map(describe).join('; '));
+    this.issues = list;
+  }
+}
+
+const describe = (i: Issue) => i.path ? `${i.path} ${i.message}` : i.message;
+
+/** Re-root a child's issues under `key` ("body" + "amountNGN", "allowedLenders" + "[2]") */
+function nest(key: string, err: unknown): Issue[] {
+  if (!(err instanceof SchemaInvalid)) throw err;
+  return err.issues.map(i => ({
+    path:    !i.path ? key : i.path.startsWith('[') ? key + i.path : `${key}.${i.path}`,
+    message: i.message,
+  }));
+}
+
+const missing = (v: unknown) => v === undefined || v === null;
+
+function schema<T>(json: JsonSchema, parse: (value: unknown) => T): Schema<T> {
+  return { json, parse };
+}
+
+// ─── Scalars ──────────────────────────────────────────────────────────────────
+
+type Doc = { description?: string; example?: unknown };
+
+const doc = (d: Doc) => ({
+  ...(d.description ? { description: d.description } : {}),
+  ...(d.example !== undefined ? { example: d.example } : {}),
+});
+
+function string(opts: Doc & { min?: number; max?: number; pattern?: RegExp; hint?: string } = {}): Schema<string> {
+  return schema({
+    type: 'string', ...doc(opts),
+    ...(opts.min !== undefined ? { minLength: opts.min } : {}),
+    ...(opts.max !== undefined ? { maxLength: opts.max } : {}),
+    ...(opts.pattern ? { pattern: opts.pattern.source } : {}),
+  }, v => {
+    if (typeof v === 'number' && Number.isFinite(v)) v = String(v);
+    if (typeof v !== 'string') throw new SchemaInvalid('must be a string');
+    if (opts.min !== undefined && v.length < opts.min)
+      throw new SchemaInvalid(opts.min === 1 ? 'must not be empty' : `must be at least ${opts.min} characters`);
+    if (opts.max !== undefined && v.length > opts.max) throw new SchemaInvalid(`must be at most ${opts.max} characters`);
+    if (opts.pattern && !opts.pattern.test(v)) throw new SchemaInvalid(`must be ${opts.hint ?? 'of the form ' + opts.pattern.source}`);
+    return v;
+  });
+}
+
+function int(opts: Doc & { min?: number; max?: number } = {}): Schema<number> {
+  return schema({
+    type: 'integer', ...doc(opts),
+    ...(opts.min !== undefined ? { minimum: opts.min } : {}),
+    ...(opts.max !== undefined ? { maximum: opts.max } : {}),
+  }, v => {
+    const n = typeof v === 'string' && /^-?\d+$/.test(v.trim()) ? Number(v) : v;
+    if (typeof n !== 'number' || !Number.isSafeInteger(n)) throw new SchemaInvalid('must be an integer');
+    if (opts.min !== undefined && n < opts.min) throw new SchemaInvalid(`must be at least ${opts.min}`);
+    if (opts.max !== undefined && n > opts.max) throw new SchemaInvalid(`must be at most ${opts.max}`);
+    return n;
+  });
+}
+
+function bool(opts: Doc = {}): Schema<boolean> {
+  return schema({ type: 'boolean', ...doc(opts) }, v => {
+    if (v === true || v === 'true') return true;
+    if (v === false || v === 'false') return false;
+    throw new SchemaInvalid('must be true or false');
+  });
+}
+
+/** One of a fixed set of strings; `upper` accepts any case */
+function oneOf<T extends string>(values: readonly T[], opts: Doc & { upper?: boolean } = {}): Schema<T> {
+  return schema({ type: 'string', enum: [...values], ...doc(opts) }, v => {
+    const str = typeof v === 'string' ? (opts.upper ? v.toUpperCase() : v) : v;
+    if (!values.includes(str as T)) throw new SchemaInvalid(`must be one of ${values.join(', ')}`);
+    return str as T;
+  });
+}
+
+/**
+ * A contract enum from one of the bindings' name maps. Takes the name in any
+ * case (`_` for spaces) or the numeric code and returns the enum value.
+ */
+function enumName<E extends number>(names: Record<E, string>, opts: Doc = {}): Schema<E> {
+  const documented = (Object.values(names) as string[]).map(n => n.replace(/ /g, '_'));
+  return schema({
+    type: 'string', enum: documented,
+    description: opts.description ?? 'Name (any case) or numeric code', ...doc({ example: opts.example }),
+  }, v => {
+    const name = typeof v === 'string' || typeof v === 'number' ? resolveEnumName(names, String(v)) : null;
+    if (name === null) throw new SchemaInvalid(`must be one of ${documented.join(', ')}`);
+    return Number((Object.keys(names) as string[]).find(k => names[Number(k) as E] === name)) as E;
+  });
+}
+
+function address(opts: Doc = {}): Schema<string> {
+  return schema({
+    type: 'string', pattern: '^0x[0-9a-fA-F]{40}$', ...doc(opts),
+    description: opts.description ?? 'EVM address; mixed case must be a valid EIP-55 checksum',
+  }, v => {
+    if (typeof v !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(v)) throw new SchemaInvalid('must be a 0x-prefixed 20-byte address');
+    try {
+      return ethers.getAddress(v);
+    } catch {
+      throw new SchemaInvalid('has an invalid checksum');
+    }
+  });
+}
+
+function bytes32(opts: Doc = {}): Schema<string> {
+  return schema({ type: 'string', pattern: '^0x[0-9a-fA-F]{64}$', ...doc(opts) }, v => {
+    if (typeof v !== 'string' || !ethers.isHexString(v, 32)) throw new SchemaInvalid('must be a 0x-prefixed bytes32');
+    return v.toLowerCase();
+  });
+}
+
+/** Integer string in the currency's base units (money.ts); JSON numbers are taken while safe */
+function amount(currency: Currency, opts: Doc & { positive?: boolean } = {}): Schema<Money> {
+  const decimals = CURRENCIES[currency].decimals;
+  return schema({
+    type: 'string', pattern: '^\\d+$', ...doc(opts),
+    description: opts.description ?? `${currency} in base units (${decimals} decimals)`,
+  }, v => {
+    const str = typeof v === 'number' && Number.isSafeInteger(v) ? String(v) : v;
+    if (typeof str !== 'string' || !/^\d+$/.test(str.trim()))
+      throw new SchemaInvalid(`must be a non-negative integer in ${currency} base units (${decimals} decimals)`);
+    const m = Money.of(currency, str.trim());
+    if (opts.positive && m.isZero()) throw new SchemaInvalid('must be greater than zero');
+    return m;
+  });
+}
+
+/** NGN per USDC × 1e6, as the contract locks it */
+function rate(opts: Doc = {}): Schema<Rate> {
+  const units = amount('NGN', { positive: true });
+  return schema({
+    type: 'string', pattern: '^\\d+$', ...doc(opts),
+    description: opts.description ?? 'NGN per 1 USDC × 1e6, e.g. 1580250000 for ₦1,580.25',
+  }, v => Rate.ngnPerUsdc(units.parse(v).units));
+}
+
+/** ISO-8601 date or date-time */
+function date(opts: Doc = {}): Schema<Date> {
+  return schema({ type: 'string', format: 'date-time', ...doc(opts) }, v => {
+    const d = typeof v === 'string' || typeof v === 'number' ? new Date(v) : null;
+    if (!d || isNaN(d.getTime())) throw new SchemaInvalid('must be an ISO-8601 date');
+    return d;
+  });
+}
+
+/** A key the server owns; any value sent for it is rejected */
+function forbidden(reason: string): Schema<undefined> {
+  return { json: { not: {}, description: reason }, optional: true, parse: () => { throw new SchemaInvalid(`must not be set: ${reason}`); } };
+}
+
+/** Documentation only — passed through unchecked */
+function any(opts: Doc = {}): Schema<any> {
+  return schema({ ...doc(opts) }, v => v);
+}
+
+// ─── Composites ───────────────────────────────────────────────────────────────
+
+function array<T>(item: Schema<T>, opts: Doc & { min?: number; max?: number } = {}): Schema<T[]> {
+  return schema({
+    type: 'array', items: item.json, ...doc(opts),
+    ...(opts.min !== undefined ? { minItems: opts.min } : {}),
+    ...(opts.max !== undefined ? { maxItems: opts.max } : {}),
+  }, v => {
+    if (!Array.isArray(v)) throw new SchemaInvalid('must be an array');
+    if (opts.min !== undefined && v.length < opts.min) throw new SchemaInvalid(`must have at least ${opts.min} item(s)`);
+    if (opts.max !== undefined && v.length > opts.max) throw new SchemaInvalid(`must have at most ${opts.max} items`);
+    const issues: Issue[] = [];
+    const out = v.map((x, i) => {
+      try { return item.parse(x); } catch (err) { issues.push(...nest(`[${i}]`, err)); return undefined as T; }
+    });
+    if (issues.length) throw new SchemaInvalid(issues);
+    return out;
+  });
+}
+
+/** Comma-separated query value, e.g. ?status=PARTIAL,OVERPAID */
+function csv<T>(item: Schema<T>, opts: Doc = {}): Schema<T[]> {
+  const list = array(item, { min: 1 });
+  return schema({ type: 'string', ...doc(opts), description: opts.description ?? 'Comma-separated list', 'x-items': item.json },
+    v => list.parse(typeof v === 'string' ? v.split(',').map(x => x.trim()).filter(Boolean) : v));
+}
+
+type Shape = Record<string, Schema>;
+type Parsed<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+function object<S extends Shape>(props: S, opts: Doc = {}): Schema<Parsed<S>> {
+  const required = Object.keys(props).filter(k => !props[k].optional);
+  return schema({
+    type: 'object', ...doc(opts),
+    properties: Object.fromEntries(Object.entries(props).map(([k, p]) => [k, p.json])),
+    ...(required.length ? { required } : {}),
+  }, v => {
+    if (typeof v !== 'object' || v === null || Array.isArray(v)) throw new SchemaInvalid('must be an object');
+    const issues: Issue[] = [];
+    const out: Record<string, any> = {};
+    for (const [k, p] of Object.entries(props)) {
+      const raw = (v as Record<string, unknown>)[k];
+      if (missing(raw)) {
+        if (!p.optional) issues.push({ path: k, message: 'is required' });
+        else if (p.default !== undefined) out[k] = p.default;
+        continue;
+      }
+      try { out[k] = p.parse(raw); } catch (err) { issues.push(...nest(k, err)); }
+    }
+    if (issues.length) throw new SchemaInvalid(issues);
+    return out as Parsed<S>;
+  });
+}
+
+/** String-keyed map of one value schema */
+function record<T>(value: Schema<T>, opts: Doc = {}): Schema<Record<string, T>> {
+  return schema({ type: 'object', additionalProperties: value.json, ...doc(opts) }, v => {
+    if (typeof v !== 'object' || v === null || Array.isArray(v)) throw new SchemaInvalid('must be an object');
+    const issues: Issue[] = [];
+    const out: Record<string, T> = {};
+    for (const [k, x] of Object.entries(v)) {
+      try { out[k] = value.parse(x); } catch (err) { issues.push(...nest(k, err)); }
+    }
+    if (issues.length) throw new SchemaInvalid(issues);
+    return out;
+  });
+}
+
+function optional<T>(s: Schema<T>, fallback?: T): Schema<T | undefined> {
+  const json = fallback === undefined ? s.json
+    : { ...s.json, default: fallback instanceof Money || fallback instanceof Rate ? fallback.toJSON() : fallback };
+  return { ...s, json, optional: true, default: fallback };
+}
+
+/** May be null (responses) */
+function nullable<T>(s: Schema<T>): Schema<T | null> {
+  const json = s.json.$ref ? { allOf: [s.json], nullable: true } : { ...s.json, nullable: true };
+  return { ...s, json, parse: v => v === null ? null : s.parse(v) };
+}
+
+// ─── Components ───────────────────────────────────────────────────────────────
+const components: Record<string, JsonSchema> = {};
+
+/** Named schema, emitted once under components.schemas and referenced by $ref */
+function ref<T>(name: string, s: Schema<T>): Schema<T> {
+  if (components[name]) throw new Error(`schema ${name} defined twice`);
+  components[name] = s.json;
+  return { ...s, json: { $ref: `#/components/schemas/${name}` } };
+}
+
+export const s = {
+  string, int, bool, oneOf, enumName, address, bytes32, amount, rate, date, forbidden, any,
+  array, csv, object, record, optional, nullable, ref,
+};
+
+// ─── Middleware ───────────────────────────────────────────────────────────────
+
+export type RouteSpec = {
+  summary:      string;
+  description?: string;
+  tag:          string;
+  params?:      Shape;
+  query?:       Shape;
+  body?:        Shape;
+  response?:    Schema;    // the envelope's `data`; omitted when it is null
+  status?:      200 | 201 | 202;
+};
+
+const PARTS = ['params', 'query', 'body'] as const;
+
+/**
+ * Checks and normalises params, query and body against `spec`. Runs after
+ * requireRole and idempotent, so a rejected request is still replayed as-is.
+ */
+export function validate(spec: RouteSpec) {
+  const parts = Object.fromEntries(PARTS.filter(p => spec[p]).map(p => [p, object(spec[p]!)])) as
+    Partial<Record<typeof PARTS[number], Schema>>;
+
+  const middleware = (req: Request<any>, res: Response, next: NextFunction) => {
+    const issues: Issue[] = [];
+    const out: Partial<Record<typeof PARTS[number], any>> = {};
+    for (const part of PARTS) {
+      if (!parts[part]) continue;
+      try { out[part] = parts[part]!.parse(req[part] ?? {}); } catch (err) { issues.push(...nest(part, err)); }
+    }
+    if (issues.length) {
+      sendError(res, new ApiError('VALIDATION_ERROR', issues.map(describe).join('; '), { data: { issues } }));
+      return;
+    }
+    if (out.params) req.params = out.params;
+    // req.query is a getter in Express 5
+    if (out.query) Object.defineProperty(req, 'query', { value: out.query, writable: true, configurable: true, enumerable: true });
+    if (out.body) req.body = out.body;
+    next();
+  };
+  return Object.assign(middleware, { spec });
+}
+
+// ─── OpenAPI ──────────────────────────────────────────────────────────────────
+
+const envelope = (success: boolean, codes: string[], data: JsonSchema): JsonSchema => ({
+  type: 'object',
+  required: ['success', 'code', 'message', 'data', 'txHash'],
+  properties: {
+    success: { type: 'boolean', enum: [success] },
+    code:    { type: 'string', enum: codes },
+    message: { type: 'string' },
+    data,
+    txHash:  { type: 'string', nullable: true, description: 'Set on writes once broadcast' },
+  },
+});
+
+const ERROR_RESPONSE = { $ref: '#/components/responses/Error' };
+
+function parameters(where: 'path' | 'query', shape: Shape = {}) {
+  return Object.entries(shape).map(([name, p]) => ({
+    name, in: where, required: where === 'path' || !p.optional, schema: p.json,
+    ...(p.json.description ? { description: p.json.description } : {}),
+  }));
+}
+
+function operation(spec: RouteSpec, roles: string[] | null, idempotent: boolean, id: string) {
+  const status = spec.status ?? 200;
+  const auth   = roles !== null;
+  const params: any[] = [...parameters('path', spec.params), ...parameters('query', spec.query)];
+  if (idempotent) params.push({ $ref: '#/components/parameters/IdempotencyKey' });
+
+  const op: Record<string, any> = {
+    operationId: id,
+    tags:        [spec.tag],
+    summary:     spec.summary,
+    description: [spec.description, roles?.length ? `Roles: ${roles.join(', ')}.` : auth ? 'Any authenticated client.' : '']
+      .filter(Boolean).join('\n\n') || undefined,
+    ...(params.length ? { parameters: params } : {}),
+    ...(spec.body ? { requestBody: { required: true, content: { 'application/json': { schema: object(spec.body).json } } } } : {}),
+    responses: {
+      [status]: {
+        description: SUCCESS_CODES[status],
+        content: { 'application/json': { schema: envelope(true, [SUCCESS_CODES[status]], spec.response?.json ?? { nullable: true }) } },
+      },
+      ...(params.length || spec.body ? { 400: ERROR_RESPONSE } : {}),
+      ...(auth ? { 401: ERROR_RESPONSE, 403: ERROR_RESPONSE } : {}),
+      default: ERROR_RESPONSE,
+    },
+  };
+  if (auth) op['x-roles'] = roles;
+  else op.security = [];
+  return op;
+}
+
+/** "post /api/rfqs/:id/quotes" → "postApiRfqsIdQuotes" */
+function operationId(method: string, path: string) {
+  const words = path.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return method + words.map(w => w[0].toUpperCase() + w.slice(1)).join('');
+}
+
+/** The markers validate(), requireRole() and idempotent() leave on their middleware */
+type MarkedHandle = { spec?: RouteSpec; roles?: string[]; idempotent?: boolean };
+
+/** What is read from the app's router; `methods` is missing from Express's own typings */
+type RouterLayer = {
+  route?: { path: string | RegExp; methods: Record<string, boolean>; stack: { handle: MarkedHandle }[] };
+};
+
+/** OpenAPI 3.0 document for every route mounted with validate() */
+export function openApiDocument(app: Express, info: { title: string; version: string; description?: string }) {
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const layer of app.router.stack as unknown as RouterLayer[]) {
+    const route = layer.route;
+    if (!route || typeof route.path !== 'string') continue;
+    const handles = route.stack.map(l => l.handle);
+    const spec = handles.find(h => h.spec)?.spec;
+    if (!spec) continue;
+    const roles = handles.find(h => h.roles)?.roles ?? null;
+    const idempotent = handles.some(h => h.idempotent);
+
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    for (const method of Object.keys(route.methods).filter(m => m !== '_all' && m !== 'head')) {
+      (paths[path] ??= {})[method] = operation(spec, roles, idempotent, operationId(method, route.path));
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info,
+    security: [
+      { clientId: [], clientSecret: [] },
+      { clientId: [], timestamp: [], signature: [] },
+    ],
+    paths,
+    components: {
+      schemas: components,
+      parameters: {
+        IdempotencyKey: {
+          name: 'Idempotency-Key', in: 'header', required: false, schema: { type: 'string', minLength: 1, maxLength: 255 },
+          description: 'Replays the stored response for a retried request (see idempotency.ts)',
+        },
+      },
+      responses: {
+        Error: {
+          description: 'Error envelope; `code` is stable, `data.issues` lists validation problems',
+          content: { 'application/json': { schema: envelope(false, Object.keys(ERROR_CODES), { nullable: true }) } },
+        },
+      },
+      securitySchemes: {
+        clientId:     { type: 'apiKey', in: 'header', name: 'x-client-id' },
+        clientSecret: { type: 'apiKey', in: 'header', name: 'x-client-secret' },
+        timestamp:    { type: 'apiKey', in: 'header', name: 'x-timestamp' },
+        signature:    {
+          type: 'apiKey', in: 'header', name: 'x-signature',
+          description: 'hex(HMAC_SHA256(signingKey, `${timestamp}.${METHOD}.${originalUrl}.${rawBody}`))',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * Signer registry
+ * Contract writes name a signer ID instead of carrying a private key. IDs are
+ * configured in SIGNERS_FILE (JSON, default ./signers.json):
+ *
+ *   {
+ *     "treasury": { "type": "keystore",  "path": "keys/treasury.json", "passwordEnv": "TREASURY_KEYSTORE_PASSWORD", "roles": ["treasury"] },
+ *     "oracle":   { "type": "local-kms", "keyId": "oracle", "roles": ["oracle"] },
+ *     "acme":     { "type": "circle",    "walletId": "…", "address": "0x…", "clients": ["acme-erp"] }
+ *   }
+ *
+ *   keystore   encrypted JSON keystore on disk, decrypted on first use
+ *   circle     Circle developer-controlled wallet — Circle signs and broadcasts
+ *   local-kms  key sealed under KMS_MASTER_KEY in KMS_KEY_DIR; only digests go in, signatures come out
+ *
+ * A caller may use a signer when its client ID is listed in `clients` or it
+ * holds one of `roles`.
+ *
+ * Create a KMS key:    npx ts-node src/signers.ts kms-create <keyId>
+ * Import into KMS:     IMPORT_PRIVATE_KEY=0x… npx ts-node src/signers.ts kms-import <keyId>
+ * Write a keystore:    IMPORT_PRIVATE_KEY=0x… KEYSTORE_PASSWORD=… npx ts-node src/signers.ts keystore <file>
+ */
+
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import {
+  ethers, AbstractSigner, Provider, Signature, Transaction, TransactionLike, TransactionRequest,
+  TransactionResponse, TypedDataDomain, TypedDataEncoder, TypedDataField,
+} from "ethers";
+import { ApiClient, Role, decryptValue, encryptValue } from "./auth";
+import { circleClient } from "./circle-wallet";
+
+dotenv.config();
+
+type Access = { clients?: string[]; roles?: Role[] };
+
+export type SignerConfig = Access & (
+  | { type: "keystore";  path: string; passwordEnv: string }
+  | { type: "circle";    walletId: string; address?: string }
+  | { type: "local-kms"; keyId: string }
+);
+
+export type SignerSummary = { id: string; type: SignerConfig["type"]; address: string };
+
+export class SignerError extends Error {
+  status: number;
+  constructor(status: 400 | 403 | 404, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const KMS_KEY_ENV = "KMS_MASTER_KEY";
+
+// ─── Local KMS ────────────────────────────────────────────────────────────────
+/**
+ * Stand-in for a cloud KMS: keys are generated or imported once, stored
+ * sealed on disk, and only unsealed for the duration of a single sign call.
+ */
+export class LocalKms {
+  dir: string;
+
+  constructor(dir = process.env.KMS_KEY_DIR ?? "keys/kms") {
+    this.dir = dir;
+  }
+
+  private file(keyId: string) {
+    if (!/^[\w.-]+$/.test(keyId)) throw new Error("invalid KMS key id " + keyId);
+    return path.join(this.dir, `${keyId}.json`);
+  }
+
+  private read(keyId: string): { keyId: string; address: string; sealed: string } {
+    const file = this.file(keyId);
+    if (!fs.existsSync(file)) throw new Error(`KMS key ${keyId} not found in ${this.dir}`);
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+
+  createKey(keyId: string): string {
+    return this.importKey(keyId, ethers.Wallet.createRandom().privateKey);
+  }
+
+  importKey(keyId: string, privateKey: string): string {
+    const file = this.file(keyId);
+    if (fs.existsSync(file)) throw new Error(`KMS key ${keyId} already exists`);
+    const key = new ethers.SigningKey(privateKey);
+    const address = ethers.computeAddress(key);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({
+      keyId, address, sealed: encryptValue(key.privateKey, KMS_KEY_ENV), createdAt: new Date().toISOString(),
+    }, null, 2), { mode: 0o600 });
+    return address;
+  }
+
+  getAddress(keyId: string): string {
+    return this.read(keyId).address;
+  }
+
+  sign(keyId: string, digest: string): Signature {
+    return new ethers.SigningKey(decryptValue(this.read(keyId).sealed, KMS_KEY_ENV)).sign(digest);
+  }
+}
+
+// ─── Signer backends ──────────────────────────────────────────────────────────
+class KmsSigner extends AbstractSigner {
+  kms:     LocalKms;
+  keyId:   string;
+  address: string;
+
+  constructor(kms: LocalKms, keyId: string, provider: Provider | null) {
+    super(provider);
+    this.kms     = kms;
+    this.keyId   = keyId;
+    this.address = kms.getAddress(keyId);
+  }
+
+  connect(provider: Provider | null) { return new KmsSigner(this.kms, this.keyId, provider); }
+
+  async getAddress() { return this.address; }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    const req = ethers.copyRequest(tx);
+    const { to, from } = await ethers.resolveProperties({
+      to:   req.to   ? ethers.resolveAddress(req.to, this)   : undefined,
+      from: req.from ? ethers.resolveAddress(req.from, this) : undefined,
+    });
+    if (to != null) req.to = to;
+    if (from != null) {
+      if (ethers.getAddress(from) !== this.address) throw new Error("transaction from address mismatch");
+      delete req.from;
+    }
+    const btx = Transaction.from(req as TransactionLike<string>);
+    btx.signature = this.kms.sign(this.keyId, btx.unsignedHash);
+    return btx.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.kms.sign(this.keyId, ethers.hashMessage(message)).serialized;
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string> {
+    const populated = await TypedDataEncoder.resolveNames(domain, types, value, async name => {
+      const address = await this.provider?.resolveName(name);
+      if (!address) throw new Error("cannot resolve ENS name " + name);
+      return address;
+    });
+    return this.kms.sign(this.keyId, TypedDataEncoder.hash(populated.domain, types, populated.value)).serialized;
+  }
+}
+
+/** Keystore-backed signer; the address is read from the keystore, the key is decrypted on first use */
+class KeystoreSigner extends AbstractSigner {
+  file:        string;
+  passwordEnv: string;
+  address:     string;
+  private wallet: Promise<ethers.Wallet | ethers.HDNodeWallet> | null = null;
+
+  constructor(file: string, passwordEnv: string, provider: Provider | null) {
+    super(provider);
+    this.file        = file;
+    this.passwordEnv = passwordEnv;
+    this.address     = ethers.getAddress("0x" + JSON.parse(fs.readFileSync(file, "utf8")).address.replace(/^0x/, ""));
+  }
+
+  connect(provider: Provider | null) { return new KeystoreSigner(this.file, this.passwordEnv, provider); }
+
+  private unlock() {
+    if (!this.wallet) {
+      const password = process.env[this.passwordEnv];
+      if (!password) throw new Error(`${this.passwordEnv} is not set`);
+      this.wallet = ethers.Wallet.fromEncryptedJson(fs.readFileSync(this.file, "utf8"), password);
+      this.wallet.catch(() => { this.wallet = null; });
+    }
+    return this.wallet;
+  }
+
+  async getAddress() { return this.address; }
+
+  async signTransaction(tx: TransactionRequest)      { return (await this.unlock()).signTransaction(tx); }
+  async signMessage(message: string | Uint8Array)   { return (await this.unlock()).signMessage(message); }
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>) {
+    return (await this.unlock()).signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Circle developer-controlled wallet. Circle estimates gas, signs and
+ * broadcasts, so gas/nonce overrides are ignored; sendTransaction resolves
+ * once Circle reports the on-chain hash. SCA wallets sign messages per
+ * EIP-1271, which ecrecover-based checks (attest) will not accept.
+ */
+class CircleSigner extends AbstractSigner {
+  walletId: string;
+  private address: string | undefined;
+  pollMs = Number(process.env.CIRCLE_TX_POLL_MS ?? 3_000);
+  maxPolls = Number(process.env.CIRCLE_TX_MAX_POLLS ?? 60);
+
+  constructor(walletId: string, address: string | undefined, provider: Provider | null) {
+    super(provider);
+    this.walletId = walletId;
+    this.address  = address ? ethers.getAddress(address) : undefined;
+  }
+
+  connect(provider: Provider | null) { return new CircleSigner(this.walletId, this.address, provider); }
+
+  async getAddress() {
+    if (!this.address) {
+      const res = await circleClient().getWallet({ id: this.walletId });
+      this.address = ethers.getAddress(res.data!.wallet.address!);
+    }
+    return this.address;
+  }
+
+  async signTransaction(_tx: TransactionRequest): Promise<string> {
+    throw new Error("Circle wallets broadcast their own transactions; use sendTransaction");
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+    if (!this.provider) throw new Error("Circle signer needs a provider to track transactions");
+    const to = await ethers.resolveAddress(tx.to!, this);
+    const created = await circleClient().createContractExecutionTransaction({
+      walletId:        this.walletId,
+      contractAddress: to,
+      callData:        ethers.hexlify(tx.data ?? "0x") as `0x${string}`,
+      amount:          tx.value ? ethers.formatEther(tx.value) : undefined,
+      fee:             { type: "level", config: { feeLevel: "HIGH" } },
+    });
+    const circleTxId = created.data!.id;
+    console.log(`[Signer] Circle tx ${circleTxId} from wallet ${this.walletId} → ${to}`);
+
+    for (let i = 0; i < this.maxPolls; i++) {
+      await new Promise(r => setTimeout(r, this.pollMs));
+      const res   = await circleClient().getTransaction({ id: circleTxId });
+      const t     = res.data?.transaction;
+      if (!t) continue;
+      if (["FAILED", "CANCELLED", "DENIED"].includes(String(t.state)))
+        throw new Error(`Circle transaction ${circleTxId} ${t.state}: ${t.errorReason ?? "no reason given"}`);
+      if (t.txHash) {
+        const sent = await this.provider.getTransaction(t.txHash);
+        if (sent) return sent;
+      }
+    }
+    throw new Error(`Circle transaction ${circleTxId} not broadcast after ${this.maxPolls} polls`);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const hex = typeof message !== "string";
+    const res = await circleClient().signMessage({
+      walletId: this.walletId, message: hex ? ethers.hexlify(message) : message as string, encodedByHex: hex,
+    });
+    return res.data!.signature!;
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string> {
+    const res = await circleClient().signTypedData({
+      walletId: this.walletId, data: JSON.stringify(TypedDataEncoder.getPayload(domain, types, value)),
+    });
+    return res.data!.signature!;
+  }
+}
+
+/** Signers whose wallet provider assigns nonces and fees itself */
+export function isSelfBroadcasting(signer: ethers.Signer): boolean {
+  return signer instanceof CircleSigner;
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+export class SignerRegistry {
+  provider: Provider;
+  file:     string;
+  kms:      LocalKms;
+
+  private config: Record<string, SignerConfig> | null = null;
+  private signers = new Map<string, ethers.Signer>();
+
+  constructor(provider: Provider, file = process.env.SIGNERS_FILE ?? "signers.json", kms = new LocalKms()) {
+    this.provider = provider;
+    this.file     = file;
+    this.kms      = kms;
+  }
+
+  private entries(): Record<string, SignerConfig> {
+    if (!this.config) {
+      this.config = fs.existsSync(this.file) ? JSON.parse(fs.readFileSync(this.file, "utf8")) : {};
+      console.log(`[Signer] ${Object.keys(this.config!).length} signer(s) configured from ${this.file}`);
+    }
+    return this.config!;
+  }
+
+  /** Resolve a signer by ID, without any access check — for daemons configured by ops */
+  get(id: string): ethers.Signer {
+    const cached = this.signers.get(id);
+    if (cached) return cached;
+
+    const cfg = this.entries()[id];
+    if (!cfg) throw new SignerError(404, "unknown signer " + id);
+
+    let signer: ethers.Signer;
+    switch (cfg.type) {
+      case "keystore":  signer = new KeystoreSigner(cfg.path, cfg.passwordEnv, this.provider); break;
+      case "circle":    signer = new CircleSigner(cfg.walletId, cfg.address, this.provider); break;
+      case "local-kms": signer = new KmsSigner(this.kms, cfg.keyId, this.provider); break;
+      default: throw new Error(`signer ${id} has unknown type ${(cfg as any).type}`);
+    }
+    this.signers.set(id, signer);
+    return signer;
+  }
+
+  canUse(id: string, client: ApiClient): boolean {
+    const cfg = this.entries()[id];
+    if (!cfg) return false;
+    return (cfg.clients ?? []).includes(client.clientId)
+        || (cfg.roles ?? []).some(r => client.roles.includes(r));
+  }
+
+  /** Client IDs listed on the signer; role grants are not counted */
+  clientsOf(id: string): string[] {
+    return this.entries()[id]?.clients ?? [];
+  }
+
+  /** IDs of the signers the caller may use */
+  usableBy(client: ApiClient): string[] {
+    return Object.keys(this.entries()).filter(id => this.canUse(id, client));
+  }
+
+  /** Resolve a signer for an API caller; unknown and forbidden IDs both fail */
+  authorize(id: unknown, client: ApiClient): ethers.Signer {
+    if (typeof id !== "string" || !id) throw new SignerError(400, "signerId is required");
+    if (!this.entries()[id]) throw new SignerError(404, "unknown signer " + id);
+    if (!this.canUse(id, client)) {
+      console.log(`[Signer] ${client.clientId} denied use of signer ${id}`);
+      throw new SignerError(403, "client is not allowed to use signer " + id);
+    }
+    return this.get(id);
+  }
+
+  /** Signers the caller may use */
+  async list(client: ApiClient): Promise<SignerSummary[]> {
+    const out: SignerSummary[] = [];
+    for (const id of this.usableBy(client)) {
+      out.push({ id, type: this.entries()[id].type, address: await this.get(id).getAddress() });
+    }
+    return out;
+  }
+}
+
+if (require.main === module) {
+  const [cmd, arg] = process.argv.slice(2);
+  (async () => {
+    if (cmd === "kms-create" && arg) {
+      console.log(`✅ KMS key ${arg}: ${new LocalKms().createKey(arg)}`);
+    } else if (cmd === "kms-import" && arg) {
+      console.log(`✅ KMS key ${arg}: ${new LocalKms().importKey(arg, process.env.IMPORT_PRIVATE_KEY ?? "")}`);
+    } else if (cmd === "keystore" && arg) {
+      if (!process.env.KEYSTORE_PASSWORD) throw new Error("KEYSTORE_PASSWORD is not set");
+      const wallet = new ethers.Wallet(process.env.IMPORT_PRIVATE_KEY ?? "");
+      fs.writeFileSync(arg, await wallet.encrypt(process.env.KEYSTORE_PASSWORD), { mode: 0o600 });
+      console.log(`✅ Keystore for ${wallet.address} written to ${arg}`);
+    } else {
+      console.log("usage: ts-node src/signers.ts kms-create <keyId> | kms-import <keyId> | keystore <file>");
+      process.exit(1);
+    }
+  })().catch(console.error);
+}
@@ -0,0 +1,161 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { BFPayClient } from "./bfpay";
+import {
+  simulateFee, simulateYieldUSDC, simulateAprBPS, simulateDeal, daysElapsed, checkDeal,
+} from "./simulator";
+
+const DAY = 86_400;
+
+/**
+ * BFPay.sol calculateFee, line for line, for a USYC deal whose vault value is
+ * usdcValueAtLock + yield:
+ *   daysElapsed = (now - openedAt) / 1 days
+ *   grossFee    = amountNGN * feeBPS * daysElapsed / 10000
+ *   yieldOffset = yield * ngnPerUsdc / 1e12
+ *   netFee      = grossFee > yieldOffset ? grossFee - yieldOffset : 0
+ */
+function contractCalculateFee(deal: { amountNGN: bigint; feeBPS: bigint; openedAt: number; yieldUSDC: bigint; ngnPerUsdc: bigint }, now: number) {
+  const days   = BigInt(Math.floor((now - deal.openedAt) / DAY));
+  const gross  = (deal.amountNGN * deal.feeBPS * days) / BigInt(10000);
+  const offset = (deal.yieldUSDC * deal.ngnPerUsdc) / BigInt(1e12);
+  return { gross, offset, net: gross > offset ? gross - offset : BigInt(0), days };
+}
+
+// ₦50M for 7 days at 0.15%/day against $100,000 of USYC at 4.50% APR, ₦1,580/$
+const DEAL = {
+  amountNGN:     BigInt(50_000_000),
+  tenorDays:     7,
+  feeBPS:        15,
+  collType:      "USYC",
+  collateralUSD: BigInt(100_000) * BigInt(1_000_000),
+  ltvBPS:        BigInt(7000),
+  usycAprBPS:    450,
+  ngnPerUsdc:    BigInt(1580) * BigInt(1_000_000),
+};
+
+test("simulateFee reproduces a worked calculateFee example", () => {
+  const yieldUSDC = simulateYieldUSDC(DEAL.collateralUSD, BigInt(DEAL.usycAprBPS), 7);
+  assert.equal(yieldUSDC, BigInt(86_301_369));                 // $86.301369
+
+  const fee = simulateFee(DEAL.amountNGN, BigInt(DEAL.feeBPS), 7, yieldUSDC, DEAL.ngnPerUsdc);
+  assert.equal(fee.gross,  BigInt(525_000));                   // 50M × 0.15% × 7
+  assert.equal(fee.offset, BigInt(136_356));                   // $86.301369 × 1580, floored
+  assert.equal(fee.net,    BigInt(388_644));
+});
+
+test("simulateFee matches calculateFee across days, fees and yields", () => {
+  const openedAt = 1_700_000_000;
+  for (const amountNGN of [BigInt(1), BigInt(999_999), BigInt(50_000_000), BigInt("123456789012")])
+    for (const feeBPS of [0, 1, 15, 300])
+      for (const yieldUSDC of [BigInt(0), BigInt(1), BigInt(86_301_369), BigInt("1000000000000")])
+        for (const elapsed of [0, DAY - 1, DAY, 7 * DAY + 3_600, 365 * DAY]) {
+          const deal = { amountNGN, feeBPS: BigInt(feeBPS), openedAt, yieldUSDC, ngnPerUsdc: BigInt(1_580_250_000) };
+          const want = contractCalculateFee(deal, openedAt + elapsed);
+          const days = daysElapsed(openedAt, openedAt + elapsed);
+          assert.equal(BigInt(days), want.days);
+          const got = simulateFee(amountNGN, BigInt(feeBPS), days, yieldUSDC, deal.ngnPerUsdc);
+          assert.deepEqual(got, { gross: want.gross, offset: want.offset, net: want.net },
+            `amount ${amountNGN} fee ${feeBPS} yield ${yieldUSDC} after ${elapsed}s`);
+        }
+});
+
+test("the net fee never goes below zero when yield outruns the fee", () => {
+  const fee = simulateFee(BigInt(1_000_000), BigInt(1), 1, BigInt(1_000_000_000), BigInt(1_580_000_000));
+  assert.equal(fee.gross, BigInt(100));
+  assert.equal(fee.offset, BigInt(1_580_000));
+  assert.equal(fee.net, BigInt(0));
+});
+
+test("daysElapsed charges whole days only", () => {
+  assert.equal(daysElapsed(1000, 1000 + DAY - 1), 0);
+  assert.equal(daysElapsed(1000, 1000 + DAY), 1);
+  assert.equal(daysElapsed(1000, 500), 0);              // clock skew, never negative
+});
+
+test("simulateDeal schedules each day and ends on the maturity figures", () => {
+  const r = simulateDeal(DEAL);
+  assert.equal(r.creditLineNGN, "110600000");            // $100,000 × 1580 × 70%
+  assert.equal(r.withinCreditLine, true);
+  assert.equal(r.schedule.length, 7);
+  assert.deepEqual(r.schedule.map(d => d.day), [1, 2, 3, 4, 5, 6, 7]);
+  assert.deepEqual(r.atMaturity, {
+    grossFeeNGN: "525000", yieldUSDC: "86301369", yieldOffsetNGN: "136356", netFeeNGN: "388644", days: 7,
+  });
+  assert.equal(r.schedule[6].netFeeNGN, r.atMaturity.netFeeNGN);
+  assert.equal(r.schedule[6].collateralValueUSD, "100086301369");
+  assert.deepEqual(r.yieldSummary, {
+    originalUSDC: "100000000000", currentUSDC: "100086301369", yieldUSDC: "86301369", aprBPS: 450,
+  });
+});
+
+test("only USYC collateral earns a yield offset", () => {
+  const r = simulateDeal({ ...DEAL, collType: "USDC" });
+  assert.equal(r.atMaturity.yieldUSDC, "0");
+  assert.equal(r.atMaturity.netFeeNGN, r.atMaturity.grossFeeNGN);
+  assert.equal(r.yieldSummary.aprBPS, 0);
+  assert.equal(simulateDeal({ ...DEAL, amountNGN: BigInt(110_600_001) }).withinCreditLine, false);
+});
+
+test("simulateAprBPS floors like getYieldSummary and is zero before a whole day", () => {
+  assert.equal(simulateAprBPS(BigInt(86_301_369), BigInt(100_000_000_000), 7), 449);
+  assert.equal(simulateAprBPS(BigInt(86_301_369), BigInt(100_000_000_000), 0), 0);
+  assert.equal(simulateAprBPS(BigInt(1), BigInt(0), 7), 0);
+});
+
+// ─── checkDeal ────────────────────────────────────────────────────────────────
+
+/**
+ * A USYC deal opened 7 days ago whose collateral was deposited 2 days before
+ * that, with views as the contract would answer them at `now`.
+ */
+function liveDeal(views: { aprBPS?: number; netFeeNGN?: bigint; rateActive?: boolean } = {}) {
+  const now      = 1_700_000_000 + 7 * DAY + 3_600;
+  const openedAt = 1_700_000_000;
+  const active   = views.rateActive ?? true;
+  const offset   = active ? BigInt(136_356) : BigInt(0);
+  const client = {
+    getDeal: async () => ({
+      id: "0x01", collType: "USYC", status: "ACTIVE", amountNGN: "50000000", feeBPS: 15,
+      collateralUSD: "100000000000", openedAt: new Date(openedAt * 1000).toISOString(),
+    }),
+    getRate: async () => ({ ngnPerUsdc: "1580000000", active }),
+    contract: {
+      ltvBPS: async () => BigInt(7000),
+      runner: { provider: { getBlock: async () => ({ timestamp: now }) } },
+    },
+    views: {
+      fee: async () => ({
+        grossFeeNGN: BigInt(525_000), yieldOffsetNGN: offset,
+        netFeeNGN: views.netFeeNGN ?? BigInt(525_000) - offset, daysElapsed: 7,
+      }),
+      yieldSummary: async () => ({
+        usycTokens: BigInt(1), originalUSDC: BigInt(100_000_000_000), currentUSDC: BigInt(100_086_301_369),
+        yieldUSDC: BigInt(86_301_369), aprBPS: views.aprBPS ?? 349,           // over the 9 days locked
+      }),
+      position: async () => ({ depositedAt: BigInt(openedAt - 2 * DAY) }),
+      creditLineNGN: async () => BigInt(110_600_000),
+    },
+  };
+  return client as unknown as BFPayClient;
+}
+
+test("checkDeal agrees with views computed from the vault's yield and the deposit time", async () => {
+  const report = (await checkDeal(liveDeal(), "0x01", 1))!;
+  assert.equal(report.consistent, true, JSON.stringify(report.lines));
+  assert.deepEqual(report.lines.map(l => l.field), ["daysElapsed", "grossFeeNGN", "yieldOffsetNGN", "netFeeNGN", "aprBPS", "creditLineNGN"]);
+  assert.deepEqual(report.lines.find(l => l.field === "aprBPS"), { field: "aprBPS", simulated: "349", onchain: "349", diff: "0", match: true });
+
+  // A view read a block apart can floor one lower
+  assert.equal((await checkDeal(liveDeal({ aprBPS: 348 }), "0x01", 1))!.consistent, true);
+  // Without a locked rate calculateFee has no offset
+  assert.equal((await checkDeal(liveDeal({ rateActive: false }), "0x01", 1))!.consistent, true);
+});
+
+test("checkDeal reports the fields that differ", async () => {
+  mock.method(console, "log", () => {});
+  const report = (await checkDeal(liveDeal({ aprBPS: 449, netFeeNGN: BigInt(525_000) }), "0x01", 1))!;
+  mock.restoreAll();
+  assert.equal(report.consistent, false);
+  assert.deepEqual(report.lines.filter(l => !l.match).map(l => [l.field, l.diff]), [["netFeeNGN", "-136356"], ["aprBPS", "-100"]]);
+});
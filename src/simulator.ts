@@ -0,0 +1,180 @@
+/**
+ * Off-chain deal simulator
+ * Mirrors the contract's calculateFee, getYieldSummary and getCreditLineNGN
+ * so a borrower can see what a deal would cost before sending an RFQ.
+ *
+ * Units follow the contract: amountNGN whole naira, collateral/yield USD × 1e6,
+ * ngnPerUsdc NGN × 1e6 per $1, feeBPS per day (15 = 0.15%/day), APR in BPS.
+ * Only USYC collateral earns yield; every other type has a zero offset.
+ *
+ * checkDeal() runs the same maths on a live deal's inputs and diffs the result
+ * against the on-chain views, so drift between this file and the contract
+ * shows up as a mismatch instead of a wrong quote. The yield itself is the
+ * vault's redemption value, which nothing off-chain can predict, so the check
+ * takes it from getYieldSummary and tests the fee and APR formulas around it.
+ */
+
+import { BFPayClient } from "./bfpay";
+import { estimateCreditLineNGN } from "./fx-rates";
+
+const DAY_SECS = 86_400;
+const BPS      = BigInt(10_000);
+const USDC_NGN_SCALE = BigInt(1_000_000) * BigInt(1_000_000);   // yield 1e6 × rate 1e6
+
+export type SimulationInput = {
+  amountNGN:     bigint;
+  tenorDays:     number;
+  feeBPS:        number;    // per day
+  collType:      string;    // CollTypeName value, e.g. "USYC"
+  collateralUSD: bigint;    // USD × 1e6
+  ltvBPS:        bigint;
+  usycAprBPS:    number;    // assumed USYC APR
+  ngnPerUsdc:    bigint;    // NGN × 1e6
+};
+
+export type FeeFigures = {
+  grossFeeNGN:    string;
+  yieldUSDC:      string;   // × 1e6
+  yieldOffsetNGN: string;
+  netFeeNGN:      string;
+};
+
+export type ScheduleDay = FeeFigures & { day: number; collateralValueUSD: string };
+
+export type SimulationResult = {
+  input:          Record<string, string | number>;
+  creditLineNGN:  string;
+  withinCreditLine: boolean;
+  yieldSummary:   { originalUSDC: string; currentUSDC: string; yieldUSDC: string; aprBPS: number };
+  atMaturity:     FeeFigures & { days: number };
+  schedule:       ScheduleDay[];
+};
+
+// ─── Contract mirror ──────────────────────────────────────────────────────────
+
+/** USYC accrual on the deposited principal, simple interest per whole day */
+export function simulateYieldUSDC(principalUSD: bigint, aprBPS: bigint, days: number): bigint {
+  return (principalUSD * aprBPS * BigInt(days)) / (BPS * BigInt(365));
+}
+
+/** calculateFee: gross accrues per day on the drawn amount; yield converted at the locked rate offsets it */
+export function simulateFee(amountNGN: bigint, feeBPS: bigint, days: number, yieldUSDC: bigint, ngnPerUsdc: bigint) {
+  const gross  = (amountNGN * feeBPS * BigInt(days)) / BPS;
+  const offset = (yieldUSDC * ngnPerUsdc) / USDC_NGN_SCALE;
+  const net    = gross > offset ? gross - offset : BigInt(0);
+  return { gross, offset, net };
+}
+
+/** getYieldSummary's APR: yield over the position's whole days locked, annualised and floored */
+export function simulateAprBPS(yieldUSDC: bigint, originalUSDC: bigint, daysLocked: number): number {
+  if (daysLocked <= 0 || originalUSDC === BigInt(0)) return 0;
+  return Number((yieldUSDC * BPS * BigInt(365)) / (originalUSDC * BigInt(daysLocked)));
+}
+
+/** Whole days since opening — partial days are not charged */
+export function daysElapsed(openedAtSecs: number, nowSecs: number): number {
+  return Math.max(0, Math.floor((nowSecs - openedAtSecs) / DAY_SECS));
+}
+
+function figures(input: SimulationInput, days: number): FeeFigures {
+  const yieldUSDC = input.collType === "USYC"
+    ? simulateYieldUSDC(input.collateralUSD, BigInt(input.usycAprBPS), days)
+    : BigInt(0);
+  const fee = simulateFee(input.amountNGN, BigInt(input.feeBPS), days, yieldUSDC, input.ngnPerUsdc);
+  return {
+    grossFeeNGN:    fee.gross.toString(),
+    yieldUSDC:      yieldUSDC.toString(),
+    yieldOffsetNGN: fee.offset.toString(),
+    netFeeNGN:      fee.net.toString(),
+  };
+}
+
+// ─── Simulation ───────────────────────────────────────────────────────────────
+
+export function simulateDeal(input: SimulationInput): SimulationResult {
+  const creditLine = estimateCreditLineNGN(input.collateralUSD, input.ngnPerUsdc, input.ltvBPS);
+
+  const schedule: ScheduleDay[] = [];
+  for (let day = 1; day <= input.tenorDays; day++) {
+    const f = figures(input, day);
+    schedule.push({ day, ...f, collateralValueUSD: (input.collateralUSD + BigInt(f.yieldUSDC)).toString() });
+  }
+  const last = figures(input, input.tenorDays);
+
+  return {
+    input: {
+      amountNGN: input.amountNGN.toString(), tenorDays: input.tenorDays, feeBPS: input.feeBPS,
+      collType: input.collType, collateralUSD: input.collateralUSD.toString(), ltvBPS: input.ltvBPS.toString(),
+      usycAprBPS: input.usycAprBPS, ngnPerUsdc: input.ngnPerUsdc.toString(),
+    },
+    creditLineNGN:    creditLine.toString(),
+    withinCreditLine: input.amountNGN <= creditLine,
+    yieldSummary: {
+      originalUSDC: input.collateralUSD.toString(),
+      currentUSDC:  (input.collateralUSD + BigInt(last.yieldUSDC)).toString(),
+      yieldUSDC:    last.yieldUSDC,
+      aprBPS:       input.collType === "USYC" ? input.usycAprBPS : 0,
+    },
+    atMaturity: { ...last, days: input.tenorDays },
+    schedule,
+  };
+}
+
+// ─── Checker ──────────────────────────────────────────────────────────────────
+
+export type CheckLine = { field: string; simulated: string; onchain: string; diff: string; match: boolean };
+
+/**
+ * Recompute a live deal's views off-chain and compare. Figures match when they
+ * differ by at most `toleranceBPS` of the on-chain value (minimum 1 unit, for
+ * integer rounding).
+ */
+export async function checkDeal(client: BFPayClient, dealId: string, toleranceBPS = Number(process.env.SIM_CHECK_TOLERANCE_BPS ?? 1)) {
+  const deal = await client.getDeal(dealId);
+  if (!deal) return null;
+
+  const c = client.contract, v = client.views;
+  const [fee, yieldSummary, position, creditLine, rate, ltvBPS, block] = await Promise.all([
+    v.fee(dealId), v.yieldSummary(dealId), v.position(dealId), v.creditLineNGN(dealId),
+    client.getRate(dealId), c.ltvBPS() as Promise<bigint>, c.runner!.provider!.getBlock("latest"),
+  ]);
+
+  const now        = block?.timestamp ?? Math.floor(Date.now() / 1000);
+  const days       = daysElapsed(Math.floor(Date.parse(deal.openedAt) / 1000), now);
+  const daysLocked = daysElapsed(Number(position.depositedAt), now);
+  const ngnPerUsdc = BigInt(rate.ngnPerUsdc);
+
+  // calculateFee offsets the vault's reported yield only while a rate is locked
+  const offsetYield = deal.collType === "USYC" && rate.active ? yieldSummary.yieldUSDC : BigInt(0);
+  const simFee  = simulateFee(BigInt(deal.amountNGN), BigInt(deal.feeBPS), days, offsetYield, ngnPerUsdc);
+  const simApr  = simulateAprBPS(yieldSummary.yieldUSDC, yieldSummary.originalUSDC, daysLocked);
+  const simLine = estimateCreditLineNGN(BigInt(deal.collateralUSD), ngnPerUsdc, ltvBPS);
+
+  const line = (field: string, simulated: bigint, onchain: bigint, exact = false): CheckLine => {
+    const diff  = simulated - onchain;
+    const abs   = diff < BigInt(0) ? -diff : diff;
+    const limit = (onchain < BigInt(0) ? -onchain : onchain) * BigInt(toleranceBPS) / BPS;
+    return {
+      field, simulated: simulated.toString(), onchain: onchain.toString(), diff: diff.toString(),
+      match: exact ? abs === BigInt(0) : abs <= (limit > BigInt(1) ? limit : BigInt(1)),
+    };
+  };
+
+  const lines: CheckLine[] = [
+    line("daysElapsed",    BigInt(days),     BigInt(fee.daysElapsed), true),
+    line("grossFeeNGN",    simFee.gross,     fee.grossFeeNGN),
+    line("yieldOffsetNGN", simFee.offset,    fee.yieldOffsetNGN),
+    line("netFeeNGN",      simFee.net,       fee.netFeeNGN),
+    // Reads of the views may straddle a block, so the floored APR gets the ±1 tolerance too
+    line("aprBPS",         BigInt(simApr),   BigInt(yieldSummary.aprBPS)),
+    line("creditLineNGN",  simLine,          creditLine),
+  ];
+  const mismatches = lines.filter(l => !l.match);
+  if (mismatches.length)
+    console.log(`[Simulator] ⚠️  ${dealId.slice(0, 12)}… differs on ${mismatches.map(l => l.field).join(", ")}`);
+
+  return {
+    dealId, collType: deal.collType, status: deal.status, checkedAt: new Date(now * 1000).toISOString(),
+    toleranceBPS, consistent: mismatches.length === 0, lines,
+  };
+}
@@ -31,12 +31,12 @@ export async function getStableFXQuote(
 }
 
 
-getStableFXQuote("USDC", "100", "EURC")
-  .then((quote) => {
-    console.log("StableFX Quote:", quote);
-  })
-  .catch((error) => {
-    console.error("Error fetching StableFX quote:", error);
-  });
-
-  
\ No newline at end of file
+if (require.main === module) {
+  getStableFXQuote("USDC", "100", "EURC")
+    .then((quote) => {
+      console.log("StableFX Quote:", quote);
+    })
+    .catch((error) => {
+      console.error("Error fetching StableFX quote:", error);
+    });
+}
@@ -0,0 +1,158 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseStatement, detectFormat, toKobo, StatementParseError } from "./statement-parsers";
+
+const CSV = [
+  "Date,Narration,Reference,Credit,Debit,Virtual Account,Transaction ID",
+  '02/03/2025,"Repayment, deal 0xabc",BFP-REF-1,"1,250,000.50",,9012345678,TXN001',
+  "2025-03-03,Bank charge,,,52.5,,TXN002",
+  "",
+].join("\r\n");
+
+const MT940 = `{1:F01BANKNGLAXXXX0000000000}{2:I940BANKNGLAXXXXN}{4:
+:20:STMT-0425
+:25:0123456789
+:28C:00042/001
+:60F:C250302NGN1000000,00
+:61:2503020302C1250000,50NTRFBFP-REF-1//TXN001
+REPAYMENT DEAL 0XABC
+:86:?20BFP-REF-1?319012345678
+:61:250303D52,50NCHGNONREF//TXN002
+:86:MONTHLY CHARGE
+:61:250304RD1000,NTRFNONREF
+:62F:C250304NGN2250948,00
+-}`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-0425</Id>
+      <Acct><Id><Othr><Id>0123456789</Id></Othr></Id></Acct>
+      <Ntry>
+        <Amt Ccy="NGN">1250000.50</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2025-03-02</Dt></BookgDt>
+        <AcctSvcrRef>TXN001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><CdtrAcct><Id><Othr><Id>9012345678</Id></Othr></Id></CdtrAcct></RltdPties>
+          <RmtInf>
+            <Ustrd>Repayment &amp; fee</Ustrd>
+            <Strd><CdtrRefInf><Ref>BFP-REF-1</Ref></CdtrRefInf></Strd>
+          </RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="NGN">52.5</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <RvslInd>true</RvslInd>
+        <BookgDt><DtTm>2025-03-03T10:00:00</DtTm></BookgDt>
+        <AddtlNtryInf>Reversed credit</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+test("toKobo reads decimal points and decimal commas", () => {
+  assert.equal(toKobo("1,250,000.5"), BigInt(125000050));
+  assert.equal(toKobo("1250000,50", true), BigInt(125000050));
+  assert.equal(toKobo("1.250.000,5", true), BigInt(125000050));
+  assert.equal(toKobo("-12"), BigInt(-1200));
+  assert.equal(toKobo("0.129"), BigInt(12));   // sub-kobo digits are dropped
+  assert.throws(() => toKobo("12a"), StatementParseError);
+  assert.throws(() => toKobo(""), StatementParseError);
+});
+
+test("detectFormat tells the three formats apart", () => {
+  assert.equal(detectFormat(CSV), "csv");
+  assert.equal(detectFormat(MT940), "mt940");
+  assert.equal(detectFormat(":20:REF\n:25:1"), "mt940");
+  assert.equal(detectFormat(CAMT), "camt053");
+});
+
+test("CSV: quoted fields, credit/debit columns and dates", () => {
+  const s = parseStatement(CSV);
+  assert.equal(s.format, "csv");
+  assert.equal(s.entries.length, 2);
+  assert.deepEqual(s.entries[0], {
+    accountId: null, bookingDate: "2025-03-02", amountKobo: BigInt(125000050), direction: "CREDIT",
+    currency: "NGN", reference: "BFP-REF-1", narration: "Repayment, deal 0xabc",
+    virtualAccount: "9012345678", bankRef: "TXN001",
+  });
+  assert.equal(s.entries[1].direction, "DEBIT");
+  assert.equal(s.entries[1].amountKobo, BigInt(5250));
+  assert.equal(s.entries[1].reference, null);
+});
+
+test("CSV: a signed amount column sets the direction", () => {
+  const s = parseStatement('booking-date,amount,description,ccy\n2025-03-02,-10.00,"fee ""A""",USD\n', "csv");
+  assert.equal(s.entries[0].direction, "DEBIT");
+  assert.equal(s.entries[0].amountKobo, BigInt(1000));
+  assert.equal(s.entries[0].currency, "USD");
+  assert.equal(s.entries[0].narration, 'fee "A"');
+});
+
+test("CSV: missing columns and bad rows are rejected", () => {
+  assert.throws(() => parseStatement("date,amount\n", "csv"), /header row and at least one entry/);
+  assert.throws(() => parseStatement("narration,amount\nx,1\n", "csv"), /date column/);
+  assert.throws(() => parseStatement("date,amount\n2025-03-02,1\n2025-03-03,abc\n", "csv"), /row 3: invalid amount/);
+  assert.throws(() => parseStatement("date,amount\nnot a date,1\n", "csv"), /invalid date/);
+});
+
+test("MT940: :61: entries with :86: details and reversals", () => {
+  const s = parseStatement(MT940);
+  assert.equal(s.format, "mt940");
+  assert.equal(s.statementRef, "STMT-0425");
+  assert.equal(s.accountId, "0123456789");
+  assert.equal(s.entries.length, 3);
+
+  const [credit, charge, reversal] = s.entries;
+  assert.equal(credit.bookingDate, "2025-03-02");
+  assert.equal(credit.amountKobo, BigInt(125000050));
+  assert.equal(credit.direction, "CREDIT");
+  assert.equal(credit.currency, "NGN");
+  assert.equal(credit.reference, "BFP-REF-1");
+  assert.equal(credit.bankRef, "TXN001");
+  assert.match(credit.narration, /^REPAYMENT DEAL 0XABC/);
+  assert.equal(credit.accountId, "0123456789");
+  assert.equal(credit.virtualAccount, "9012345678");   // ?31 subfield
+
+  assert.equal(charge.direction, "DEBIT");
+  assert.equal(charge.amountKobo, BigInt(5250));
+  assert.equal(charge.reference, null);        // NONREF
+  assert.equal(charge.narration, "MONTHLY CHARGE");
+
+  assert.equal(reversal.direction, "CREDIT");  // a reversed debit is money in
+  assert.equal(reversal.amountKobo, BigInt(100000));
+});
+
+test("MT940: the virtual account comes from ?31 or a VA: note", () => {
+  const s = parseStatement(":20:R\n:25:1\n:60F:C250302NGN0,\n:61:2503020302C5,NTRFREF//B\n:86:paid to VA: 9012345678\n");
+  assert.equal(s.entries[0].virtualAccount, "9012345678");
+  assert.throws(() => parseStatement(":20:R\n:61:garbage\n", "mt940"), /unreadable :61:/);
+});
+
+test("camt.053: entries, nested account IDs, references and reversals", () => {
+  const s = parseStatement(CAMT);
+  assert.equal(s.format, "camt053");
+  assert.equal(s.statementRef, "STMT-0425");
+  assert.equal(s.accountId, "0123456789");
+  assert.equal(s.entries.length, 2);
+
+  assert.deepEqual(s.entries[0], {
+    accountId: "0123456789", bookingDate: "2025-03-02", amountKobo: BigInt(125000050), direction: "CREDIT",
+    currency: "NGN", reference: "BFP-REF-1", narration: "Repayment & fee",
+    virtualAccount: "9012345678", bankRef: "TXN001",
+  });
+  assert.equal(s.entries[1].direction, "DEBIT");   // reversed credit
+  assert.equal(s.entries[1].bookingDate, "2025-03-03");
+  assert.equal(s.entries[1].narration, "Reversed credit");
+  assert.equal(s.entries[1].virtualAccount, null);
+});
+
+test("camt.053: namespaced prefixes are tolerated and gaps are errors", () => {
+  const prefixed = CAMT.replace(/<(\/?)(?!\?)/g, "<$1ns:");
+  assert.equal(parseStatement(prefixed, "camt053").entries[0].reference, "BFP-REF-1");
+  assert.throws(() => parseStatement("<Document>camt.053</Document>", "camt053"), /without a <Stmt>/);
+  assert.throws(() => parseStatement("<Stmt><Ntry><BookgDt><Dt>2025-03-02</Dt></BookgDt></Ntry></Stmt>", "camt053"), /without <Amt>/);
+});
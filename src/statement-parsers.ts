@@ -0,0 +1,245 @@
+/**
+ * Bank statement parsers — CSV, MT940 and camt.053
+ * Each format is reduced to StatementEntry rows. Amounts are kobo (NGN × 100)
+ * as bigint so nothing goes through floating point.
+ *
+ * CSV columns are matched by header name (case-insensitive):
+ *   date | booking_date | value_date
+ *   amount (signed) | credit + debit
+ *   reference | ref, narration | description | details
+ *   virtual_account | account, bank_ref | transaction_id, currency
+ */
+
+export type StatementFormat = "csv" | "mt940" | "camt053";
+
+export type StatementEntry = {
+  accountId:      string | null;   // our account the statement is for
+  bookingDate:    string;          // YYYY-MM-DD
+  amountKobo:     bigint;          // always positive
+  direction:      "CREDIT" | "DEBIT";
+  currency:       string;
+  reference:      string | null;
+  narration:      string;
+  virtualAccount: string | null;
+  bankRef:        string | null;
+};
+
+export type ParsedStatement = {
+  format:       StatementFormat;
+  accountId:    string | null;
+  statementRef: string | null;
+  entries:      StatementEntry[];
+};
+
+export class StatementParseError extends Error {}
+
+/** "1,250,000.5" / "1250000,50" → kobo. `decimalComma` for MT940 */
+export function toKobo(value: string, decimalComma = false): bigint {
+  let s = value.trim().replace(/\s/g, "");
+  s = decimalComma ? s.replace(/\./g, "").replace(",", ".") : s.replace(/,/g, "");
+  const m = s.match(/^(-)?(\d*)(?:\.(\d{0,2})\d*)?$/);
+  if (!m || (!m[2] && !m[3])) throw new StatementParseError(`invalid amount "${value}"`);
+  const kobo = BigInt(m[2] || "0") * BigInt(100) + BigInt((m[3] ?? "").padEnd(2, "0") || "0");
+  return m[1] ? -kobo : kobo;
+}
+
+export function detectFormat(content: string): StatementFormat {
+  const head = content.trimStart().slice(0, 500);
+  if (head.startsWith("<") && /camt\.053|BkToCstmrStmt/.test(content.slice(0, 2000))) return "camt053";
+  if (/^:20:|\n:20:|\{4:/.test(head)) return "mt940";
+  return "csv";
+}
+
+export function parseStatement(content: string, format?: StatementFormat): ParsedStatement {
+  const f = format ?? detectFormat(content);
+  if (f === "csv")     return parseCSV(content);
+  if (f === "mt940")   return parseMT940(content);
+  if (f === "camt053") return parseCamt053(content);
+  throw new StatementParseError(`unsupported format ${f}`);
+}
+
+// ─── CSV ──────────────────────────────────────────────────────────────────────
+
+function csvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = "", quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { row.push(field); field = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && content[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      if (row.some(c => c.trim() !== "")) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(c => c.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+/** DD/MM/YYYY, YYYY-MM-DD or DD-Mon-YYYY → YYYY-MM-DD */
+function isoDate(value: string): string {
+  const v = value.trim();
+  let m = v.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = v.match(/^(\d{1,2})[\/.](\d{1,2})[\/.](\d{4})$/);
+  if (m) return `${m[3]}-${m[2].padStart(2, "0")}-${m[1].padStart(2, "0")}`;
+  const d = new Date(v);
+  if (isNaN(d.getTime())) throw new StatementParseError(`invalid date "${value}"`);
+  return d.toISOString().slice(0, 10);
+}
+
+function parseCSV(content: string): ParsedStatement {
+  const rows = csvRows(content);
+  if (rows.length < 2) throw new StatementParseError("CSV needs a header row and at least one entry");
+  const header = rows[0].map(h => h.trim().toLowerCase().replace(/[\s-]+/g, "_"));
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+
+  const iDate = col("date", "booking_date", "transaction_date", "value_date");
+  const iAmt  = col("amount");
+  const iCr   = col("credit", "credit_amount");
+  const iDr   = col("debit", "debit_amount");
+  const iRef  = col("reference", "ref", "payment_reference");
+  const iNarr = col("narration", "description", "details", "remarks");
+  const iVa   = col("virtual_account", "virtual_account_number", "account");
+  const iBank = col("bank_ref", "transaction_id", "session_id");
+  const iCcy  = col("currency", "ccy");
+  if (iDate < 0 || (iAmt < 0 && iCr < 0)) throw new StatementParseError("CSV needs a date column and amount or credit/debit columns");
+
+  const entries: StatementEntry[] = rows.slice(1).map((r, n) => {
+    const cell = (i: number) => (i >= 0 ? (r[i] ?? "").trim() : "");
+    let amount: bigint;
+    try {
+      if (iAmt >= 0) amount = toKobo(cell(iAmt));
+      else amount = cell(iCr) ? toKobo(cell(iCr)) : -toKobo(cell(iDr) || "0");
+    } catch (err: any) {
+      throw new StatementParseError(`row ${n + 2}: ${err.message}`);
+    }
+    return {
+      accountId: null,
+      bookingDate: isoDate(cell(iDate)),
+      amountKobo: amount < BigInt(0) ? -amount : amount,
+      direction: amount < BigInt(0) ? "DEBIT" : "CREDIT",
+      currency: cell(iCcy) || "NGN",
+      reference: cell(iRef) || null,
+      narration: cell(iNarr),
+      virtualAccount: cell(iVa) || null,
+      bankRef: cell(iBank) || null,
+    };
+  });
+  return { format: "csv", accountId: null, statementRef: null, entries };
+}
+
+// ─── MT940 ────────────────────────────────────────────────────────────────────
+
+/** :61: value date YYMMDD, optional entry date MMDD, C/D/RC/RD, amount, type, reference//bank ref */
+const MT940_61 = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)N?([A-Z0-9]{3})?([^\/\n]*)(?:\/\/([^\n]*))?/;
+
+function parseMT940(content: string): ParsedStatement {
+  // Tags start a line with :NN[a]:, continuation lines belong to the previous tag
+  const tags: { tag: string; value: string }[] = [];
+  for (const line of content.replace(/\r/g, "").split("\n")) {
+    const m = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) tags.push({ tag: m[1], value: m[2] });
+    else if (tags.length && line.trim() && !line.startsWith("-}") && !line.startsWith("{")) tags[tags.length - 1].value += "\n" + line;
+  }
+
+  let accountId: string | null = null, statementRef: string | null = null, currency = "NGN";
+  const entries: StatementEntry[] = [];
+  for (const { tag, value } of tags) {
+    if (tag === "20") statementRef = value.trim();
+    else if (tag === "25") accountId = value.trim();
+    else if (tag === "60F" || tag === "60M") currency = value.slice(7, 10) || currency;
+    else if (tag === "61") {
+      const m = value.split("\n")[0].match(MT940_61);
+      if (!m) throw new StatementParseError(`unreadable :61: line "${value}"`);
+      const [, yymmdd, , mark, , amount, , ref, bankRef] = m;
+      const year = Number(yymmdd.slice(0, 2));
+      const credit = mark === "C" || mark === "RD";   // a reversed debit is money in
+      entries.push({
+        accountId,
+        bookingDate: `${year < 80 ? 2000 + year : 1900 + year}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`,
+        amountKobo: toKobo(amount, true),
+        direction: credit ? "CREDIT" : "DEBIT",
+        currency,
+        reference: ref?.trim() && ref.trim() !== "NONREF" ? ref.trim() : null,
+        narration: value.split("\n").slice(1).join(" ").trim(),
+        virtualAccount: null,
+        bankRef: bankRef?.trim() || null,
+      });
+    } else if (tag === "86" && entries.length) {
+      const last = entries[entries.length - 1];
+      last.narration = [last.narration, value.replace(/\n/g, " ").trim()].filter(Boolean).join(" ");
+      // Structured ?-subfields: ?20-?29 remittance info, ?31 counter account
+      const va = value.match(/\?31([0-9]{10})/) ?? value.match(/\bVA[:\s]*([0-9]{10})\b/i);
+      if (va) last.virtualAccount = va[1];
+    }
+  }
+  return { format: "mt940", accountId, statementRef, entries };
+}
+
+// ─── camt.053 ─────────────────────────────────────────────────────────────────
+// Deliberately small: reads the elements we match on from each <Ntry>, no XML
+// dependency. Namespaced prefixes (<ns:Ntry>) are tolerated.
+
+function tagText(xml: string, path: string[]): string | null {
+  let scope = xml;
+  for (const name of path) {
+    const m = scope.match(new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+    if (!m) return null;
+    scope = m[1];
+  }
+  return decodeXml(scope.trim());
+}
+
+function allBlocks(xml: string, name: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, "g");
+  return Array.from(xml.matchAll(re), m => m[1]);
+}
+
+/** IBAN or Othr/Id inside an account element — <Id> nests, so tagText can't walk it */
+function accountNumber(xml: string, container: string[]): string | null {
+  const outer = container.slice(0, -1).length ? tagText(xml, container.slice(0, -1)) : xml;
+  const acct  = outer !== null ? allBlocks(outer, container[container.length - 1])[0] : undefined;
+  const m = acct?.match(/<(?:\w+:)?(?:IBAN|Othr>\s*<(?:\w+:)?Id)>([^<]+)</);
+  return m ? decodeXml(m[1].trim()) : null;
+}
+
+function decodeXml(s: string): string {
+  return s.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+}
+
+function parseCamt053(content: string): ParsedStatement {
+  const stmt = allBlocks(content, "Stmt")[0];
+  if (!stmt) throw new StatementParseError("camt.053 without a <Stmt>");
+  const accountId = accountNumber(stmt, ["Acct"]);
+  const statementRef = tagText(stmt, ["Id"]);
+
+  const entries = allBlocks(stmt, "Ntry").map(ntry => {
+    const amt = ntry.match(/<(?:\w+:)?Amt[^>]*Ccy="([A-Z]{3})"[^>]*>([^<]+)</);
+    if (!amt) throw new StatementParseError("camt.053 entry without <Amt>");
+    const date = tagText(ntry, ["BookgDt", "Dt"]) ?? tagText(ntry, ["BookgDt", "DtTm"]) ?? tagText(ntry, ["ValDt", "Dt"]);
+    if (!date) throw new StatementParseError("camt.053 entry without a booking date");
+    const reversal = tagText(ntry, ["RvslInd"]) === "true";
+    const credit   = (tagText(ntry, ["CdtDbtInd"]) === "CRDT") !== reversal;
+    const ustrd    = allBlocks(ntry, "Ustrd").map(decodeXml).join(" ").trim();
+    return {
+      accountId,
+      bookingDate: date.slice(0, 10),
+      amountKobo: toKobo(amt[2]),
+      direction: credit ? "CREDIT" as const : "DEBIT" as const,
+      currency: amt[1],
+      reference: tagText(ntry, ["RmtInf", "Strd", "CdtrRefInf", "Ref"]) ?? tagText(ntry, ["Refs", "EndToEndId"]),
+      narration: ustrd || (tagText(ntry, ["AddtlNtryInf"]) ?? ""),
+      virtualAccount: accountNumber(ntry, ["RltdPties", "CdtrAcct"]),
+      bankRef: tagText(ntry, ["AcctSvcrRef"]) ?? tagText(ntry, ["Refs", "AcctSvcrRef"]),
+    };
+  });
+  return { format: "camt053", accountId, statementRef, entries };
+}
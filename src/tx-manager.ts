@@ -0,0 +1,500 @@
+/**
+ * Transaction manager
+ * Every contract write goes through submit(): an eth_call preflight that
+ * surfaces reverts decoded (api-errors.ts), per-signer nonce assignment,
+ * gas estimation with a safety margin, current fee data, and a row in
+ * tx_journal written before the broadcast. A monitor loop confirms receipts,
+ * bumps fees on transactions that sit unmined, and notices nonces consumed
+ * elsewhere.
+ *
+ * Routes hand back the journal's txId (202) and clients poll /api/tx/:id.
+ * Circle signers broadcast on their own, so they get journaled and tracked
+ * but have no nonce and cannot be sped up or cancelled.
+ */
+
+import crypto from "crypto";
+import { ethers, TransactionReceipt } from "ethers";
+import { pool } from "./db";
+import { SignerRegistry, isSelfBroadcasting } from "./signers";
+import { preflight } from "./api-errors";
+import { noteSubmittedTx } from "./idempotency";
+
+export type TxStatus = "SUBMITTED" | "CONFIRMED" | "REVERTED" | "CANCELLED" | "FAILED";
+
+export type TxRequest = {
+  to:       string;
+  data:     string;
+  value?:   bigint;
+  purpose:  string;           // e.g. createRFQ, usyc.approve
+  refId?:   string | null;    // deal / rfq id the tx acts on
+  gasLimit?: bigint;          // skip preflight and estimation (pipelined calls that would revert against current state)
+};
+
+export type SubmittedTx = { txId: string; txHash: string; gasLimit: string };
+
+type Broadcast = { hash: string; kind: "original" | "speed-up" | "cancel"; at: string };
+
+export type TxRecord = {
+  txId:        string;
+  signerId:    string;
+  from:        string;
+  nonce:       number | null;
+  purpose:     string;
+  refId:       string | null;
+  to:          string;
+  status:      TxStatus;
+  txHash:      string | null;
+  broadcasts:  Broadcast[];
+  gasLimit:    string | null;
+  receipt:     any;
+  result:      any;
+  error:       string | null;
+  createdAt:   string;
+  confirmedAt: string | null;
+};
+
+type Fees = { maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint; gasPrice?: bigint };
+
+/** Turns a mined receipt into the stored `result`; registered per contract address */
+export type ReceiptDecoder = (receipt: TransactionReceipt) => object;
+
+export type TxManagerOptions = {
+  gasMarginBPS?:  number;
+  monitorMs?:     number;
+  stuckAfterMs?:  number;
+  feeBumpBPS?:    number;
+  maxBumps?:      number;
+  confirmations?: number;
+};
+
+export async function createTxTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS tx_journal (
+      tx_id                    VARCHAR(36)  PRIMARY KEY,
+      signer_id                VARCHAR(64)  NOT NULL,
+      from_address             VARCHAR(42)  NOT NULL,
+      nonce                    BIGINT       NULL,
+      purpose                  VARCHAR(64)  NOT NULL,
+      ref_id                   VARCHAR(66)  NULL,
+      to_address               VARCHAR(42)  NOT NULL,
+      data                     MEDIUMTEXT   NOT NULL,
+      value                    VARCHAR(78)  NOT NULL DEFAULT '0',
+      gas_limit                VARCHAR(78)  NULL,
+      max_fee_per_gas          VARCHAR(78)  NULL,
+      max_priority_fee_per_gas VARCHAR(78)  NULL,
+      gas_price                VARCHAR(78)  NULL,
+      tx_hash                  VARCHAR(66)  NULL,
+      broadcasts               JSON         NOT NULL,
+      bumps                    INT          NOT NULL DEFAULT 0,
+      cancel_requested         TINYINT(1)   NOT NULL DEFAULT 0,
+      status                   VARCHAR(16)  NOT NULL,      -- SUBMITTED | CONFIRMED | REVERTED | CANCELLED | FAILED
+      receipt                  JSON         NULL,
+      result                   JSON         NULL,
+      error                    TEXT         NULL,
+      last_broadcast_at        TIMESTAMP    NULL,
+      confirmed_at             TIMESTAMP    NULL,
+      created_at               TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at               TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      KEY idx_tx_status (status),
+      KEY idx_tx_ref (ref_id),
+      KEY idx_tx_signer_nonce (from_address, nonce)
+    )`);
+}
+
+function toRecord(r: any): TxRecord {
+  const json = (v: any) => (v == null || typeof v !== "string" ? v : JSON.parse(v));
+  return {
+    txId:        r.tx_id,
+    signerId:    r.signer_id,
+    from:        r.from_address,
+    nonce:       r.nonce === null ? null : Number(r.nonce),
+    purpose:     r.purpose,
+    refId:       r.ref_id,
+    to:          r.to_address,
+    status:      r.status,
+    txHash:      r.tx_hash,
+    broadcasts:  json(r.broadcasts) ?? [],
+    gasLimit:    r.gas_limit,
+    receipt:     json(r.receipt),
+    result:      json(r.result),
+    error:       r.error,
+    createdAt:   new Date(r.created_at).toISOString(),
+    confirmedAt: r.confirmed_at ? new Date(r.confirmed_at).toISOString() : null,
+  };
+}
+
+const FINAL: TxStatus[] = ["CONFIRMED", "REVERTED", "CANCELLED", "FAILED"];
+
+export class TxManager {
+  signers:       SignerRegistry;
+  gasMarginBPS:  number;
+  monitorMs:     number;
+  stuckAfterMs:  number;
+  feeBumpBPS:    number;
+  maxBumps:      number;
+  confirmations: number;
+
+  private nonces  = new Map<string, number>();          // next nonce per address
+  private locks   = new Map<string, Promise<unknown>>(); // per-address submit queue
+  private waiters = new Map<string, { resolve: (r: TransactionReceipt) => void; reject: (e: Error) => void }[]>();
+  private decoders = new Map<string, ReceiptDecoder>();    // by lower-case `to` address
+  private timer:  NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(signers: SignerRegistry, opts: TxManagerOptions = {}) {
+    this.signers       = signers;
+    this.gasMarginBPS  = opts.gasMarginBPS  ?? Number(process.env.TX_GAS_MARGIN_BPS ?? 2000);
+    this.monitorMs     = opts.monitorMs     ?? Number(process.env.TX_MONITOR_MS ?? 3_000);
+    this.stuckAfterMs  = opts.stuckAfterMs  ?? Number(process.env.TX_STUCK_AFTER_MS ?? 120_000);
+    // Nodes reject replacements that raise fees by less than 10%
+    this.feeBumpBPS    = Math.max(opts.feeBumpBPS ?? Number(process.env.TX_FEE_BUMP_BPS ?? 1250), 1000);
+    this.maxBumps      = opts.maxBumps      ?? Number(process.env.TX_MAX_BUMPS ?? 5);
+    this.confirmations = opts.confirmations ?? Number(process.env.TX_CONFIRMATIONS ?? 1);
+  }
+
+  async start() {
+    await createTxTables();
+    console.log(`[TxManager] Monitoring every ${this.monitorMs / 1000}s | speed-up after ${this.stuckAfterMs / 1000}s | gas margin ${this.gasMarginBPS} bps`);
+    this.timer = setInterval(() => this.monitor(), this.monitorMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // ─── Submission ─────────────────────────────────────────────────────────────
+
+  /** Run `fn` after every earlier submission from the same address */
+  private serialize<T>(address: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.locks.get(address) ?? Promise.resolve();
+    const next = prev.catch(() => {}).then(fn);
+    this.locks.set(address, next);
+    return next;
+  }
+
+  private async nextNonce(signer: ethers.Signer, address: string): Promise<number> {
+    const known = this.nonces.get(address);
+    if (known !== undefined) return known;
+    return signer.provider!.getTransactionCount(address, "pending");
+  }
+
+  private async currentFees(signer: ethers.Signer): Promise<Fees> {
+    const fee = await signer.provider!.getFeeData();
+    if (fee.maxFeePerGas != null && fee.maxPriorityFeePerGas != null)
+      return { maxFeePerGas: fee.maxFeePerGas, maxPriorityFeePerGas: fee.maxPriorityFeePerGas };
+    return { gasPrice: fee.gasPrice ?? undefined };
+  }
+
+  /**
+   * Estimate, assign a nonce, journal and broadcast. Reverts surface here
+   * (from estimation) before a nonce is consumed. The row is written before
+   * the broadcast, so a transaction that reaches the network is always
+   * journaled; nothing after the broadcast throws.
+   */
+  async submit(signerId: string, req: TxRequest): Promise<SubmittedTx> {
+    const signer  = this.signers.get(signerId);
+    const from    = await signer.getAddress();
+    const value   = req.value ?? BigInt(0);
+
+    // Outside serialize() so a reverting call does not hold up the signer's queue
+    if (req.gasLimit === undefined) await preflight(signer, { from, to: req.to, data: req.data, value });
+
+    const sent = await this.serialize(from, async () => {
+      const gasLimit = req.gasLimit ?? (
+        await signer.estimateGas({ from, to: req.to, data: req.data, value })
+      ) * BigInt(10000 + this.gasMarginBPS) / BigInt(10000);
+
+      if (isSelfBroadcasting(signer)) {
+        // Circle only reports the hash once it has broadcast
+        const txId = await this.journal(signerId, from, null, req, gasLimit, {}, null);
+        let hash: string;
+        try {
+          hash = (await signer.sendTransaction({ to: req.to, data: req.data, value })).hash;
+        } catch (err) {
+          await this.markUnsent(txId, err);
+          throw err;
+        }
+        await this.recordHash(txId, hash);
+        return { txId, txHash: hash, gasLimit: gasLimit.toString() };
+      }
+
+      const nonce  = await this.nextNonce(signer, from);
+      const fees   = await this.currentFees(signer);
+      const signed = await signer.signTransaction(
+        await signer.populateTransaction({ to: req.to, data: req.data, value, nonce, gasLimit, ...fees })
+      );
+      const hash   = ethers.Transaction.from(signed).hash!;
+      const txId   = await this.journal(signerId, from, nonce, req, gasLimit, fees, hash);
+      try {
+        await signer.provider!.broadcastTransaction(signed);
+      } catch (err) {
+        // A timed-out broadcast may still have reached the node
+        if (!(await signer.provider!.getTransaction(hash).catch(() => null))) {
+          this.nonces.delete(from);   // re-read from the node next time
+          await this.markUnsent(txId, err);
+          throw err;
+        }
+      }
+      this.nonces.set(from, nonce + 1);
+
+      console.log(`[TxManager] ${req.purpose} ${txId} | ${from.slice(0, 10)} nonce ${nonce} | tx: ${hash}`);
+      return { txId, txHash: hash, gasLimit: gasLimit.toString() };
+    });
+    noteSubmittedTx(sent.txId, sent.txHash);
+    return sent;
+  }
+
+  private async journal(signerId: string, from: string, nonce: number | null, req: TxRequest,
+                        gasLimit: bigint, fees: Fees, hash: string | null): Promise<string> {
+    const txId = crypto.randomUUID();
+    const broadcasts: Broadcast[] = hash ? [{ hash, kind: "original", at: new Date().toISOString() }] : [];
+    await pool.execute(
+      `INSERT INTO tx_journal
+         (tx_id, signer_id, from_address, nonce, purpose, ref_id, to_address, data, value, gas_limit,
+          max_fee_per_gas, max_priority_fee_per_gas, gas_price, tx_hash, broadcasts, status, last_broadcast_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'SUBMITTED', NOW())`,
+      [txId, signerId, from, nonce, req.purpose, req.refId?.toLowerCase() ?? null, req.to, req.data,
+       (req.value ?? BigInt(0)).toString(), gasLimit.toString(),
+       fees.maxFeePerGas?.toString() ?? null, fees.maxPriorityFeePerGas?.toString() ?? null,
+       fees.gasPrice?.toString() ?? null, hash, JSON.stringify(broadcasts)]
+    );
+    return txId;
+  }
+
+  /** Hash of a self-broadcast transaction; logged rather than thrown, the transaction is out */
+  private async recordHash(txId: string, hash: string) {
+    const broadcasts: Broadcast[] = [{ hash, kind: "original", at: new Date().toISOString() }];
+    await pool.execute("UPDATE tx_journal SET tx_hash = ?, broadcasts = ? WHERE tx_id = ?", [hash, JSON.stringify(broadcasts), txId])
+      .catch(err => console.error(`[TxManager] ⚠️ ${txId} broadcast as ${hash} but not journaled:`, err));
+  }
+
+  /** The journaled transaction never reached the network */
+  private async markUnsent(txId: string, err: any) {
+    await pool.execute("UPDATE tx_journal SET status = 'FAILED', error = ? WHERE tx_id = ?",
+                       [`not broadcast: ${err?.shortMessage ?? err?.message ?? err}`, txId])
+      .catch(e => console.error(`[TxManager] ⚠️ could not mark ${txId} unsent:`, e));
+  }
+
+  /** Whether back-to-back submits from `signerId` are mined in order (we assign the nonces) */
+  ordersNonces(signerId: string): boolean {
+    return !isSelfBroadcasting(this.signers.get(signerId));
+  }
+
+  // ─── Waiting ────────────────────────────────────────────────────────────────
+
+  /** Resolves with the receipt of whichever broadcast was mined; rejects on revert, cancel or failure */
+  async wait(txId: string): Promise<TransactionReceipt> {
+    // Register first so a monitor pass finishing in between cannot be missed
+    const settled = new Promise<TransactionReceipt>((resolve, reject) => {
+      const list = this.waiters.get(txId) ?? [];
+      list.push({ resolve, reject });
+      this.waiters.set(txId, list);
+    });
+    const row = await this.get(txId);
+    if (!row) {
+      this.settle(txId, null, "unknown transaction " + txId);
+    } else if (row.status === "CONFIRMED") {
+      const provider = this.signers.get(row.signerId).provider!;
+      this.settle(txId, await provider.getTransactionReceipt(row.txHash!));
+    } else if (FINAL.includes(row.status)) {
+      this.settle(txId, null, `transaction ${row.status.toLowerCase()}: ${row.error ?? ""}`);
+    }
+    return settled;
+  }
+
+  /**
+   * Decode receipts of confirmed transactions sent to `address`. The monitor
+   * stores the result for every such tx, so /api/tx/:id shows it even when
+   * nothing in this process waited; a caller's saveResult replaces it.
+   */
+  registerDecoder(address: string, decode: ReceiptDecoder) {
+    this.decoders.set(address.toLowerCase(), decode);
+  }
+
+  /** Store the caller's decoded outcome next to the receipt */
+  async saveResult(txId: string, result: any) {
+    await pool.execute("UPDATE tx_journal SET result = ? WHERE tx_id = ?", [JSON.stringify(result), txId]);
+  }
+
+  private settle(txId: string, receipt: TransactionReceipt | null, error?: string) {
+    const list = this.waiters.get(txId) ?? [];
+    this.waiters.delete(txId);
+    for (const w of list) {
+      if (receipt && !error) w.resolve(receipt);
+      else w.reject(new Error(error ?? "transaction failed"));
+    }
+  }
+
+  // ─── Monitor ────────────────────────────────────────────────────────────────
+
+  async monitor() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const [rows] = await pool.query("SELECT * FROM tx_journal WHERE status = 'SUBMITTED' ORDER BY created_at");
+      for (const r of rows as any[]) {
+        try {
+          await this.check(r);
+        } catch (err: any) {
+          console.error(`[TxManager] ⚠️ check ${r.tx_id} failed: ${err.shortMessage ?? err.message}`);
+        }
+      }
+    } catch (err) {
+      console.error("[TxManager] monitor failed:", err);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async check(r: any) {
+    const row      = toRecord(r);
+    const provider = this.signers.get(row.signerId).provider!;
+
+    for (const b of row.broadcasts) {
+      const receipt = await provider.getTransactionReceipt(b.hash);
+      if (!receipt) continue;
+      if ((await receipt.confirmations()) < this.confirmations) return;
+      return this.finalize(row, b, receipt);
+    }
+
+    if (row.nonce !== null) {
+      const mined = await provider.getTransactionCount(row.from, "latest");
+      if (mined > row.nonce) {
+        // Our nonce is used but none of our hashes has a receipt (yet) — give receipts one stuck window to appear
+        if (Date.now() - new Date(r.last_broadcast_at).getTime() > this.stuckAfterMs)
+          await this.fail(row, `nonce ${row.nonce} was used by another transaction`);
+        return;
+      }
+      if (Date.now() - new Date(r.last_broadcast_at).getTime() > this.stuckAfterMs) {
+        if (r.bumps < this.maxBumps) await this.rebroadcast(r, r.cancel_requested ? "cancel" : "speed-up");
+        else if (r.bumps === this.maxBumps) console.log(`[TxManager] ⚠️ ${row.txId} still pending after ${r.bumps} fee bumps`);
+      }
+    }
+  }
+
+  private async finalize(row: TxRecord, b: Broadcast, receipt: TransactionReceipt) {
+    const status: TxStatus = receipt.status !== 1 ? "REVERTED" : b.kind === "cancel" ? "CANCELLED" : "CONFIRMED";
+    const summary = {
+      hash:              receipt.hash,
+      blockNumber:       receipt.blockNumber,
+      blockHash:         receipt.blockHash,
+      status:            receipt.status,
+      gasUsed:           receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+    };
+    const error = status === "CONFIRMED" ? null : status === "CANCELLED" ? "cancelled by replacement" : "reverted on-chain";
+    const decode = status === "CONFIRMED" ? this.decoders.get(row.to.toLowerCase()) : undefined;
+    let result: object | null = null;
+    try { result = decode ? decode(receipt) : null; } catch (err: any) {
+      console.error(`[TxManager] ⚠️ could not decode ${row.txId}: ${err.message}`);
+    }
+    await pool.execute(
+      `UPDATE tx_journal SET status = ?, tx_hash = ?, receipt = ?, result = COALESCE(?, result), error = ?, confirmed_at = NOW()
+       WHERE tx_id = ?`,
+      [status, receipt.hash, JSON.stringify(summary), result && JSON.stringify(result), error, row.txId]
+    );
+    console.log(`[TxManager] ${status === "CONFIRMED" ? "✅" : "❌"} ${row.purpose} ${row.txId} ${status} in block ${receipt.blockNumber}`);
+    this.settle(row.txId, receipt, error ?? undefined);
+  }
+
+  private async fail(row: TxRecord, error: string) {
+    await pool.execute("UPDATE tx_journal SET status = 'FAILED', error = ? WHERE tx_id = ?", [error, row.txId]);
+    console.error(`[TxManager] ❌ ${row.purpose} ${row.txId}: ${error}`);
+    this.settle(row.txId, null, error);
+  }
+
+  // ─── Replacement ────────────────────────────────────────────────────────────
+
+  private bump(old: string | null, current?: bigint): bigint | undefined {
+    if (old == null) return current;
+    const bumped = BigInt(old) * BigInt(10000 + this.feeBumpBPS) / BigInt(10000);
+    return current !== undefined && current > bumped ? current : bumped;
+  }
+
+  /**
+   * Re-send at the same nonce with higher fees — either the same call
+   * (speed-up) or a zero-value self-transfer (cancel).
+   */
+  private async rebroadcast(r: any, kind: "speed-up" | "cancel") {
+    const signer  = this.signers.get(r.signer_id);
+    const current = await this.currentFees(signer);
+    const fees: Fees = r.gas_price != null
+      ? { gasPrice: this.bump(r.gas_price, current.gasPrice) }
+      : { maxFeePerGas:         this.bump(r.max_fee_per_gas, current.maxFeePerGas),
+          maxPriorityFeePerGas: this.bump(r.max_priority_fee_per_gas, current.maxPriorityFeePerGas) };
+
+    const tx = kind === "cancel"
+      ? { to: r.from_address, data: "0x", value: BigInt(0), gasLimit: BigInt(21000) }
+      : { to: r.to_address, data: r.data, value: BigInt(r.value), gasLimit: BigInt(r.gas_limit) };
+    const signed = await signer.signTransaction(await signer.populateTransaction({ ...tx, nonce: Number(r.nonce), ...fees }));
+    const hash   = ethers.Transaction.from(signed).hash!;
+
+    // Journaled first, as in submit(); a hash that never made it out simply has no receipt
+    const broadcasts: Broadcast[] = toRecord(r).broadcasts;
+    broadcasts.push({ hash, kind, at: new Date().toISOString() });
+    await pool.execute(
+      `UPDATE tx_journal SET tx_hash = ?, broadcasts = ?, bumps = bumps + 1, max_fee_per_gas = ?,
+              max_priority_fee_per_gas = ?, gas_price = ?, last_broadcast_at = NOW() WHERE tx_id = ?`,
+      [hash, JSON.stringify(broadcasts), fees.maxFeePerGas?.toString() ?? null,
+       fees.maxPriorityFeePerGas?.toString() ?? null, fees.gasPrice?.toString() ?? null, r.tx_id]
+    );
+    await signer.provider!.broadcastTransaction(signed);
+    console.log(`[TxManager] ⚠️ ${kind} ${r.tx_id} nonce ${r.nonce} | tx: ${hash}`);
+  }
+
+  private async pendingRow(txId: string) {
+    const [rows] = await pool.query("SELECT * FROM tx_journal WHERE tx_id = ?", [txId]);
+    const r = (rows as any[])[0];
+    if (!r) throw new Error("unknown transaction " + txId);
+    if (r.status !== "SUBMITTED") throw new Error(`transaction is already ${r.status}`);
+    if (r.nonce === null) throw new Error("transaction was broadcast by its wallet provider and cannot be replaced");
+    return r;
+  }
+
+  /** Bump fees now instead of waiting for the stuck timeout */
+  async speedUp(txId: string) {
+    await this.rebroadcast(await this.pendingRow(txId), "speed-up");
+    return this.get(txId);
+  }
+
+  /** Replace with a zero-value self-transfer; later automatic bumps keep cancelling */
+  async cancel(txId: string) {
+    const r = await this.pendingRow(txId);
+    await pool.execute("UPDATE tx_journal SET cancel_requested = 1 WHERE tx_id = ?", [txId]);
+    await this.rebroadcast(r, "cancel");
+    return this.get(txId);
+  }
+
+  // ─── Queries ────────────────────────────────────────────────────────────────
+
+  async get(txId: string): Promise<TxRecord | null> {
+    const [rows] = await pool.query("SELECT * FROM tx_journal WHERE tx_id = ?", [txId]);
+    const r = (rows as any[])[0];
+    return r ? toRecord(r) : null;
+  }
+
+  /** The journalled tx that was broadcast as `txHash`, under any of its speed-ups */
+  async findByHash(txHash: string): Promise<TxRecord | null> {
+    const hash = txHash.toLowerCase();
+    const [rows] = await pool.query(
+      "SELECT * FROM tx_journal WHERE tx_hash = ? OR JSON_CONTAINS(broadcasts, JSON_OBJECT('hash', ?)) LIMIT 1",
+      [hash, hash]
+    );
+    const r = (rows as any[])[0];
+    return r ? toRecord(r) : null;
+  }
+
+  async list(filter: { signerIds: string[]; refId?: string; status?: string; limit?: number }): Promise<TxRecord[]> {
+    if (!filter.signerIds.length) return [];
+    const where = [`signer_id IN (${filter.signerIds.map(() => "?").join(",")})`];
+    const args: any[] = [...filter.signerIds];
+    if (filter.refId)  { where.push("ref_id = ?"); args.push(filter.refId.toLowerCase()); }
+    if (filter.status) { where.push("status = ?"); args.push(filter.status); }
+    const [rows] = await pool.query(
+      `SELECT * FROM tx_journal WHERE ${where.join(" AND ")} ORDER BY created_at DESC LIMIT ${Math.min(filter.limit ?? 50, 500)}`,
+      args
+    );
+    return (rows as any[]).map(toRecord);
+  }
+}
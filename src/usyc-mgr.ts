@@ -1,90 +1,242 @@
 import { ethers } from "ethers";
-import { Wallet, JsonRpcProvider, Contract, keccak256, toUtf8Bytes } from "ethers";
 import dotenv from 'dotenv';
+import { TxManager } from './tx-manager';
+import { Money, MoneyError, CURRENCIES } from './money';
+import { ApiError } from './api-errors';
 
 
 dotenv.config();
 
 // ====== ABI (minimal) ======
-const ABI = [
-
-  "function deployWalletForCustomer(string memory customerId, address owner, uint256 dailyLimit, uint256 maxTxAmount, address guardian) external returns (address wallet)",
-  "function predictWalletAddress(string memory customerId) external view returns (address predicted)",
-  "function getWallet(string memory customerId) external view returns (address)"
-
-  ];
-
 const USYC_TELLER_ABI = [
   "function deposit(uint256 _assets, address _receiver) returns (uint256)",
   "function redeem(uint256 _amount, address _receiver, address _account) returns (uint256)",
+  "function previewDeposit(uint256 _assets) view returns (uint256)",
+  "function previewRedeem(uint256 _amount) view returns (uint256)",
 ] ;
 
+// A teller deposit sent behind its approval cannot be estimated until the approval is mined
+const TELLER_DEPOSIT_GAS_LIMIT = BigInt(process.env.USYC_DEPOSIT_GAS_LIMIT ?? 300_000);
+
 // Minimal ERC20 ABI
 const ERC20_ABI = [
   "function balanceOf(address owner) view returns (uint256)",
   "function approve(address spender, uint256 amount) public returns (bool)",
-  "function allowance(address owner, address spender) external",
+  "function allowance(address owner, address spender) view returns (uint256)",
   "function decimals() view returns (uint8)"
 ];
 
+// ====== Types ======
+export type UsycAddresses = {
+  usdc:   string;   // deposit asset
+  usyc:   string;   // share token
+  teller: string;   // Hashnote teller
+};
+
+/**
+ * Amounts are base-unit integer strings; `display` fields are human-readable.
+ * Failures throw ApiError: VALIDATION_ERROR for bad input, INSUFFICIENT_BALANCE
+ * when the wallet is short, decoded revert codes from the teller.
+ */
+export type UsycSubmitted = {
+  txHash:        string;
+  trackingId:    string;        // tx_journal id — poll /api/tx/:id
+  approvalTxId:  string | null; // null when the existing allowance covered the amount
+};
+
+export type UsycPosition = {
+  address:     string;
+  usdc:        { balance: string; display: string; decimals: number };
+  usyc:        { balance: string; display: string; decimals: number };
+  usycValueUSDC: { amount: string; display: string };   // teller previewRedeem of the full USYC balance
+};
+
+export type UsycPreview = {
+  side:     'deposit' | 'redeem';
+  amountIn: string;
+  amountOut: string;
+  display:  string;
+};
+
+/**
+ * From env USDC_ADDRESS, USYC_ADDRESS, USYC_TELLER_ADDRESS only. The teller is
+ * approved as USDC spender for a managed signer, so it is never taken from a request.
+ */
+function usycAddresses(): UsycAddresses {
+  const pick = (env: string) => {
+    const a = process.env[env];
+    if (!a || !ethers.isAddress(a)) throw new ApiError('INTERNAL_ERROR', `${env} is not configured`);
+    return ethers.getAddress(a);
+  };
+  return {
+    usdc:   pick('USDC_ADDRESS'),
+    usyc:   pick('USYC_ADDRESS'),
+    teller: pick('USYC_TELLER_ADDRESS'),
+  };
+}
+
+/** Human decimal amount, e.g. "250.5" USDC → 250_500_000n */
+function parseAmount(amount: string, currency: 'USDC' | 'USYC'): bigint {
+  let v: Money;
+  try { v = Money.parse(currency, amount); } catch (err: any) {
+    throw new ApiError('VALIDATION_ERROR', err instanceof MoneyError ? err.message : `invalid amount ${amount}`);
+  }
+  if (v.isZero()) throw new ApiError('VALIDATION_ERROR', 'amount must be positive');
+  return v.units;
+}
+
+/**
+ * Amounts are parsed and formatted with the known decimals (USDC 6, USYC 18);
+ * a token reporting anything else is the wrong address, not a new scale.
+ */
+async function checkDecimals(runner: ethers.ContractRunner, token: string, currency: 'USDC' | 'USYC'): Promise<number> {
+  const reported = Number(await new ethers.Contract(token, ERC20_ABI, runner).decimals());
+  if (reported !== CURRENCIES[currency].decimals)
+    throw new ApiError('VALIDATION_ERROR', `${currency} at ${token} reports ${reported} decimals, expected ${CURRENCIES[currency].decimals}`);
+  return reported;
+}
 
+// ====== Deposit ======
+
+/**
+ * Deposit USDC into the USYC teller from signer `signerId` (see signers.ts).
+ * Approves first only when the allowance is short. When the TxManager orders
+ * the signer's nonces the deposit goes right behind the approval with an
+ * explicit gas limit; otherwise the approval is waited for. Returns once the
+ * deposit is submitted, with both tracking ids.
+ */
 export async function usycDeposit(
-  key: string,
-  tokenAddress: string,
-  rpcUrl: string,
-  contractAddress: string,
-  usyContractAddress: string,
+  txm: TxManager,
+  signerId: string,
   amount: string
-
-) {
-  try {
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const wallet = new ethers.Wallet(key, provider);
-    
-    // Get actual chain ID from the network
-    const network = await provider.getNetwork();
-   
-    console.log('=== NETWORK INFO ===');
-    console.log('Network name:', network.name);
-    console.log('Chain ID:', network.chainId);
-  
-    const contract = new ethers.Contract(contractAddress, USYC_TELLER_ABI, wallet);
-    const publicAddress = await wallet.getAddress();
-
-    console.log('\n=== WALLET INFO ===');
-    console.log('Public address:', publicAddress);
-    console.log('Contract address:', contractAddress);
-
-    const usdtAddress = ethers.getAddress(tokenAddress);
-    const usdtContract = new ethers.Contract(usdtAddress, ERC20_ABI, wallet);
-    const decimalNo = await usdtContract.decimals();
-
-    const amountInt = ethers.parseUnits(amount, decimalNo);
-    console.log(`\nApproving ${amount} USDT for deposit...`);
-    const approveTx = await usdtContract.approve(contractAddress, amountInt);
-    console.log('⏳ Approval transaction hash:', approveTx.hash);
-    await approveTx.wait();
-    console.log('✅ Approval confirmed.');
-
-    const tx = await contract.deposit(amountInt, publicAddress);
-    console.log("⏳ Transaction hash:", tx.hash);
-    await tx.wait();
-    console.log('\n✅ Tx deposited at:', tx);
-
-    const usycAddress = ethers.getAddress(usyContractAddress);
-    const usycContract = new ethers.Contract(usycAddress, ERC20_ABI, wallet);
-    const usycBalance = await usycContract.balanceOf(publicAddress);
-    console.log('USYC balance:', usycBalance);
-
-    return { success: true, message: 'SUCCESS', txId: tx.hash, code: '000' };
-
-  } catch (error: any) {
-    console.error('\n❌ ERROR:', error.message);
-    return { 
-      message: error.message || 'Transaction failed', 
-      txId: '', 
-      code: 'E999' 
-    };
+): Promise<UsycSubmitted & { amount: string; expectedShares: string }> {
+  const addrs  = usycAddresses();
+  const signer = txm.signers.get(signerId);
+  const owner  = await signer.getAddress();
+  const usdc   = new ethers.Contract(addrs.usdc, ERC20_ABI, signer);
+  const teller = new ethers.Contract(addrs.teller, USYC_TELLER_ABI, signer);
+
+  await checkDecimals(signer, addrs.usdc, 'USDC');
+  const amountInt = parseAmount(amount, 'USDC');
+  const balance   = await usdc.balanceOf(owner) as bigint;
+  if (balance < amountInt) throw new ApiError('INSUFFICIENT_BALANCE', `USDC balance ${balance} is below ${amountInt}`);
+
+  let approvalTxId: string | null = null;
+  let gasLimit: bigint | undefined;
+  const allowance = await usdc.allowance(owner, addrs.teller) as bigint;
+  if (allowance < amountInt) {
+    console.log(`\nApproving ${Money.of('USDC', amountInt).format()} for deposit...`);
+    const approveTx = await txm.submit(signerId, {
+      to: addrs.usdc, purpose: 'usyc.approve',
+      data: usdc.interface.encodeFunctionData('approve', [addrs.teller, amountInt]),
+    });
+    console.log('⏳ Approval transaction hash:', approveTx.txHash);
+    approvalTxId = approveTx.txId;
+    if (txm.ordersNonces(signerId)) {
+      gasLimit = TELLER_DEPOSIT_GAS_LIMIT;
+    } else {
+      await txm.wait(approveTx.txId);
+      console.log('✅ Approval confirmed.');
+    }
+  } else {
+    console.log(`Allowance ${allowance} covers ${amountInt} — skipping approval`);
   }
+
+  const expectedShares = await teller.previewDeposit(amountInt) as bigint;
+  const tx = await txm.submit(signerId, {
+    to: addrs.teller, purpose: 'usyc.deposit', gasLimit,
+    data: teller.interface.encodeFunctionData('deposit', [amountInt, owner]),
+  });
+  console.log("⏳ Transaction hash:", tx.txHash);
+
+  return {
+    txHash: tx.txHash, trackingId: tx.txId, approvalTxId,
+    amount: amountInt.toString(), expectedShares: expectedShares.toString(),
+  };
+}
+
+// ====== Redeem ======
+
+/**
+ * Redeem USYC back to USDC for signer `signerId`. `amount` is in USYC units,
+ * or 'all' for the full balance. Returns once the redeem is submitted.
+ */
+export async function usycRedeem(
+  txm: TxManager,
+  signerId: string,
+  amount: string | 'all'
+): Promise<UsycSubmitted & { amount: string; expectedAssets: string; full: boolean }> {
+  const addrs   = usycAddresses();
+  const signer  = txm.signers.get(signerId);
+  const owner   = await signer.getAddress();
+  const usyc    = new ethers.Contract(addrs.usyc, ERC20_ABI, signer);
+  const teller  = new ethers.Contract(addrs.teller, USYC_TELLER_ABI, signer);
+
+  const balance = await usyc.balanceOf(owner) as bigint;
+  const full    = amount === 'all';
+  await checkDecimals(signer, addrs.usyc, 'USYC');
+  const shares  = full ? balance : parseAmount(amount, 'USYC');
+  if (shares <= BigInt(0)) throw new ApiError('INSUFFICIENT_BALANCE', 'no USYC to redeem');
+  if (balance < shares) throw new ApiError('INSUFFICIENT_BALANCE', `USYC balance ${balance} is below ${shares}`);
+
+  const expectedAssets = await teller.previewRedeem(shares) as bigint;
+  const tx = await txm.submit(signerId, {
+    to: addrs.teller, purpose: full ? 'usyc.redeem-all' : 'usyc.redeem',
+    data: teller.interface.encodeFunctionData('redeem', [shares, owner, owner]),
+  });
+  console.log(`⏳ Redeeming ${shares} USYC → ~${expectedAssets} USDC | tx: ${tx.txHash}`);
+
+  return {
+    txHash: tx.txHash, trackingId: tx.txId, approvalTxId: null,
+    amount: shares.toString(), expectedAssets: expectedAssets.toString(), full,
+  };
 }
 
+// ====== Reads ======
+
+export async function usycPosition(
+  runner: ethers.ContractRunner,
+  address: string
+): Promise<UsycPosition> {
+  const addrs  = usycAddresses();
+  const usdc   = new ethers.Contract(addrs.usdc, ERC20_ABI, runner);
+  const usyc   = new ethers.Contract(addrs.usyc, ERC20_ABI, runner);
+  const teller = new ethers.Contract(addrs.teller, USYC_TELLER_ABI, runner);
+
+  const [usdcBal, usycBal, usdcDec, usycDec] = await Promise.all([
+    usdc.balanceOf(address) as Promise<bigint>,
+    usyc.balanceOf(address) as Promise<bigint>,
+    checkDecimals(runner, addrs.usdc, 'USDC'),
+    checkDecimals(runner, addrs.usyc, 'USYC'),
+  ]);
+  const value = usycBal > BigInt(0) ? await teller.previewRedeem(usycBal) as bigint : BigInt(0);
+
+  return {
+    address,
+    usdc: { balance: usdcBal.toString(), display: Money.of('USDC', usdcBal).format(), decimals: usdcDec },
+    usyc: { balance: usycBal.toString(), display: Money.of('USYC', usycBal).format(), decimals: usycDec },
+    usycValueUSDC: { amount: value.toString(), display: Money.of('USDC', value).format() },
+  };
+}
+
+/** Expected USYC for a USDC deposit, or USDC for a USYC redeem, at the teller's current price */
+export async function usycPreview(
+  runner: ethers.ContractRunner,
+  side: 'deposit' | 'redeem',
+  amount: string
+): Promise<UsycPreview> {
+  if (side !== 'deposit' && side !== 'redeem') throw new ApiError('VALIDATION_ERROR', `unknown preview side ${side}`);
+  const addrs   = usycAddresses();
+  const teller  = new ethers.Contract(addrs.teller, USYC_TELLER_ABI, runner);
+  const [inCcy, outCcy] = side === 'deposit' ? ['USDC', 'USYC'] as const : ['USYC', 'USDC'] as const;
+  await checkDecimals(runner, side === 'deposit' ? addrs.usdc : addrs.usyc, inCcy);
+  const amountIn  = parseAmount(amount, inCcy);
+  const amountOut = side === 'deposit'
+    ? await teller.previewDeposit(amountIn) as bigint
+    : await teller.previewRedeem(amountIn) as bigint;
+
+  return {
+    side, amountIn: amountIn.toString(), amountOut: amountOut.toString(),
+    display: `${Money.of(inCcy, amountIn).format()} → ${Money.of(outCcy, amountOut).format()}`,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Customer smart-wallet factory
+ * Predicts, deploys and looks up per-customer smart wallets. Each wallet has
+ * an owner, a daily and a per-transaction spending limit, and a guardian.
+ * A deployed wallet can be used as a borrower's BFPay address.
+ *
+ * The customerId → wallet mapping is kept in smart_wallets together with the
+ * deployment tx (tx_journal id and hash).
+ *
+ * Env: WALLET_FACTORY_ADDRESS, SMART_WALLET_DAILY_LIMIT, SMART_WALLET_MAX_TX,
+ *      SMART_WALLET_GUARDIAN, SMART_WALLET_LIMIT_DECIMALS (default 6, USDC)
+ */
+
+import { ethers } from "ethers";
+import { pool } from "./db";
+import { TxManager } from "./tx-manager";
+
+export const WALLET_FACTORY_ABI = [
+  "function deployWalletForCustomer(string memory customerId, address owner, uint256 dailyLimit, uint256 maxTxAmount, address guardian) external returns (address wallet)",
+  "function predictWalletAddress(string memory customerId) external view returns (address predicted)",
+  "function getWallet(string memory customerId) external view returns (address)",
+];
+
+export type SmartWalletStatus = "PENDING" | "DEPLOYED" | "FAILED";
+
+export type SmartWalletRecord = {
+  customerId:       string;
+  predictedAddress: string;
+  walletAddress:    string | null;
+  owner:            string;
+  dailyLimit:       string;   // base units
+  maxTxAmount:      string;   // base units
+  guardian:         string;
+  signerId:         string;
+  txId:             string | null;
+  txHash:           string | null;
+  status:           SmartWalletStatus;
+  error:            string | null;
+  createdAt:        Date;
+  updatedAt:        Date;
+};
+
+export type DeployParams = {
+  owner:        string;
+  dailyLimit?:  string;   // display units, e.g. "10000" USDC
+  maxTxAmount?: string;
+  guardian?:    string;
+};
+
+export class WalletFactoryError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+export async function createSmartWalletTable() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS smart_wallets (
+      customer_id        VARCHAR(128) PRIMARY KEY,
+      predicted_address  VARCHAR(42)  NOT NULL,
+      wallet_address     VARCHAR(42)  NULL,
+      owner              VARCHAR(42)  NOT NULL,
+      daily_limit        VARCHAR(78)  NOT NULL,
+      max_tx_amount      VARCHAR(78)  NOT NULL,
+      guardian           VARCHAR(42)  NOT NULL,
+      signer_id          VARCHAR(64)  NOT NULL,
+      tx_id              CHAR(36)     NULL,
+      tx_hash            VARCHAR(66)  NULL,
+      status             VARCHAR(16)  NOT NULL,      -- PENDING | DEPLOYED | FAILED
+      error              TEXT         NULL,
+      created_at         TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      updated_at         TIMESTAMP    DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      KEY idx_smart_wallet_address (wallet_address)
+    )`);
+}
+
+function rowToRecord(r: any): SmartWalletRecord {
+  return {
+    customerId: r.customer_id, predictedAddress: r.predicted_address, walletAddress: r.wallet_address,
+    owner: r.owner, dailyLimit: r.daily_limit, maxTxAmount: r.max_tx_amount, guardian: r.guardian,
+    signerId: r.signer_id, txId: r.tx_id, txHash: r.tx_hash, status: r.status, error: r.error,
+    createdAt: r.created_at, updatedAt: r.updated_at,
+  };
+}
+
+export async function getSmartWalletRecord(customerId: string): Promise<SmartWalletRecord | null> {
+  const [rows] = await pool.query("SELECT * FROM smart_wallets WHERE customer_id = ?", [customerId]);
+  const row = (rows as any[])[0];
+  return row ? rowToRecord(row) : null;
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class WalletFactoryService {
+  txm:      TxManager;
+  address:  string;
+  factory:  ethers.Contract;     // read-only
+  decimals: number;
+
+  constructor(txm: TxManager, provider: ethers.Provider, address = process.env.WALLET_FACTORY_ADDRESS ?? "") {
+    this.txm      = txm;
+    this.address  = address;
+    this.factory  = new ethers.Contract(address || ethers.ZeroAddress, WALLET_FACTORY_ABI, provider);
+    this.decimals = Number(process.env.SMART_WALLET_LIMIT_DECIMALS ?? 6);
+  }
+
+  get configured() {
+    return ethers.isAddress(this.address);
+  }
+
+  /** Create the table and keep watching deployments that were in flight at the last shutdown */
+  async start() {
+    await createSmartWalletTable();
+    if (!this.configured) {
+      console.log("[Wallet Factory] ⚠️  WALLET_FACTORY_ADDRESS not set — smart-wallet routes disabled");
+      return;
+    }
+    const [rows] = await pool.query("SELECT * FROM smart_wallets WHERE status = 'PENDING' AND tx_id IS NOT NULL");
+    for (const r of rows as any[]) this.track(r.customer_id, r.tx_id);
+    console.log(`[Wallet Factory] ready at ${this.address} | ${(rows as any[]).length} deployment(s) in flight`);
+  }
+
+  private assertConfigured() {
+    if (!this.configured) throw new WalletFactoryError(503, "wallet factory not configured (WALLET_FACTORY_ADDRESS)");
+  }
+
+  private checkCustomerId(customerId: string) {
+    if (!customerId || customerId.length > 128) throw new WalletFactoryError(400, "customerId required (max 128 chars)");
+  }
+
+  /** Counterfactual address — valid before and after deployment */
+  async predict(customerId: string): Promise<string> {
+    this.assertConfigured();
+    this.checkCustomerId(customerId);
+    return ethers.getAddress(await this.factory.predictWalletAddress(customerId));
+  }
+
+  /** On-chain wallet, or null if not deployed yet */
+  async onchainWallet(customerId: string): Promise<string | null> {
+    this.assertConfigured();
+    this.checkCustomerId(customerId);
+    const wallet: string = await this.factory.getWallet(customerId);
+    return wallet === ethers.ZeroAddress ? null : ethers.getAddress(wallet);
+  }
+
+  async lookup(customerId: string) {
+    const [predicted, deployed, record] = await Promise.all([
+      this.predict(customerId), this.onchainWallet(customerId), getSmartWalletRecord(customerId),
+    ]);
+    return { customerId, predictedAddress: predicted, walletAddress: deployed, deployed: deployed !== null, record };
+  }
+
+  private parseLimit(value: string | undefined, envName: string): bigint {
+    const raw = value ?? process.env[envName];
+    if (!raw) throw new WalletFactoryError(400, `${envName === "SMART_WALLET_DAILY_LIMIT" ? "dailyLimit" : "maxTxAmount"} required`);
+    let v: bigint;
+    try { v = ethers.parseUnits(String(raw), this.decimals); } catch { throw new WalletFactoryError(400, `invalid limit ${raw}`); }
+    if (v <= BigInt(0)) throw new WalletFactoryError(400, "limits must be positive");
+    return v;
+  }
+
+  private parseAddress(value: string | undefined, field: string): string {
+    if (!value || !ethers.isAddress(value)) throw new WalletFactoryError(400, `${field} must be an address`);
+    return ethers.getAddress(value);
+  }
+
+  /**
+   * Deploy the customer's wallet from signer `signerId`. Returns once the tx is
+   * submitted; the record moves to DEPLOYED or FAILED when it settles.
+   */
+  async deploy(signerId: string, customerId: string, params: DeployParams) {
+    this.assertConfigured();
+    this.checkCustomerId(customerId);
+
+    const owner       = this.parseAddress(params.owner, "owner");
+    const guardian    = this.parseAddress(params.guardian ?? process.env.SMART_WALLET_GUARDIAN, "guardian");
+    const dailyLimit  = this.parseLimit(params.dailyLimit, "SMART_WALLET_DAILY_LIMIT");
+    const maxTxAmount = this.parseLimit(params.maxTxAmount, "SMART_WALLET_MAX_TX");
+    if (maxTxAmount > dailyLimit) throw new WalletFactoryError(400, "maxTxAmount cannot exceed dailyLimit");
+    if (guardian === owner) throw new WalletFactoryError(400, "guardian must differ from owner");
+
+    const existing = await getSmartWalletRecord(customerId);
+    if (existing && existing.status !== "FAILED")
+      throw new WalletFactoryError(409, `wallet for ${customerId} is already ${existing.status.toLowerCase()}`);
+    const deployed = await this.onchainWallet(customerId);
+    if (deployed) throw new WalletFactoryError(409, `wallet for ${customerId} already deployed at ${deployed}`);
+
+    const predicted = await this.predict(customerId);
+    await pool.execute(
+      `INSERT INTO smart_wallets
+         (customer_id, predicted_address, owner, daily_limit, max_tx_amount, guardian, signer_id, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'PENDING')
+       ON DUPLICATE KEY UPDATE predicted_address = VALUES(predicted_address), owner = VALUES(owner),
+         daily_limit = VALUES(daily_limit), max_tx_amount = VALUES(max_tx_amount), guardian = VALUES(guardian),
+         signer_id = VALUES(signer_id), status = 'PENDING', tx_id = NULL, tx_hash = NULL, error = NULL`,
+      [customerId, predicted, owner, dailyLimit.toString(), maxTxAmount.toString(), guardian, signerId]
+    );
+
+    let tx;
+    try {
+      tx = await this.txm.submit(signerId, {
+        to:      this.address,
+        data:    this.factory.interface.encodeFunctionData("deployWalletForCustomer",
+                   [customerId, owner, dailyLimit, maxTxAmount, guardian]),
+        purpose: "factory.deployWallet",
+        refId:   customerId,
+      });
+    } catch (err: any) {
+      await this.fail(customerId, err);
+      throw err;
+    }
+
+    // Broadcast already — log rather than fail the request
+    await pool.execute("UPDATE smart_wallets SET tx_id = ?, tx_hash = ? WHERE customer_id = ?", [tx.txId, tx.txHash, customerId])
+      .catch(err => console.error(`[Wallet Factory] could not record tx ${tx.txId} for ${customerId}:`, err));
+    console.log(`[Wallet Factory] ⏳ deploying ${customerId} → ${predicted} | tx: ${tx.txHash}`);
+    this.track(customerId, tx.txId);
+    return { ...tx, customerId, predictedAddress: predicted };
+  }
+
+  private track(customerId: string, txId: string) {
+    this.txm.wait(txId).then(
+      async receipt => {
+        const wallet = await this.onchainWallet(customerId);
+        await pool.execute(
+          "UPDATE smart_wallets SET status = 'DEPLOYED', wallet_address = ?, tx_hash = ? WHERE customer_id = ?",
+          [wallet, receipt.hash, customerId]
+        );
+        console.log(`[Wallet Factory] ✅ ${customerId} deployed at ${wallet}`);
+      },
+      err => this.fail(customerId, err),
+    ).catch(err => console.error("[Wallet Factory]", err));
+  }
+
+  private async fail(customerId: string, err: any) {
+    const reason = err.reason ?? err.shortMessage ?? err.message;
+    await pool.execute("UPDATE smart_wallets SET status = 'FAILED', error = ? WHERE customer_id = ?", [reason, customerId]);
+    console.log(`[Wallet Factory] ❌ ${customerId}: ${reason}`);
+  }
+}
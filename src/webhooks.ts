@@ -0,0 +1,359 @@
+/**
+ * Outbound webhooks for deal lifecycle events
+ *
+ * Partners (by x-source-code) subscribe a URL to event types. Confirmed
+ * indexer events are routed to the partners party to the RFQ/deal, queued in
+ * webhook_deliveries and POSTed with an HMAC signature:
+ *
+ *   x-bfpay-signature: t=<unix ts>,v1=<hex HMAC_SHA256(secret, `${t}.${body}`)>
+ *
+ * Failed deliveries retry with exponential backoff; after WEBHOOK_MAX_ATTEMPTS
+ * they move to webhook_dead_letters and can be replayed.
+ *
+ * The borrower becomes a party when its RFQCreated event is consumed, before
+ * rfq.created is queued: the tx that emitted it is looked up in tx_journal and
+ * the clients listed on its signer are registered. RFQs created outside this
+ * API have no journal row and no borrower party.
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import { pool } from "./db";
+import { BFPayClient } from "./bfpay";
+import { BFPayIndexer, IndexedEvent } from "./indexer";
+import { encryptValue, decryptValue } from "./auth";
+
+/** Contract event → webhook event type */
+export const WEBHOOK_EVENTS: Record<string, string> = {
+  RFQCreated:      "rfq.created",
+  QuoteSubmitted:  "rfq.quote_submitted",
+  DealOpened:      "deal.opened",
+  FXRateLocked:    "deal.rate_locked",
+  USYCDeposited:   "deal.collateral_deposited",
+  USDCDeposited:   "deal.collateral_deposited",
+  PayoutConfirmed: "deal.payout_confirmed",
+  Repaid:          "deal.repayment_confirmed",
+  YieldOffset:     "deal.yield_offset",
+  MarginCall:      "deal.margin_call",
+  Liquidated:      "deal.liquidated",
+};
+export const WEBHOOK_EVENT_TYPES = Array.from(new Set([...Object.values(WEBHOOK_EVENTS), "deal.margin_call_reminder", "deal.payout_failed"]));
+
+const MAX_ATTEMPTS    = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8);
+const BACKOFF_BASE_MS = Number(process.env.WEBHOOK_BACKOFF_BASE_MS ?? 5_000);
+const BACKOFF_MAX_MS  = Number(process.env.WEBHOOK_BACKOFF_MAX_MS ?? 60 * 60_000);
+const TIMEOUT_MS      = Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10_000);
+
+export type WebhookSubscription = {
+  id:         number;
+  clientId:   string;
+  sourceCode: string;
+  url:        string;
+  eventTypes: string[];   // ["*"] for everything
+  active:     boolean;
+};
+
+export async function createWebhookTables() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+      id           BIGINT AUTO_INCREMENT PRIMARY KEY,
+      client_id    VARCHAR(64)   NOT NULL,
+      source_code  VARCHAR(64)   NOT NULL,
+      url          VARCHAR(512)  NOT NULL,
+      secret_enc   TEXT          NOT NULL,
+      event_types  VARCHAR(1024) NOT NULL,
+      active       TINYINT(1)    NOT NULL DEFAULT 1,
+      created_at   TIMESTAMP     DEFAULT CURRENT_TIMESTAMP,
+      KEY idx_sub_source (source_code)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_parties (
+      rfq_id       VARCHAR(66)  NOT NULL,
+      source_code  VARCHAR(64)  NOT NULL,
+      role         VARCHAR(16)  NOT NULL,       -- borrower | lender
+      PRIMARY KEY (rfq_id, source_code)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id               BIGINT AUTO_INCREMENT PRIMARY KEY,
+      subscription_id  BIGINT       NOT NULL,
+      event_key        VARCHAR(160) NOT NULL,
+      event_type       VARCHAR(64)  NOT NULL,
+      payload          JSON         NOT NULL,
+      status           VARCHAR(16)  NOT NULL,   -- PENDING | DELIVERED | DEAD
+      attempts         INT          NOT NULL DEFAULT 0,
+      next_attempt_at  DATETIME     NOT NULL,
+      last_status_code INT          NULL,
+      last_error       TEXT         NULL,
+      delivered_at     DATETIME     NULL,
+      created_at       TIMESTAMP    DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_delivery (subscription_id, event_key),
+      KEY idx_delivery_due (status, next_attempt_at)
+    )`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+      id               BIGINT AUTO_INCREMENT PRIMARY KEY,
+      delivery_id      BIGINT       NOT NULL,
+      subscription_id  BIGINT       NOT NULL,
+      event_type       VARCHAR(64)  NOT NULL,
+      payload          JSON         NOT NULL,
+      attempts         INT          NOT NULL,
+      last_error       TEXT         NULL,
+      replayed_at      DATETIME     NULL,
+      created_at       TIMESTAMP    DEFAULT CURRENT_TIMESTAMP
+    )`);
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function rowToSubscription(r: any): WebhookSubscription {
+  return {
+    id:         Number(r.id),
+    clientId:   r.client_id,
+    sourceCode: r.source_code,
+    url:        r.url,
+    eventTypes: String(r.event_types).split(","),
+    active:     !!r.active,
+  };
+}
+
+// ─── Subscriptions ────────────────────────────────────────────────────────────
+
+/** Returns the signing secret once; only the encrypted copy is stored */
+export async function createSubscription(clientId: string, sourceCode: string, url: string, eventTypes: string[]) {
+  const bad = eventTypes.filter(t => t !== "*" && !WEBHOOK_EVENT_TYPES.includes(t));
+  if (bad.length) throw new Error("unknown event type(s): " + bad.join(","));
+  if (!/^https?:\/\//.test(url)) throw new Error("url must be http(s)");
+
+  const secret = crypto.randomBytes(32).toString("hex");
+  const [res]  = await pool.execute(
+    `INSERT INTO webhook_subscriptions (client_id, source_code, url, secret_enc, event_types) VALUES (?, ?, ?, ?, ?)`,
+    [clientId, sourceCode, url, encryptValue(secret), (eventTypes.length ? eventTypes : ["*"]).join(",")]
+  );
+  return { id: (res as any).insertId as number, url, eventTypes, secret };
+}
+
+export async function listSubscriptions(clientId: string): Promise<WebhookSubscription[]> {
+  const [rows] = await pool.query("SELECT * FROM webhook_subscriptions WHERE client_id = ? ORDER BY id", [clientId]);
+  return (rows as any[]).map(rowToSubscription);
+}
+
+export async function deactivateSubscription(clientId: string, id: number): Promise<boolean> {
+  const [res] = await pool.execute(
+    "UPDATE webhook_subscriptions SET active = 0 WHERE id = ? AND client_id = ?", [id, clientId]
+  );
+  return (res as any).affectedRows > 0;
+}
+
+/** Record that a partner is party to an RFQ (and the deal it becomes) */
+export async function registerParty(rfqId: string, sourceCode: string | null, role: "borrower" | "lender") {
+  if (!sourceCode) return;
+  await pool.execute(
+    "INSERT IGNORE INTO webhook_parties (rfq_id, source_code, role) VALUES (?, ?, ?)",
+    [rfqId.toLowerCase(), sourceCode, role]
+  );
+}
+
+// ─── Dispatcher ───────────────────────────────────────────────────────────────
+
+/** Source codes of the API clients that sent `txHash` from `from`; empty for txs sent elsewhere */
+export type SubmitterParties = (txHash: string, from: string) => Promise<string[]>;
+
+export class WebhookDispatcher {
+  client:  BFPayClient;
+  pollMs:  number;
+  submitterParties: SubmitterParties;
+
+  private timer:   NodeJS.Timeout | null = null;
+  private busy     = false;
+  private dealRfq  = new Map<string, string>();   // dealId → rfqId cache
+
+  constructor(client: BFPayClient, opts: { pollMs?: number; submitterParties?: SubmitterParties } = {}) {
+    this.client = client;
+    this.pollMs = opts.pollMs ?? Number(process.env.WEBHOOK_POLL_MS ?? 5_000);
+    this.submitterParties = opts.submitterParties ?? (async () => []);
+  }
+
+  async start(indexer: BFPayIndexer) {
+    await createWebhookTables();
+    await indexer.consume("webhooks", Object.keys(WEBHOOK_EVENTS), (ev: IndexedEvent) => this.onEvent(ev));
+    this.timer = setInterval(() => this.deliverDue(), this.pollMs);
+    console.log(`[Webhook] Dispatcher started | max ${MAX_ATTEMPTS} attempts`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async rfqIdForDeal(dealId: string): Promise<string | null> {
+    const key    = dealId.toLowerCase();
+    const cached = this.dealRfq.get(key);
+    if (cached) return cached;
+    const deal = await this.client.getDeal(dealId);
+    if (!deal) return null;
+    this.dealRfq.set(key, deal.rfqId.toLowerCase());
+    return deal.rfqId.toLowerCase();
+  }
+
+  private async rfqIdFor(ev: IndexedEvent): Promise<string | null> {
+    if (ev.eventName === "RFQCreated" || ev.eventName === "QuoteSubmitted") return ev.refId;
+    return this.rfqIdForDeal(ev.refId);
+  }
+
+  async onEvent(ev: IndexedEvent) {
+    const type = WEBHOOK_EVENTS[ev.eventName];
+    if (!type) return;
+    const rfqId = await this.rfqIdFor(ev);
+    if (!rfqId) return;
+    if (ev.eventName === "RFQCreated") {
+      // A throw halts this consumer until the next pass, so rfq.created is never queued without its borrower
+      for (const sourceCode of await this.submitterParties(ev.txHash, ev.args.borrower))
+        await registerParty(rfqId, sourceCode, "borrower");
+    }
+
+    const isRfqEvent = ev.eventName === "RFQCreated" || ev.eventName === "QuoteSubmitted";
+    await this.publish(rfqId, type, `${ev.txHash}:${ev.logIndex}`, {
+      ...(isRfqEvent ? { rfqId } : { dealId: ev.refId, rfqId }),
+      ...ev.args,
+      txHash:      ev.txHash,
+      blockNumber: ev.blockNumber,
+    });
+  }
+
+  /** Queue `type` for every active subscription of every party to `rfqId` */
+  async publish(rfqId: string, type: string, eventKey: string, data: Record<string, any>) {
+    const [rows] = await pool.query(
+      `SELECT s.* FROM webhook_subscriptions s
+         JOIN webhook_parties p ON p.source_code = s.source_code
+       WHERE p.rfq_id = ? AND s.active = 1`,
+      [rfqId.toLowerCase()]
+    );
+    const subs = (rows as any[]).map(rowToSubscription)
+      .filter(s => s.eventTypes.includes("*") || s.eventTypes.includes(type));
+
+    for (const sub of subs) {
+      const payload = { id: `${sub.id}:${eventKey}`, type, createdAt: new Date().toISOString(), data };
+      await pool.execute(
+        `INSERT IGNORE INTO webhook_deliveries (subscription_id, event_key, event_type, payload, status, next_attempt_at)
+         VALUES (?, ?, ?, ?, 'PENDING', NOW())`,
+        [sub.id, eventKey, type, JSON.stringify(payload)]
+      );
+    }
+    if (subs.length) this.deliverDue();
+  }
+
+  async deliverDue() {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      const [rows] = await pool.query(
+        `SELECT d.*, s.url, s.secret_enc FROM webhook_deliveries d
+           JOIN webhook_subscriptions s ON s.id = d.subscription_id
+         WHERE d.status = 'PENDING' AND d.next_attempt_at <= NOW() AND s.active = 1
+         ORDER BY d.id LIMIT 50`
+      );
+      for (const d of rows as any[]) await this.attempt(d);
+    } catch (err) {
+      console.error("[Webhook] delivery pass failed:", err);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async attempt(d: any) {
+    const body      = typeof d.payload === "string" ? d.payload : JSON.stringify(d.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signPayload(decryptValue(d.secret_enc), timestamp, body);
+    const attempts  = Number(d.attempts) + 1;
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const resp = await axios.post(d.url, body, {
+        timeout: TIMEOUT_MS,
+        headers: {
+          "Content-Type":      "application/json",
+          "x-bfpay-event":     d.event_type,
+          "x-bfpay-delivery":  String(d.id),
+          "x-bfpay-signature": `t=${timestamp},v1=${signature}`,
+        },
+        validateStatus: () => true,
+      });
+      statusCode = resp.status;
+      if (resp.status >= 200 && resp.status < 300) {
+        await pool.execute(
+          "UPDATE webhook_deliveries SET status = 'DELIVERED', attempts = ?, last_status_code = ?, delivered_at = NOW() WHERE id = ?",
+          [attempts, statusCode, d.id]
+        );
+        return;
+      }
+      error = `HTTP ${resp.status}`;
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await pool.execute(
+        "UPDATE webhook_deliveries SET status = 'DEAD', attempts = ?, last_status_code = ?, last_error = ? WHERE id = ?",
+        [attempts, statusCode, error, d.id]
+      );
+      await pool.execute(
+        `INSERT INTO webhook_dead_letters (delivery_id, subscription_id, event_type, payload, attempts, last_error)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [d.id, d.subscription_id, d.event_type, body, attempts, error]
+      );
+      console.warn(`[Webhook] ❌ Delivery #${d.id} dead-lettered after ${attempts} attempts: ${error}`);
+      return;
+    }
+
+    // Exponential backoff with ±20% jitter
+    const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+    const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+    await pool.execute(
+      `UPDATE webhook_deliveries SET attempts = ?, last_status_code = ?, last_error = ?,
+         next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND) WHERE id = ?`,
+      [attempts, statusCode, error, Math.ceil(delayMs / 1000), d.id]
+    );
+  }
+}
+
+// ─── Delivery log / replay ────────────────────────────────────────────────────
+
+export async function listDeliveries(clientId: string, status?: string, limit = 100) {
+  const [rows] = await pool.query(
+    `SELECT d.id, d.subscription_id, d.event_type, d.status, d.attempts, d.last_status_code, d.last_error,
+            d.next_attempt_at, d.delivered_at, d.created_at, d.payload
+       FROM webhook_deliveries d JOIN webhook_subscriptions s ON s.id = d.subscription_id
+     WHERE s.client_id = ? ${status ? "AND d.status = ?" : ""}
+     ORDER BY d.id DESC LIMIT ${Math.min(limit, 500)}`,
+    status ? [clientId, status] : [clientId]
+  );
+  return rows as any[];
+}
+
+export async function listDeadLetters(clientId: string) {
+  const [rows] = await pool.query(
+    `SELECT l.* FROM webhook_dead_letters l JOIN webhook_subscriptions s ON s.id = l.subscription_id
+     WHERE s.client_id = ? ORDER BY l.id DESC LIMIT 500`,
+    [clientId]
+  );
+  return rows as any[];
+}
+
+/** Put a delivery (dead or delivered) back in the queue with a fresh attempt budget */
+export async function replayDelivery(clientId: string, deliveryId: number): Promise<boolean> {
+  const [res] = await pool.execute(
+    `UPDATE webhook_deliveries d JOIN webhook_subscriptions s ON s.id = d.subscription_id
+        SET d.status = 'PENDING', d.attempts = 0, d.next_attempt_at = NOW(), d.last_error = NULL
+      WHERE d.id = ? AND s.client_id = ?`,
+    [deliveryId, clientId]
+  );
+  if ((res as any).affectedRows === 0) return false;
+  await pool.execute(
+    "UPDATE webhook_dead_letters SET replayed_at = NOW() WHERE delivery_id = ? AND replayed_at IS NULL", [deliveryId]
+  );
+  return true;
+}